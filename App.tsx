@@ -1,160 +1,1271 @@
 
-import React, { useEffect, useMemo, useState, useCallback } from "react";
-import { OutlineItem, ScriptBlock, SEOResult, LoadingStates } from './types';
+import React, { useEffect, useMemo, useState, useCallback, useRef } from "react";
+import { OutlineItem, ScriptBlock, SEOResult, LoadingStates, ProviderInfo, Project, ProjectData, JobState, JobStatus, RepetitionFinding, BookMetadata, BookProfile, SourceDocument, SpeakingRate, OutputLanguage, UiLocale, PromptPreset, PipelineStage, PipelineStamps, Storyboard, StoryboardScene, ThumbnailLayout, ShortClip, BatchItem, NarrationAudio, NarrationSettings, ApiKeyEntry, KeyHealth, UsageRecord, CacheMode } from './types';
 import * as geminiService from './services/geminiService';
-import { Card, Empty, LoadingOverlay } from './components/ui';
+import * as projectStore from './services/projectStore';
+import { runJobs } from './services/jobRunner';
+import { allocateChars, syncOutline } from './services/outlineUtils';
+import { addVersion, currentText, restoreVersion } from './services/scriptBlocks';
+import { applyStructure, createContinuityGate, findRepetitions } from './services/continuity';
+import { buildQuoteIndex, cleanScriptMarkup, reviewScript } from './services/scriptReview';
+import { buildSourceIndex, passagesForOutlineItem } from './services/retrieval';
+import { parseSourceFile } from './services/sourceParser';
+import { buildCues, splitSentences, toSrt, toVtt } from './services/subtitles';
+import { buildScriptDocx, toCsv, toTeleprompterMarkdown } from './services/scriptExport';
+import { DEFAULT_PRESET_ID, FitAdjustment, NARRATOR_PRESETS, blockMinutes, charsForMinutes, charsPerMinute, durationBadge, findPreset, planAutoFit } from './services/duration';
+import { emptyProjectData, isProfileFor, parseProjectFile, toProjectFile } from './services/projectFile';
+import { DEFAULT_OUTPUT_LANGUAGE, OUTPUT_LANGUAGES, formatNumber, languageInfo } from './services/language';
+import { BUILT_IN_PRESETS, DEFAULT_PRESET, findPromptPreset, parseTemplatePack, toTemplatePack, validateTemplates } from './services/promptTemplates';
+import { buildTimestamps } from './services/youtubeSeo';
+import { DEFAULT_SCENE_SECONDS, MAX_SCENE_SECONDS, MIN_SCENE_SECONDS, ScenePlan, planScenes, sceneClipName, toEdl, toStoryboardJson, toTimecode } from './services/storyboard';
+import { FRAME_RATIOS, defaultLayout } from './services/thumbnail';
+import { SHORTS_PER_CHAPTER, ShortHeadings, rankShorts, sentenceRange, shortBudget, toShortMarkdown, toShortsJson } from './services/shorts';
+import { generateProjectOutline, generateProjectProfile, generateVisuals, mergeRewrite, runBookPipeline, writeScriptBlock } from './services/bookPipeline';
+import { BatchBook, buildBatchZip, logEvent, newBatchItem, restoreQueue } from './services/batch';
+import { RateLimiter, createRateLimiter } from './services/rateLimiter';
+import { createKeyRing } from './services/keyRing';
+import { UsageEvent, newUsageRecord } from './services/usage';
+import { createResponseCache } from './services/responseCache';
+import { SealedVault, VaultSession, createVaultSession, parseSealedVault, sealVault, unlockVault } from './services/keyVault';
+import { DEFAULT_NARRATION, buildNarrationZip, isNarrationFresh, narrateText, narrationChapters, narrationStamp } from './services/narration';
+import { PIPELINE_STAGES, PipelineArtifacts, pipelineStatus, stampStage, staleInputs } from './services/pipeline';
+import { CATALOGS, DEFAULT_UI_LOCALE, MessageKey, UI_LOCALES, createTranslator, isUiLocale } from './services/i18n';
+import { Button, Card, Empty, LoadingOverlay, ProviderBadge } from './components/ui';
+import { ProjectLibrary } from './components/ProjectLibrary';
+import { OutlineEditor } from './components/OutlineEditor';
+import { ScriptBlockCard, StreamingBlockCard } from './components/ScriptBlockCard';
+import { ExportMenu } from './components/ExportMenu';
+import { DurationTimeline } from './components/DurationTimeline';
+import { SourceLibrary } from './components/SourceLibrary';
+import { BookProfileCard } from './components/BookProfileCard';
+import { PromptTemplateEditor, presetLabel } from './components/PromptTemplateEditor';
+import { PipelinePanel } from './components/PipelinePanel';
+import { SeoPanel } from './components/SeoPanel';
+import { StoryboardView } from './components/StoryboardView';
+import { ThumbnailComposer } from './components/ThumbnailComposer';
+import { ShortsPanel } from './components/ShortsPanel';
+import { BatchPanel } from './components/BatchPanel';
+import { NarrationPanel } from './components/NarrationPanel';
+import { KeyVaultPanel, VaultStatus } from './components/KeyVaultPanel';
+import { UsagePanel } from './components/UsagePanel';
+import { ScriptReviewPanel, ISSUE_LABELS, formatDeviation } from './components/ScriptReviewPanel';
 
 const INITIAL_LOADING_STATES: LoadingStates = {
   outline: false,
   seo: false,
   script: false,
   prompts: false,
+  cover: false,
+  translate: false,
+  pipeline: false,
+  storyboard: false,
+  shorts: false,
+  narration: false,
+  profile: false,
 };
 
-interface ButtonProps {
-  children?: React.ReactNode;
-  onClick?: () => void;
-  disabled?: boolean;
-  className?: string;
-}
+const JOB_STATUS_LABELS: Record<JobStatus, MessageKey> = {
+  pending: 'job.pending',
+  running: 'job.running',
+  done: 'job.done',
+  failed: 'job.failed',
+};
+
+const JOB_STATUS_STYLES: Record<JobStatus, string> = {
+  pending: 'border-sky-900/60 text-sky-500',
+  running: 'border-sky-500 text-sky-200 animate-pulse',
+  done: 'border-green-700/60 text-green-300',
+  failed: 'border-red-700/60 text-red-300',
+};
+
+const VIEW_LABELS: Record<'editor' | 'batch' | 'usage', MessageKey> = {
+  editor: 'app.viewEditor',
+  batch: 'app.viewBatch',
+  usage: 'app.viewUsage',
+};
+
+const TASK_LABELS: Record<keyof LoadingStates, MessageKey> = {
+  outline: 'task.outline',
+  seo: 'task.seo',
+  script: 'task.script',
+  prompts: 'task.prompts',
+  cover: 'task.cover',
+  translate: 'task.translate',
+  pipeline: 'task.pipeline',
+  storyboard: 'task.storyboard',
+  shorts: 'task.shorts',
+  narration: 'task.narration',
+  profile: 'task.profile',
+};
+
+// Frame rate of the storyboard timecodes (CSV and EDL).
+const STORYBOARD_FPS = 30;
+
+// Pipeline stages reuse the loading flags of their manual buttons, so overlays and the stop button still apply.
+const STAGE_LOADING: Record<PipelineStage, keyof LoadingStates> = {
+  outline: 'outline',
+  script: 'script',
+  seo: 'seo',
+  visuals: 'prompts',
+};
 
-const Button: React.FC<ButtonProps> = ({ children, onClick, disabled, className }) => (
-  <button
-    className={`inline-flex items-center justify-center gap-2 rounded-lg border border-sky-800 bg-sky-900/40 px-3 py-2 text-sm font-semibold transition hover:bg-sky-900/60 disabled:opacity-50 disabled:cursor-not-allowed ${className || ''}`}
-    onClick={onClick}
-    disabled={disabled}
-  >
-    {children}
-  </button>
-);
+const AUTO_FIT_TOLERANCE = 0.05;
+const AUTO_FIT_PASSES = 3;
+
+// New projects are named after the UI locale; any locale's placeholder name is replaced by the book title on save.
+const isUntitled = (name: string) => Object.values(CATALOGS).some(c => c['project.untitled'] === name);
 
 export default function App() {
+  const [uiLocale, setUiLocale] = useState<UiLocale>(() => {
+    const stored = localStorage.getItem("nd_ui_locale");
+    return isUiLocale(stored) ? stored : DEFAULT_UI_LOCALE;
+  });
+  const t = useMemo(() => createTranslator(uiLocale), [uiLocale]);
+
   const [bookTitle, setBookTitle] = useState("");
   const [bookImage, setBookImage] = useState<string | null>(null);
+  const [bookMetadata, setBookMetadata] = useState<BookMetadata | null>(null);
+  const [bookProfile, setBookProfile] = useState<BookProfile | null>(null);
   const [frameRatio, setFrameRatio] = useState("9:16");
+  const [outputLanguage, setOutputLanguage] = useState<OutputLanguage>(DEFAULT_OUTPUT_LANGUAGE);
+  const [promptPreset, setPromptPreset] = useState(DEFAULT_PRESET.id);
   const [durationMin, setDurationMin] = useState(240);
   const [chaptersCount, setChaptersCount] = useState(12);
+  const [narratorPreset, setNarratorPreset] = useState(DEFAULT_PRESET_ID);
+  const [speakingRate, setSpeakingRate] = useState<SpeakingRate>(findPreset(DEFAULT_PRESET_ID)!.rate);
+  const [includeIntro, setIncludeIntro] = useState(true);
+  const [includeOutro, setIncludeOutro] = useState(true);
 
   // API Management State
   const [selectedModel, setSelectedModel] = useState("gemini-3-pro-preview");
   const [showApiManager, setShowApiManager] = useState(true); // Default open to set keys if needed
-  const [apiKeyGemini, setApiKeyGemini] = useState("");
-  const [apiKeyOpenAI, setApiKeyOpenAI] = useState("");
+  // Encrypted key vault: only the sealed form is stored; entries are null while locked.
+  const [sealedVault, setSealedVault] = useState<SealedVault | null>(() => parseSealedVault(localStorage.getItem("nd_key_vault")));
+  const [vaultEntries, setVaultEntries] = useState<ApiKeyEntry[] | null>(null);
+  const vaultSession = useRef<VaultSession | null>(null);
+  // Plaintext keys saved by older versions; used until the vault is created, then moved into it.
+  const [legacyKeys, setLegacyKeys] = useState<ApiKeyEntry[]>(() => ([['gemini', "nd_gemini_api_key"], ['openai', "nd_openai_api_key"]] as const).flatMap(([provider, name]) => {
+    const key = localStorage.getItem(name);
+    return key ? [{ id: crypto.randomUUID(), provider, label: provider === 'gemini' ? 'Gemini' : 'OpenAI', key }] : [];
+  }));
+  const [keyHealth, setKeyHealth] = useState<Record<string, KeyHealth>>(() => {
+    try {
+      return JSON.parse(localStorage.getItem("nd_key_health") || "{}");
+    } catch {
+      return {};
+    }
+  });
 
   const [outline, setOutline] = useState<OutlineItem[]>([]);
   const [seo, setSeo] = useState<SEOResult | null>(null);
   const [scriptBlocks, setScriptBlocks] = useState<ScriptBlock[]>([]);
   const [videoPrompts, setVideoPrompts] = useState<string[]>([]);
   const [thumbTextIdeas, setThumbTextIdeas] = useState<string[]>([]);
+  const [sources, setSources] = useState<SourceDocument[]>([]);
+  const [parsingSources, setParsingSources] = useState(false);
+  const [pipelineStamps, setPipelineStamps] = useState<PipelineStamps>({});
+  const [storyboard, setStoryboard] = useState<Storyboard | null>(null);
+  const [sceneSeconds, setSceneSeconds] = useState(DEFAULT_SCENE_SECONDS);
+  const [thumbnail, setThumbnail] = useState<ThumbnailLayout | null>(null);
+  const [shorts, setShorts] = useState<ShortClip[]>([]);
+  const [narration, setNarration] = useState<NarrationSettings>(DEFAULT_NARRATION);
+  // Chapter audio of the open project, by block index; loaded from the project store, not part of ProjectData.
+  const [narrationAudio, setNarrationAudio] = useState<Map<number, NarrationAudio>>(new Map());
+  const [narratingBlocks, setNarratingBlocks] = useState<Record<number, boolean>>({});
+  const [pipelineJobs, setPipelineJobs] = useState<Partial<Record<PipelineStage, JobState>>>({});
+  const [view, setView] = useState<'editor' | 'batch' | 'usage'>('editor');
+  // Every request of every project, for the usage dashboard.
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>([]);
+  const [cacheMode, setCacheMode] = useState<CacheMode>(() => (localStorage.getItem("nd_cache_mode") as CacheMode) || 'off');
+  // Not persisted: a refresh is meant for the next few actions, not for every later session.
+  const [forceRefresh, setForceRefresh] = useState(false);
+  const [cachedCount, setCachedCount] = useState(0);
+  // Batch queue; persisted so it survives a reload. The ref always holds the latest queue for the running loop.
+  const [batchQueue, setBatchQueueState] = useState<BatchItem[]>(() => {
+    try {
+      return restoreQueue(JSON.parse(localStorage.getItem("nd_batch_queue") || "[]"));
+    } catch {
+      return [];
+    }
+  });
+  const batchQueueRef = useRef(batchQueue);
+  const [batchRunning, setBatchRunning] = useState(false);
+  const [batchRpm, setBatchRpm] = useState(() => Number(localStorage.getItem("nd_batch_rpm")) || 10);
+  const batchAbort = useRef<AbortController | null>(null);
+  // Custom prompt presets are shared by all projects, so they live outside the project data.
+  const [customPresets, setCustomPresets] = useState<PromptPreset[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem("nd_prompt_presets") || "[]");
+    } catch {
+      return [];
+    }
+  });
 
   const [loading, setLoading] = useState<LoadingStates>(INITIAL_LOADING_STATES);
   const [error, setError] = useState<string | null>(null);
+  // Non-fatal warnings, e.g. fewer chapters than requested.
+  const [notices, setNotices] = useState<string[]>([]);
+  // Script job runner
+  const [blockJobs, setBlockJobs] = useState<Record<number, JobState>>({});
+  const [scriptConcurrency, setScriptConcurrency] = useState(2);
+  const scriptAbort = useRef<AbortController | null>(null);
+  // Runs that can overlap the script job each get their own Stop.
+  const storyboardAbort = useRef<AbortController | null>(null);
+  const shortsAbort = useRef<AbortController | null>(null);
+  const narrationAbort = useRef<AbortController | null>(null);
+  const [busyBlocks, setBusyBlocks] = useState<Record<number, boolean>>({});
+  // Text of blocks still being streamed, by block index; each can be stopped early and keep what arrived.
+  const [streamingText, setStreamingText] = useState<Record<number, string>>({});
+  const blockStops = useRef(new Map<number, AbortController>());
+  const [repetitions, setRepetitions] = useState<RepetitionFinding[] | null>(null);
+  const [reviewOpen, setReviewOpen] = useState(false);
+
+  const [providerUsed, setProviderUsed] = useState<Partial<Record<keyof LoadingStates, ProviderInfo>>>({});
+
+  // Project library
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const skipNextSave = useRef(false);
+  // The debounced save not yet written; flushed when the editor moves to another project or unmounts.
+  const pendingSave = useRef<(() => Promise<void>) | null>(null);
+
+  const totalCharsTarget = useMemo(() => charsForMinutes(durationMin, speakingRate, outputLanguage), [durationMin, speakingRate, outputLanguage]);
+  const allPresets = useMemo(() => [...BUILT_IN_PRESETS, ...customPresets], [customPresets]);
+  const activePreset = findPromptPreset(allPresets, promptPreset);
+  const sourceIndex = useMemo(() => buildSourceIndex(sources), [sources]);
+  const sourceChunks = useMemo(() => new Map(sourceIndex.chunks.map(c => [c.id, c])), [sourceIndex]);
+  const chapterChars = useMemo(() => allocateChars(outline, totalCharsTarget), [outline, totalCharsTarget]);
+  // The review follows every edit while open; the source shingles are only built then.
+  const quoteIndex = useMemo(() => reviewOpen ? buildQuoteIndex(sourceIndex.chunks, sourceIndex.docNames) : undefined, [reviewOpen, sourceIndex]);
+  const scriptReview = useMemo(() => reviewOpen ? reviewScript(scriptBlocks, outline, chapterChars, quoteIndex) : null, [reviewOpen, scriptBlocks, outline, chapterChars, quoteIndex]);
+  // Finished blocks plus chapters still streaming their first version, in chapter order.
+  const scriptRows = useMemo(() => {
+    const indices = new Set([...scriptBlocks.map(b => b.index), ...Object.keys(streamingText).map(Number)]);
+    return [...indices].sort((a, b) => a - b).map(index => ({ index, block: scriptBlocks.find(b => b.index === index) }));
+  }, [scriptBlocks, streamingText]);
+  // Measured narration lengths replace the estimate for chapters whose voice-over is up to date.
+  const narrationTimes = useMemo(() => narrationChapters(scriptBlocks, narrationAudio, narration, speakingRate), [scriptBlocks, narrationAudio, narration, speakingRate]);
+  const chapterTimestamps = useMemo(() => buildTimestamps(narrationTimes), [narrationTimes]);
+
+  // The fact sheet only applies while the title still names the book it was made for.
+  const activeProfile = bookProfile && isProfileFor(bookProfile, bookTitle) ? bookProfile : null;
+
+  const projectData = useMemo<ProjectData>(() => ({
+    bookTitle, bookImage, bookMetadata, bookProfile, durationMin, chaptersCount, frameRatio, outputLanguage, promptPreset, narratorPreset, speakingRate, includeIntro, includeOutro,
+    outline, scriptBlocks, seo, videoPrompts, thumbTextIdeas, sources, pipelineStamps, storyboard, sceneSeconds, thumbnail, shorts, narration,
+  }), [bookTitle, bookImage, bookMetadata, bookProfile, durationMin, chaptersCount, frameRatio, outputLanguage, promptPreset, narratorPreset, speakingRate, includeIntro, includeOutro, outline, scriptBlocks, seo, videoPrompts, thumbTextIdeas, sources, pipelineStamps, storyboard, sceneSeconds, thumbnail, shorts, narration]);
 
-  const totalCharsTarget = useMemo(() => durationMin * 1000, [durationMin]);
+  const artifacts = useMemo<PipelineArtifacts>(() => ({ outline, scriptBlocks, seo, videoPrompts, thumbTextIdeas }), [outline, scriptBlocks, seo, videoPrompts, thumbTextIdeas]);
+  const stageStatus = useMemo(() => pipelineStatus(artifacts, pipelineStamps), [artifacts, pipelineStamps]);
 
-  // Load keys from localStorage on mount
+  const applyProjectData = (data: ProjectData) => {
+    skipNextSave.current = true;
+    setBookTitle(data.bookTitle);
+    setBookImage(data.bookImage);
+    setBookMetadata(data.bookMetadata);
+    setBookProfile(data.bookProfile);
+    setDurationMin(data.durationMin);
+    setChaptersCount(data.chaptersCount);
+    setFrameRatio(data.frameRatio);
+    setOutputLanguage(data.outputLanguage);
+    setPromptPreset(data.promptPreset);
+    setNarratorPreset(data.narratorPreset);
+    setSpeakingRate(data.speakingRate);
+    setIncludeIntro(data.includeIntro);
+    setIncludeOutro(data.includeOutro);
+    setOutline(data.outline);
+    setScriptBlocks(data.scriptBlocks);
+    setSeo(data.seo);
+    setVideoPrompts(data.videoPrompts);
+    setThumbTextIdeas(data.thumbTextIdeas);
+    setSources(data.sources);
+    setPipelineStamps(data.pipelineStamps);
+    setStoryboard(data.storyboard);
+    setSceneSeconds(data.sceneSeconds);
+    setThumbnail(data.thumbnail);
+    setShorts(data.shorts);
+    setNarration(data.narration);
+    setPipelineJobs({});
+    setProviderUsed({});
+    setBlockJobs({});
+    setRepetitions(null);
+    setReviewOpen(false);
+    setError(null);
+    setNotices([]);
+  };
+
+  const refreshProjects = useCallback(async () => {
+    setProjects(await projectStore.listProjects());
+  }, []);
+
+  const openProject = async (project: Project) => {
+    const audio = await projectStore.listNarration(project.id);
+    applyProjectData(project.data);
+    setNarrationAudio(new Map(audio.map(a => [a.block, a])));
+    setCurrentProjectId(project.id);
+    localStorage.setItem("nd_current_project_id", project.id);
+  };
+
+  // Open the last used project (or start a fresh one) on mount
   useEffect(() => {
-    const storedGeminiKey = localStorage.getItem("nd_gemini_api_key");
-    const storedOpenAIKey = localStorage.getItem("nd_openai_api_key");
-    if (storedGeminiKey) setApiKeyGemini(storedGeminiKey);
-    if (storedOpenAIKey) setApiKeyOpenAI(storedOpenAIKey);
+    (async () => {
+      try {
+        const all = await projectStore.listProjects();
+        const lastId = localStorage.getItem("nd_current_project_id");
+        const project = all.find(p => p.id === lastId) ?? all[0] ?? await projectStore.createProject(t('project.untitled'), emptyProjectData());
+        await openProject(project);
+        await refreshProjects();
+      } catch (err) {
+        console.error("Cannot open project library:", err);
+        setError(t('project.libraryUnavailable'));
+      }
+    })();
   }, []);
 
-  const handleSaveKeys = () => {
-    localStorage.setItem("nd_gemini_api_key", apiKeyGemini);
-    localStorage.setItem("nd_openai_api_key", apiKeyOpenAI);
-    alert("Đã lưu API Key thành công vào trình duyệt!");
-    setShowApiManager(false);
+  // Autosave the current project shortly after any change
+  useEffect(() => {
+    if (!currentProjectId) return;
+    if (skipNextSave.current) {
+      skipNextSave.current = false;
+      return;
+    }
+    const save = async () => {
+      pendingSave.current = null;
+      setSaving(true);
+      try {
+        const project = await projectStore.getProject(currentProjectId);
+        if (!project) return;
+        const name = isUntitled(project.name) && projectData.bookTitle ? projectData.bookTitle : project.name;
+        await projectStore.updateProjectData({ ...project, name }, projectData);
+        await refreshProjects();
+      } catch (err) {
+        console.error("Autosave failed:", err);
+        setError(t('project.saveFailed', { error: err instanceof Error ? err.message : String(err) }));
+      } finally {
+        setSaving(false);
+      }
+    };
+    pendingSave.current = save;
+    const timer = setTimeout(save, 800);
+    return () => clearTimeout(timer);
+  }, [projectData, currentProjectId]);
+
+  useEffect(() => () => {
+    pendingSave.current?.();
+  }, [currentProjectId]);
+
+  const reportProjectError = (err: unknown) => {
+    console.error("Project action failed:", err);
+    setError(t('project.actionFailed', { error: err instanceof Error ? err.message : String(err) }));
+  };
+
+  const handleOpenProject = async (id: string) => {
+    if (id === currentProjectId) return;
+    // The batch writes to this project while it runs; autosave from the editor would overwrite it.
+    if (batchQueueRef.current.some(item => item.status === 'running' && item.projectId === id)) {
+      setError(t('batch.projectBusy'));
+      return;
+    }
+    try {
+      const project = await projectStore.getProject(id);
+      if (project) await openProject(project);
+    } catch (err) {
+      reportProjectError(err);
+    }
+  };
+
+  const handleCreateProject = async () => {
+    try {
+      const project = await projectStore.createProject(t('project.untitled'), emptyProjectData());
+      await openProject(project);
+      await refreshProjects();
+    } catch (err) {
+      reportProjectError(err);
+    }
+  };
+
+  const handleRenameProject = async (id: string) => {
+    const current = projects.find(p => p.id === id);
+    const name = prompt(t('project.renamePrompt'), current?.name)?.trim();
+    if (!name) return;
+    try {
+      await projectStore.renameProject(id, name);
+      await refreshProjects();
+    } catch (err) {
+      reportProjectError(err);
+    }
+  };
+
+  const handleDuplicateProject = async (id: string) => {
+    try {
+      const copy = await projectStore.duplicateProject(id);
+      if (copy) await openProject(copy);
+      await refreshProjects();
+    } catch (err) {
+      reportProjectError(err);
+    }
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    const target = projects.find(p => p.id === id);
+    if (!confirm(t('project.deleteConfirm', { name: target?.name ?? '' }))) return;
+    try {
+      await projectStore.deleteProject(id);
+      const remaining = await projectStore.listProjects();
+      if (id === currentProjectId) {
+        await openProject(remaining[0] ?? await projectStore.createProject(t('project.untitled'), emptyProjectData()));
+      }
+      await refreshProjects();
+    } catch (err) {
+      reportProjectError(err);
+    }
+  };
+
+  const handleExportProject = async (id: string) => {
+    const project = id === currentProjectId
+      ? { name: projects.find(p => p.id === id)?.name ?? bookTitle, data: projectData }
+      : await projectStore.getProject(id);
+    if (!project) return;
+    const file = toProjectFile(project.name, project.data);
+    downloadFile(`duan_${geminiService.slugify(project.name)}.json`, JSON.stringify(file, null, 2), 'application/json');
+  };
+
+  const handleImportProject = async (file: File) => {
+    try {
+      const { name, data } = parseProjectFile(await file.text());
+      const project = await projectStore.createProject(name, data);
+      await openProject(project);
+      await refreshProjects();
+    } catch (err) {
+      setError(t('project.importFailed', { error: err instanceof Error ? err.message : String(err) }));
+    }
+  };
+
+  const vaultStatus: VaultStatus = !sealedVault ? 'none' : vaultEntries ? 'unlocked' : 'locked';
+
+  const recordKeyHealth = (id: string, health: KeyHealth) => {
+    setKeyHealth(prev => {
+      const next = { ...prev, [id]: health };
+      localStorage.setItem("nd_key_health", JSON.stringify(next));
+      return next;
+    });
+  };
+
+  const responseCache = useMemo(() => createResponseCache(cacheMode, forceRefresh), [cacheMode, forceRefresh]);
+
+  const recordUsage = (projectId: string, task: string, event: UsageEvent) => {
+    const record = newUsageRecord(projectId, task, event);
+    setUsageRecords(prev => [...prev, record]);
+    projectStore.addUsage(record).catch(err => console.error("Cannot record usage:", err));
+  };
+
+  useEffect(() => {
+    projectStore.listUsage().then(setUsageRecords).catch(err => console.error("Cannot load usage:", err));
+  }, []);
+
+  useEffect(() => {
+    if (view === 'usage') projectStore.countCachedResponses().then(setCachedCount).catch(() => setCachedCount(0));
+  }, [view]);
+
+  const handleChangeCacheMode = (mode: CacheMode) => {
+    setCacheMode(mode);
+    setForceRefresh(false);
+    localStorage.setItem("nd_cache_mode", mode);
+  };
+
+  const handleClearCache = async () => {
+    if (!confirm(t('usage.clearCacheConfirm'))) return;
+    await projectStore.clearResponseCache();
+    setCachedCount(0);
+  };
+
+  const handleClearUsage = async () => {
+    if (!confirm(t('usage.clearConfirm'))) return;
+    await projectStore.clearUsage();
+    setUsageRecords([]);
+  };
+
+  // Every request rotates through the unlocked vault keys (or the legacy keys before a vault exists).
+  const keyRing = useMemo(() => createKeyRing(vaultEntries ?? (sealedVault ? [] : legacyKeys), keyHealth, recordKeyHealth), [vaultEntries, sealedVault, legacyKeys, keyHealth]);
+
+  const storeVault = async (entries: ApiKeyEntry[]) => {
+    if (!vaultSession.current) return;
+    const sealed = await sealVault(entries, vaultSession.current);
+    localStorage.setItem("nd_key_vault", JSON.stringify(sealed));
+    setSealedVault(sealed);
+    setVaultEntries(entries);
+  };
+
+  const handleCreateVault = async (passphrase: string) => {
+    vaultSession.current = await createVaultSession(passphrase);
+    await storeVault(legacyKeys);
+    localStorage.removeItem("nd_gemini_api_key");
+    localStorage.removeItem("nd_openai_api_key");
+    setLegacyKeys([]);
   };
 
+  const handleUnlockVault = async (passphrase: string) => {
+    if (!sealedVault) return;
+    const { entries, session } = await unlockVault(sealedVault, passphrase);
+    vaultSession.current = session;
+    setVaultEntries(entries);
+  };
+
+  const handleLockVault = () => {
+    vaultSession.current = null;
+    setVaultEntries(null);
+  };
+
+  const handleResetVault = () => {
+    if (!confirm(t('vault.resetConfirm'))) return;
+    localStorage.removeItem("nd_key_vault");
+    localStorage.removeItem("nd_key_health");
+    vaultSession.current = null;
+    setSealedVault(null);
+    setVaultEntries(null);
+    setKeyHealth({});
+  };
+
+  const handleAddKey = (entry: Omit<ApiKeyEntry, 'id'>) => storeVault([...(vaultEntries ?? []), { ...entry, id: crypto.randomUUID() }]);
+
+  const handleRemoveKey = (id: string) => storeVault((vaultEntries ?? []).filter(e => e.id !== id));
+
+  // Moves a key past its neighbour of the same provider; other providers' keys keep their places.
+  const handleMoveKey = (id: string, offset: -1 | 1) => {
+    const entries = [...(vaultEntries ?? [])];
+    const from = entries.findIndex(e => e.id === id);
+    const sameProvider = entries.map((e, i) => e.provider === entries[from].provider ? i : -1).filter(i => i >= 0);
+    const to = sameProvider[sameProvider.indexOf(from) + offset];
+    if (to === undefined) return;
+    [entries[from], entries[to]] = [entries[to], entries[from]];
+    storeVault(entries);
+  };
+
+  const handleClearKeyHealth = (id: string) => {
+    setKeyHealth(({ [id]: _, ...rest }) => {
+      localStorage.setItem("nd_key_health", JSON.stringify(rest));
+      return rest;
+    });
+  };
+
+  const saveCustomPresets = (next: PromptPreset[]) => {
+    setCustomPresets(next);
+    localStorage.setItem("nd_prompt_presets", JSON.stringify(next));
+  };
+
+  const handleDuplicatePreset = (id: string) => {
+    const source = findPromptPreset(allPresets, id);
+    const copy: PromptPreset = { id: crypto.randomUUID(), name: t('templates.copyName', { name: presetLabel(source, t) }), templates: { ...source.templates } };
+    saveCustomPresets([...customPresets, copy]);
+    setPromptPreset(copy.id);
+  };
+
+  const handleUpdatePreset = (preset: PromptPreset) => {
+    saveCustomPresets(customPresets.map(p => p.id === preset.id ? preset : p));
+  };
+
+  const handleDeletePreset = (id: string) => {
+    const target = customPresets.find(p => p.id === id);
+    if (!target || !confirm(t('templates.deleteConfirm', { name: target.name }))) return;
+    saveCustomPresets(customPresets.filter(p => p.id !== id));
+    if (promptPreset === id) setPromptPreset(DEFAULT_PRESET.id);
+  };
+
+  const handleImportTemplates = async (file: File) => {
+    try {
+      const imported = parseTemplatePack(await file.text());
+      saveCustomPresets([...customPresets, ...imported]);
+      if (imported.length) setPromptPreset(imported[0].id);
+    } catch (err) {
+      setError(t('templates.importFailed', { error: err instanceof Error ? err.message : String(err) }));
+    }
+  };
+
+  const handleExportTemplates = () => {
+    downloadFile(`mau_prompt_${new Date().toISOString().slice(0, 10)}.json`, JSON.stringify(toTemplatePack(customPresets), null, 2), 'application/json');
+  };
+
+  const handleUploadSources = async (files: File[]) => {
+    setParsingSources(true);
+    setError(null);
+    const failures: string[] = [];
+    for (const file of files) {
+      try {
+        const doc = await parseSourceFile(file);
+        setSources(prev => [...prev, doc]);
+      } catch (err) {
+        console.error(`Cannot parse ${file.name}:`, err);
+        failures.push(err instanceof Error ? err.message : `${file.name}: ${String(err)}`);
+      }
+    }
+    setParsingSources(false);
+    if (failures.length) setError(t('error.sourcesFailed', { errors: failures.join(' ') }));
+  };
+
+  const handleRemoveSource = (id: string) => setSources(prev => prev.filter(d => d.id !== id));
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
     const reader = new FileReader();
-    reader.onload = () => setBookImage(reader.result as string);
+    reader.onload = () => {
+      setBookImage(reader.result as string);
+      setBookMetadata(null);
+    };
     reader.readAsDataURL(file);
   };
 
-  const withErrorHandling = <T extends any[], R>(fn: (...args: T) => Promise<R>, key: keyof LoadingStates) => {
+  // Checked before anything is sent, so a broken preset shows which template to fix rather than a raw render error.
+  const templateProblem = (): string | null => {
+    const issues = validateTemplates(activePreset.templates);
+    return issues.length ? t('templates.invalid', { name: presetLabel(activePreset, t), issues: issues.map(i => `[${i.template}] ${i.message}`).join(' ') }) : null;
+  };
+
+  const withErrorHandling = <T extends any[], R>(fn: (...args: T) => Promise<R>, key: keyof LoadingStates, requireTitle = true) => {
     return async (...args: T): Promise<R | void> => {
-      if (!bookTitle) {
-        setError("Vui lòng nhập tên sách trước.");
+      if (requireTitle && !bookTitle) {
+        setError(t('error.titleRequired'));
         return;
       }
       // Basic validation for OpenAI selection
-      if (selectedModel.startsWith("gpt") && !apiKeyOpenAI) {
-        setError("Vui lòng nhập OpenAI API Key để sử dụng các model ChatGPT.");
+      if (selectedModel.startsWith("gpt") && !keyRing.has('openai')) {
+        setError(t('error.openaiKeyRequired'));
+        return;
+      }
+      const problem = templateProblem();
+      if (problem) {
+        setError(problem);
         return;
       }
 
       setError(null);
+      setNotices([]);
       setLoading(prev => ({ ...prev, [key]: true }));
       try {
         return await fn(...args);
       } catch (err) {
         console.error(`Error in ${key}:`, err);
-        setError(`Đã xảy ra lỗi khi tạo ${key}. Vui lòng thử lại. Lỗi: ${err instanceof Error ? err.message : String(err)}`);
+        setError(t('error.generic', { task: t(TASK_LABELS[key]), error: err instanceof Error ? err.message : String(err) }));
       } finally {
         setLoading(prev => ({ ...prev, [key]: false }));
       }
     };
   };
 
-  // Pass apiKeyGemini to services. 
-  // Note: For OpenAI models, the current geminiService would need to be adapted or a new service created.
-  // Currently, the UI is provided as requested, and Gemini service uses the passed Gemini key.
-  
+  // Every generator goes through the provider picked from selectedModel and reports back which one answered.
+  const genOptions = (key: keyof LoadingStates): geminiService.GenerateOptions => ({
+    model: selectedModel,
+    keys: keyRing,
+    language: outputLanguage,
+    templates: activePreset.templates,
+    variables: { bookTitle, durationMin, chaptersCount, frameRatio },
+    onProvider: (info) => setProviderUsed(prev => ({ ...prev, [key]: info })),
+    onUsage: (event) => { if (currentProjectId) recordUsage(currentProjectId, key, event); },
+    cache: responseCache,
+    profile: activeProfile ?? undefined,
+    onPartial: ({ field, expected, received }) =>
+      setNotices(prev => [...prev, t('partial.count', { what: t(field === 'chapters' ? 'partial.chapters' : 'partial.titles'), expected, received })]),
+  });
+
+  const handleAnalyzeCover = withErrorHandling(async () => {
+    const cover = geminiService.dataUrlToImage(bookImage);
+    if (!cover) throw new Error(t('error.noCover'));
+    const metadata = await geminiService.analyzeCover(cover, genOptions('cover'));
+    setBookMetadata(metadata);
+    if (metadata.title && (!bookTitle || (metadata.title !== bookTitle && confirm(t('book.useCoverTitle', { title: metadata.title }))))) {
+      setBookTitle(metadata.title);
+    }
+  }, 'cover', false);
+
+  const handleChangeProfile = (profile: BookProfile) => {
+    setBookProfile(profile);
+    projectStore.saveBookProfile(profile).catch(err => console.error("Cannot save book profile:", err));
+  };
+
+  const handleGenerateProfile = withErrorHandling(async () => {
+    if (activeProfile && !confirm(t('profile.regenerateConfirm'))) return;
+    handleChangeProfile(await generateProjectProfile(projectData, genOptions('profile')));
+  }, 'profile');
+
+  // A project without a fact sheet for its current title picks up the one saved for that book, or drops the old one.
+  useEffect(() => {
+    if (activeProfile || (!bookProfile && !bookTitle.trim())) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      projectStore.getBookProfile(bookTitle)
+        .then(saved => { if (!cancelled && (saved || bookProfile)) setBookProfile(saved); })
+        .catch(err => console.error("Cannot load book profile:", err));
+    }, 500);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [bookTitle, bookProfile]);
+
+  const fetchOutline = () => generateProjectOutline(projectData, genOptions('outline'));
+
   const handleGenerateOutline = withErrorHandling(async () => {
-    const result = await geminiService.generateOutline(bookTitle, chaptersCount, durationMin, selectedModel, apiKeyGemini);
-    const indexedResult = result.map((item, index) => ({ ...item, index }));
-    setOutline(indexedResult);
+    setOutline(await fetchOutline());
   }, 'outline');
 
+  const fetchSEO = (a: PipelineArtifacts) => geminiService.generateSEO(bookTitle, durationMin, genOptions('seo'), a);
+
+  const fetchVisuals = (a: PipelineArtifacts) => generateVisuals(projectData, a, genOptions('prompts'));
+
   const handleGenerateSEO = withErrorHandling(async () => {
-    const result = await geminiService.generateSEO(bookTitle, durationMin, selectedModel, apiKeyGemini);
-    setSeo(result);
+    setSeo(await fetchSEO(artifacts));
+    setPipelineStamps(s => stampStage(s, 'seo', artifacts));
   }, 'seo');
   
   const handleGeneratePrompts = withErrorHandling(async () => {
-    const [prompts, thumbs] = await Promise.all([
-      geminiService.generateVideoPrompts(bookTitle, frameRatio, selectedModel, apiKeyGemini),
-      geminiService.generateThumbIdeas(bookTitle, durationMin, selectedModel, apiKeyGemini)
-    ]);
-    setVideoPrompts(prompts);
-    setThumbTextIdeas(thumbs);
+    const visuals = await fetchVisuals(artifacts);
+    setVideoPrompts(visuals.videoPrompts);
+    setThumbTextIdeas(visuals.thumbTextIdeas);
+    setPipelineStamps(s => stampStage(s, 'visuals', artifacts));
   }, 'prompts');
 
-  const handleGenerateScript = withErrorHandling(async () => {
-    setScriptBlocks([]);
-    let currentOutline = outline;
+  const upsertScriptBlock = (block: ScriptBlock) => {
+    setScriptBlocks(prev => [...prev.filter(b => b.index !== block.index), block].sort((a, b) => a.index - b.index));
+  };
+
+  const writeBlock = async (currentOutline: OutlineItem[], position: number, targetChars: number, written: Map<number, ScriptBlock>, signal?: AbortSignal, instruction?: string) => {
+    const passages = sources.length ? passagesForOutlineItem(sourceIndex, currentOutline[position]) : [];
+    const index = position + 1;
+    const stop = new AbortController();
+    blockStops.current.set(index, stop);
+    setStreamingText(prev => ({ ...prev, [index]: '' }));
+    const onText = (text: string) => setStreamingText(prev => index in prev ? { ...prev, [index]: text } : prev);
+    try {
+      return await writeScriptBlock(bookTitle, currentOutline, position, targetChars, written, { ...genOptions('script'), signal, onText, stop: stop.signal }, passages, instruction);
+    } finally {
+      blockStops.current.delete(index);
+      setStreamingText(({ [index]: _, ...rest }) => rest);
+    }
+  };
+
+  const handleStopBlock = (index: number) => blockStops.current.get(index)?.abort();
+
+  // Runs every chapter (or, when resuming, only the missing/failed ones) through the job runner.
+  // Chapters listed in `redo` are rewritten even when they have a block; the new text becomes a new version.
+  const runScriptJob = async (resume: boolean, initialOutline = outline, existing = scriptBlocks, redo: number[] = []): Promise<ScriptBlock[]> => {
+    let currentOutline = initialOutline;
     if (currentOutline.length === 0) {
-      const generatedOutline = await geminiService.generateOutline(bookTitle, chaptersCount, durationMin, selectedModel, apiKeyGemini);
-      currentOutline = generatedOutline.map((item, index) => ({ ...item, index }));
+      currentOutline = await fetchOutline();
       setOutline(currentOutline);
     }
 
-    const totalWeight = currentOutline.length; 
-    const charsPerBlock = Math.round(totalCharsTarget / totalWeight);
+    const charsByChapter = allocateChars(currentOutline, totalCharsTarget);
+
+    // Blocks written so far, including ones finished during this run, feed each request's continuity context.
+    const written = new Map<number, ScriptBlock>(resume ? existing.map(b => [b.index, b]) : []);
+    if (!resume) {
+      setScriptBlocks([]);
+      setBlockJobs({});
+    }
+    setRepetitions(null);
+    const todo = currentOutline.filter(item => !written.has(item.index + 1) || redo.includes(item.index));
+
+    const controller = new AbortController();
+    scriptAbort.current = controller;
+    const gate = createContinuityGate(todo.map(item => item.index));
+    let failed = 0;
+    try {
+      await runJobs<OutlineItem, ScriptBlock>(todo.map(item => ({
+        key: item,
+        waitFor: (signal) => gate.wait(item.index, signal),
+        run: (signal) => writeBlock(currentOutline, item.index, charsByChapter[item.index], written, signal),
+      })), {
+        concurrency: scriptConcurrency,
+        signal: controller.signal,
+        onState: (item, state) => {
+          if (state.status === 'failed') {
+            failed++;
+            gate.release(item.index);
+          }
+          setBlockJobs(prev => ({ ...prev, [item.index]: state }));
+        },
+        onResult: (item, fresh) => {
+          const block = mergeRewrite(written.get(fresh.index), fresh);
+          written.set(block.index, block);
+          gate.release(item.index);
+          upsertScriptBlock(block);
+          setPipelineStamps(s => stampStage(s, 'script', { ...artifacts, outline: currentOutline }, [item.index]));
+        },
+      });
+    } finally {
+      if (scriptAbort.current === controller) scriptAbort.current = null;
+    }
+    const blocks = [...written.values()].sort((a, b) => a.index - b.index);
+    setRepetitions(findRepetitions(blocks));
+    if (failed > 0) {
+      throw new Error(t('error.chaptersFailed', { count: failed }));
+    }
+    return blocks;
+  };
 
-    for (const item of currentOutline) {
-      const text = await geminiService.generateScriptBlock(item, bookTitle, charsPerBlock, selectedModel, apiKeyGemini);
-      const newBlock: ScriptBlock = {
-        index: item.index + 1,
-        chapter: item.title,
-        text: text,
-        chars: text.length,
-      };
-      setScriptBlocks(prev => [...prev, newBlock]);
+  const handleOutlineChange = (edited: OutlineItem[]) => {
+    const restructured = edited.length !== outline.length || edited.some((o, i) => o.index !== i);
+    if (restructured && loading.script) {
+      setError(t('error.stopBeforeRestructure'));
+      return;
+    }
+    const synced = syncOutline(edited, scriptBlocks);
+    // Job states are keyed by chapter index, so they no longer apply once chapters move.
+    if (restructured) setBlockJobs({});
+    setOutline(synced.outline);
+    setScriptBlocks(synced.blocks);
+  };
+
+  const handleRegenerateOutlineItem = withErrorHandling(async (position: number) => {
+    const result = await geminiService.generateOutlineItem(bookTitle, outline, position, durationMin, genOptions('outline'));
+    setOutline(prev => prev.map((o, i) => i === position ? { ...o, ...result } : o));
+    setScriptBlocks(prev => prev.map(b => b.index === position + 1 ? { ...b, chapter: result.title } : b));
+  }, 'outline');
+
+  const updateScriptBlock = (index: number, update: (block: ScriptBlock) => ScriptBlock) => {
+    setScriptBlocks(prev => prev.map(b => b.index === index ? update(b) : b));
+  };
+
+  // Single-block actions run independently of the full script job and only lock their own card.
+  const runBlockAction = async (index: number, action: () => Promise<void>) => {
+    const problem = templateProblem();
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setError(null);
+    setBusyBlocks(prev => ({ ...prev, [index]: true }));
+    try {
+      await action();
+    } catch (err) {
+      console.error(`Error in block ${index}:`, err);
+      setError(t('error.block', { index, error: err instanceof Error ? err.message : String(err) }));
+    } finally {
+      setBusyBlocks(prev => ({ ...prev, [index]: false }));
+    }
+  };
+
+  const handleEditBlock = (index: number, text: string) => {
+    updateScriptBlock(index, b => addVersion(b, text, 'edited'));
+  };
+
+  const handleRegenerateBlock = (index: number, instruction: string) => runBlockAction(index, async () => {
+    const item = outline[index - 1];
+    if (!item) throw new Error(t('error.chapterNotFound'));
+    const written = new Map<number, ScriptBlock>(scriptBlocks.map(b => [b.index, b]));
+    const fresh = await writeBlock(outline, item.index, chapterChars[item.index], written, undefined, instruction || undefined);
+    updateScriptBlock(index, b => ({ ...addVersion(b, currentText(fresh), 'regenerated', instruction || undefined), summary: fresh.summary, sources: fresh.sources }));
+    setPipelineStamps(s => stampStage(s, 'script', artifacts, [item.index]));
+  });
+
+  const handleResizeBlock = (index: number, targetChars: number) => runBlockAction(index, async () => {
+    const block = scriptBlocks.find(b => b.index === index);
+    if (!block) return;
+    const text = await geminiService.resizeScriptBlock(currentText(block), block.chapter, targetChars, genOptions('script'));
+    updateScriptBlock(index, b => addVersion(b, text, targetChars >= block.chars ? 'expanded' : 'condensed'));
+  });
+
+  const handleCleanBlock = (index: number) => {
+    updateScriptBlock(index, b => addVersion(b, cleanScriptMarkup(currentText(b)), 'cleaned'));
+  };
+
+  const handleRestoreBlock = (index: number, position: number) => {
+    updateScriptBlock(index, b => restoreVersion(b, position));
+  };
+
+  const handleToggleStructure = (intro: boolean, outro: boolean) => {
+    setIncludeIntro(intro);
+    setIncludeOutro(outro);
+    if (outline.length) handleOutlineChange(applyStructure(outline, intro, outro, outputLanguage));
+  };
+
+  const handleSelectPreset = (id: string) => {
+    setNarratorPreset(id);
+    const preset = findPreset(id);
+    if (preset) setSpeakingRate(preset.rate);
+  };
+
+  const handleCustomRate = (perMinute: number) => {
+    setNarratorPreset('custom');
+    setSpeakingRate(r => ({ ...r, perMinute: clamp(perMinute || 1, 50, 3000) }));
+  };
+
+  // Expands/condenses blocks in a few passes until the estimated total lands within tolerance of durationMin.
+  const handleAutoFit = withErrorHandling(async () => {
+    let blocks = scriptBlocks;
+    const controller = new AbortController();
+    scriptAbort.current = controller;
+    try {
+      for (let pass = 0; pass < AUTO_FIT_PASSES; pass++) {
+        const plan = planAutoFit(blocks, durationMin, speakingRate, AUTO_FIT_TOLERANCE);
+        if (!plan.length || controller.signal.aborted) break;
+        await runJobs<FitAdjustment, string>(plan.map(adj => ({
+          key: adj,
+          run: (signal) => {
+            const block = blocks.find(b => b.index === adj.index)!;
+            return geminiService.resizeScriptBlock(currentText(block), block.chapter, adj.targetChars, { ...genOptions('script'), signal });
+          },
+        })), {
+          concurrency: scriptConcurrency,
+          signal: controller.signal,
+          onState: (adj, state) => setBlockJobs(prev => ({ ...prev, [adj.index - 1]: state })),
+          onResult: (adj, text) => {
+            const update = (b: ScriptBlock) => addVersion(b, text, adj.targetChars >= b.chars ? 'expanded' : 'condensed');
+            blocks = blocks.map(b => b.index === adj.index ? update(b) : b);
+            updateScriptBlock(adj.index, update);
+          },
+        });
+      }
+    } finally {
+      if (scriptAbort.current === controller) scriptAbort.current = null;
     }
   }, 'script');
 
+  const handleChangeUiLocale = (locale: UiLocale) => {
+    setUiLocale(locale);
+    localStorage.setItem("nd_ui_locale", locale);
+  };
+
+  // Only affects what is generated next; use handleTranslateProject to convert existing content.
+  const handleChangeOutputLanguage = (language: OutputLanguage) => {
+    setOutputLanguage(language);
+    if (narratorPreset !== 'custom' && findPreset(narratorPreset)?.language !== language) {
+      handleSelectPreset(languageInfo(language).defaultPreset);
+    }
+  };
+
+  // Translates outline, script, SEO and thumbnail ideas; nothing is applied unless every chapter succeeds.
+  const handleTranslateProject = withErrorHandling(async (target: OutputLanguage) => {
+    if (!confirm(t('book.translateConfirm', { language: OUTPUT_LANGUAGES[target].label }))) return;
+    const opts = { ...genOptions('translate'), language: target };
+    const [outlineText, translatedSeo, translatedThumbs] = await Promise.all([
+      outline.length ? geminiService.translateOutline(outline, opts) : Promise.resolve([]),
+      seo ? geminiService.translateSEO(seo, opts) : Promise.resolve(null),
+      thumbTextIdeas.length ? geminiService.translateStrings(thumbTextIdeas, opts) : Promise.resolve([]),
+    ]);
+    const translatedOutline = outline.map((o, i) => ({ ...o, ...outlineText[i] }));
+
+    const texts = new Map<number, string>();
+    const controller = new AbortController();
+    scriptAbort.current = controller;
+    let failed = 0;
+    try {
+      await runJobs<ScriptBlock, string>(scriptBlocks.map(block => ({
+        key: block,
+        run: (signal) => geminiService.translateText(currentText(block), { ...opts, signal }),
+      })), {
+        concurrency: scriptConcurrency,
+        signal: controller.signal,
+        onState: (block, state) => {
+          if (state.status === 'failed') failed++;
+          setBlockJobs(prev => ({ ...prev, [block.index - 1]: state }));
+        },
+        onResult: (block, text) => texts.set(block.index, text),
+      });
+    } finally {
+      if (scriptAbort.current === controller) scriptAbort.current = null;
+    }
+    if (texts.size < scriptBlocks.length) throw new Error(t('error.translateFailed', { count: failed || scriptBlocks.length - texts.size }));
+
+    setOutline(translatedOutline);
+    // Summaries are dropped rather than kept in the old language; chapters fall back to their outline focus.
+    const translatedBlocks = scriptBlocks.map(b => ({
+      ...addVersion(b, texts.get(b.index)!, 'translated'),
+      chapter: translatedOutline[b.index - 1]?.title ?? b.chapter,
+      summary: undefined,
+    }));
+    setScriptBlocks(translatedBlocks);
+    if (translatedSeo) setSeo(translatedSeo);
+    if (translatedThumbs.length) setThumbTextIdeas(translatedThumbs);
+    // Everything was translated together, so stages that were up to date stay up to date.
+    const translated: PipelineArtifacts = { ...artifacts, outline: translatedOutline, scriptBlocks: translatedBlocks, seo: translatedSeo ?? seo, thumbTextIdeas: translatedThumbs.length ? translatedThumbs : thumbTextIdeas };
+    setPipelineStamps(PIPELINE_STAGES.reduce((s, stage) => stageStatus[stage] === 'fresh' ? stampStage(s, stage, translated) : s, pipelineStamps));
+    setRepetitions(null);
+    handleChangeOutputLanguage(target);
+  }, 'translate');
+
+  // One request per chapter keeps each scene tied to what is narrated there; chapters that fail get no scenes.
+  const handleGenerateStoryboard = withErrorHandling(async () => {
+    const plans = planScenes(scriptBlocks.map(b => ({ index: b.index, chapter: b.chapter, text: currentText(b), seconds: blockMinutes(b, speakingRate) * 60 })), sceneSeconds);
+    const byBlock = new Map<number, ScenePlan[]>();
+    plans.forEach(plan => byBlock.set(plan.block, [...(byBlock.get(plan.block) ?? []), plan]));
+
+    const scenes: StoryboardScene[] = [];
+    let failed = 0;
+    const controller = new AbortController();
+    storyboardAbort.current = controller;
+    try {
+      await runJobs<number, geminiService.SceneVisual[]>([...byBlock.entries()].map(([block, blockPlans]) => ({
+        key: block,
+        run: (signal) => geminiService.generateStoryboardScenes(bookTitle, blockPlans[0].chapter, blockPlans.map(p => p.excerpt), frameRatio, { ...genOptions('storyboard'), signal }),
+      })), {
+        concurrency: scriptConcurrency,
+        signal: controller.signal,
+        onState: (_, state) => { if (state.status === 'failed') failed++; },
+        onResult: (block, visuals) => scenes.push(...byBlock.get(block)!.map((plan, i) => ({ ...plan, ...visuals[i] }))),
+      });
+    } finally {
+      if (storyboardAbort.current === controller) storyboardAbort.current = null;
+    }
+    // A stopped run keeps the previous storyboard rather than replacing it with some chapters missing.
+    if (controller.signal.aborted) return;
+    setStoryboard({ frameRatio, sceneSeconds, scenes: scenes.sort((a, b) => a.start - b.start) });
+    if (failed > 0) throw new Error(t('error.storyboardFailed', { count: failed }));
+  }, 'storyboard');
+
+  // One request per chapter; clips from all chapters are then ranked together.
+  const handleGenerateShorts = withErrorHandling(async () => {
+    const budget = shortBudget(charsPerMinute(speakingRate, outputLanguage));
+    const chapters = scriptBlocks.map(b => ({ block: b, sentences: splitSentences(currentText(b)) })).filter(c => c.sentences.length);
+    const clips: ShortClip[] = [];
+    let failed = 0;
+    const controller = new AbortController();
+    shortsAbort.current = controller;
+    try {
+      await runJobs<number, geminiService.ShortCandidate[]>(chapters.map(({ block, sentences }) => ({
+        key: block.index,
+        run: (signal) => geminiService.generateShortCandidates(bookTitle, block.chapter, sentences, SHORTS_PER_CHAPTER, budget, { ...genOptions('shorts'), signal }),
+      })), {
+        concurrency: scriptConcurrency,
+        signal: controller.signal,
+        onState: (_, state) => { if (state.status === 'failed') failed++; },
+        onResult: (index, candidates) => {
+          const { block, sentences } = chapters.find(c => c.block.index === index)!;
+          clips.push(...candidates.map(c => ({ ...c, id: crypto.randomUUID(), block: index, chapter: block.chapter, sourceExcerpt: sentenceRange(sentences, c.sentenceStart, c.sentenceEnd) })));
+        },
+      });
+    } finally {
+      if (shortsAbort.current === controller) shortsAbort.current = null;
+    }
+    if (controller.signal.aborted) return;
+    setShorts(rankShorts(clips));
+    if (failed > 0) throw new Error(t('error.shortsFailed', { count: failed }));
+  }, 'shorts');
+
+  // Reads the given chapters and stores each one's WAV in the project store as soon as it is done.
+  const narrateBlocks = async (blocks: ScriptBlock[]) => {
+    const projectId = currentProjectId;
+    if (!projectId || !blocks.length) return;
+    const settings = narration;
+    const keys = keyRing;
+    let failed = 0;
+    const controller = new AbortController();
+    narrationAbort.current = controller;
+    try {
+      await runJobs<number, NarrationAudio>(blocks.map(b => ({
+        key: b.index,
+        run: async (signal) => {
+          const text = currentText(b);
+          const { wav, seconds } = await narrateText(text, settings, keys, signal);
+          return { projectId, block: b.index, stamp: narrationStamp(text, settings), seconds, wav };
+        },
+      })), {
+        concurrency: scriptConcurrency,
+        signal: controller.signal,
+        onState: (index, state) => {
+          if (state.status === 'failed') failed++;
+          setNarratingBlocks(prev => ({ ...prev, [index]: state.status === 'pending' || state.status === 'running' }));
+        },
+        onResult: (index, audio) => {
+          projectStore.saveNarration(audio).catch(err => console.error(`Cannot store narration of block ${index}:`, err));
+          setNarrationAudio(prev => new Map(prev).set(index, audio));
+        },
+      });
+    } finally {
+      if (narrationAbort.current === controller) narrationAbort.current = null;
+      // Chapters a stop left unread go back to pending; they are no longer being read.
+      setNarratingBlocks(prev => ({ ...prev, ...Object.fromEntries(blocks.map(b => [b.index, false])) }));
+    }
+    if (failed > 0) throw new Error(t('error.narrationFailed', { count: failed }));
+  };
+
+  const handleNarrateAll = withErrorHandling(() => narrateBlocks(scriptBlocks.filter(b => !isNarrationFresh(b, narrationAudio.get(b.index), narration))), 'narration');
+  const handleNarrateBlock = withErrorHandling((index: number) => narrateBlocks(scriptBlocks.filter(b => b.index === index)), 'narration');
+
+  const handleCheckRepetitions = () => setRepetitions(findRepetitions(scriptBlocks));
+
+  const handleGenerateScript = withErrorHandling(() => runScriptJob(false), 'script');
+  const handleResumeScript = withErrorHandling(() => runScriptJob(true), 'script');
+
+  // Runs one pipeline stage on the results of the stages before it and returns the updated results.
+  const runStage = async (stage: PipelineStage, a: PipelineArtifacts, stamps: PipelineStamps, onlyStale: boolean): Promise<PipelineArtifacts> => {
+    switch (stage) {
+      case 'outline': {
+        const next = await fetchOutline();
+        setOutline(next);
+        return { ...a, outline: next };
+      }
+      case 'script': {
+        const redo = onlyStale ? staleInputs('script', a, stamps) : [];
+        return { ...a, scriptBlocks: await runScriptJob(onlyStale, a.outline, a.scriptBlocks, redo) };
+      }
+      case 'seo': {
+        const result = await fetchSEO(a);
+        setSeo(result);
+        return { ...a, seo: result };
+      }
+      case 'visuals': {
+        const visuals = await fetchVisuals(a);
+        setVideoPrompts(visuals.videoPrompts);
+        setThumbTextIdeas(visuals.thumbTextIdeas);
+        return { ...a, ...visuals };
+      }
+    }
+  };
+
+  // Outline → script → SEO → visuals. With onlyStale, up-to-date stages are skipped and only stale chapters are rewritten.
+  const handleRunPipeline = withErrorHandling(async (onlyStale: boolean) => {
+    if (!onlyStale && outline.length && !confirm(t('pipeline.runAllConfirm'))) return;
+    let a = artifacts;
+    let stamps = pipelineStamps;
+    setPipelineJobs({});
+    for (const stage of PIPELINE_STAGES) {
+      if (onlyStale && pipelineStatus(a, stamps)[stage] === 'fresh') continue;
+      setPipelineJobs(prev => ({ ...prev, [stage]: { status: 'running', attempts: 1 } }));
+      setLoading(prev => ({ ...prev, [STAGE_LOADING[stage]]: true }));
+      try {
+        a = await runStage(stage, a, stamps, onlyStale);
+      } catch (err) {
+        setPipelineJobs(prev => ({ ...prev, [stage]: { status: 'failed', attempts: 1, error: err instanceof Error ? err.message : String(err) } }));
+        throw err;
+      } finally {
+        setLoading(prev => ({ ...prev, [STAGE_LOADING[stage]]: false }));
+      }
+      // Writing was stopped: later stages would be built on an unfinished script.
+      if (pipelineStatus(a, stamps)[stage] === 'missing') {
+        setPipelineJobs(prev => ({ ...prev, [stage]: { status: 'pending', attempts: 1 } }));
+        return;
+      }
+      stamps = stampStage(stamps, stage, a);
+      setPipelineStamps(stamps);
+      setPipelineJobs(prev => ({ ...prev, [stage]: { status: 'done', attempts: 1 } }));
+    }
+  }, 'pipeline');
+  const setBatchQueue = (next: BatchItem[]) => {
+    batchQueueRef.current = next;
+    setBatchQueueState(next);
+    localStorage.setItem("nd_batch_queue", JSON.stringify(next));
+  };
+
+  const updateBatchItem = (id: string, update: (item: BatchItem) => BatchItem) =>
+    setBatchQueue(batchQueueRef.current.map(item => item.id === id ? update(item) : item));
+
+  const handleAddBatch = (books: BatchBook[]) => setBatchQueue([...batchQueueRef.current, ...books.map(newBatchItem)]);
+
+  const handleChangeBatchRate = (rpm: number) => {
+    setBatchRpm(rpm);
+    localStorage.setItem("nd_batch_rpm", String(rpm));
+  };
+
+  // Runs one book to the end of the pipeline, saving its project after every chapter and stage.
+  // New books take the language, preset and narrator settings currently open in the editor.
+  const runBatchItem = async (item: BatchItem, limiter: RateLimiter, signal: AbortSignal) => {
+    try {
+      let project = item.projectId ? await projectStore.getProject(item.projectId) : null;
+      if (project && project.id === currentProjectId) {
+        updateBatchItem(item.id, i => logEvent({ ...i, status: 'failed' }, { event: 'failed', error: t('batch.projectOpen') }));
+        return;
+      }
+      if (!project) {
+        const { bookTitle, durationMin, chaptersCount, frameRatio } = item;
+        project = await projectStore.createProject(bookTitle, {
+          ...emptyProjectData(), bookTitle, durationMin, chaptersCount, frameRatio,
+          outputLanguage, promptPreset, narratorPreset, speakingRate, includeIntro, includeOutro,
+        });
+      }
+      const projectId = project.id;
+      updateBatchItem(item.id, i => logEvent({ ...i, status: 'running', projectId }, { event: 'started' }));
+      const data = project.data;
+      let saved = project;
+      await runBookPipeline(data, {
+        generate: {
+          model: selectedModel,
+          keys: keyRing,
+          language: data.outputLanguage,
+          templates: findPromptPreset(allPresets, data.promptPreset).templates,
+          variables: { bookTitle: data.bookTitle, durationMin: data.durationMin, chaptersCount: data.chaptersCount, frameRatio: data.frameRatio },
+          limiter,
+          onUsage: (event) => recordUsage(projectId, 'batch', event),
+          cache: responseCache,
+        },
+        concurrency: scriptConcurrency,
+        signal,
+        onStage: (stage) => updateBatchItem(item.id, i => logEvent({ ...i, stage }, { event: 'stage', stage })),
+        onProgress: async (next) => { saved = await projectStore.updateProjectData(saved, next); },
+        resolveProfile: async (book, opts) => {
+          const stored = await projectStore.getBookProfile(book.bookTitle);
+          if (stored) return stored;
+          const profile = await generateProjectProfile(book, opts);
+          await projectStore.saveBookProfile(profile);
+          return profile;
+        },
+      });
+      updateBatchItem(item.id, i => logEvent({ ...i, status: 'done', stage: undefined }, { event: 'done' }));
+    } catch (err) {
+      if (signal.aborted) {
+        updateBatchItem(item.id, i => logEvent({ ...i, status: 'queued' }, { event: 'paused', stage: i.stage }));
+      } else {
+        console.error(`Batch book "${item.bookTitle}" failed:`, err);
+        updateBatchItem(item.id, i => logEvent({ ...i, status: 'failed' }, { event: 'failed', stage: i.stage, error: err instanceof Error ? err.message : String(err) }));
+      }
+    }
+  };
+
+  // Works through queued books one at a time until the queue is empty or paused; every request of the run
+  // goes through one rate limiter. Paused books resume from their saved project.
+  const handleStartBatch = async () => {
+    if (batchRunning) return;
+    if (selectedModel.startsWith("gpt") && !keyRing.has('openai')) {
+      setError(t('error.openaiKeyRequired'));
+      return;
+    }
+    setError(null);
+    const controller = new AbortController();
+    batchAbort.current = controller;
+    setBatchRunning(true);
+    const limiter = createRateLimiter(batchRpm);
+    try {
+      for (;;) {
+        const next = batchQueueRef.current.find(item => item.status === 'queued');
+        if (!next || controller.signal.aborted) break;
+        await runBatchItem(next, limiter, controller.signal);
+        await refreshProjects();
+      }
+    } catch (err) {
+      console.error("Batch stopped:", err);
+      setError(t('batch.failed', { error: err instanceof Error ? err.message : String(err) }));
+    } finally {
+      batchAbort.current = null;
+      setBatchRunning(false);
+    }
+  };
+
+  const handlePauseBatch = () => batchAbort.current?.abort();
+
+  const handleDownloadBatchZip = async () => {
+    const done = batchQueueRef.current.filter(item => item.status === 'done' && item.projectId);
+    const loaded = await Promise.all(done.map(item => projectStore.getProject(item.projectId!)));
+    const books = loaded.flatMap(p => p ? [{ name: p.name, data: p.data }] : []);
+    if (!books.length) return;
+    const blob = await buildBatchZip(books, { index: t('export.csvIndex'), chapter: t('export.csvChapter'), script: t('export.csvScript'), prompt: "Prompt" });
+    downloadFile(`batch_${new Date().toISOString().slice(0, 10)}.zip`, blob, 'application/zip');
+  };
+
+  const handleOpenBatchProject = async (projectId: string) => {
+    await handleOpenProject(projectId);
+    setView('editor');
+  };
+
+  const handleCancelScript = () => scriptAbort.current?.abort();
+
+  const missingBlocks = outline.filter(item => !scriptBlocks.some(b => b.index === item.index + 1)).length;
+
   const clamp = (n: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, n));
-  const fmtNumber = (n: number) => n.toLocaleString("vi-VN");
+  const fmtNumber = (n: number) => formatNumber(n, outputLanguage);
 
-  const downloadCSV = (filename: string, rows: (string[])[]) => {
-    const processRow = (row: string[]) => row.map(v => `"${(v ?? "").replace(/"/g, '""')}"`).join(",");
-    const csvContent = "\uFEFF" + rows.map(processRow).join("\r\n");
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  const downloadFile = (filename: string, content: BlobPart, type: string) => {
+    const blob = new Blob([content], { type });
     const link = document.createElement("a");
     link.href = URL.createObjectURL(blob);
     link.download = filename;
@@ -162,37 +1273,195 @@ export default function App() {
     URL.revokeObjectURL(link.href);
   };
 
+  const downloadCSV = (filename: string, rows: (string[])[]) => {
+    downloadFile(filename, toCsv(rows), 'text/csv;charset=utf-8;');
+  };
+
   const exportScriptCSV = () => {
     if (!scriptBlocks.length) return;
-    const rows = [["STT", "Chương", "Kịch bản"], ...scriptBlocks.map(b => [String(b.index), b.chapter, b.text])];
+    const rows = [[t('export.csvIndex'), t('export.csvChapter'), t('export.csvScript')], ...scriptBlocks.map(b => [String(b.index), b.chapter, currentText(b)])];
     downloadCSV(`kichban_${geminiService.slugify(bookTitle)}.csv`, rows);
   };
 
+  const exportReviewCSV = () => {
+    if (!scriptReview) return;
+    const rows = [
+      [t('export.csvIndex'), t('export.csvChapter'), t('review.csv.chars'), t('review.csv.target'), t('review.csv.deviation'), t('review.csv.issues'), t('review.csv.covered'), t('review.csv.missing'), t('review.csv.markup'), t('review.csv.quotations'), t('review.csv.sentences'), t('review.csv.avgWords'), t('review.csv.longSentences')],
+      ...scriptReview.map(r => [
+        String(r.index),
+        r.chapter,
+        String(r.chars),
+        String(r.targetChars),
+        formatDeviation(r.lengthDeviation),
+        r.issues.map(issue => t(ISSUE_LABELS[issue])).join('; '),
+        r.coveredActions.join('; '),
+        r.missingActions.join('; '),
+        r.markup.map(m => `${t('review.line', { line: m.line })}: ${m.sample}`).join('\n'),
+        r.quotations.map(q => `${q.source ? t('review.quoteSource', { words: q.words, source: [q.source.docName, q.source.label].filter(Boolean).join(' · ') }) : t('review.quoteMarked', { words: q.words })} ${q.text}`).join('\n'),
+        String(r.readability.sentences),
+        r.readability.avgSentenceWords.toFixed(1),
+        String(r.readability.longSentences),
+      ]),
+    ];
+    downloadCSV(`kiemtra_${geminiService.slugify(bookTitle)}.csv`, rows);
+  };
+
+  const exportSubtitles = (format: 'srt' | 'vtt') => {
+    if (!scriptBlocks.length) return;
+    const cues = buildCues(scriptBlocks.map(b => ({ text: currentText(b) })), { charsPerMinute: charsPerMinute(speakingRate, outputLanguage) });
+    const content = format === 'srt' ? toSrt(cues) : toVtt(cues);
+    downloadFile(`phude_${geminiService.slugify(bookTitle)}.${format}`, content, format === 'srt' ? 'application/x-subrip;charset=utf-8' : 'text/vtt;charset=utf-8');
+  };
+
+  const exportTeleprompter = () => {
+    if (!scriptBlocks.length) return;
+    downloadFile(`teleprompter_${geminiService.slugify(bookTitle)}.md`, toTeleprompterMarkdown(bookTitle, scriptBlocks), 'text/markdown;charset=utf-8');
+  };
+
+  const exportScriptDocx = async () => {
+    if (!scriptBlocks.length) return;
+    const blob = await buildScriptDocx(bookTitle, scriptBlocks);
+    downloadFile(`kichban_${geminiService.slugify(bookTitle)}.docx`, blob, blob.type);
+  };
+
+  const exportStoryboard = (format: 'csv' | 'json' | 'edl') => {
+    if (!storyboard?.scenes.length) return;
+    const base = `storyboard_${geminiService.slugify(bookTitle)}`;
+    if (format === 'json') {
+      downloadFile(`${base}.json`, toStoryboardJson(bookTitle, storyboard), 'application/json');
+    } else if (format === 'edl') {
+      downloadFile(`${base}.edl`, toEdl(bookTitle, storyboard, STORYBOARD_FPS), 'text/plain;charset=utf-8');
+    } else {
+      const header = [t('export.csvIndex'), t('export.csvChapter'), t('storyboard.csvStart'), t('storyboard.csvEnd'), t('storyboard.csvClip'), "Prompt", t('storyboard.csvMotion'), t('storyboard.csvNegative'), t('storyboard.excerpt')];
+      downloadCSV(`${base}.csv`, [header, ...storyboard.scenes.map((s, i) => [
+        String(i + 1), s.chapter, toTimecode(s.start, STORYBOARD_FPS), toTimecode(s.end, STORYBOARD_FPS), sceneClipName(i), s.prompt, s.motion, s.negativePrompt, s.excerpt,
+      ])]);
+    }
+  };
+
+  const shortHeadings = (): ShortHeadings => ({
+    source: t('shorts.mdSource'), sentences: t('shorts.mdSentences'), hook: t('shorts.hook'), body: t('shorts.mdBody'), cta: t('shorts.cta'),
+    hashtags: 'Hashtags', visual: t('shorts.visual'), rationale: t('shorts.mdRationale'),
+  });
+
+  const downloadShort = (clip: ShortClip) => {
+    const rank = shorts.findIndex(s => s.id === clip.id) + 1;
+    downloadFile(`short_${String(rank).padStart(2, '0')}_${geminiService.slugify(clip.title)}.md`, toShortMarkdown(clip, shortHeadings()), 'text/markdown;charset=utf-8');
+  };
+
+  const downloadNarration = (index: number) => {
+    const track = narrationAudio.get(index);
+    const block = scriptBlocks.find(b => b.index === index);
+    if (track && block) downloadFile(`${String(index).padStart(2, '0')}_${geminiService.slugify(block.chapter)}.wav`, track.wav, 'audio/wav');
+  };
+
+  // Only chapters whose audio matches the current text go into the export, so the full track agrees with the timestamps.
+  const exportNarration = withErrorHandling(async () => {
+    const fresh = scriptBlocks.filter(b => isNarrationFresh(b, narrationAudio.get(b.index), narration));
+    const blob = await buildNarrationZip(bookTitle, fresh, narrationAudio, narration.pauseSeconds);
+    downloadFile(`longtieng_${geminiService.slugify(bookTitle)}.zip`, blob, 'application/zip');
+  }, 'narration');
+
+  const exportShorts = (format: 'md' | 'json') => {
+    if (!shorts.length) return;
+    const base = `shorts_${geminiService.slugify(bookTitle)}`;
+    if (format === 'json') {
+      downloadFile(`${base}.json`, toShortsJson(bookTitle, shorts, charsPerMinute(speakingRate, outputLanguage)), 'application/json');
+    } else {
+      downloadFile(`${base}.md`, shorts.map(clip => toShortMarkdown(clip, shortHeadings())).join('\n---\n\n'), 'text/markdown;charset=utf-8');
+    }
+  };
+
   const exportPromptCSV = () => {
     if (!videoPrompts.length) return;
-    const rows = [["STT", "Prompt"], ...videoPrompts.map((p, i) => [String(i + 1), p])];
+    const rows = [[t('export.csvIndex'), "Prompt"], ...videoPrompts.map((p, i) => [String(i + 1), p])];
     downloadCSV(`prompts_${geminiService.slugify(bookTitle)}.csv`, rows);
   };
 
   return (
     <div className="min-h-screen w-full bg-[radial-gradient(1200px_700px_at_50%_0%,#0b1a22_0%,#07141b_45%,#031017_85%)] text-sky-50 font-sans">
       <header className="px-6 py-8 border-b border-sky-900/40 sticky top-0 backdrop-blur bg-black/30 z-20">
-        <div className="max-w-7xl mx-auto flex items-center justify-center gap-4">
+        <div className="max-w-7xl mx-auto flex items-center justify-center gap-4 relative">
           <a href="/" className="group transition-transform hover:scale-105">
             <h1 className="text-3xl md:text-5xl font-extrabold tracking-tighter text-transparent bg-clip-text bg-gradient-to-r from-sky-400 to-blue-500 group-hover:from-sky-300 group-hover:to-blue-400">
               AI Content Creator Tool
             </h1>
           </a>
+          <nav className="absolute left-0 flex gap-1 text-sm">
+            {(['editor', 'batch', 'usage'] as const).map(v => (
+              <button key={v} onClick={() => setView(v)} className={`px-3 py-1 rounded-lg border ${view === v ? 'border-sky-500 text-sky-100 bg-sky-900/40' : 'border-sky-900/60 text-sky-400 hover:text-sky-100'}`}>
+                {t(VIEW_LABELS[v])}{v === 'batch' && batchRunning ? ' ●' : ''}
+              </button>
+            ))}
+          </nav>
+          <label className="absolute right-0 flex items-center gap-1 text-xs text-sky-400">
+            {t('app.uiLanguage')}
+            <select value={uiLocale} onChange={(e) => handleChangeUiLocale(e.target.value as UiLocale)} className="rounded bg-slate-900/70 border border-sky-900 px-1 py-0.5 text-sky-200">
+              {UI_LOCALES.map(l => <option key={l.id} value={l.id} className="bg-slate-900">{l.label}</option>)}
+            </select>
+          </label>
         </div>
       </header>
       
+      {view === 'usage' ? (
+      <main className="max-w-7xl mx-auto p-6">
+        <UsagePanel
+          records={usageRecords}
+          projects={projects}
+          currentProjectId={currentProjectId}
+          cacheMode={cacheMode}
+          forceRefresh={forceRefresh}
+          cachedCount={cachedCount}
+          fmtNumber={fmtNumber}
+          t={t}
+          onChangeCacheMode={handleChangeCacheMode}
+          onChangeForceRefresh={setForceRefresh}
+          onClearCache={handleClearCache}
+          onClearUsage={handleClearUsage}
+        />
+      </main>
+      ) : view === 'batch' ? (
+      <main className="max-w-7xl mx-auto p-6">
+        <BatchPanel
+          queue={batchQueue}
+          running={batchRunning}
+          requestsPerMinute={batchRpm}
+          defaults={{ durationMin, chaptersCount, frameRatio }}
+          error={error}
+          t={t}
+          onAdd={handleAddBatch}
+          onStart={handleStartBatch}
+          onPause={handlePauseBatch}
+          onRetry={(id) => updateBatchItem(id, item => ({ ...item, status: 'queued' }))}
+          onRemove={(id) => setBatchQueue(batchQueueRef.current.filter(item => item.id !== id))}
+          onClearDone={() => setBatchQueue(batchQueueRef.current.filter(item => item.status !== 'done'))}
+          onOpenProject={handleOpenBatchProject}
+          onDownloadZip={handleDownloadBatchZip}
+          onChangeRate={handleChangeBatchRate}
+        />
+      </main>
+      ) : (
       <main className="max-w-7xl mx-auto p-6 grid lg:grid-cols-3 gap-6">
         <section className="lg:col-span-1 space-y-6">
+          <ProjectLibrary
+            projects={projects}
+            currentId={currentProjectId}
+            saving={saving}
+            t={t}
+            onOpen={handleOpenProject}
+            onCreate={handleCreateProject}
+            onRename={handleRenameProject}
+            onDuplicate={handleDuplicateProject}
+            onDelete={handleDeleteProject}
+            onExport={handleExportProject}
+            onImport={handleImportProject}
+          />
+
           {/* 0) Quản lý API & Model */}
-          <Card title="0) Quản lý API & Model">
+          <Card title={t('api.title')}>
             <div className="space-y-4">
               <div>
-                <label className="block text-sm font-medium text-sky-300 mb-1">Dịch vụ & Model đang dùng</label>
+                <label className="block text-sm font-medium text-sky-300 mb-1">{t('api.model')}</label>
                 <select 
                   value={selectedModel} 
                   onChange={(e) => setSelectedModel(e.target.value)}
@@ -214,179 +1483,433 @@ export default function App() {
               {showApiManager ? (
                 <div className="p-4 rounded-lg bg-black/40 border border-sky-900/40 text-sm space-y-4 animate-in fade-in slide-in-from-top-2">
                    <div className="font-semibold text-sky-300 border-b border-sky-900/40 pb-2 mb-1 flex justify-between items-center">
-                      <span>Cấu hình API Keys</span>
-                      <button onClick={() => setShowApiManager(false)} className="text-xs text-sky-500 hover:text-sky-300 underline">Ẩn</button>
+                      <span>{t('api.keys')}</span>
+                      <button onClick={() => setShowApiManager(false)} className="text-xs text-sky-500 hover:text-sky-300 underline">{t('common.hide')}</button>
                    </div>
                    
-                   <div>
-                      <label className="block text-xs font-medium text-sky-400 mb-1">Google Gemini API Key</label>
-                      <input 
-                        type="password" 
-                        value={apiKeyGemini}
-                        onChange={(e) => setApiKeyGemini(e.target.value)}
-                        placeholder="Nhập API Key của Gemini..."
-                        className="w-full rounded bg-slate-900/80 border border-sky-800/50 px-2 py-1.5 text-xs focus:border-sky-500 outline-none text-sky-100 placeholder:text-sky-800"
-                      />
-                   </div>
-
-                   <div>
-                      <label className="block text-xs font-medium text-sky-400 mb-1">OpenAI API Key</label>
-                      <input 
-                        type="password" 
-                        value={apiKeyOpenAI}
-                        onChange={(e) => setApiKeyOpenAI(e.target.value)}
-                        placeholder="Nhập API Key của OpenAI..."
-                        className="w-full rounded bg-slate-900/80 border border-sky-800/50 px-2 py-1.5 text-xs focus:border-sky-500 outline-none text-sky-100 placeholder:text-sky-800"
-                      />
-                   </div>
-
-                   <div className="pt-2 flex gap-2">
-                      <Button onClick={handleSaveKeys} className="w-full text-xs py-1.5 bg-sky-700/50 hover:bg-sky-600/50 border-sky-600">Lưu Cấu Hình</Button>
-                   </div>
-                   <p className="text-[10px] text-sky-600 italic text-center">API Key được lưu an toàn trong trình duyệt của bạn (Local Storage).</p>
+                   <KeyVaultPanel
+                     status={vaultStatus}
+                     entries={vaultEntries ?? []}
+                     health={keyHealth}
+                     legacyCount={legacyKeys.length}
+                     t={t}
+                     onCreate={handleCreateVault}
+                     onUnlock={handleUnlockVault}
+                     onLock={handleLockVault}
+                     onReset={handleResetVault}
+                     onAdd={handleAddKey}
+                     onRemove={handleRemoveKey}
+                     onMove={handleMoveKey}
+                     onClearHealth={handleClearKeyHealth}
+                   />
+                   <p className="text-[10px] text-sky-600 italic text-center">{t('api.storedLocally')}</p>
                 </div>
               ) : (
                  <div className="flex items-center justify-between p-3 rounded-lg bg-sky-900/20 border border-sky-800/50 text-xs cursor-pointer hover:bg-sky-900/30 transition" onClick={() => setShowApiManager(true)}>
                     <span className="flex items-center gap-2">
-                      <span className={`w-2 h-2 rounded-full shadow-[0_0_8px] ${apiKeyGemini ? 'bg-green-500 shadow-green-500/60' : 'bg-yellow-500 shadow-yellow-500/60'}`}></span>
-                      {apiKeyGemini ? "Đã có Gemini Key" : "Chưa có Gemini Key"}
+                      <span className={`w-2 h-2 rounded-full shadow-[0_0_8px] ${keyRing.has('gemini') ? 'bg-green-500 shadow-green-500/60' : 'bg-yellow-500 shadow-yellow-500/60'}`}></span>
+                      {vaultStatus === 'locked' ? t('vault.locked') : keyRing.has('gemini') ? t('api.hasGemini') : t('api.noGemini')}
                     </span>
-                    <span className="text-sky-400 underline decoration-dotted">Quản lý</span>
+                    <span className="flex items-center gap-2">
+                      <span className={`w-2 h-2 rounded-full shadow-[0_0_8px] ${keyRing.has('openai') ? 'bg-green-500 shadow-green-500/60' : 'bg-yellow-500 shadow-yellow-500/60'}`}></span>
+                      {keyRing.has('openai') ? t('api.hasOpenAI') : t('api.noOpenAI')}
+                    </span>
+                    <span className="text-sky-400 underline decoration-dotted">{t('api.manage')}</span>
                   </div>
               )}
             </div>
           </Card>
 
-          <Card title="1) Thông tin sách & Cài đặt">
+          <Card title={t('book.title')}>
             <div className="space-y-4">
               <div>
-                <label className="block text-sm font-medium text-sky-300 mb-1">Tên sách</label>
-                <input value={bookTitle} onChange={(e) => setBookTitle(e.target.value)} placeholder="Nhập tên sách…" className="w-full rounded-lg bg-slate-900/70 border border-sky-900 px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none" />
+                <label className="block text-sm font-medium text-sky-300 mb-1">{t('book.name')}</label>
+                <input value={bookTitle} onChange={(e) => setBookTitle(e.target.value)} placeholder={t('book.namePlaceholder')} className="w-full rounded-lg bg-slate-900/70 border border-sky-900 px-3 py-2 focus:ring-2 focus:ring-sky-500 outline-none" />
               </div>
               <div>
-                <label className="block text-sm font-medium text-sky-300 mb-1">Tải ảnh bìa (tùy chọn)</label>
+                <label className="block text-sm font-medium text-sky-300 mb-1">{t('book.cover')}</label>
                 <input type="file" accept="image/*" onChange={handleFileUpload} className="w-full text-sm file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-semibold file:bg-sky-900/50 file:text-sky-200 hover:file:bg-sky-900/80" />
                 {bookImage && <img src={bookImage} alt="cover" className="mt-2 w-full max-w-xs mx-auto rounded-lg border border-sky-900/60" />}
+                {bookImage && (
+                  <div className="mt-2 space-y-2">
+                    <Button onClick={handleAnalyzeCover} disabled={loading.cover} className="w-full">{loading.cover ? t('book.analyzingCover') : t('book.analyzeCover')}</Button>
+                    {bookMetadata && (
+                      <div className="p-3 rounded-lg bg-slate-900/50 border border-sky-900/60 text-sm space-y-1">
+                        <div><span className="text-sky-400">{t('book.metaTitle')}</span> {bookMetadata.title || "—"}</div>
+                        <div><span className="text-sky-400">{t('book.metaAuthor')}</span> {bookMetadata.author || "—"}</div>
+                        {bookMetadata.edition && <div><span className="text-sky-400">{t('book.metaEdition')}</span> {bookMetadata.edition}</div>}
+                        <div className="flex items-center gap-1 pt-1">
+                          {bookMetadata.dominantColors.map(c => <span key={c} title={c} className="w-5 h-5 rounded border border-sky-900/60" style={{ backgroundColor: c }} />)}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-sky-300 mb-1">{t('book.outputLanguage')}</label>
+                  <select value={outputLanguage} onChange={(e) => handleChangeOutputLanguage(e.target.value as OutputLanguage)} className="w-full rounded-lg bg-slate-900/70 border border-sky-900 px-2 py-2 text-sm">
+                    {Object.entries(OUTPUT_LANGUAGES).map(([id, info]) => <option key={id} value={id} className="bg-slate-900">{info.label}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-sky-300 mb-1">&nbsp;</label>
+                  <select value="" disabled={loading.translate || loading.script || (!outline.length && !seo)} onChange={(e) => e.target.value && handleTranslateProject(e.target.value as OutputLanguage)} className="w-full rounded-lg bg-slate-900/70 border border-sky-900 px-2 py-2 text-sm disabled:opacity-50">
+                    <option value="" className="bg-slate-900">{loading.translate ? t('book.translating') : t('book.translate')}</option>
+                    {Object.entries(OUTPUT_LANGUAGES).filter(([id]) => id !== outputLanguage).map(([id, info]) => <option key={id} value={id} className="bg-slate-900">{info.label}</option>)}
+                  </select>
+                </div>
               </div>
               <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <label className="block text-sm font-medium text-sky-300 mb-1">Thời lượng (phút)</label>
+                    <label className="block text-sm font-medium text-sky-300 mb-1">{t('book.duration')}</label>
                     <input type="number" value={durationMin} min={5} max={240} onChange={(e)=>setDurationMin(clamp(parseInt(e.target.value||'0'),5,240))} className="w-full rounded-lg bg-slate-900/70 border border-sky-900 px-3 py-2" />
                   </div>
                   <div>
-                    <label className="block text-sm font-medium text-sky-300 mb-1">Số chương</label>
+                    <label className="block text-sm font-medium text-sky-300 mb-1">{t('book.chapters')}</label>
                     <input type="number" value={chaptersCount} min={6} max={24} onChange={(e)=>setChaptersCount(clamp(parseInt(e.target.value||'0'),6,24))} className="w-full rounded-lg bg-slate-900/70 border border-sky-900 px-3 py-2" />
                   </div>
               </div>
+              <div className="flex flex-wrap gap-4 text-sm text-sky-300">
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={includeIntro} onChange={(e) => handleToggleStructure(e.target.checked, includeOutro)} className="accent-sky-500" />
+                  {t('book.includeIntro')}
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={includeOutro} onChange={(e) => handleToggleStructure(includeIntro, e.target.checked)} className="accent-sky-500" />
+                  {t('book.includeOutro')}
+                </label>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-sky-300 mb-1">{t('book.narrator')}</label>
+                <div className="flex gap-2">
+                  <select value={narratorPreset} onChange={(e) => handleSelectPreset(e.target.value)} className="flex-1 min-w-0 rounded-lg bg-slate-900/70 border border-sky-900 px-2 py-2 text-sm">
+                    {NARRATOR_PRESETS.map(p => <option key={p.id} value={p.id} className="bg-slate-900">{p.label}</option>)}
+                    <option value="custom" className="bg-slate-900">{t('book.customRate')}</option>
+                  </select>
+                  <input type="number" min={50} max={3000} value={speakingRate.perMinute} onChange={(e) => handleCustomRate(parseInt(e.target.value || '0'))} className="w-20 rounded-lg bg-slate-900/70 border border-sky-900 px-2 py-2 text-sm" />
+                  <select value={speakingRate.unit} onChange={(e) => { setNarratorPreset('custom'); setSpeakingRate(r => ({ ...r, unit: e.target.value as SpeakingRate['unit'] })); }} className="rounded-lg bg-slate-900/70 border border-sky-900 px-2 py-2 text-sm">
+                    <option value="chars" className="bg-slate-900">{t('book.charsPerMinute')}</option>
+                    <option value="words" className="bg-slate-900">{t('book.wordsPerMinute')}</option>
+                  </select>
+                </div>
+              </div>
               <div className="p-3 rounded-lg bg-slate-900/50 border border-sky-900/60 text-sm">
-                <div>Tổng ký tự mục tiêu: <b>{fmtNumber(totalCharsTarget)}</b></div>
+                <div>{t('book.totalTarget')} <b>{fmtNumber(totalCharsTarget)}</b></div>
               </div>
             </div>
           </Card>
           
-          <Card title="2) Tạo Nội Dung">
+          <SourceLibrary
+            sources={sources}
+            parsing={parsingSources}
+            fmtNumber={fmtNumber}
+            t={t}
+            onUpload={handleUploadSources}
+            onRemove={handleRemoveSource}
+          />
+
+          <BookProfileCard
+            profile={activeProfile}
+            busy={loading.profile}
+            hasSources={sources.length > 0}
+            t={t}
+            onGenerate={handleGenerateProfile}
+            onChange={handleChangeProfile}
+          />
+
+          <PromptTemplateEditor
+            presets={allPresets}
+            currentId={activePreset.id}
+            sampleVariables={{
+              bookTitle, durationMin, chaptersCount, frameRatio,
+              language: languageInfo(outputLanguage).promptName,
+              chapterTitle: outline[0]?.title,
+              chapterFocus: outline[0]?.focus,
+              chapterActions: outline[0]?.actions,
+              targetChars: chapterChars[0],
+            }}
+            t={t}
+            onSelect={setPromptPreset}
+            onDuplicate={handleDuplicatePreset}
+            onUpdate={handleUpdatePreset}
+            onDelete={handleDeletePreset}
+            onImport={handleImportTemplates}
+            onExport={handleExportTemplates}
+          />
+
+          <Card title={t('generate.title')}>
             <div className="flex flex-col space-y-2">
-              <Button onClick={handleGenerateOutline} disabled={loading.outline}>Phân tích & Tạo sườn</Button>
+              <PipelinePanel
+                status={stageStatus}
+                jobs={pipelineJobs}
+                busy={loading.pipeline || loading.translate}
+                t={t}
+                onRunAll={() => handleRunPipeline(false)}
+                onRunStale={() => handleRunPipeline(true)}
+              />
+              <Button onClick={handleGenerateOutline} disabled={loading.outline || loading.pipeline}>{t('generate.outline')}</Button>
               {/* Order changed: Script before SEO */}
-              <Button onClick={handleGenerateScript} disabled={loading.script}>Viết Kịch Bản Chi Tiết</Button>
-              <Button onClick={handleGenerateSEO} disabled={loading.seo}>Tạo Tiêu đề & Mô tả SEO</Button>
-              <Button onClick={handleGeneratePrompts} disabled={loading.prompts}>Tạo Prompt Video & Thumbnail</Button>
+              <Button onClick={handleGenerateScript} disabled={loading.script || loading.translate || loading.pipeline}>{t('generate.script')}</Button>
+              <div className="flex items-center gap-2">
+                {loading.script || loading.translate ? (
+                  <Button onClick={handleCancelScript} className="flex-1 border-red-800 bg-red-900/30 hover:bg-red-900/50">{t('generate.stop')}</Button>
+                ) : (
+                  <Button onClick={handleResumeScript} disabled={missingBlocks === 0 || scriptBlocks.length === 0 || loading.pipeline} className="flex-1">{t('generate.resume', { count: missingBlocks })}</Button>
+                )}
+                <label className="text-xs text-sky-300 flex items-center gap-1" title={t('generate.concurrencyHint')}>
+                  {t('generate.concurrency')}
+                  <input type="number" value={scriptConcurrency} min={1} max={6} onChange={(e)=>setScriptConcurrency(clamp(parseInt(e.target.value||'1'),1,6))} className="w-12 rounded bg-slate-900/70 border border-sky-900 px-2 py-1" />
+                </label>
+              </div>
+              <Button onClick={handleGenerateSEO} disabled={loading.seo || loading.pipeline}>{t('generate.seo')}</Button>
+              <Button onClick={handleGeneratePrompts} disabled={loading.prompts || loading.pipeline}>{t('generate.prompts')}</Button>
               {error && <p className="text-sm text-red-400 mt-2">{error}</p>}
+              {notices.map((notice, i) => <p key={i} className="text-sm text-amber-300 mt-1">{notice}</p>)}
             </div>
           </Card>
         </section>
 
         <section className="lg:col-span-2 space-y-6">
-          <Card title="3) Sườn kịch bản (Humanized Audiobook)">
+          <Card title={t('outline.title')} actions={<ProviderBadge info={providerUsed.outline} t={t} />}>
             <div className="relative">
-             {loading.outline && <LoadingOverlay />}
-             {outline.length === 0 ? <Empty text="Chưa có sườn. Nhấn ‘Phân tích & Tạo sườn’." /> : (
-              <ol className="space-y-3 list-decimal ml-5">
-                {outline.map((o) => (
-                  <li key={o.index} className="p-3 rounded-xl bg-slate-900/50 border border-sky-900/60">
-                    <div className="font-semibold text-sky-100">{o.title}</div>
-                    <div className="text-sky-300 text-sm mt-1">{o.focus}</div>
-                    <ul className="mt-2 text-sm grid md:grid-cols-2 gap-2">
-                      {o.actions.map((a,idx)=>(<li key={idx} className="px-2 py-1 rounded bg-slate-800/60 border border-sky-900/60 text-sky-200">• {a}</li>))}
-                    </ul>
-                  </li>
-                ))}
-              </ol>
+             {loading.outline && <LoadingOverlay text={t('common.generating')} />}
+             {outline.length === 0 ? <Empty text={t('outline.empty')} /> : (
+              <OutlineEditor
+                outline={outline}
+                allocations={chapterChars}
+                busy={loading.outline || loading.script || loading.translate}
+                fmtNumber={fmtNumber}
+                t={t}
+                onChange={handleOutlineChange}
+                onRegenerate={handleRegenerateOutlineItem}
+              />
             )}
             </div>
           </Card>
 
-          <Card title="4) Kịch bản chi tiết" actions={<Button onClick={exportScriptCSV} disabled={scriptBlocks.length === 0}>Tải CSV</Button>}>
+          <Card title={t('script.title')} actions={<><ProviderBadge info={providerUsed.script} t={t} /><Button onClick={handleAutoFit} disabled={scriptBlocks.length === 0 || loading.script || loading.translate} className="whitespace-nowrap">{t('script.autoFit')}</Button><Button onClick={handleCheckRepetitions} disabled={scriptBlocks.length < 2}>{t('script.checkRepetitions')}</Button><Button onClick={() => setReviewOpen(true)} disabled={scriptBlocks.length === 0}>{t('script.review')}</Button><ExportMenu label={t('export.label')} disabled={scriptBlocks.length === 0} options={[
+            { label: "CSV", hint: t('export.csvHint'), onSelect: exportScriptCSV },
+            { label: t('export.srt'), hint: t('export.srtHint'), onSelect: () => exportSubtitles('srt') },
+            { label: t('export.vtt'), hint: t('export.vttHint'), onSelect: () => exportSubtitles('vtt') },
+            { label: t('export.teleprompter'), hint: t('export.teleprompterHint'), onSelect: exportTeleprompter },
+            { label: "DOCX", hint: t('export.docxHint'), onSelect: exportScriptDocx },
+          ]}>
+            {t('export.rateNote', { rate: speakingRate.perMinute, unit: speakingRate.unit === 'chars' ? t('export.unitChars') : t('export.unitWords') })}
+          </ExportMenu></>}>
              <div className="relative">
-                {loading.script && <LoadingOverlay />}
-                {scriptBlocks.length === 0 ? <Empty text="Chưa có kịch bản. Nhấn ‘Viết Kịch Bản’." /> : (
+                {Object.keys(blockJobs).length > 0 && (
+                  <div className="flex flex-wrap gap-1 mb-3">
+                    {outline.filter(o => blockJobs[o.index]).map(o => {
+                      const job = blockJobs[o.index];
+                      return (
+                        <span key={o.index} title={`${o.title}${job.error ? ` — ${job.error}` : ''}`} className={`px-2 py-0.5 rounded text-[11px] border ${JOB_STATUS_STYLES[job.status]}`}>
+                          {o.index + 1}. {t(JOB_STATUS_LABELS[job.status])}{job.attempts > 1 ? t('job.attempt', { count: job.attempts }) : ''}
+                        </span>
+                      );
+                    })}
+                  </div>
+                )}
+                {repetitions && (
+                  <div className="mb-3 p-3 rounded-xl bg-amber-950/30 border border-amber-800/60 text-sm">
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="font-semibold text-amber-200">{repetitions.length ? t('script.repetitionsFound', { count: repetitions.length }) : t('script.noRepetitions')}</span>
+                      <button onClick={() => setRepetitions(null)} className="text-xs text-amber-400 underline">{t('common.hide')}</button>
+                    </div>
+                    <ul className="space-y-1 max-h-48 overflow-y-auto text-amber-100/90">
+                      {repetitions.map((r, i) => (
+                        <li key={i}>“{r.phrase}” <span className="text-amber-400 text-xs">{t('script.repetitionChapters', { list: r.blocks.join(', ') })}</span></li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {scriptReview && (
+                  <ScriptReviewPanel
+                    reviews={scriptReview}
+                    busy={busyBlocks}
+                    disabled={loading.script || loading.translate}
+                    fmtNumber={fmtNumber}
+                    t={t}
+                    onResize={handleResizeBlock}
+                    onRegenerate={handleRegenerateBlock}
+                    onClean={handleCleanBlock}
+                    onExport={exportReviewCSV}
+                    onClose={() => setReviewOpen(false)}
+                  />
+                )}
+                {scriptBlocks.length === 0 && !scriptRows.length ? <Empty text={loading.script ? t('script.writing') : t('script.empty')} /> : (
                   <div className="space-y-3 max-h-[800px] overflow-y-auto pr-2">
-                    {scriptBlocks.map((b) => (
-                      <div key={b.index} className="p-3 rounded-xl bg-slate-900/50 border border-sky-900/60">
-                        <div className="flex items-center justify-between gap-2">
-                          <div className="font-semibold">{b.index}. {b.chapter}</div>
-                          <div className="text-xs text-sky-300">{fmtNumber(b.chars)} ký tự</div>
-                        </div>
-                        <p className="mt-2 whitespace-pre-wrap leading-relaxed text-sky-200">{b.text}</p>
-                      </div>
+                    {scriptBlocks.length > 0 && <DurationTimeline blocks={scriptBlocks} rate={speakingRate} targetMinutes={durationMin} tolerance={AUTO_FIT_TOLERANCE} t={t} />}
+                    {scriptRows.map(({ index, block: b }) => index in streamingText ? (
+                      <StreamingBlockCard
+                        key={index}
+                        index={index}
+                        chapter={outline[index - 1]?.title ?? b?.chapter ?? ''}
+                        text={streamingText[index]}
+                        targetChars={chapterChars[index - 1] ?? 0}
+                        fmtNumber={fmtNumber}
+                        t={t}
+                        onStop={() => handleStopBlock(index)}
+                      />
+                    ) : b && (
+                      <ScriptBlockCard
+                        key={b.index}
+                        block={b}
+                        targetChars={chapterChars[b.index - 1] ?? 0}
+                        minutes={blockMinutes(b, speakingRate)}
+                        busy={loading.script || loading.translate || !!busyBlocks[b.index]}
+                        fmtNumber={fmtNumber}
+                        t={t}
+                        onEdit={(text) => handleEditBlock(b.index, text)}
+                        onRegenerate={(instruction) => handleRegenerateBlock(b.index, instruction)}
+                        onResize={(target) => handleResizeBlock(b.index, target)}
+                        onRestore={(position) => handleRestoreBlock(b.index, position)}
+                        resolveSource={(chunkId) => sourceChunks.get(chunkId)}
+                      />
                     ))}
-                    <div className="text-sm text-sky-300 pt-2">Tổng ký tự hiện tại: <b>{fmtNumber(scriptBlocks.reduce((s,x)=>s+x.chars,0))}</b></div>
+                    <div className="text-sm text-sky-300 pt-2">{t('script.totalChars')} <b>{fmtNumber(scriptBlocks.reduce((s,x)=>s+x.chars,0))}</b></div>
                   </div>
                 )}
             </div>
           </Card>
 
-          <Card title="5) Gợi ý SEO (Tiêu đề, Mô tả...)">
+          <Card title={t('seo.title')} actions={<ProviderBadge info={providerUsed.seo} t={t} />}>
             <div className="relative">
-              {loading.seo && <LoadingOverlay />}
-              {!seo ? <Empty text="Chưa có SEO. Nhấn ‘Tạo Tiêu đề & Mô tả SEO’." /> : (
-                <div className="grid md:grid-cols-2 gap-4">
-                   <div>
-                      <h4 className="font-semibold mb-2">Tiêu đề gợi ý</h4>
-                      <ul className="space-y-2 text-sm">{seo.titles.map((t,i)=> <li key={i} className="p-2 rounded bg-slate-900/50 border border-sky-900/60">{t}</li>)}</ul>
-                      <h4 className="font-semibold mt-4 mb-2">Hashtags</h4>
-                      <div className="p-2 rounded bg-slate-900/50 border border-sky-900/60 text-sm">{seo.hashtags.join(' ')}</div>
-                   </div>
-                   <div>
-                      <h4 className="font-semibold mb-2">Mô tả video</h4>
-                      <textarea rows={12} readOnly className="w-full text-sm rounded-lg bg-slate-900/70 border border-sky-900 p-3" value={seo.description}></textarea>
-                   </div>
-                </div>
+              {loading.seo && <LoadingOverlay text={t('common.generating')} />}
+              {!seo ? <Empty text={t('seo.empty')} /> : (
+                <SeoPanel seo={seo} timestamps={chapterTimestamps} t={t} onChange={setSeo} onError={setError} />
               )}
             </div>
           </Card>
 
-          <Card title="6) Prompt Video & Thumbnail" actions={
+          <Card title={t('prompts.title')} actions={
               <div className="flex items-center gap-2">
-                <span className="inline-flex items-center gap-1 text-sm">Khung hình:
+                <ProviderBadge info={providerUsed.prompts} t={t} />
+                <span className="inline-flex items-center gap-1 text-sm">{t('prompts.frame')}
                   <select value={frameRatio} onChange={(e)=>setFrameRatio(e.target.value)} className="bg-transparent outline-none ml-1 text-sky-200 rounded p-1 border border-transparent hover:border-sky-800">
-                    {['9:16','16:9','1:1','4:5','21:9'].map(r=> <option key={r} value={r} className="bg-slate-900">{r}</option>)}
+                    {FRAME_RATIOS.map(r=> <option key={r} value={r} className="bg-slate-900">{r}</option>)}
                   </select>
                 </span>
-                <Button onClick={exportPromptCSV} disabled={videoPrompts.length === 0}>Tải CSV</Button>
+                <Button onClick={exportPromptCSV} disabled={videoPrompts.length === 0}>{t('prompts.downloadCsv')}</Button>
               </div>
           }>
             <div className="relative">
-              {loading.prompts && <LoadingOverlay />}
-              {videoPrompts.length === 0 && thumbTextIdeas.length === 0 ? <Empty text="Chưa có prompt. Nhấn ‘Tạo prompt video & thumbnail’." /> : (
+              {loading.prompts && <LoadingOverlay text={t('common.generating')} />}
+              {videoPrompts.length === 0 && thumbTextIdeas.length === 0 ? <Empty text={t('prompts.empty')} /> : (
                  <div className="grid md:grid-cols-2 gap-4">
                   <div>
-                    <h4 className="font-semibold mb-2">Prompt Video (Không gian/Vũ trụ)</h4>
+                    <h4 className="font-semibold mb-2">{t('prompts.video')}</h4>
                     <ul className="space-y-2 text-sm">{videoPrompts.map((p,i)=> <li key={i} className="p-2 rounded bg-slate-900/50 border border-sky-900/60">{i+1}. {p}</li>)}</ul>
                   </div>
                   <div>
-                    <h4 className="font-semibold mb-2">Gợi ý Text cho Thumbnail</h4>
+                    <h4 className="font-semibold mb-2">{t('prompts.thumbs')}</h4>
                     <div className="space-y-2 text-sm">{thumbTextIdeas.map((t,i)=> (<div key={i} className="p-2 rounded bg-slate-900/50 border border-sky-900/60">{t}</div>))}</div>
                   </div>
                 </div>
               )}
             </div>
           </Card>
+
+          <Card title={t('storyboard.title')} actions={
+              <div className="flex items-center gap-2">
+                <ProviderBadge info={providerUsed.storyboard} t={t} />
+                <label className="text-xs text-sky-300 flex items-center gap-1" title={t('storyboard.densityHint')}>
+                  {t('storyboard.density')}
+                  <input type="number" value={sceneSeconds} min={MIN_SCENE_SECONDS} max={MAX_SCENE_SECONDS} step={5} onChange={(e)=>setSceneSeconds(clamp(parseInt(e.target.value||'0') || DEFAULT_SCENE_SECONDS, MIN_SCENE_SECONDS, MAX_SCENE_SECONDS))} className="w-16 rounded bg-slate-900/70 border border-sky-900 px-2 py-1" />
+                </label>
+                {loading.storyboard
+                  ? <Button onClick={() => storyboardAbort.current?.abort()} className="border-red-800 bg-red-900/30 hover:bg-red-900/50">{t('common.stop')}</Button>
+                  : <Button onClick={handleGenerateStoryboard} disabled={scriptBlocks.length === 0}>{t('storyboard.generate')}</Button>}
+                <ExportMenu label={t('export.label')} disabled={!storyboard?.scenes.length} options={[
+                  { label: "CSV", hint: t('storyboard.csvHint'), onSelect: () => exportStoryboard('csv') },
+                  { label: "JSON", hint: t('storyboard.jsonHint'), onSelect: () => exportStoryboard('json') },
+                  { label: "EDL (CMX 3600)", hint: t('storyboard.edlHint', { fps: STORYBOARD_FPS }), onSelect: () => exportStoryboard('edl') },
+                ]} />
+              </div>
+          }>
+            <div className="relative">
+              {loading.storyboard && <LoadingOverlay text={t('common.generating')} />}
+              {!storyboard?.scenes.length ? <Empty text={t('storyboard.empty')} /> : (
+                <>
+                  {storyboard.frameRatio !== frameRatio && <p className="text-xs text-amber-300 mb-2">{t('storyboard.ratioMismatch', { ratio: storyboard.frameRatio })}</p>}
+                  <StoryboardView storyboard={storyboard} t={t} />
+                </>
+              )}
+            </div>
+          </Card>
+
+          <Card title={t('thumbnail.title')} actions={
+            <Button onClick={() => (!thumbnail || confirm(t('thumbnail.resetConfirm'))) && setThumbnail(defaultLayout(frameRatio, thumbTextIdeas[0] ?? bookTitle, bookMetadata?.dominantColors))}>{thumbnail ? t('thumbnail.reset') : t('thumbnail.create')}</Button>
+          }>
+            {!thumbnail ? <Empty text={t('thumbnail.empty')} /> : (
+              <ThumbnailComposer
+                layout={thumbnail}
+                coverUrl={bookImage}
+                ideas={thumbTextIdeas}
+                badge={durationBadge(durationMin)}
+                t={t}
+                onChange={setThumbnail}
+                onDownload={(filename, blob) => downloadFile(filename, blob, 'image/png')}
+              />
+            )}
+          </Card>
+
+          <Card title={t('shorts.title')} actions={
+            <div className="flex items-center gap-2">
+              <ProviderBadge info={providerUsed.shorts} t={t} />
+              {loading.shorts
+                ? <Button onClick={() => shortsAbort.current?.abort()} className="border-red-800 bg-red-900/30 hover:bg-red-900/50">{t('common.stop')}</Button>
+                : <Button onClick={handleGenerateShorts} disabled={scriptBlocks.length === 0}>{t('shorts.generate')}</Button>}
+              <ExportMenu label={t('export.label')} disabled={!shorts.length} options={[
+                { label: "Markdown", hint: t('shorts.mdHint'), onSelect: () => exportShorts('md') },
+                { label: "JSON", hint: t('shorts.jsonHint'), onSelect: () => exportShorts('json') },
+              ]} />
+            </div>
+          }>
+            <div className="relative">
+              {loading.shorts && <LoadingOverlay text={t('common.generating')} />}
+              {!shorts.length ? <Empty text={t('shorts.empty')} /> : (
+                <ShortsPanel clips={shorts} charsPerMinute={charsPerMinute(speakingRate, outputLanguage)} t={t} onDownload={downloadShort} onDelete={(id) => setShorts(prev => prev.filter(s => s.id !== id))} onError={setError} />
+              )}
+            </div>
+          </Card>
+
+          <Card title={t('narration.title')} actions={
+            <div className="flex items-center gap-2">
+              {loading.narration
+                ? <Button onClick={() => narrationAbort.current?.abort()} className="border-red-800 bg-red-900/30 hover:bg-red-900/50">{t('common.stop')}</Button>
+                : <Button onClick={handleNarrateAll} disabled={scriptBlocks.length === 0 || narrationTimes.every(c => c.measured)}>{t('narration.generate')}</Button>}
+              <ExportMenu label={t('export.label')} disabled={loading.narration || !narrationTimes.some(c => c.measured)} options={[
+                { label: t('narration.zip'), hint: t('narration.zipHint'), onSelect: exportNarration },
+              ]}>
+                {narrationTimes.some(c => !c.measured) && t('narration.exportPartial', { count: narrationTimes.filter(c => !c.measured).length })}
+              </ExportMenu>
+            </div>
+          }>
+            {!scriptBlocks.length ? <Empty text={t('narration.empty')} /> : (
+              <>
+                <p className="text-xs text-sky-400 mb-3">{t('narration.summary', { done: narrationTimes.filter(c => c.measured).length, total: scriptBlocks.length })}</p>
+                <NarrationPanel
+                  blocks={scriptBlocks}
+                  audio={narrationAudio}
+                  settings={narration}
+                  busy={narratingBlocks}
+                  disabled={loading.narration}
+                  t={t}
+                  onChangeSettings={setNarration}
+                  onNarrate={handleNarrateBlock}
+                  onDownload={downloadNarration}
+                />
+              </>
+            )}
+          </Card>
         </section>
       </main>
+      )}
       
       <footer className="max-w-7xl mx-auto px-6 py-10 text-sky-400/80 text-center text-sm">
-          Powered by Google Gemini
+          Powered by Google Gemini & OpenAI
       </footer>
     </div>
   );
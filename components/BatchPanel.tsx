@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { BatchItem, BatchLogEntry, BatchStatus, PipelineStage } from '../types';
+import { BatchBook, BatchInputError, BatchInputErrorCode, parseBatchInput } from '../services/batch';
+import { MessageKey, Translate } from '../services/i18n';
+import { Button, Card, Empty } from './ui';
+
+interface BatchPanelProps {
+  queue: BatchItem[];
+  running: boolean;
+  requestsPerMinute: number;
+  // Used for cells the pasted list leaves empty.
+  defaults: Omit<BatchBook, 'bookTitle'>;
+  error: string | null;
+  t: Translate;
+  onAdd: (books: BatchBook[]) => void;
+  onStart: () => void;
+  onPause: () => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearDone: () => void;
+  onOpenProject: (projectId: string) => void;
+  onDownloadZip: () => void;
+  onChangeRate: (requestsPerMinute: number) => void;
+}
+
+const STATUS_LABELS: Record<BatchStatus, MessageKey> = {
+  queued: 'batch.status.queued',
+  running: 'batch.status.running',
+  done: 'batch.status.done',
+  failed: 'batch.status.failed',
+};
+
+const STATUS_STYLES: Record<BatchStatus, string> = {
+  queued: 'border-sky-900/60 text-sky-500',
+  running: 'border-sky-500 text-sky-200 animate-pulse',
+  done: 'border-green-700/60 text-green-300',
+  failed: 'border-red-700/60 text-red-300',
+};
+
+const STAGE_LABELS: Record<PipelineStage, MessageKey> = {
+  outline: 'pipeline.stage.outline',
+  script: 'pipeline.stage.script',
+  seo: 'pipeline.stage.seo',
+  visuals: 'pipeline.stage.visuals',
+};
+
+const INPUT_ERRORS: Record<BatchInputErrorCode, MessageKey> = {
+  title: 'batch.inputError.title',
+  duration: 'batch.inputError.duration',
+  chapters: 'batch.inputError.chapters',
+  ratio: 'batch.inputError.ratio',
+};
+
+const LOG_MESSAGES: Record<BatchLogEntry['event'], MessageKey> = {
+  started: 'batch.log.started',
+  stage: 'batch.log.stage',
+  paused: 'batch.log.paused',
+  done: 'batch.log.done',
+  failed: 'batch.log.failed',
+};
+
+export const BatchPanel: React.FC<BatchPanelProps> = (props) => {
+  const { queue, running, requestsPerMinute, defaults, error, t } = props;
+  const [input, setInput] = useState('');
+  const [inputErrors, setInputErrors] = useState<BatchInputError[]>([]);
+
+  const counts = queue.reduce((acc, item) => ({ ...acc, [item.status]: acc[item.status] + 1 }), { queued: 0, running: 0, done: 0, failed: 0 } as Record<BatchStatus, number>);
+  const stageLabel = (stage?: PipelineStage) => stage ? t(STAGE_LABELS[stage]) : '';
+
+  const handleAdd = () => {
+    const { books, errors } = parseBatchInput(input, defaults);
+    setInputErrors(errors);
+    if (books.length) props.onAdd(books);
+    if (!errors.length) setInput('');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) setInput(await file.text());
+  };
+
+  return (
+    <div className="grid lg:grid-cols-3 gap-6">
+      <section className="space-y-6">
+        <Card title={t('batch.addTitle')}>
+          <div className="space-y-3 text-sm">
+            <p className="text-xs text-sky-400">{t('batch.inputHint', { duration: defaults.durationMin, chapters: defaults.chaptersCount, ratio: defaults.frameRatio })}</p>
+            <textarea rows={10} value={input} onChange={(e) => setInput(e.target.value)} placeholder={t('batch.inputPlaceholder')} className="w-full rounded-lg bg-slate-900/70 border border-sky-900 p-3 font-mono text-xs" />
+            <div className="flex items-center gap-2">
+              <label className="text-xs text-sky-400 underline decoration-dotted cursor-pointer hover:text-sky-100">
+                {t('batch.loadCsv')}
+                <input type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleFile} className="hidden" />
+              </label>
+              <Button onClick={handleAdd} disabled={!input.trim()} className="ml-auto">{t('batch.add')}</Button>
+            </div>
+            {inputErrors.length > 0 && (
+              <ul className="text-xs text-amber-300 space-y-0.5">
+                {inputErrors.map((e, i) => <li key={i}>⚠ {t(INPUT_ERRORS[e.code], { line: e.line, value: e.value })}</li>)}
+              </ul>
+            )}
+          </div>
+        </Card>
+        <Card title={t('batch.settingsTitle')}>
+          <label className="block text-sm">
+            <span className="text-sky-300">{t('batch.rate')}</span>
+            <input type="number" min={1} max={120} value={requestsPerMinute} disabled={running} onChange={(e) => props.onChangeRate(Math.max(1, Math.min(120, parseInt(e.target.value || '1'))))} className="w-full rounded-lg bg-slate-900/70 border border-sky-900 px-3 py-2 mt-1" />
+            <span className="text-xs text-sky-500">{t('batch.rateHint')}</span>
+          </label>
+          <p className="text-xs text-sky-500 mt-3">{t('batch.settingsHint')}</p>
+        </Card>
+      </section>
+
+      <section className="lg:col-span-2">
+        <Card title={t('batch.queueTitle')} actions={
+          <>
+            {running
+              ? <Button onClick={props.onPause}>{t('batch.pause')}</Button>
+              : <Button onClick={props.onStart} disabled={!counts.queued}>{queue.some(i => i.status === 'queued' && i.projectId) ? t('batch.resume') : t('batch.start')}</Button>}
+            <Button onClick={props.onDownloadZip} disabled={!counts.done}>{t('batch.downloadZip')}</Button>
+            <Button onClick={props.onClearDone} disabled={!counts.done || running}>{t('batch.clearDone')}</Button>
+          </>
+        }>
+          <p className="text-xs text-sky-400 mb-3">{t('batch.summary', counts)}</p>
+          {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+          {!queue.length ? <Empty text={t('batch.empty')} /> : (
+            <ol className="space-y-2 max-h-[48rem] overflow-y-auto pr-1">
+              {queue.map((item, position) => (
+                <li key={item.id} className="p-3 rounded-lg bg-slate-900/50 border border-sky-900/60 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-sky-500">{position + 1}.</span>
+                    <span className="font-semibold text-sky-100 flex-1 truncate">{item.bookTitle}</span>
+                    <span className="text-xs text-sky-400 whitespace-nowrap">{item.durationMin}′ · {item.chaptersCount} · {item.frameRatio}</span>
+                    <span className={`text-xs px-2 py-0.5 rounded border whitespace-nowrap ${STATUS_STYLES[item.status]}`}>
+                      {t(STATUS_LABELS[item.status])}{item.status === 'running' && item.stage ? ` · ${stageLabel(item.stage)}` : ''}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-3 mt-1 text-xs">
+                    {item.log.length > 0 && (
+                      <details className="flex-1">
+                        <summary className="cursor-pointer text-sky-500">{t('batch.log', { count: item.log.length })}</summary>
+                        <ul className="mt-1 space-y-0.5 text-sky-300">
+                          {item.log.map((entry, i) => (
+                            <li key={i} className={entry.event === 'failed' ? 'text-red-300' : ''}>
+                              <span className="font-mono text-sky-600 mr-1">{new Date(entry.at).toLocaleTimeString()}</span>
+                              {t(LOG_MESSAGES[entry.event], { stage: stageLabel(entry.stage), error: entry.error ?? '' })}
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
+                    )}
+                    <span className="ml-auto flex gap-3">
+                      {item.projectId && item.status !== 'running' && <button onClick={() => props.onOpenProject(item.projectId!)} className="text-sky-400 underline decoration-dotted hover:text-sky-100">{t('batch.open')}</button>}
+                      {item.status === 'failed' && <button onClick={() => props.onRetry(item.id)} className="text-sky-400 underline decoration-dotted hover:text-sky-100">{t('batch.retry')}</button>}
+                      {item.status !== 'running' && <button onClick={() => props.onRemove(item.id)} className="text-sky-500 hover:text-red-300">{t('common.delete')}</button>}
+                    </span>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </Card>
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { BookProfile, BookQuote } from '../types';
+import { MessageKey, Translate } from '../services/i18n';
+import { Button, Card, Empty, LoadingOverlay } from './ui';
+
+interface BookProfileCardProps {
+  profile: BookProfile | null;
+  busy: boolean;
+  hasSources: boolean;
+  t: Translate;
+  onGenerate: () => void;
+  onChange: (profile: BookProfile) => void;
+}
+
+const inputClass = "w-full rounded-lg bg-slate-900/70 border border-sky-900 px-2 py-1.5 text-sm focus:border-sky-500 outline-none";
+const linkClass = "text-xs text-sky-400 underline decoration-dotted hover:text-sky-100";
+
+// One entry per line; committed on blur so blank lines can be typed without vanishing.
+const LineList: React.FC<{ label: string; value: string[]; rows: number; onChange: (value: string[]) => void }> = ({ label, value, rows, onChange }) => {
+  const [text, setText] = useState(value.join('\n'));
+  useEffect(() => setText(value.join('\n')), [value]);
+  return (
+    <label className="block">
+      <span className="text-xs text-sky-400">{label}</span>
+      <textarea rows={rows} value={text} onChange={(e) => setText(e.target.value)} onBlur={() => onChange(text.split('\n').map(l => l.trim()).filter(Boolean))} className={`${inputClass} mt-1`} />
+    </label>
+  );
+};
+
+const TEXT_FIELDS: { field: 'author' | 'year' | 'genre' | 'audience'; label: MessageKey }[] = [
+  { field: 'author', label: 'profile.author' },
+  { field: 'year', label: 'profile.year' },
+  { field: 'genre', label: 'profile.genre' },
+  { field: 'audience', label: 'profile.audience' },
+];
+
+export const BookProfileCard: React.FC<BookProfileCardProps> = ({ profile, busy, hasSources, t, onGenerate, onChange }) => {
+  const set = (patch: Partial<BookProfile>) => profile && onChange({ ...profile, ...patch });
+  const setQuote = (position: number, patch: Partial<BookQuote>) =>
+    profile && set({ quotes: profile.quotes.map((q, i) => i === position ? { ...q, ...patch } : q) });
+
+  return (
+    <Card title={t('profile.title')} actions={
+      <Button onClick={onGenerate} disabled={busy} className="text-xs py-1">{profile ? t('profile.regenerate') : t('profile.generate')}</Button>
+    }>
+      <div className="relative">
+        {busy && <LoadingOverlay text={t('profile.researching')} />}
+        <p className="text-[11px] text-sky-500 mb-2">{t('profile.hint')}</p>
+        {!profile ? <Empty text={t('profile.empty')} /> : (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              {TEXT_FIELDS.map(({ field, label }) => (
+                <label key={field} className={`block ${field === 'audience' ? 'col-span-2' : ''}`}>
+                  <span className="text-xs text-sky-400">{t(label)}</span>
+                  <input value={profile[field]} onChange={(e) => set({ [field]: e.target.value })} className={`${inputClass} mt-1`} />
+                </label>
+              ))}
+            </div>
+            <LineList label={t('profile.chapters')} value={profile.chapters} rows={5} onChange={(chapters) => set({ chapters })} />
+            <LineList label={t('profile.coreIdeas')} value={profile.coreIdeas} rows={5} onChange={(coreIdeas) => set({ coreIdeas })} />
+            <div>
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-sky-400">{t('profile.quotes')}</span>
+                <button onClick={() => set({ quotes: [...profile.quotes, { text: '', reference: '' }] })} className={linkClass}>{t('profile.addQuote')}</button>
+              </div>
+              {!profile.quotes.length && <p className="text-xs text-sky-600 italic mt-1">{hasSources ? t('profile.noQuotes') : t('profile.quotesNeedSources')}</p>}
+              <ul className="space-y-2 mt-1">
+                {profile.quotes.map((q, i) => (
+                  <li key={i} className="p-2 rounded-lg bg-slate-900/50 border border-sky-900/60 space-y-1">
+                    <textarea rows={2} value={q.text} onChange={(e) => setQuote(i, { text: e.target.value })} className={inputClass} />
+                    <div className="flex items-center gap-2">
+                      <input value={q.reference} onChange={(e) => setQuote(i, { reference: e.target.value })} placeholder={t('profile.reference')} className={inputClass} />
+                      <button onClick={() => set({ quotes: profile.quotes.filter((_, j) => j !== i) })} className="text-xs text-sky-500 hover:text-red-300">{t('common.delete')}</button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,50 @@
+import React from 'react';
+import { ScriptBlock, SpeakingRate } from '../types';
+import { blockMinutes, fmtDuration } from '../services/duration';
+import { Translate } from '../services/i18n';
+
+interface DurationTimelineProps {
+  blocks: ScriptBlock[];
+  rate: SpeakingRate;
+  targetMinutes: number;
+  tolerance: number;
+  t: Translate;
+}
+
+const SEGMENT_COLORS = ['bg-sky-600', 'bg-sky-800', 'bg-cyan-700', 'bg-blue-800'];
+
+export const DurationTimeline: React.FC<DurationTimelineProps> = ({ blocks, rate, targetMinutes, tolerance, t }) => {
+  const minutes = blocks.map(b => blockMinutes(b, rate));
+  const total = minutes.reduce((a, b) => a + b, 0);
+  const scale = Math.max(total, targetMinutes * (1 + tolerance)) || 1;
+  const withinTolerance = Math.abs(total - targetMinutes) <= targetMinutes * tolerance;
+  let start = 0;
+
+  return (
+    <div className="mb-3 p-3 rounded-xl bg-slate-900/50 border border-sky-900/60 text-xs">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sky-300">{t('timeline.title')}</span>
+        <span className={withinTolerance ? 'text-green-300' : 'text-amber-300'}>
+          {fmtDuration(total)} / {fmtDuration(targetMinutes)} ({total >= targetMinutes ? '+' : ''}{Math.round((total / targetMinutes - 1) * 100)}%)
+        </span>
+      </div>
+      <div className="relative h-5 rounded bg-slate-800/80 overflow-hidden flex">
+        {blocks.map((b, i) => {
+          const from = start;
+          start += minutes[i];
+          return (
+            <div
+              key={b.index}
+              title={t('timeline.segment', { index: b.index, chapter: b.chapter, start: fmtDuration(from), length: fmtDuration(minutes[i]) })}
+              className={`${SEGMENT_COLORS[i % SEGMENT_COLORS.length]} h-full border-r border-slate-950/60 text-[10px] text-sky-100 overflow-hidden whitespace-nowrap px-1 leading-5`}
+              style={{ width: `${(minutes[i] / scale) * 100}%` }}
+            >
+              {b.index}
+            </div>
+          );
+        })}
+        <div className="absolute top-0 bottom-0 border-l-2 border-amber-400" style={{ left: `${(targetMinutes / scale) * 100}%` }} title={t('timeline.target', { duration: fmtDuration(targetMinutes) })} />
+      </div>
+    </div>
+  );
+};
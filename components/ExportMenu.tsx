@@ -0,0 +1,47 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from './ui';
+
+export interface ExportOption {
+  label: string;
+  hint?: string;
+  onSelect: () => void;
+}
+
+interface ExportMenuProps {
+  label: string;
+  options: ExportOption[];
+  disabled?: boolean;
+  // Extra settings rendered above the option list, e.g. speaking rate.
+  children?: React.ReactNode;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ label, options, disabled, children }) => {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  return (
+    <div ref={ref} className="relative">
+      <Button onClick={() => setOpen(o => !o)} disabled={disabled}>{label} ▾</Button>
+      {open && (
+        <div className="absolute right-0 mt-1 w-64 z-30 rounded-xl bg-slate-950 border border-sky-800 shadow-xl p-2 space-y-1">
+          {children && <div className="px-2 pb-2 mb-1 border-b border-sky-900/60 text-xs text-sky-300">{children}</div>}
+          {options.map(o => (
+            <button key={o.label} onClick={() => { o.onSelect(); setOpen(false); }} className="w-full text-left px-2 py-1.5 rounded hover:bg-sky-900/40">
+              <div className="text-sm text-sky-100">{o.label}</div>
+              {o.hint && <div className="text-[11px] text-sky-500">{o.hint}</div>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { ApiKeyEntry, KeyHealth, ProviderId } from '../types';
+import { MIN_PASSPHRASE_LENGTH, maskKey } from '../services/keyVault';
+import { PROVIDER_LABELS } from '../services/llmProvider';
+import { MessageKey, Translate } from '../services/i18n';
+import { Button } from './ui';
+
+export type VaultStatus = 'none' | 'locked' | 'unlocked';
+
+interface KeyVaultPanelProps {
+  status: VaultStatus;
+  entries: ApiKeyEntry[];
+  health: Record<string, KeyHealth>;
+  // Plaintext keys from older versions, moved into the vault when it is created.
+  legacyCount: number;
+  t: Translate;
+  // Rejections are shown next to the form that caused them.
+  onCreate: (passphrase: string) => Promise<void>;
+  onUnlock: (passphrase: string) => Promise<void>;
+  onLock: () => void;
+  onReset: () => void;
+  onAdd: (entry: Omit<ApiKeyEntry, 'id'>) => void;
+  onRemove: (id: string) => void;
+  onMove: (id: string, offset: -1 | 1) => void;
+  onClearHealth: (id: string) => void;
+}
+
+const PROVIDERS: ProviderId[] = ['gemini', 'openai'];
+
+const HEALTH_LABELS: Record<KeyHealth['status'], MessageKey> = {
+  ok: 'vault.health.ok',
+  quota: 'vault.health.quota',
+  auth: 'vault.health.auth',
+};
+
+const HEALTH_STYLES: Record<KeyHealth['status'], string> = {
+  ok: 'border-green-700/60 text-green-300',
+  quota: 'border-amber-700/60 text-amber-300',
+  auth: 'border-red-700/60 text-red-300',
+};
+
+const inputClass = "w-full rounded bg-slate-900/80 border border-sky-800/50 px-2 py-1.5 text-xs focus:border-sky-500 outline-none text-sky-100 placeholder:text-sky-800";
+const linkClass = "text-sky-400 underline decoration-dotted hover:text-sky-100 disabled:opacity-40 disabled:no-underline";
+
+export const KeyVaultPanel: React.FC<KeyVaultPanelProps> = (props) => {
+  const { status, entries, health, legacyCount, t } = props;
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+  const [draft, setDraft] = useState<Omit<ApiKeyEntry, 'id'>>({ provider: 'gemini', label: '', key: '' });
+
+  const submit = async (action: (passphrase: string) => Promise<void>) => {
+    setError(null);
+    setWorking(true);
+    try {
+      await action(passphrase);
+      setPassphrase('');
+      setConfirmation('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleAdd = () => {
+    const count = entries.filter(e => e.provider === draft.provider).length;
+    props.onAdd({ ...draft, key: draft.key.trim(), label: draft.label.trim() || `${PROVIDER_LABELS[draft.provider]} #${count + 1}` });
+    setDraft({ ...draft, label: '', key: '' });
+  };
+
+  if (status === 'none') {
+    const tooShort = passphrase.length < MIN_PASSPHRASE_LENGTH;
+    return (
+      <div className="space-y-2 text-xs">
+        <p className="text-sky-300">{t('vault.createHint')}</p>
+        {legacyCount > 0 && <p className="text-amber-300">{t('vault.legacy', { count: legacyCount })}</p>}
+        <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder={t('vault.passphrase')} className={inputClass} />
+        <input type="password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} placeholder={t('vault.confirm')} className={inputClass} />
+        {passphrase && tooShort && <p className="text-sky-500">{t('vault.tooShort', { min: MIN_PASSPHRASE_LENGTH })}</p>}
+        {confirmation && confirmation !== passphrase && <p className="text-amber-300">{t('vault.mismatch')}</p>}
+        {error && <p className="text-red-400">{error}</p>}
+        <Button onClick={() => submit(props.onCreate)} disabled={working || tooShort || confirmation !== passphrase} className="w-full text-xs py-1.5">{t('vault.create')}</Button>
+        <p className="text-[10px] text-sky-600 italic text-center">{t('vault.forgetWarning')}</p>
+      </div>
+    );
+  }
+
+  if (status === 'locked') {
+    return (
+      <form className="space-y-2 text-xs" onSubmit={(e) => { e.preventDefault(); submit(props.onUnlock); }}>
+        <p className="text-sky-300">{t('vault.lockedHint')}</p>
+        <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder={t('vault.passphrase')} autoFocus className={inputClass} />
+        {error && <p className="text-red-400">{error}</p>}
+        <div className="flex items-center gap-3">
+          <button type="submit" disabled={working || !passphrase} className="flex-1 rounded-lg border border-sky-600 bg-sky-700/50 px-3 py-1.5 font-semibold disabled:opacity-50">{working ? t('vault.unlocking') : t('vault.unlock')}</button>
+          <button type="button" onClick={props.onReset} className="text-sky-500 hover:text-red-300">{t('vault.reset')}</button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="space-y-3 text-xs">
+      {PROVIDERS.map(provider => {
+        const keys = entries.filter(e => e.provider === provider);
+        return (
+          <div key={provider}>
+            <div className="font-medium text-sky-400 mb-1">{PROVIDER_LABELS[provider]}</div>
+            {!keys.length ? <p className="text-sky-600">{t('vault.noKeys')}</p> : (
+              <ol className="space-y-1">
+                {keys.map((entry, i) => {
+                  const state = health[entry.id];
+                  return (
+                    <li key={entry.id} className="flex items-center gap-2 px-2 py-1 rounded bg-slate-900/60 border border-sky-900/50">
+                      <span className="text-sky-600 font-mono">{i + 1}.</span>
+                      <span className="flex-1 min-w-0 truncate text-sky-100">{entry.label} <span className="font-mono text-sky-500">{maskKey(entry.key)}</span></span>
+                      {state && (
+                        <span title={state.message ? `${new Date(state.at).toLocaleString(t.locale)} — ${state.message}` : new Date(state.at).toLocaleString(t.locale)} className={`px-1.5 rounded border whitespace-nowrap ${HEALTH_STYLES[state.status]}`}>
+                          {t(HEALTH_LABELS[state.status])}
+                        </span>
+                      )}
+                      {state && state.status !== 'ok' && <button onClick={() => props.onClearHealth(entry.id)} title={t('vault.clearHealthHint')} className={linkClass}>{t('vault.clearHealth')}</button>}
+                      <button onClick={() => props.onMove(entry.id, -1)} disabled={i === 0} className={linkClass}>↑</button>
+                      <button onClick={() => props.onMove(entry.id, 1)} disabled={i === keys.length - 1} className={linkClass}>↓</button>
+                      <button onClick={() => props.onRemove(entry.id)} className="text-sky-500 hover:text-red-300">{t('common.delete')}</button>
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="pt-2 border-t border-sky-900/40 space-y-2">
+        <div className="flex gap-2">
+          <select value={draft.provider} onChange={(e) => setDraft({ ...draft, provider: e.target.value as ProviderId })} className="rounded bg-slate-900/80 border border-sky-800/50 px-2 py-1.5">
+            {PROVIDERS.map(p => <option key={p} value={p}>{PROVIDER_LABELS[p]}</option>)}
+          </select>
+          <input value={draft.label} onChange={(e) => setDraft({ ...draft, label: e.target.value })} placeholder={t('vault.label')} className={inputClass} />
+        </div>
+        <div className="flex gap-2">
+          <input type="password" value={draft.key} onChange={(e) => setDraft({ ...draft, key: e.target.value })} placeholder={t('vault.key')} className={inputClass} />
+          <Button onClick={handleAdd} disabled={!draft.key.trim()} className="text-xs py-1.5 whitespace-nowrap">{t('vault.add')}</Button>
+        </div>
+      </div>
+      <div className="flex items-center justify-between">
+        <p className="text-[10px] text-sky-600 italic">{t('vault.rotationHint')}</p>
+        <button onClick={props.onLock} className={linkClass}>{t('vault.lock')}</button>
+      </div>
+    </div>
+  );
+};
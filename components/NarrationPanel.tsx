@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { NarrationAudio, NarrationSettings, ScriptBlock, TtsProviderId } from '../types';
+import { SPEED_LIMITS, TTS_PROVIDER_IDS, getTtsProvider, isNarrationFresh, withProvider } from '../services/narration';
+import { formatTimestamp } from '../services/youtubeSeo';
+import { MessageKey, Translate } from '../services/i18n';
+
+interface NarrationPanelProps {
+  blocks: ScriptBlock[];
+  audio: Map<number, NarrationAudio>;
+  settings: NarrationSettings;
+  // Chapters being read right now, by block index.
+  busy: Record<number, boolean>;
+  disabled: boolean;
+  t: Translate;
+  onChangeSettings: (settings: NarrationSettings) => void;
+  onNarrate: (index: number) => void;
+  onDownload: (index: number) => void;
+}
+
+const PROVIDER_LABELS: Record<TtsProviderId, MessageKey> = {
+  gemini: 'narration.provider.gemini',
+  local: 'narration.provider.local',
+};
+
+const linkClass = "text-sky-400 underline decoration-dotted hover:text-sky-100 disabled:opacity-50 disabled:no-underline";
+
+export const NarrationPanel: React.FC<NarrationPanelProps> = ({ blocks, audio, settings, busy, disabled, t, onChangeSettings, onNarrate, onDownload }) => {
+  const [urls, setUrls] = useState<Map<number, string>>(new Map());
+  const voices = getTtsProvider(settings.provider).voices;
+
+  useEffect(() => {
+    const next = new Map([...audio].map(([index, track]) => [index, URL.createObjectURL(track.wav)]));
+    setUrls(next);
+    return () => next.forEach(url => URL.revokeObjectURL(url));
+  }, [audio]);
+
+  const set = (patch: Partial<NarrationSettings>) => onChangeSettings({ ...settings, ...patch });
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="grid sm:grid-cols-4 gap-3">
+        <label className="block">
+          <span className="text-xs text-sky-400">{t('narration.provider')}</span>
+          <select value={settings.provider} disabled={disabled} onChange={(e) => onChangeSettings(withProvider(settings, e.target.value as TtsProviderId))} className="w-full rounded-lg bg-slate-900/70 border border-sky-900 px-2 py-1.5 mt-1">
+            {TTS_PROVIDER_IDS.map(id => <option key={id} value={id}>{t(PROVIDER_LABELS[id])}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-xs text-sky-400">{t('narration.voice')}</span>
+          <select value={settings.voice} disabled={disabled} onChange={(e) => set({ voice: e.target.value })} className="w-full rounded-lg bg-slate-900/70 border border-sky-900 px-2 py-1.5 mt-1">
+            {voices.map(v => <option key={v} value={v}>{v}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-xs text-sky-400">{t('narration.speed', { speed: settings.speed.toFixed(2) })}</span>
+          <input type="range" min={SPEED_LIMITS.min} max={SPEED_LIMITS.max} step={0.05} value={settings.speed} disabled={disabled} onChange={(e) => set({ speed: parseFloat(e.target.value) })} className="w-full mt-2" />
+        </label>
+        <label className="block">
+          <span className="text-xs text-sky-400">{t('narration.pause')}</span>
+          <input type="number" min={0} max={10} step={0.5} value={settings.pauseSeconds} onChange={(e) => set({ pauseSeconds: Math.max(0, Math.min(10, parseFloat(e.target.value || '0'))) })} className="w-full rounded-lg bg-slate-900/70 border border-sky-900 px-2 py-1 mt-1" />
+        </label>
+      </div>
+      {settings.provider === 'local' && <p className="text-xs text-amber-300">{t('narration.localHint')}</p>}
+
+      <ol className="space-y-2 max-h-[32rem] overflow-y-auto pr-1">
+        {blocks.map(b => {
+          const track = audio.get(b.index);
+          const fresh = isNarrationFresh(b, track, settings);
+          const url = urls.get(b.index);
+          return (
+            <li key={b.index} className={`p-3 rounded-lg bg-slate-900/50 border border-sky-900/60 ${busy[b.index] ? 'animate-pulse' : ''}`}>
+              <div className="flex items-center gap-2">
+                <span className="font-semibold text-sky-100 flex-1 truncate">{b.index}. {b.chapter}</span>
+                <span className={`text-xs whitespace-nowrap ${fresh ? 'text-green-300' : track ? 'text-amber-300' : 'text-sky-500'}`}>
+                  {busy[b.index] ? t('narration.reading') : fresh ? formatTimestamp(track!.seconds) : track ? t('narration.stale') : t('narration.missing')}
+                </span>
+              </div>
+              {url && <audio controls preload="none" src={url} className="w-full h-8 mt-2" />}
+              <div className="flex gap-3 mt-1 text-xs">
+                <button onClick={() => onNarrate(b.index)} disabled={disabled || busy[b.index]} className={linkClass}>{track ? t('narration.redo') : t('narration.create')}</button>
+                {track && <button onClick={() => onDownload(b.index)} className={linkClass}>{t('narration.downloadWav')}</button>}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
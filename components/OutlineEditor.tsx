@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { OutlineItem } from '../types';
+import { DEFAULT_WEIGHT, moveItem } from '../services/outlineUtils';
+import { Translate } from '../services/i18n';
+
+interface OutlineEditorProps {
+  outline: OutlineItem[];
+  allocations: number[];
+  busy: boolean;
+  fmtNumber: (n: number) => string;
+  t: Translate;
+  // Receives the edited list with each item's previous index still attached (-1 for new items).
+  onChange: (edited: OutlineItem[]) => void;
+  onRegenerate: (position: number) => void;
+}
+
+const inputClass = "w-full rounded bg-slate-900/80 border border-sky-900/60 px-2 py-1 outline-none focus:border-sky-500 text-sky-100";
+
+export const OutlineEditor: React.FC<OutlineEditorProps> = ({ outline, allocations, busy, fmtNumber, t, onChange, onRegenerate }) => {
+  const [dragFrom, setDragFrom] = useState<number | null>(null);
+  const [dragOver, setDragOver] = useState<number | null>(null);
+
+  const update = (position: number, patch: Partial<OutlineItem>) => {
+    onChange(outline.map((o, i) => i === position ? { ...o, ...patch } : o));
+  };
+
+  const insertAfter = (position: number) => {
+    const next = [...outline];
+    next.splice(position + 1, 0, { index: -1, title: t('outline.newChapter'), focus: "", actions: [] });
+    onChange(next);
+  };
+
+  const remove = (position: number) => {
+    if (!confirm(t('outline.deleteConfirm', { title: outline[position].title }))) return;
+    onChange(outline.filter((_, i) => i !== position));
+  };
+
+  const handleDrop = (position: number) => {
+    if (dragFrom !== null && dragFrom !== position) onChange(moveItem(outline, dragFrom, position));
+    setDragFrom(null);
+    setDragOver(null);
+  };
+
+  return (
+    <ol className="space-y-3">
+      {outline.map((o, i) => (
+        <li
+          key={o.index}
+          onDragOver={(e) => { e.preventDefault(); setDragOver(i); }}
+          onDrop={() => handleDrop(i)}
+          className={`p-3 rounded-xl bg-slate-900/50 border ${dragOver === i && dragFrom !== i ? 'border-sky-400' : 'border-sky-900/60'}`}
+        >
+          <div className="flex items-center gap-2">
+            <span
+              draggable
+              onDragStart={() => setDragFrom(i)}
+              onDragEnd={() => { setDragFrom(null); setDragOver(null); }}
+              title={t('outline.dragHint')}
+              className="cursor-grab select-none text-sky-500 px-1"
+            >⋮⋮</span>
+            <span className="font-semibold text-sky-400 w-6 text-right">{i + 1}.</span>
+            <input value={o.title} onChange={(e) => update(i, { title: e.target.value })} className={`${inputClass} font-semibold`} />
+          </div>
+          <textarea
+            rows={2}
+            value={o.focus}
+            onChange={(e) => update(i, { focus: e.target.value })}
+            placeholder={t('outline.focusPlaceholder')}
+            className={`${inputClass} mt-2 text-sm text-sky-300`}
+          />
+          <textarea
+            rows={Math.max(2, o.actions.length)}
+            value={o.actions.join("\n")}
+            onChange={(e) => update(i, { actions: e.target.value.split("\n") })}
+            onBlur={() => update(i, { actions: o.actions.map(a => a.trim()).filter(Boolean) })}
+            placeholder={t('outline.actionsPlaceholder')}
+            className={`${inputClass} mt-2 text-sm`}
+          />
+          <div className="flex flex-wrap items-center gap-3 mt-2 text-xs text-sky-300">
+            <label className="flex items-center gap-1" title={t('outline.weightHint')}>
+              {t('outline.weight')}
+              <input type="number" min={0} step={0.5} value={o.weight ?? DEFAULT_WEIGHT} disabled={!!o.targetChars}
+                onChange={(e) => update(i, { weight: Math.max(0, parseFloat(e.target.value || '0')) })}
+                className="w-16 rounded bg-slate-900/80 border border-sky-900/60 px-2 py-0.5 disabled:opacity-50" />
+            </label>
+            <label className="flex items-center gap-1" title={t('outline.fixedCharsHint')}>
+              {t('outline.fixedChars')}
+              <input type="number" min={0} step={500} value={o.targetChars ?? ''} placeholder={t('outline.auto')}
+                onChange={(e) => update(i, { targetChars: parseInt(e.target.value) > 0 ? parseInt(e.target.value) : undefined })}
+                className="w-24 rounded bg-slate-900/80 border border-sky-900/60 px-2 py-0.5" />
+            </label>
+            <span>≈ <b>{fmtNumber(allocations[i] ?? 0)}</b> {t('common.chars')}</span>
+            <span className="ml-auto flex gap-3">
+              <button onClick={() => onRegenerate(i)} disabled={busy} className="underline decoration-dotted hover:text-sky-100 disabled:opacity-50">{t('common.regenerate')}</button>
+              <button onClick={() => insertAfter(i)} className="underline decoration-dotted hover:text-sky-100">{t('outline.insertAfter')}</button>
+              <button onClick={() => remove(i)} className="underline decoration-dotted hover:text-red-300">{t('common.delete')}</button>
+            </span>
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { JobState, PipelineStage } from '../types';
+import { PIPELINE_STAGES, StageStatus } from '../services/pipeline';
+import { MessageKey, Translate } from '../services/i18n';
+import { Button } from './ui';
+
+interface PipelinePanelProps {
+  status: Record<PipelineStage, StageStatus>;
+  // Progress of the current or last pipeline run; overrides the derived status while it applies.
+  jobs: Partial<Record<PipelineStage, JobState>>;
+  busy: boolean;
+  t: Translate;
+  onRunAll: () => void;
+  onRunStale: () => void;
+}
+
+const STAGE_LABELS: Record<PipelineStage, MessageKey> = {
+  outline: 'pipeline.stage.outline',
+  script: 'pipeline.stage.script',
+  seo: 'pipeline.stage.seo',
+  visuals: 'pipeline.stage.visuals',
+};
+
+type Display = StageStatus | 'running' | 'failed';
+
+const DISPLAY_LABELS: Record<Display, MessageKey> = {
+  missing: 'pipeline.status.missing',
+  stale: 'pipeline.status.stale',
+  fresh: 'pipeline.status.fresh',
+  running: 'pipeline.status.running',
+  failed: 'pipeline.status.failed',
+};
+
+const DISPLAY_STYLES: Record<Display, string> = {
+  missing: 'border-sky-900/60 text-sky-500',
+  stale: 'border-amber-700/60 text-amber-300',
+  fresh: 'border-green-700/60 text-green-300',
+  running: 'border-sky-500 text-sky-200 animate-pulse',
+  failed: 'border-red-700/60 text-red-300',
+};
+
+export const PipelinePanel: React.FC<PipelinePanelProps> = ({ status, jobs, busy, t, onRunAll, onRunStale }) => {
+  const display = (stage: PipelineStage): Display => {
+    const job = jobs[stage];
+    if (job?.status === 'running' || job?.status === 'failed') return job.status;
+    return status[stage];
+  };
+  const pending = PIPELINE_STAGES.filter(stage => status[stage] !== 'fresh').length;
+
+  return (
+    <div className="p-3 rounded-lg bg-slate-900/50 border border-sky-900/60 space-y-2">
+      <div className="flex flex-wrap items-center gap-1 text-xs">
+        {PIPELINE_STAGES.map((stage, i) => (
+          <React.Fragment key={stage}>
+            {i > 0 && <span className="text-sky-700">→</span>}
+            <span className={`px-2 py-0.5 rounded border ${DISPLAY_STYLES[display(stage)]}`} title={jobs[stage]?.error}>
+              {t(STAGE_LABELS[stage])} · {t(DISPLAY_LABELS[display(stage)])}
+            </span>
+          </React.Fragment>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button onClick={onRunAll} disabled={busy} className="flex-1">{t('pipeline.runAll')}</Button>
+        <Button onClick={onRunStale} disabled={busy || pending === 0} className="flex-1">{t('pipeline.runStale', { count: pending })}</Button>
+      </div>
+      <p className="text-[11px] text-sky-500">{t('pipeline.hint')}</p>
+    </div>
+  );
+};
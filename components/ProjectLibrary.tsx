@@ -0,0 +1,57 @@
+import React, { useRef } from 'react';
+import { Project } from '../types';
+import { Translate } from '../services/i18n';
+import { Button, Card } from './ui';
+
+interface ProjectLibraryProps {
+  projects: Project[];
+  currentId: string | null;
+  saving: boolean;
+  t: Translate;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string) => void;
+  onImport: (file: File) => void;
+}
+
+export const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ projects, currentId, saving, t, onOpen, onCreate, onRename, onDuplicate, onDelete, onExport, onImport }) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const fmtDate = (ts: number) => new Date(ts).toLocaleString(t.locale, { dateStyle: "short", timeStyle: "short" });
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    e.target.value = "";
+  };
+
+  return (
+    <Card title={t('library.title')} actions={
+      <>
+        <Button onClick={onCreate} className="text-xs py-1">{t('library.new')}</Button>
+        <Button onClick={() => fileInput.current?.click()} className="text-xs py-1">{t('library.import')}</Button>
+        <input ref={fileInput} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+      </>
+    }>
+      <div className="text-[11px] text-sky-500 mb-2">{saving ? t('library.saving') : t('library.autosave')}</div>
+      <ul className="space-y-2 max-h-72 overflow-y-auto pr-1">
+        {projects.map(p => (
+          <li key={p.id} className={`p-2 rounded-lg border text-sm ${p.id === currentId ? 'bg-sky-900/40 border-sky-600' : 'bg-slate-900/50 border-sky-900/60'}`}>
+            <button onClick={() => onOpen(p.id)} className="w-full text-left">
+              <div className="font-semibold text-sky-100 truncate">{p.name}</div>
+              <div className="text-[11px] text-sky-400">{t('library.updated', { date: fmtDate(p.updatedAt) })}</div>
+            </button>
+            <div className="flex gap-3 mt-1 text-[11px] text-sky-400">
+              <button onClick={() => onRename(p.id)} className="hover:text-sky-200 underline decoration-dotted">{t('library.rename')}</button>
+              <button onClick={() => onDuplicate(p.id)} className="hover:text-sky-200 underline decoration-dotted">{t('library.duplicate')}</button>
+              <button onClick={() => onExport(p.id)} className="hover:text-sky-200 underline decoration-dotted">{t('library.export')}</button>
+              <button onClick={() => onDelete(p.id)} className="hover:text-red-300 underline decoration-dotted">{t('common.delete')}</button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </Card>
+  );
+};
@@ -0,0 +1,143 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { PromptPreset, PromptTemplateId } from '../types';
+import { TEMPLATE_IDS, TEMPLATE_VARIABLES, TemplateVariables, VARIABLE_TYPES, previewVariables, renderTemplate, validateTemplate } from '../services/promptTemplates';
+import { MessageKey, Translate } from '../services/i18n';
+import { Button, Card } from './ui';
+
+interface PromptTemplateEditorProps {
+  presets: PromptPreset[];
+  currentId: string;
+  // Real project values for the preview; anything missing is shown as ‹name›.
+  sampleVariables: Partial<TemplateVariables>;
+  t: Translate;
+  onSelect: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onUpdate: (preset: PromptPreset) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+}
+
+const TAB_LABELS: Record<PromptTemplateId, MessageKey> = {
+  outline: 'templates.tab.outline',
+  seo: 'templates.tab.seo',
+  script: 'templates.tab.script',
+  videoPrompts: 'templates.tab.videoPrompts',
+  thumbIdeas: 'templates.tab.thumbIdeas',
+};
+
+const BUILT_IN_LABELS: Record<string, MessageKey> = {
+  audiobook: 'templates.preset.audiobook',
+  summary10: 'templates.preset.summary10',
+  review: 'templates.preset.review',
+  kids: 'templates.preset.kids',
+};
+
+export const presetLabel = (preset: PromptPreset, t: Translate) =>
+  preset.builtIn && BUILT_IN_LABELS[preset.id] ? t(BUILT_IN_LABELS[preset.id]) : preset.name;
+
+const linkClass = "underline decoration-dotted hover:text-sky-100 disabled:opacity-50 disabled:no-underline";
+
+export const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ presets, currentId, sampleVariables, t, onSelect, onDuplicate, onUpdate, onDelete, onImport, onExport }) => {
+  const [editing, setEditing] = useState(false);
+  const [tab, setTab] = useState<PromptTemplateId>('outline');
+  const fileInput = useRef<HTMLInputElement>(null);
+  const textArea = useRef<HTMLTextAreaElement>(null);
+
+  const preset = presets.find(p => p.id === currentId) ?? presets[0];
+  const text = preset.templates[tab];
+  const issues = useMemo(() => validateTemplate(tab, text), [tab, text]);
+  const preview = useMemo(() => issues.length ? '' : renderTemplate(tab, text, previewVariables(tab, sampleVariables)), [issues, tab, text, sampleVariables]);
+
+  const setText = (value: string) => onUpdate({ ...preset, templates: { ...preset.templates, [tab]: value } });
+
+  const insertVariable = (name: string) => {
+    const el = textArea.current;
+    const at = el ? el.selectionStart : text.length;
+    setText(`${text.slice(0, at)}{{${name}}}${text.slice(el ? el.selectionEnd : at)}`);
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    e.target.value = "";
+  };
+
+  return (
+    <Card title={t('templates.title')} actions={
+      <>
+        <Button onClick={() => fileInput.current?.click()} className="text-xs py-1">{t('templates.import')}</Button>
+        <Button onClick={onExport} disabled={!presets.some(p => !p.builtIn)} className="text-xs py-1">{t('templates.export')}</Button>
+        <input ref={fileInput} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+      </>
+    }>
+      <div className="space-y-3 text-sm">
+        <div>
+          <label className="block text-sm font-medium text-sky-300 mb-1">{t('templates.preset')}</label>
+          <select value={preset.id} onChange={(e) => onSelect(e.target.value)} className="w-full rounded-lg bg-slate-900/70 border border-sky-900 px-2 py-2 text-sm">
+            <optgroup label={t('templates.builtIn')} className="bg-slate-900">
+              {presets.filter(p => p.builtIn).map(p => <option key={p.id} value={p.id}>{presetLabel(p, t)}</option>)}
+            </optgroup>
+            {presets.some(p => !p.builtIn) && (
+              <optgroup label={t('templates.custom')} className="bg-slate-900">
+                {presets.filter(p => !p.builtIn).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </optgroup>
+            )}
+          </select>
+        </div>
+        <div className="flex gap-3 text-xs text-sky-400">
+          <button onClick={() => setEditing(e => !e)} className={linkClass}>{editing ? t('common.hide') : t('templates.edit')}</button>
+          <button onClick={() => onDuplicate(preset.id)} className={linkClass}>{t('templates.duplicate')}</button>
+          {!preset.builtIn && <button onClick={() => onDelete(preset.id)} className="underline decoration-dotted hover:text-red-300">{t('common.delete')}</button>}
+        </div>
+
+        {editing && (
+          <div className="space-y-2">
+            {preset.builtIn ? (
+              <p className="text-[11px] text-sky-500 italic">{t('templates.readOnly')}</p>
+            ) : (
+              <label className="flex items-center gap-2 text-xs text-sky-300">
+                {t('templates.name')}
+                <input value={preset.name} onChange={(e) => onUpdate({ ...preset, name: e.target.value })} className="flex-1 rounded bg-slate-900/80 border border-sky-900/60 px-2 py-1 text-sky-100" />
+              </label>
+            )}
+            <div className="flex flex-wrap gap-1">
+              {TEMPLATE_IDS.map(id => (
+                <button key={id} onClick={() => setTab(id)} className={`px-2 py-0.5 rounded text-xs border ${id === tab ? 'border-sky-500 bg-sky-900/50 text-sky-100' : 'border-sky-900/60 text-sky-400'}`}>
+                  {t(TAB_LABELS[id])}{validateTemplate(id, preset.templates[id]).length ? ' ⚠' : ''}
+                </button>
+              ))}
+            </div>
+            <textarea
+              ref={textArea}
+              rows={8}
+              value={text}
+              readOnly={preset.builtIn}
+              onChange={(e) => setText(e.target.value)}
+              className="w-full text-xs font-mono rounded-lg bg-slate-900/70 border border-sky-900 p-2 leading-relaxed text-sky-100"
+            />
+            <div className="text-[11px] text-sky-400">
+              {t('templates.variables')}{' '}
+              {TEMPLATE_VARIABLES[tab].map(name => (
+                <button key={name} onClick={() => insertVariable(name)} disabled={preset.builtIn} title={VARIABLE_TYPES[name]} className="mr-1 mb-1 px-1.5 rounded border border-sky-900/60 font-mono hover:bg-sky-900/40 disabled:hover:bg-transparent">
+                  {`{{${name}}}`}
+                </button>
+              ))}
+            </div>
+            {issues.length > 0 && (
+              <ul className="text-xs text-red-400 space-y-0.5">
+                {issues.map((issue, i) => <li key={i}>{issue.message}</li>)}
+              </ul>
+            )}
+            {preview && (
+              <details className="text-xs">
+                <summary className="cursor-pointer text-sky-400">{t('templates.preview')}</summary>
+                <p className="mt-1 p-2 rounded bg-slate-950/60 border border-sky-900/60 whitespace-pre-wrap text-sky-300 max-h-64 overflow-y-auto">{preview}</p>
+              </details>
+            )}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,195 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ScriptBlock, ScriptVersionSource, SourceChunk } from '../types';
+import { currentText, wordDiff } from '../services/scriptBlocks';
+import { fmtDuration } from '../services/duration';
+import { MessageKey, Translate } from '../services/i18n';
+
+interface ScriptBlockCardProps {
+  block: ScriptBlock;
+  targetChars: number;
+  // Estimated narration length of the current text.
+  minutes: number;
+  busy: boolean;
+  fmtNumber: (n: number) => string;
+  t: Translate;
+  onEdit: (text: string) => void;
+  onRegenerate: (instruction: string) => void;
+  onResize: (targetChars: number) => void;
+  onRestore: (position: number) => void;
+  resolveSource: (chunkId: string) => SourceChunk | undefined;
+}
+
+const QUICK_INSTRUCTIONS: MessageKey[] = ['block.quickShorter', 'block.quickStory', 'block.quickExample'];
+
+const SOURCE_LABELS: Record<ScriptVersionSource, MessageKey> = {
+  generated: 'version.generated',
+  regenerated: 'version.regenerated',
+  edited: 'version.edited',
+  expanded: 'version.expanded',
+  condensed: 'version.condensed',
+  restored: 'version.restored',
+  translated: 'version.translated',
+  cleaned: 'version.cleaned',
+};
+
+const linkClass = "underline decoration-dotted hover:text-sky-100 disabled:opacity-50 disabled:no-underline";
+
+const WordDiff: React.FC<{ before: string; after: string }> = ({ before, after }) => {
+  const ops = useMemo(() => wordDiff(before, after), [before, after]);
+  return (
+    <p className="whitespace-pre-wrap leading-relaxed text-sm text-sky-300">
+      {ops.map((op, i) => op.type === 'equal' ? <span key={i}>{op.text}</span>
+        : op.type === 'insert' ? <ins key={i} className="bg-green-900/50 text-green-200 no-underline">{op.text}</ins>
+        : <del key={i} className="bg-red-900/40 text-red-300">{op.text}</del>)}
+    </p>
+  );
+};
+
+interface StreamingBlockCardProps {
+  index: number;
+  chapter: string;
+  // Text received so far.
+  text: string;
+  targetChars: number;
+  fmtNumber: (n: number) => string;
+  t: Translate;
+  onStop: () => void;
+}
+
+// Live view of a block while the model is still writing it.
+export const StreamingBlockCard: React.FC<StreamingBlockCardProps> = ({ index, chapter, text, targetChars, fmtNumber, t, onStop }) => {
+  const textRef = useRef<HTMLParagraphElement>(null);
+  const progress = targetChars ? Math.min(100, Math.round(text.length / targetChars * 100)) : 0;
+
+  useEffect(() => {
+    textRef.current?.scrollTo({ top: textRef.current.scrollHeight });
+  }, [text]);
+
+  return (
+    <div className="p-3 rounded-xl bg-slate-900/50 border border-sky-600/70">
+      <div className="flex items-center justify-between gap-2">
+        <div className="font-semibold">{index}. {chapter} <span className="text-xs font-normal text-sky-400 animate-pulse">{t('block.streaming')}</span></div>
+        <div className="text-xs text-sky-300 whitespace-nowrap">{fmtNumber(text.length)}{targetChars ? ` / ${fmtNumber(targetChars)}` : ''} {t('common.chars')}</div>
+      </div>
+      {targetChars > 0 && (
+        <div className="mt-1 h-1 rounded bg-slate-800 overflow-hidden">
+          <div className="h-full bg-sky-500 transition-all" style={{ width: `${progress}%` }} />
+        </div>
+      )}
+      <p ref={textRef} className="mt-2 max-h-64 overflow-y-auto whitespace-pre-wrap leading-relaxed text-sky-200">{text || <span className="text-sky-500">{t('block.waiting')}</span>}</p>
+      <div className="flex justify-end mt-2 text-xs">
+        <button onClick={onStop} disabled={!text.trim()} title={t('block.stopHint')} className="px-3 py-1 rounded bg-sky-700/50 border border-sky-600 disabled:opacity-50">{t('block.stopHere')}</button>
+      </div>
+    </div>
+  );
+};
+
+export const ScriptBlockCard: React.FC<ScriptBlockCardProps> = ({ block, targetChars, minutes, busy, fmtNumber, t, onEdit, onRegenerate, onResize, onRestore, resolveSource }) => {
+  const text = currentText(block);
+  const [mode, setMode] = useState<'view' | 'edit' | 'regenerate' | 'resize' | 'history' | 'sources'>('view');
+  const [draft, setDraft] = useState(text);
+  const [instruction, setInstruction] = useState("");
+  const [resizeTarget, setResizeTarget] = useState(targetChars || block.chars);
+  const [compareWith, setCompareWith] = useState<number | null>(null);
+
+  const toggle = (next: typeof mode) => {
+    setMode(mode === next ? 'view' : next);
+    if (next === 'edit') setDraft(text);
+    if (next === 'resize') setResizeTarget(targetChars || block.chars);
+  };
+
+  const diffPosition = compareWith ?? block.versions.length - 2;
+
+  return (
+    <div className={`p-3 rounded-xl bg-slate-900/50 border border-sky-900/60 ${busy ? 'opacity-60 animate-pulse' : ''}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="font-semibold">{block.index}. {block.chapter}</div>
+        <div className="text-xs text-sky-300 whitespace-nowrap">{fmtNumber(block.chars)}{targetChars ? ` / ${fmtNumber(targetChars)}` : ''} {t('common.chars')} · ≈ {fmtDuration(minutes)}</div>
+      </div>
+      <div className="flex flex-wrap gap-3 mt-1 text-[11px] text-sky-400">
+        <button onClick={() => toggle('edit')} disabled={busy} className={linkClass}>{t('block.edit')}</button>
+        <button onClick={() => toggle('regenerate')} disabled={busy} className={linkClass}>{t('common.regenerate')}</button>
+        <button onClick={() => toggle('resize')} disabled={busy} className={linkClass}>{t('block.resize')}</button>
+        <button onClick={() => toggle('history')} disabled={block.versions.length < 2} className={linkClass}>{t('block.history', { count: block.versions.length })}</button>
+        {!!block.sources?.length && <button onClick={() => toggle('sources')} className={linkClass}>{t('block.sources', { count: block.sources.length })}</button>}
+      </div>
+
+      {mode === 'edit' && (
+        <div className="mt-2 space-y-2">
+          <textarea rows={12} value={draft} onChange={(e) => setDraft(e.target.value)} className="w-full text-sm rounded-lg bg-slate-900/70 border border-sky-900 p-3 leading-relaxed text-sky-100" />
+          <div className="flex items-center gap-3 text-xs">
+            <span className="text-sky-400">{t('common.charCount', { count: fmtNumber(draft.length) })}</span>
+            <button onClick={() => { onEdit(draft); setMode('view'); }} className="ml-auto px-3 py-1 rounded bg-sky-700/50 border border-sky-600">{t('common.save')}</button>
+            <button onClick={() => setMode('view')} className={linkClass}>{t('common.cancel')}</button>
+          </div>
+        </div>
+      )}
+
+      {mode === 'regenerate' && (
+        <div className="mt-2 space-y-2 text-xs">
+          <div className="flex flex-wrap gap-2">
+            {QUICK_INSTRUCTIONS.map(key => (
+              <button key={key} onClick={() => setInstruction(t(key))} className="px-2 py-0.5 rounded border border-sky-800 text-sky-300 hover:bg-sky-900/40">{t(key)}</button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <input value={instruction} onChange={(e) => setInstruction(e.target.value)} placeholder={t('block.instructionPlaceholder')} className="flex-1 rounded bg-slate-900/80 border border-sky-900/60 px-2 py-1 text-sky-100" />
+            <button onClick={() => { onRegenerate(instruction.trim()); setMode('view'); }} className="px-3 py-1 rounded bg-sky-700/50 border border-sky-600">{t('common.regenerate')}</button>
+          </div>
+        </div>
+      )}
+
+      {mode === 'resize' && (
+        <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+          <label className="flex items-center gap-1">
+            {t('block.newLength')}
+            <input type="number" min={200} step={500} value={resizeTarget} onChange={(e) => setResizeTarget(Math.max(200, parseInt(e.target.value || '0')))} className="w-24 rounded bg-slate-900/80 border border-sky-900/60 px-2 py-1" />
+            {t('common.chars')}
+          </label>
+          <button onClick={() => setResizeTarget(Math.round(block.chars * 1.3))} className={linkClass}>+30%</button>
+          <button onClick={() => setResizeTarget(Math.round(block.chars * 0.7))} className={linkClass}>-30%</button>
+          <button onClick={() => { onResize(resizeTarget); setMode('view'); }} className="ml-auto px-3 py-1 rounded bg-sky-700/50 border border-sky-600">
+            {resizeTarget >= block.chars ? t('block.expand') : t('block.condense')}
+          </button>
+        </div>
+      )}
+
+      {mode === 'history' && block.versions.length > 1 && (
+        <div className="mt-2 space-y-2">
+          <ul className="text-xs space-y-1">
+            {block.versions.map((v, i) => (
+              <li key={i} className={`flex items-center gap-2 px-2 py-1 rounded ${i === diffPosition ? 'bg-sky-900/40' : ''}`}>
+                <span className="text-sky-500">v{i + 1}</span>
+                <span>{t(SOURCE_LABELS[v.source])}{v.instruction ? ` — ${v.instruction}` : ''}</span>
+                <span className="text-sky-600">{new Date(v.createdAt).toLocaleString(t.locale, { dateStyle: "short", timeStyle: "short" })} · {t('common.charCount', { count: fmtNumber(v.text.length) })}</span>
+                {i < block.versions.length - 1 ? (
+                  <span className="ml-auto flex gap-2">
+                    <button onClick={() => setCompareWith(i)} className={linkClass}>{t('block.compare')}</button>
+                    <button onClick={() => onRestore(i)} disabled={busy} className={linkClass}>{t('block.restore')}</button>
+                  </span>
+                ) : <span className="ml-auto text-sky-500">{t('block.current')}</span>}
+              </li>
+            ))}
+          </ul>
+          <div className="p-2 rounded bg-slate-950/60 border border-sky-900/60 max-h-96 overflow-y-auto">
+            <div className="text-[11px] text-sky-500 mb-1">{t('block.diffFrom', { version: diffPosition + 1 })}</div>
+            <WordDiff before={block.versions[diffPosition].text} after={text} />
+          </div>
+        </div>
+      )}
+
+      {mode === 'sources' && block.sources && (
+        <ol className="mt-2 space-y-2 text-xs">
+          {block.sources.map((ref, i) => (
+            <li key={ref.chunkId} className="p-2 rounded bg-slate-950/60 border border-sky-900/60">
+              <div className="text-sky-400 mb-1">[{i + 1}] {ref.docName} · {ref.label} <span className="text-sky-600">({t('block.score', { score: ref.score })})</span></div>
+              <div className="text-sky-300 leading-relaxed">{resolveSource(ref.chunkId)?.text ?? t('block.sourceRemoved')}</div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {mode !== 'edit' && mode !== 'history' && <p className="mt-2 whitespace-pre-wrap leading-relaxed text-sky-200">{text}</p>}
+    </div>
+  );
+};
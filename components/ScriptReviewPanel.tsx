@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { BlockReview, MarkupKind, ReviewIssue } from '../types';
+import { MessageKey, Translate } from '../services/i18n';
+
+interface ScriptReviewPanelProps {
+  reviews: BlockReview[];
+  // Blocks with an action in flight, by block index.
+  busy: Record<number, boolean>;
+  disabled: boolean;
+  fmtNumber: (n: number) => string;
+  t: Translate;
+  onResize: (index: number, targetChars: number) => void;
+  onRegenerate: (index: number, instruction: string) => void;
+  onClean: (index: number) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+export const ISSUE_LABELS: Record<ReviewIssue, MessageKey> = {
+  length: 'review.issue.length',
+  actions: 'review.issue.actions',
+  markup: 'review.issue.markup',
+  quotation: 'review.issue.quotation',
+  readability: 'review.issue.readability',
+};
+
+const MARKUP_LABELS: Record<MarkupKind, MessageKey> = {
+  heading: 'review.markup.heading',
+  emphasis: 'review.markup.emphasis',
+  list: 'review.markup.list',
+  cue: 'review.markup.cue',
+  speaker: 'review.markup.speaker',
+  separator: 'review.markup.separator',
+  html: 'review.markup.html',
+};
+
+const QUOTE_PREVIEW_CHARS = 160;
+
+const linkClass = "text-sky-400 underline decoration-dotted hover:text-sky-100 disabled:opacity-50 disabled:no-underline";
+
+export const formatDeviation = (deviation: number) => `${deviation >= 0 ? '+' : ''}${Math.round(deviation * 100)}%`;
+
+export const ScriptReviewPanel: React.FC<ScriptReviewPanelProps> = (props) => {
+  const { reviews, busy, disabled, fmtNumber, t } = props;
+  const [onlyFlagged, setOnlyFlagged] = useState(true);
+  const flagged = reviews.filter(r => r.issues.length);
+  const shown = onlyFlagged ? flagged : reviews;
+
+  return (
+    <div className="mb-3 p-3 rounded-xl bg-slate-900/60 border border-sky-800/60 text-sm">
+      <div className="flex flex-wrap items-center gap-3 mb-2">
+        <span className="font-semibold text-sky-100 flex-1">{t('review.summary', { count: reviews.length, flagged: flagged.length })}</span>
+        <label className="flex items-center gap-1 text-xs text-sky-400">
+          <input type="checkbox" checked={onlyFlagged} onChange={(e) => setOnlyFlagged(e.target.checked)} />
+          {t('review.onlyFlagged')}
+        </label>
+        <button onClick={props.onExport} className={linkClass}>{t('review.export')}</button>
+        <button onClick={props.onClose} className="text-xs text-sky-500 underline">{t('common.hide')}</button>
+      </div>
+      {!shown.length ? <p className="text-xs text-green-300">{t('review.allClear')}</p> : (
+        <ol className="space-y-2 max-h-96 overflow-y-auto pr-1">
+          {shown.map(r => {
+            const locked = disabled || !!busy[r.index];
+            const has = (issue: ReviewIssue) => r.issues.includes(issue);
+            return (
+              <li key={r.index} className={`p-3 rounded-lg bg-slate-900/50 border border-sky-900/60 ${busy[r.index] ? 'animate-pulse' : ''}`}>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-semibold text-sky-100 flex-1 truncate">{r.index}. {r.chapter}</span>
+                  {!r.issues.length && <span className="text-xs px-2 py-0.5 rounded border border-green-700/60 text-green-300">{t('review.ok')}</span>}
+                  {r.issues.map(issue => <span key={issue} className="text-xs px-2 py-0.5 rounded border border-amber-700/60 text-amber-300">{t(ISSUE_LABELS[issue])}</span>)}
+                </div>
+                <ul className="mt-2 space-y-1 text-xs text-sky-300">
+                  <li className="flex flex-wrap gap-x-3">
+                    <span className={has('length') ? 'text-amber-300' : ''}>{t('review.length', { chars: fmtNumber(r.chars), target: fmtNumber(r.targetChars), deviation: formatDeviation(r.lengthDeviation) })}</span>
+                    {has('length') && <button onClick={() => props.onResize(r.index, r.targetChars)} disabled={locked} className={linkClass}>{t('review.fix.length')}</button>}
+                  </li>
+                  {r.coveredActions.length + r.missingActions.length > 0 && (
+                    <li className="flex flex-wrap gap-x-3">
+                      <span>
+                        {r.coveredActions.map(a => <span key={a} className="mr-2 text-green-300">✓ {a}</span>)}
+                        {r.missingActions.map(a => <span key={a} className="mr-2 text-amber-300">✗ {a}</span>)}
+                      </span>
+                      {has('actions') && <button onClick={() => props.onRegenerate(r.index, t('review.instruction.actions', { list: r.missingActions.join('; ') }))} disabled={locked} className={linkClass}>{t('review.fix.actions')}</button>}
+                    </li>
+                  )}
+                  {r.markup.length > 0 && (
+                    <li>
+                      <ul className="space-y-0.5 text-amber-200/90">
+                        {r.markup.map((m, i) => <li key={i}><span className="text-amber-400">{t(MARKUP_LABELS[m.kind])} · {t('review.line', { line: m.line })}</span> <span className="font-mono">{m.sample}</span></li>)}
+                      </ul>
+                      <button onClick={() => props.onClean(r.index)} disabled={locked} className={linkClass}>{t('review.fix.markup')}</button>
+                    </li>
+                  )}
+                  {r.quotations.length > 0 && (
+                    <li>
+                      <ul className="space-y-1 text-amber-200/90">
+                        {r.quotations.map((q, i) => (
+                          <li key={i}>
+                            <span className="text-amber-400">{q.source ? t('review.quoteSource', { words: q.words, source: [q.source.docName, q.source.label].filter(Boolean).join(' · ') }) : t('review.quoteMarked', { words: q.words })}</span>
+                            {' '}“{q.text.length > QUOTE_PREVIEW_CHARS ? `${q.text.slice(0, QUOTE_PREVIEW_CHARS)}…` : q.text}”
+                          </li>
+                        ))}
+                      </ul>
+                      <button onClick={() => props.onRegenerate(r.index, t('review.instruction.quotation'))} disabled={locked} className={linkClass}>{t('review.fix.quotation')}</button>
+                    </li>
+                  )}
+                  <li className="flex flex-wrap gap-x-3">
+                    <span className={has('readability') ? 'text-amber-300' : ''}>{t('review.readability', {
+                      sentences: r.readability.sentences,
+                      avg: r.readability.avgSentenceWords.toFixed(1),
+                      longest: r.readability.longestSentenceWords,
+                      long: r.readability.longSentences,
+                    })}</span>
+                    {has('readability') && <button onClick={() => props.onRegenerate(r.index, t('review.instruction.readability'))} disabled={locked} className={linkClass}>{t('review.fix.readability')}</button>}
+                  </li>
+                </ul>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
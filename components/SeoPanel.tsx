@@ -0,0 +1,145 @@
+import React, { useMemo, useState } from 'react';
+import { SEOResult } from '../types';
+import { ChapterTimestamp, SeoIssue, SeoIssueCode, YOUTUBE_LIMITS, buildUploadBundle, insertTimestamps, normalizeHashtag, tagsLength, timestampsToText, validateSeo } from '../services/youtubeSeo';
+import { moveItem } from '../services/outlineUtils';
+import { MessageKey, Translate } from '../services/i18n';
+import { Button } from './ui';
+
+interface SeoPanelProps {
+  seo: SEOResult;
+  // Chapter start times from the script; empty when there is no script yet.
+  timestamps: ChapterTimestamp[];
+  t: Translate;
+  onChange: (seo: SEOResult) => void;
+  onError: (message: string) => void;
+}
+
+type ListField = 'titles' | 'hashtags' | 'keywords';
+
+const ISSUE_MESSAGES: Record<SeoIssueCode, MessageKey> = {
+  titleTooLong: 'seo.issue.titleTooLong',
+  angleBrackets: 'seo.issue.angleBrackets',
+  descriptionTooLong: 'seo.issue.descriptionTooLong',
+  tagsTooLong: 'seo.issue.tagsTooLong',
+  hashtagFormat: 'seo.issue.hashtagFormat',
+  tooManyHashtags: 'seo.issue.tooManyHashtags',
+  tooFewChapters: 'seo.issue.tooFewChapters',
+  chapterTooShort: 'seo.issue.chapterTooShort',
+};
+
+const inputClass = "flex-1 min-w-0 rounded bg-slate-900/80 border border-sky-900/60 px-2 py-1 outline-none focus:border-sky-500 text-sky-100";
+
+const Issues: React.FC<{ issues: SeoIssue[]; t: Translate }> = ({ issues, t }) => issues.length ? (
+  <ul className="text-[11px] text-amber-300 mt-1 space-y-0.5">
+    {issues.map((issue, i) => <li key={i}>⚠ {t(ISSUE_MESSAGES[issue.code], { limit: issue.limit ?? '', actual: issue.actual ?? '' })}</li>)}
+  </ul>
+) : null;
+
+interface EditableListProps {
+  items: string[];
+  issues: SeoIssue[];
+  placeholder: string;
+  t: Translate;
+  // Marks the first item, e.g. the title that goes into the upload bundle.
+  firstBadge?: string;
+  onChange: (items: string[]) => void;
+  onBlurItem?: (value: string) => string;
+}
+
+const EditableList: React.FC<EditableListProps> = ({ items, issues, placeholder, t, firstBadge, onChange, onBlurItem }) => {
+  const [dragFrom, setDragFrom] = useState<number | null>(null);
+
+  const update = (position: number, value: string) => onChange(items.map((item, i) => i === position ? value : item));
+
+  const handleDrop = (position: number) => {
+    if (dragFrom !== null && dragFrom !== position) onChange(moveItem(items, dragFrom, position));
+    setDragFrom(null);
+  };
+
+  return (
+    <div className="space-y-1 text-sm">
+      {items.map((item, i) => (
+        <div key={i} onDragOver={(e) => e.preventDefault()} onDrop={() => handleDrop(i)}>
+          <div className="flex items-center gap-1">
+            <span draggable onDragStart={() => setDragFrom(i)} onDragEnd={() => setDragFrom(null)} title={t('outline.dragHint')} className="cursor-grab select-none text-sky-500 px-1">⋮⋮</span>
+            <input
+              value={item}
+              placeholder={placeholder}
+              onChange={(e) => update(i, e.target.value)}
+              onBlur={() => onBlurItem && update(i, onBlurItem(item))}
+              className={inputClass}
+            />
+            {i === 0 && firstBadge && <span className="text-[10px] px-1.5 rounded border border-green-700/60 text-green-300 whitespace-nowrap">{firstBadge}</span>}
+            <button onClick={() => onChange(items.filter((_, j) => j !== i))} title={t('common.delete')} className="text-sky-500 hover:text-red-300 px-1">✕</button>
+          </div>
+          <Issues issues={issues.filter(issue => issue.index === i)} t={t} />
+        </div>
+      ))}
+      <button onClick={() => onChange([...items, ''])} className="text-xs text-sky-400 underline decoration-dotted hover:text-sky-100">{t('seo.add')}</button>
+      <Issues issues={issues.filter(issue => issue.index === undefined)} t={t} />
+    </div>
+  );
+};
+
+export const SeoPanel: React.FC<SeoPanelProps> = ({ seo, timestamps, t, onChange, onError }) => {
+  const [copied, setCopied] = useState(false);
+  const issues = useMemo(() => validateSeo(seo, timestamps), [seo, timestamps]);
+  const timestampText = useMemo(() => timestampsToText(timestamps), [timestamps]);
+  const fieldIssues = (field: SeoIssue['field']) => issues.filter(issue => issue.field === field);
+
+  const setList = (field: ListField, items: string[]) => onChange({ ...seo, [field]: items });
+
+  const handleCopy = async () => {
+    const bundle = buildUploadBundle(seo, { title: t('seo.bundleTitle'), description: t('seo.description'), tags: t('seo.keywords') });
+    try {
+      await navigator.clipboard.writeText(bundle);
+    } catch (err) {
+      onError(t('common.copyFailed', { error: err instanceof Error ? err.message : String(err) }));
+      return;
+    }
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid md:grid-cols-2 gap-4">
+        <div>
+          <h4 className="font-semibold mb-2">{t('seo.titles')}</h4>
+          <EditableList items={seo.titles} issues={fieldIssues('titles')} placeholder={t('seo.titlePlaceholder')} t={t} firstBadge={t('seo.chosen')} onChange={(items) => setList('titles', items)} />
+          <h4 className="font-semibold mt-4 mb-2">Hashtags</h4>
+          <EditableList items={seo.hashtags} issues={fieldIssues('hashtags')} placeholder="#hashtag" t={t} onChange={(items) => setList('hashtags', items)} onBlurItem={normalizeHashtag} />
+          <h4 className="font-semibold mt-4 mb-2 flex items-center justify-between">
+            {t('seo.keywords')}
+            <span className="text-xs font-normal text-sky-400">{tagsLength(seo.keywords)}/{YOUTUBE_LIMITS.tagsChars}</span>
+          </h4>
+          <EditableList items={seo.keywords} issues={fieldIssues('keywords')} placeholder={t('seo.keywordPlaceholder')} t={t} onChange={(items) => setList('keywords', items)} />
+        </div>
+        <div>
+          <h4 className="font-semibold mb-2 flex items-center justify-between">
+            {t('seo.description')}
+            <span className="text-xs font-normal text-sky-400">{seo.description.length}/{YOUTUBE_LIMITS.descriptionChars}</span>
+          </h4>
+          <textarea rows={12} className="w-full text-sm rounded-lg bg-slate-900/70 border border-sky-900 p-3" value={seo.description} onChange={(e) => onChange({ ...seo, description: e.target.value })}></textarea>
+          <Issues issues={fieldIssues('description')} t={t} />
+          <div className="mt-3">
+            <div className="flex items-center justify-between mb-1">
+              <h4 className="font-semibold text-sm">{t('seo.timestamps')}</h4>
+              <Button onClick={() => onChange({ ...seo, description: insertTimestamps(seo.description, timestampText) })} disabled={!timestamps.length} className="text-xs py-1">{t('seo.insertTimestamps')}</Button>
+            </div>
+            {timestamps.length ? (
+              <pre className="p-2 rounded bg-slate-950/60 border border-sky-900/60 text-xs text-sky-300 whitespace-pre-wrap max-h-48 overflow-y-auto">{timestampText}</pre>
+            ) : (
+              <p className="text-xs text-sky-500 italic">{t('seo.noTimestamps')}</p>
+            )}
+            <Issues issues={fieldIssues('timestamps')} t={t} />
+          </div>
+        </div>
+      </div>
+      <div className="flex items-center gap-3">
+        <Button onClick={handleCopy} disabled={!seo.titles.length}>{copied ? t('seo.copied') : t('seo.copyBundle')}</Button>
+        <span className="text-xs text-sky-500">{t('seo.bundleHint')}</span>
+      </div>
+    </div>
+  );
+};
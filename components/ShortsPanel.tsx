@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { ShortClip } from '../types';
+import { SHORT_MAX_SECONDS, SHORT_MIN_SECONDS, shortSeconds, shortText } from '../services/shorts';
+import { Translate } from '../services/i18n';
+
+interface ShortsPanelProps {
+  // Already ranked, best first.
+  clips: ShortClip[];
+  charsPerMinute: number;
+  t: Translate;
+  onDownload: (clip: ShortClip) => void;
+  onDelete: (id: string) => void;
+  onError: (message: string) => void;
+}
+
+export const ShortsPanel: React.FC<ShortsPanelProps> = ({ clips, charsPerMinute, t, onDownload, onDelete, onError }) => {
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const handleCopy = async (clip: ShortClip) => {
+    try {
+      await navigator.clipboard.writeText(shortText(clip));
+    } catch (err) {
+      onError(t('common.copyFailed', { error: err instanceof Error ? err.message : String(err) }));
+      return;
+    }
+    setCopied(clip.id);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  return (
+    <ol className="space-y-3 max-h-[40rem] overflow-y-auto pr-1">
+      {clips.map((clip, rank) => {
+        const seconds = Math.round(shortSeconds(clip, charsPerMinute));
+        const offLength = seconds < SHORT_MIN_SECONDS || seconds > SHORT_MAX_SECONDS;
+        return (
+          <li key={clip.id} className="p-3 rounded-lg bg-slate-900/50 border border-sky-900/60 text-sm">
+            <div className="flex items-start gap-2 mb-1">
+              <span className="font-mono text-sky-500">#{rank + 1}</span>
+              <span className="px-1.5 rounded border border-green-700/60 text-green-300 text-xs whitespace-nowrap" title={t('shorts.score')}>{clip.score}/10</span>
+              <h4 className="font-semibold text-sky-100 flex-1">{clip.title}</h4>
+              <span className={`text-xs whitespace-nowrap ${offLength ? 'text-amber-300' : 'text-sky-400'}`} title={offLength ? t('shorts.lengthHint', { min: SHORT_MIN_SECONDS, max: SHORT_MAX_SECONDS }) : undefined}>~{seconds}s</span>
+            </div>
+            <p className="text-xs text-sky-400 mb-1">
+              {t('shorts.source', { block: clip.block, chapter: clip.chapter, from: clip.sentenceStart, to: clip.sentenceEnd })}
+            </p>
+            <p className="text-xs text-sky-300 italic mb-2">{clip.rationale}</p>
+            <p><span className="text-xs font-semibold text-amber-300 mr-1">{t('shorts.hook')}</span>{clip.hook}</p>
+            <p className="mt-1 text-sky-100 whitespace-pre-wrap">{clip.body}</p>
+            <p className="mt-1"><span className="text-xs font-semibold text-sky-400 mr-1">{t('shorts.cta')}</span>{clip.cta}</p>
+            <p className="mt-2 text-xs text-sky-400">{clip.hashtags.join(' ')}</p>
+            <details className="text-xs mt-1">
+              <summary className="cursor-pointer text-sky-500">{t('shorts.visual')}</summary>
+              <p className="mt-1 text-sky-300">{clip.visualPrompt}</p>
+            </details>
+            <details className="text-xs mt-1">
+              <summary className="cursor-pointer text-sky-500">{t('shorts.excerpt')}</summary>
+              <p className="mt-1 text-sky-300 whitespace-pre-wrap">{clip.sourceExcerpt}</p>
+            </details>
+            <div className="flex gap-3 mt-2 text-xs">
+              <button onClick={() => handleCopy(clip)} className="text-sky-400 underline decoration-dotted hover:text-sky-100">{copied === clip.id ? t('shorts.copied') : t('shorts.copy')}</button>
+              <button onClick={() => onDownload(clip)} className="text-sky-400 underline decoration-dotted hover:text-sky-100">{t('shorts.download')}</button>
+              <button onClick={() => onDelete(clip.id)} className="text-sky-500 hover:text-red-300 ml-auto">{t('common.delete')}</button>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
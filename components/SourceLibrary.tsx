@@ -0,0 +1,51 @@
+import React, { useRef } from 'react';
+import { SourceDocument } from '../types';
+import { SUPPORTED_SOURCE_TYPES } from '../services/sourceParser';
+import { Translate } from '../services/i18n';
+import { Button, Card } from './ui';
+
+interface SourceLibraryProps {
+  sources: SourceDocument[];
+  parsing: boolean;
+  fmtNumber: (n: number) => string;
+  t: Translate;
+  onUpload: (files: File[]) => void;
+  onRemove: (id: string) => void;
+}
+
+export const SourceLibrary: React.FC<SourceLibraryProps> = ({ sources, parsing, fmtNumber, t, onUpload, onRemove }) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    if (files.length) onUpload(files);
+    e.target.value = "";
+  };
+
+  return (
+    <Card title={t('sources.title')} actions={
+      <>
+        <Button onClick={() => fileInput.current?.click()} disabled={parsing} className="text-xs py-1">{parsing ? t('sources.reading') : t('sources.upload')}</Button>
+        <input ref={fileInput} type="file" multiple accept={SUPPORTED_SOURCE_TYPES} onChange={handleChange} className="hidden" />
+      </>
+    }>
+      <p className="text-[11px] text-sky-500 mb-2">{t('sources.hint')}</p>
+      {sources.length === 0 ? (
+        <div className="text-xs text-sky-400 italic">{t('sources.empty')}</div>
+      ) : (
+        <ul className="space-y-2 text-sm">
+          {sources.map(doc => (
+            <li key={doc.id} className="flex items-center gap-2 p-2 rounded-lg bg-slate-900/50 border border-sky-900/60">
+              <span className="px-1.5 py-0.5 rounded text-[10px] uppercase bg-sky-900/60 text-sky-300">{doc.kind}</span>
+              <div className="flex-1 min-w-0">
+                <div className="truncate text-sky-100">{doc.name}</div>
+                <div className="text-[11px] text-sky-400">{t('sources.stats', { chars: fmtNumber(doc.chars), chunks: doc.chunks.length })}</div>
+              </div>
+              <button onClick={() => onRemove(doc.id)} className="text-[11px] text-sky-400 hover:text-red-300 underline decoration-dotted">{t('common.delete')}</button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+};
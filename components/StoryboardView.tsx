@@ -0,0 +1,49 @@
+import React from 'react';
+import { Storyboard } from '../types';
+import { formatTimestamp } from '../services/youtubeSeo';
+import { Translate } from '../services/i18n';
+
+interface StoryboardViewProps {
+  storyboard: Storyboard;
+  t: Translate;
+}
+
+export const StoryboardView: React.FC<StoryboardViewProps> = ({ storyboard, t }) => {
+  const withHours = storyboard.scenes.some(s => Math.round(s.end) >= 3600);
+  const chapters: { block: number; chapter: string; positions: number[] }[] = [];
+  storyboard.scenes.forEach((scene, i) => {
+    const last = chapters[chapters.length - 1];
+    if (last?.block === scene.block) last.positions.push(i);
+    else chapters.push({ block: scene.block, chapter: scene.chapter, positions: [i] });
+  });
+
+  return (
+    <div className="space-y-4 max-h-[40rem] overflow-y-auto pr-1">
+      {chapters.map(group => (
+        <div key={group.block}>
+          <h4 className="font-semibold text-sky-300 mb-2">{group.block}. {group.chapter}</h4>
+          <ol className="space-y-2 text-sm">
+            {group.positions.map(i => {
+              const scene = storyboard.scenes[i];
+              return (
+                <li key={i} className="p-2 rounded bg-slate-900/50 border border-sky-900/60">
+                  <div className="flex items-center gap-2 text-xs text-sky-400 mb-1">
+                    <span className="font-mono">#{i + 1}</span>
+                    <span className="font-mono">{formatTimestamp(scene.start, withHours)} – {formatTimestamp(scene.end, withHours)}</span>
+                    <span className="px-1.5 rounded border border-sky-900/60">{scene.motion}</span>
+                  </div>
+                  <p className="text-sky-100">{scene.prompt}</p>
+                  <p className="text-xs text-red-300/80 mt-1">{t('storyboard.negative')} {scene.negativePrompt}</p>
+                  <details className="text-xs mt-1">
+                    <summary className="cursor-pointer text-sky-500">{t('storyboard.excerpt')}</summary>
+                    <p className="mt-1 text-sky-300 whitespace-pre-wrap">{scene.excerpt}</p>
+                  </details>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      ))}
+    </div>
+  );
+};
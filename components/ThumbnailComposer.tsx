@@ -0,0 +1,196 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ThumbnailBackground, ThumbnailLayout } from '../types';
+import { DrawResult, FRAME_RATIOS, Rect, THUMBNAIL_FONTS, THUMBNAIL_TEMPLATE_IDS, ThumbnailTemplateId, applyTemplate, drawThumbnail, exportSizes, loadThumbnailFont, parseRatio, renderThumbnailPng } from '../services/thumbnail';
+import { MessageKey, Translate } from '../services/i18n';
+import { Button } from './ui';
+
+interface ThumbnailComposerProps {
+  layout: ThumbnailLayout;
+  coverUrl: string | null;
+  ideas: string[];
+  badge: string;
+  t: Translate;
+  onChange: (layout: ThumbnailLayout) => void;
+  onDownload: (filename: string, blob: Blob) => void;
+}
+
+// Longest side of the on-screen preview, in canvas pixels.
+const PREVIEW_SIZE = 640;
+
+const TEMPLATE_LABELS: Record<ThumbnailTemplateId, MessageKey> = {
+  cover: 'thumbnail.templateCover',
+  text: 'thumbnail.templateText',
+};
+
+const BACKGROUND_LABELS: Record<ThumbnailBackground, MessageKey> = {
+  solid: 'thumbnail.bgSolid',
+  gradient: 'thumbnail.bgGradient',
+  coverBlur: 'thumbnail.bgCoverBlur',
+};
+
+const selectClass = "w-full rounded bg-slate-900/70 border border-sky-900 px-2 py-1";
+
+const contains = (rect: Rect | undefined, x: number, y: number) => !!rect && x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height;
+
+export const ThumbnailComposer: React.FC<ThumbnailComposerProps> = ({ layout, coverUrl, ideas, badge, t, onChange, onDownload }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const hitRef = useRef<DrawResult>({});
+  const dragRef = useRef<{ part: 'text' | 'cover'; dx: number; dy: number } | null>(null);
+  const [cover, setCover] = useState<HTMLImageElement | undefined>();
+  const [fontsReady, setFontsReady] = useState(0);
+  const [sizeIndex, setSizeIndex] = useState(0);
+  const [exporting, setExporting] = useState(false);
+
+  const ratio = parseRatio(layout.ratio);
+  const previewWidth = ratio >= 1 ? PREVIEW_SIZE : Math.round(PREVIEW_SIZE * ratio);
+  const previewHeight = ratio >= 1 ? Math.round(PREVIEW_SIZE / ratio) : PREVIEW_SIZE;
+  const sizes = exportSizes(layout.ratio);
+  const size = sizes[Math.min(sizeIndex, sizes.length - 1)];
+
+  useEffect(() => {
+    if (!coverUrl) { setCover(undefined); return; }
+    const img = new Image();
+    img.onload = () => setCover(img);
+    img.src = coverUrl;
+  }, [coverUrl]);
+
+  useEffect(() => {
+    let active = true;
+    loadThumbnailFont(layout).then(() => active && setFontsReady(n => n + 1)).catch(() => {});
+    return () => { active = false; };
+  }, [layout.font]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) hitRef.current = drawThumbnail(ctx, previewWidth, previewHeight, layout, { cover, badge });
+  }, [layout, cover, badge, fontsReady, previewWidth, previewHeight]);
+
+  const set = (patch: Partial<ThumbnailLayout>) => onChange({ ...layout, ...patch });
+
+  const toCanvas = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const box = e.currentTarget.getBoundingClientRect();
+    return { x: (e.clientX - box.left) * previewWidth / box.width, y: (e.clientY - box.top) * previewHeight / box.height };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const { x, y } = toCanvas(e);
+    // Text sits on top of the cover, so it wins when both are under the pointer.
+    const part = contains(hitRef.current.text, x, y) ? 'text' : contains(hitRef.current.cover, x, y) ? 'cover' : null;
+    if (!part) return;
+    const cx = (part === 'text' ? layout.textX : layout.coverX) * previewWidth;
+    const cy = (part === 'text' ? layout.textY : layout.coverY) * previewHeight;
+    dragRef.current = { part, dx: x - cx, dy: y - cy };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const { x, y } = toCanvas(e);
+    const fx = Math.min(1, Math.max(0, (x - drag.dx) / previewWidth));
+    const fy = Math.min(1, Math.max(0, (y - drag.dy) / previewHeight));
+    set(drag.part === 'text' ? { textX: fx, textY: fy } : { coverX: fx, coverY: fy });
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const blob = await renderThumbnailPng(layout, { cover, badge }, size);
+      onDownload(`thumbnail_${layout.ratio.replace(':', 'x')}_${size.width}x${size.height}.png`, blob);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="grid md:grid-cols-[1fr_18rem] gap-4">
+      <div className="flex flex-col items-center gap-2">
+        <canvas
+          ref={canvasRef}
+          width={previewWidth}
+          height={previewHeight}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => { dragRef.current = null; }}
+          className="max-w-full max-h-[36rem] rounded-lg border border-sky-900/60 cursor-move touch-none"
+        />
+        <p className="text-xs text-sky-500">{t('thumbnail.dragHint')}</p>
+      </div>
+      <div className="space-y-3 text-sm">
+        <div className="grid grid-cols-2 gap-2">
+          <label className="block">
+            <span className="text-xs text-sky-400">{t('thumbnail.ratio')}</span>
+            <select value={layout.ratio} onChange={(e) => { setSizeIndex(0); onChange(applyTemplate(layout, e.target.value, layout.template as ThumbnailTemplateId)); }} className={selectClass}>
+              {FRAME_RATIOS.map(r => <option key={r} value={r} className="bg-slate-900">{r}</option>)}
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-xs text-sky-400">{t('thumbnail.template')}</span>
+            <select value={layout.template} onChange={(e) => onChange(applyTemplate(layout, layout.ratio, e.target.value as ThumbnailTemplateId))} className={selectClass}>
+              {THUMBNAIL_TEMPLATE_IDS.map(id => <option key={id} value={id} className="bg-slate-900">{t(TEMPLATE_LABELS[id])}</option>)}
+            </select>
+          </label>
+        </div>
+        <div>
+          <span className="text-xs text-sky-400">{t('thumbnail.background')}</span>
+          <div className="flex items-center gap-2">
+            <select value={layout.background} onChange={(e) => set({ background: e.target.value as ThumbnailBackground })} className={selectClass}>
+              {(Object.keys(BACKGROUND_LABELS) as ThumbnailBackground[]).map(kind => (
+                <option key={kind} value={kind} disabled={kind === 'coverBlur' && !coverUrl} className="bg-slate-900">{t(BACKGROUND_LABELS[kind])}</option>
+              ))}
+            </select>
+            <input type="color" value={layout.colors[0]} onChange={(e) => set({ colors: [e.target.value, layout.colors[1]] })} className="w-8 h-8 shrink-0 bg-transparent" />
+            {layout.background === 'gradient' && <input type="color" value={layout.colors[1]} onChange={(e) => set({ colors: [layout.colors[0], e.target.value] })} className="w-8 h-8 shrink-0 bg-transparent" />}
+          </div>
+        </div>
+        <label className="block">
+          <span className="text-xs text-sky-400">{t('thumbnail.text')}</span>
+          {ideas.length > 0 && (
+            <select value="" onChange={(e) => e.target.value && set({ text: e.target.value })} className={`${selectClass} mb-1`}>
+              <option value="" className="bg-slate-900">{t('thumbnail.pickIdea')}</option>
+              {ideas.map((idea, i) => <option key={i} value={idea} className="bg-slate-900">{idea}</option>)}
+            </select>
+          )}
+          <textarea rows={3} value={layout.text} onChange={(e) => set({ text: e.target.value })} className="w-full rounded bg-slate-900/70 border border-sky-900 p-2" />
+        </label>
+        <div className="grid grid-cols-2 gap-2">
+          <label className="block">
+            <span className="text-xs text-sky-400">{t('thumbnail.font')}</span>
+            <select value={layout.font} onChange={(e) => set({ font: e.target.value })} className={selectClass}>
+              {Object.keys(THUMBNAIL_FONTS).map(font => <option key={font} value={font} className="bg-slate-900">{font}</option>)}
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-xs text-sky-400">{t('thumbnail.textColors')}</span>
+            <span className="flex gap-2">
+              <input type="color" value={layout.textColor} onChange={(e) => set({ textColor: e.target.value })} title={t('thumbnail.fill')} className="w-8 h-8 bg-transparent" />
+              <input type="color" value={layout.strokeColor} onChange={(e) => set({ strokeColor: e.target.value })} title={t('thumbnail.stroke')} className="w-8 h-8 bg-transparent" />
+            </span>
+          </label>
+        </div>
+        <label className="block">
+          <span className="text-xs text-sky-400">{t('thumbnail.textSize')}</span>
+          <input type="range" min={0.03} max={0.25} step={0.005} value={layout.fontScale} onChange={(e) => set({ fontScale: Number(e.target.value) })} className="w-full" />
+        </label>
+        <label className="block">
+          <span className="text-xs text-sky-400">{t('thumbnail.textWidth')}</span>
+          <input type="range" min={0.2} max={1} step={0.01} value={layout.textWidth} onChange={(e) => set({ textWidth: Number(e.target.value) })} className="w-full" />
+        </label>
+        <label className="block">
+          <span className="text-xs text-sky-400">{t('thumbnail.coverSize')}</span>
+          <input type="range" min={0.1} max={1.2} step={0.01} value={layout.coverScale} disabled={!coverUrl} onChange={(e) => set({ coverScale: Number(e.target.value) })} className="w-full" />
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={layout.showBadge} onChange={(e) => set({ showBadge: e.target.checked })} />
+          {t('thumbnail.badge', { badge })}
+        </label>
+        <div className="flex items-center gap-2 pt-1">
+          <select value={sizeIndex} onChange={(e) => setSizeIndex(Number(e.target.value))} className={selectClass}>
+            {sizes.map((s, i) => <option key={i} value={i} className="bg-slate-900">{s.width}×{s.height}</option>)}
+          </select>
+          <Button onClick={handleExport} disabled={exporting} className="whitespace-nowrap">{t('thumbnail.download')}</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useMemo } from 'react';
+import { CacheMode, Project, UsageRecord } from '../types';
+import { UsageTotals, formatUsd, groupUsage, sumUsage, usageDay } from '../services/usage';
+import { MessageKey, Translate } from '../services/i18n';
+import { Button, Card, Empty } from './ui';
+
+interface UsagePanelProps {
+  records: UsageRecord[];
+  projects: Project[];
+  currentProjectId: string | null;
+  cacheMode: CacheMode;
+  forceRefresh: boolean;
+  cachedCount: number;
+  fmtNumber: (n: number) => string;
+  t: Translate;
+  onChangeCacheMode: (mode: CacheMode) => void;
+  onChangeForceRefresh: (on: boolean) => void;
+  onClearCache: () => void;
+  onClearUsage: () => void;
+}
+
+const CACHE_MODES: { mode: CacheMode; label: MessageKey; hint: MessageKey }[] = [
+  { mode: 'off', label: 'usage.cache.off', hint: 'usage.cache.offHint' },
+  { mode: 'cache', label: 'usage.cache.cache', hint: 'usage.cache.cacheHint' },
+  { mode: 'record', label: 'usage.cache.record', hint: 'usage.cache.recordHint' },
+  { mode: 'replay', label: 'usage.cache.replay', hint: 'usage.cache.replayHint' },
+];
+
+const DAYS_SHOWN = 30;
+
+const TotalsTable: React.FC<{ rows: { key: string; label: string; totals: UsageTotals }[]; heading: string; fmtNumber: (n: number) => string; t: Translate }> = ({ rows, heading, fmtNumber, t }) => (
+  <table className="w-full text-xs">
+    <thead className="text-sky-500 text-left">
+      <tr>
+        <th className="py-1 font-medium">{heading}</th>
+        <th className="py-1 font-medium text-right">{t('usage.requests')}</th>
+        <th className="py-1 font-medium text-right">{t('usage.inputTokens')}</th>
+        <th className="py-1 font-medium text-right">{t('usage.outputTokens')}</th>
+        <th className="py-1 font-medium text-right">{t('usage.cost')}</th>
+      </tr>
+    </thead>
+    <tbody className="text-sky-200">
+      {rows.map(({ key, label, totals }) => (
+        <tr key={key} className="border-t border-sky-900/40">
+          <td className="py-1 pr-2 truncate max-w-[16rem]">{label}</td>
+          <td className="py-1 text-right whitespace-nowrap">{fmtNumber(totals.requests)}{totals.cached ? <span className="text-sky-500"> ({t('usage.cachedCount', { count: totals.cached })})</span> : ''}</td>
+          <td className="py-1 text-right">{fmtNumber(totals.inputTokens)}</td>
+          <td className="py-1 text-right">{fmtNumber(totals.outputTokens)}</td>
+          <td className="py-1 text-right font-mono">{formatUsd(totals.cost)}{totals.unpriced.length ? '*' : ''}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+export const UsagePanel: React.FC<UsagePanelProps> = (props) => {
+  const { records, projects, currentProjectId, cacheMode, forceRefresh, cachedCount, fmtNumber, t } = props;
+
+  const current = useMemo(() => sumUsage(records.filter(r => r.projectId === currentProjectId)), [records, currentProjectId]);
+  const overall = useMemo(() => sumUsage(records), [records]);
+  const byProject = useMemo(() => groupUsage(records, r => r.projectId)
+    .map(g => ({ ...g, label: projects.find(p => p.id === g.key)?.name ?? t('usage.deletedProject') }))
+    .sort((a, b) => b.totals.cost - a.totals.cost), [records, projects, t]);
+  const byDay = useMemo(() => groupUsage(records, r => usageDay(r.at))
+    .map(g => ({ ...g, label: g.key }))
+    .sort((a, b) => b.key.localeCompare(a.key))
+    .slice(0, DAYS_SHOWN), [records]);
+  const byModel = useMemo(() => groupUsage(records, r => r.model)
+    .map(g => ({ ...g, label: g.key }))
+    .sort((a, b) => b.totals.cost - a.totals.cost), [records]);
+
+  const stat = (label: string, value: string) => (
+    <div className="p-3 rounded-lg bg-slate-900/50 border border-sky-900/60">
+      <div className="text-xs text-sky-500">{label}</div>
+      <div className="text-lg font-semibold text-sky-100">{value}</div>
+    </div>
+  );
+
+  return (
+    <div className="grid lg:grid-cols-3 gap-6">
+      <section className="space-y-6">
+        <Card title={t('usage.cacheTitle')}>
+          <div className="space-y-2 text-sm">
+            {CACHE_MODES.map(({ mode, label, hint }) => (
+              <label key={mode} className="flex items-start gap-2 cursor-pointer">
+                <input type="radio" name="cache-mode" checked={cacheMode === mode} onChange={() => props.onChangeCacheMode(mode)} className="mt-1" />
+                <span>
+                  <span className="text-sky-100">{t(label)}</span>
+                  <span className="block text-xs text-sky-500">{t(hint)}</span>
+                </span>
+              </label>
+            ))}
+            {cacheMode === 'cache' && (
+              <label className="flex items-center gap-2 pt-2 border-t border-sky-900/40 text-xs text-sky-300">
+                <input type="checkbox" checked={forceRefresh} onChange={(e) => props.onChangeForceRefresh(e.target.checked)} />
+                {t('usage.forceRefresh')}
+              </label>
+            )}
+            <div className="flex items-center justify-between pt-2 text-xs text-sky-400">
+              <span>{t('usage.cachedResponses', { count: fmtNumber(cachedCount) })}</span>
+              <button onClick={props.onClearCache} disabled={!cachedCount} className="text-sky-500 hover:text-red-300 disabled:opacity-40">{t('usage.clearCache')}</button>
+            </div>
+          </div>
+        </Card>
+      </section>
+
+      <section className="lg:col-span-2 space-y-6">
+        <Card title={t('usage.title')} actions={<Button onClick={props.onClearUsage} disabled={!records.length}>{t('usage.clear')}</Button>}>
+          {!records.length ? <Empty text={t('usage.empty')} /> : (
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {stat(t('usage.projectCost'), formatUsd(current.cost))}
+                {stat(t('usage.projectTokens'), fmtNumber(current.inputTokens + current.outputTokens))}
+                {stat(t('usage.totalCost'), formatUsd(overall.cost))}
+                {stat(t('usage.avgLatency'), overall.avgLatencyMs ? `${(overall.avgLatencyMs / 1000).toFixed(1)}s` : '—')}
+              </div>
+              <TotalsTable rows={byProject} heading={t('usage.byProject')} fmtNumber={fmtNumber} t={t} />
+              <TotalsTable rows={byDay} heading={t('usage.byDay')} fmtNumber={fmtNumber} t={t} />
+              <TotalsTable rows={byModel} heading={t('usage.byModel')} fmtNumber={fmtNumber} t={t} />
+              <p className="text-xs text-sky-500">{t('usage.priceNote')}{overall.unpriced.length ? ` ${t('usage.unpriced', { models: overall.unpriced.join(', ') })}` : ''}</p>
+            </div>
+          )}
+        </Card>
+      </section>
+    </div>
+  );
+};
@@ -1,5 +1,8 @@
 
 import React from 'react';
+import { ProviderInfo } from '../types';
+import { PROVIDER_LABELS } from '../services/llmProvider';
+import { Translate } from '../services/i18n';
 
 interface CardProps {
   title: string;
@@ -19,20 +22,46 @@ export const Card: React.FC<CardProps> = ({ title, children, actions }) => {
   );
 };
 
+interface ButtonProps {
+  children?: React.ReactNode;
+  onClick?: () => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export const Button: React.FC<ButtonProps> = ({ children, onClick, disabled, className }) => (
+  <button
+    className={`inline-flex items-center justify-center gap-2 rounded-lg border border-sky-800 bg-sky-900/40 px-3 py-2 text-sm font-semibold transition hover:bg-sky-900/60 disabled:opacity-50 disabled:cursor-not-allowed ${className || ''}`}
+    onClick={onClick}
+    disabled={disabled}
+  >
+    {children}
+  </button>
+);
+
 export const Empty: React.FC<{ text: string }> = ({ text }) => {
   return (
     <div className="p-4 rounded-xl bg-slate-900/40 border border-sky-900/50 text-sm text-sky-300">{text}</div>
   );
 };
 
-export const LoadingOverlay: React.FC = () => (
+export const LoadingOverlay: React.FC<{ text: string }> = ({ text }) => (
     <div className="absolute inset-0 bg-slate-900/50 backdrop-blur-sm flex items-center justify-center rounded-xl z-10">
         <div className="flex items-center gap-2 text-sky-200">
             <svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
             </svg>
-            <span>Đang tạo...</span>
+            <span>{text}</span>
         </div>
     </div>
 );
+
+export const ProviderBadge: React.FC<{ info?: ProviderInfo; t: Translate }> = ({ info, t }) => {
+  if (!info) return null;
+  return (
+    <span title={t('common.providerHandled', { provider: PROVIDER_LABELS[info.provider], model: info.model })} className="px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase tracking-wide bg-sky-900/40 border border-sky-800/60 text-sky-300">
+      {PROVIDER_LABELS[info.provider]} · {info.model}
+    </span>
+  );
+};
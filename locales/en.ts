@@ -0,0 +1,506 @@
+import { vi } from './vi';
+
+export const en: Record<keyof typeof vi, string> = {
+  'app.uiLanguage': 'Interface',
+  'app.viewEditor': 'Single book',
+  'app.viewBatch': 'Batch',
+  'app.viewUsage': 'Usage & cache',
+
+  'common.generating': 'Generating...',
+  'common.hide': 'Hide',
+  'common.delete': 'Delete',
+  'common.regenerate': 'Regenerate',
+  'common.save': 'Save',
+  'common.cancel': 'Cancel',
+  'common.stop': 'Stop',
+  'common.chars': 'chars',
+  'common.charCount': '{count} chars',
+  'common.providerHandled': 'Handled by {provider} ({model})',
+  'common.copyFailed': 'Could not copy to the clipboard: {error}',
+
+  'task.outline': 'the outline',
+  'task.seo': 'SEO',
+  'task.script': 'the script',
+  'task.prompts': 'prompts',
+  'task.cover': 'the cover analysis',
+  'task.translate': 'the translation',
+  'task.pipeline': 'the pipeline',
+  'task.storyboard': 'the storyboard',
+  'task.shorts': 'Shorts',
+  'task.narration': 'voice-over',
+  'task.profile': 'book profile',
+
+  'job.pending': 'Queued',
+  'job.running': 'Writing',
+  'job.done': 'Done',
+  'job.failed': 'Failed',
+  'job.attempt': ' (attempt {count})',
+
+  'error.titleRequired': 'Please enter the book title first.',
+  'error.openaiKeyRequired': 'Please enter an OpenAI API key to use ChatGPT models.',
+  'error.generic': 'Something went wrong while generating {task}. Please try again. Error: {error}',
+  'error.block': 'Something went wrong while processing chapter {index}. Error: {error}',
+  'error.noCover': 'No cover image yet.',
+  'error.chaptersFailed': '{count} chapters could not be written. Click ‘Resume’ to retry the failed chapters.',
+  'error.stopBeforeRestructure': 'The script is being written. Stop it before adding, removing or reordering chapters.',
+  'error.chapterNotFound': 'The matching chapter was not found in the outline.',
+  'error.sourcesFailed': 'Could not read documents: {errors}',
+  'error.storyboardFailed': 'Storyboard scenes could not be created for {count} chapters. Generate again to retry.',
+  'error.narrationFailed': 'Voice-over failed for {count} chapters. Generate again to retry.',
+  'error.shortsFailed': 'Shorts could not be found for {count} chapters. Generate again to retry.',
+  'error.translateFailed': '{count} chapters could not be translated, so the project was left unchanged. Please try again.',
+
+  'partial.count': 'Only {received} of {expected} {what} came back, even after asking again. What arrived has been kept; add the rest by hand or regenerate.',
+  'partial.chapters': 'chapters',
+  'partial.titles': 'SEO titles',
+
+  'project.untitled': 'Untitled project',
+  'project.libraryUnavailable': 'Cannot open the project library in this browser. Your work will not be saved automatically.',
+  'project.renamePrompt': 'New project name:',
+  'project.deleteConfirm': 'Delete project "{name}"? This cannot be undone.',
+  'project.importFailed': 'Could not import project: {error}',
+  'project.saveFailed': 'Could not save the project: {error}',
+  'project.actionFailed': 'The project library could not complete that action: {error}',
+
+  'library.title': 'Project library',
+  'library.new': '+ New',
+  'library.import': 'Import .json',
+  'library.saving': 'Saving...',
+  'library.autosave': 'Saved automatically in this browser (IndexedDB).',
+  'library.updated': 'Updated: {date}',
+  'library.rename': 'Rename',
+  'library.duplicate': 'Duplicate',
+  'library.export': 'Export .json',
+
+  'api.title': '0) API & Model',
+  'api.model': 'Service & model',
+  'api.keys': 'API keys',
+  'api.storedLocally': 'Keys are encrypted with AES-GCM using your passphrase before being stored in this browser.',
+  'api.hasGemini': 'Gemini key set',
+  'api.noGemini': 'No Gemini key',
+  'api.hasOpenAI': 'OpenAI key set',
+  'api.noOpenAI': 'No OpenAI key',
+  'api.manage': 'Manage',
+  'vault.createHint': 'Set a passphrase for the key vault. API keys are encrypted with it before being stored.',
+  'vault.legacy': '{count} keys stored as plain text will be moved into the vault and removed from browser storage.',
+  'vault.passphrase': 'Vault passphrase',
+  'vault.confirm': 'Repeat passphrase',
+  'vault.tooShort': 'At least {min} characters.',
+  'vault.mismatch': 'The passphrases do not match.',
+  'vault.create': 'Create vault',
+  'vault.forgetWarning': 'A forgotten passphrase cannot be recovered; the vault can only be deleted and the keys entered again.',
+  'vault.lockedHint': 'The key vault is locked. Enter the passphrase to use your API keys.',
+  'vault.unlock': 'Unlock',
+  'vault.unlocking': 'Unlocking...',
+  'vault.reset': 'Delete vault',
+  'vault.resetConfirm': 'Delete the key vault and every stored API key? This cannot be undone.',
+  'vault.lock': 'Lock',
+  'vault.locked': 'Vault locked',
+  'vault.noKeys': 'No keys yet.',
+  'vault.label': 'Label (optional)',
+  'vault.key': 'API key',
+  'vault.add': 'Add key',
+  'vault.rotationHint': 'Used in order; a key that runs out of quota or is rejected hands over to the next one.',
+  'vault.health.ok': 'Working',
+  'vault.health.quota': 'Out of quota',
+  'vault.health.auth': 'Rejected',
+  'vault.clearHealth': 'Retry',
+  'vault.clearHealthHint': 'Put the key back into rotation',
+  'usage.title': 'Tokens & cost',
+  'usage.empty': 'No requests recorded yet.',
+  'usage.clear': 'Clear history',
+  'usage.clearConfirm': 'Clear the whole usage history?',
+  'usage.requests': 'Requests',
+  'usage.inputTokens': 'Input tokens',
+  'usage.outputTokens': 'Output tokens',
+  'usage.cost': 'Cost',
+  'usage.cachedCount': '{count} cached',
+  'usage.projectCost': 'This project',
+  'usage.projectTokens': 'Project tokens',
+  'usage.totalCost': 'Total cost',
+  'usage.avgLatency': 'Average latency',
+  'usage.byProject': 'By project',
+  'usage.byDay': 'By day',
+  'usage.byModel': 'By model',
+  'usage.deletedProject': '(deleted project)',
+  'usage.priceNote': 'Costs are estimates from public price lists (USD per million tokens); cached answers count as 0.',
+  'usage.unpriced': '* No price for: {models}.',
+  'usage.cacheTitle': 'Response cache',
+  'usage.cache.off': 'Off',
+  'usage.cache.offHint': 'Every request goes to the provider.',
+  'usage.cache.cache': 'Cache',
+  'usage.cache.cacheHint': 'Identical requests (model, prompt, schema) reuse the saved answer at no cost.',
+  'usage.cache.record': 'Record',
+  'usage.cache.recordHint': 'Always calls the provider and saves every answer for later replay.',
+  'usage.cache.replay': 'Replay (offline)',
+  'usage.cache.replayHint': 'Only saved answers, no network; requests without one fail.',
+  'usage.forceRefresh': 'Force refresh: skip the cache, call again and overwrite',
+  'usage.cachedResponses': '{count} saved answers',
+  'usage.clearCache': 'Clear cache',
+  'usage.clearCacheConfirm': 'Delete every saved answer?',
+
+  'book.title': '1) Book & settings',
+  'book.name': 'Book title',
+  'book.namePlaceholder': 'Enter the book title…',
+  'book.cover': 'Upload cover (optional)',
+  'book.analyzeCover': 'Analyze cover',
+  'book.analyzingCover': 'Analyzing cover...',
+  'book.useCoverTitle': 'Use the title read from the cover: "{title}"?',
+  'book.metaTitle': 'Title:',
+  'book.metaAuthor': 'Author:',
+  'book.metaEdition': 'Edition:',
+  'book.outputLanguage': 'Content language',
+  'book.translate': 'Translate project to…',
+  'book.translating': 'Translating...',
+  'book.translateConfirm': 'Translate the existing outline, script, SEO and thumbnail ideas into {language}? The previous text of each chapter stays in its version history.',
+  'book.duration': 'Duration (minutes)',
+  'book.chapters': 'Chapters',
+  'book.includeIntro': 'Dedicated intro (hook + channel intro)',
+  'book.includeOutro': 'Dedicated outro (recap + subscribe call)',
+  'book.narrator': 'Narrator & speed',
+  'book.customRate': 'Custom',
+  'book.charsPerMinute': 'chars/min',
+  'book.wordsPerMinute': 'words/min',
+  'book.totalTarget': 'Target characters:',
+
+  'sources.title': 'Source documents',
+  'sources.reading': 'Reading...',
+  'sources.upload': '+ Upload',
+  'sources.hint': 'TXT, Markdown, EPUB or PDF. Text is read and searched right in the browser so the outline and script stay close to the original book.',
+  'sources.empty': 'No documents yet. The model will write from the book title alone.',
+  'sources.stats': '{chars} chars · {chunks} passages',
+  'profile.title': 'Book profile',
+  'profile.generate': 'Create profile',
+  'profile.regenerate': 'Research again',
+  'profile.regenerateConfirm': 'Replace the current book profile with a newly researched one?',
+  'profile.researching': 'Researching the book...',
+  'profile.hint': 'Facts every step (outline, script, SEO, visuals) uses, so they agree about the book. Saved per book title and reused by other projects about the same book.',
+  'profile.empty': 'No profile yet. Create one so the steps stop guessing the author and structure.',
+  'profile.author': 'Author',
+  'profile.year': 'Year',
+  'profile.genre': 'Genre',
+  'profile.audience': 'Target audience',
+  'profile.chapters': "The book's chapters (one per line)",
+  'profile.coreIdeas': 'Core ideas (one per line)',
+  'profile.quotes': 'Notable quotes',
+  'profile.addQuote': '+ Add quote',
+  'profile.noQuotes': 'No verified quotes.',
+  'profile.quotesNeedSources': 'Upload the book text to get quotes with page references.',
+  'profile.reference': 'Page or location',
+
+  'templates.title': 'Prompt templates & channel style',
+  'templates.preset': 'Project style',
+  'templates.builtIn': 'Built-in',
+  'templates.custom': 'Custom',
+  'templates.duplicate': 'Duplicate',
+  'templates.import': 'Import pack',
+  'templates.export': 'Export pack',
+  'templates.edit': 'Edit templates',
+  'templates.name': 'Template name',
+  'templates.readOnly': 'Built-in templates are read-only. Duplicate to edit.',
+  'templates.variables': 'Variables (click to insert):',
+  'templates.preview': 'Prompt preview',
+  'templates.copyName': '{name} (copy)',
+  'templates.deleteConfirm': 'Delete template "{name}"? Projects using it will fall back to the default template.',
+  'templates.invalid': 'Prompt template "{name}" is invalid: {issues}',
+  'templates.importFailed': 'Could not import template pack: {error}',
+  'templates.tab.outline': 'Outline',
+  'templates.tab.seo': 'SEO',
+  'templates.tab.script': 'Script',
+  'templates.tab.videoPrompts': 'Video prompts',
+  'templates.tab.thumbIdeas': 'Thumbnail',
+  'templates.preset.audiobook': 'Humanized audiobook',
+  'templates.preset.summary10': '10-minute summary',
+  'templates.preset.review': 'Critical review',
+  'templates.preset.kids': "Kids' stories",
+
+  'pipeline.runAll': 'Run full pipeline',
+  'pipeline.runStale': 'Update stale steps ({count})',
+  'pipeline.runAllConfirm': 'Regenerate the outline, script, SEO and visuals from scratch? The current content will be replaced.',
+  'pipeline.hint': 'Each step builds on the one before. Editing the outline or script marks the later steps as stale.',
+  'pipeline.stage.outline': 'Outline',
+  'pipeline.stage.script': 'Script',
+  'pipeline.stage.seo': 'SEO',
+  'pipeline.stage.visuals': 'Visuals',
+  'pipeline.status.missing': 'not yet',
+  'pipeline.status.stale': 'stale',
+  'pipeline.status.fresh': 'up to date',
+  'pipeline.status.running': 'running',
+  'pipeline.status.failed': 'failed',
+
+  'generate.title': '2) Generate',
+  'generate.outline': 'Analyze & create outline',
+  'generate.script': 'Write full script',
+  'generate.stop': 'Stop writing',
+  'generate.resume': 'Resume ({count} chapters missing)',
+  'generate.concurrency': 'Parallel',
+  'generate.concurrencyHint': 'Requests run in parallel. A chapter waits for the one before it when both are written in the same run, so only chapters whose predecessor is already written (resume, stale chapters) are written in parallel.',
+  'generate.seo': 'Create SEO titles & description',
+  'generate.prompts': 'Create video & thumbnail prompts',
+
+  'outline.title': '3) Script outline (Humanized Audiobook)',
+  'outline.empty': 'No outline yet. Click ‘Analyze & create outline’.',
+  'outline.newChapter': 'New chapter',
+  'outline.deleteConfirm': 'Delete chapter "{title}"? Its script will be deleted too.',
+  'outline.dragHint': 'Drag to reorder',
+  'outline.focusPlaceholder': 'What this chapter is about…',
+  'outline.actionsPlaceholder': 'One talking point per line…',
+  'outline.weight': 'Weight',
+  'outline.weightHint': 'Length relative to the other chapters',
+  'outline.fixedChars': 'Fixed chars',
+  'outline.fixedCharsHint': 'Leave empty to use the weight',
+  'outline.auto': 'auto',
+  'outline.insertAfter': '+ Add after',
+
+  'script.title': '4) Full script',
+  'script.autoFit': 'Fit duration',
+  'script.checkRepetitions': 'Check repetition',
+  'script.repetitionsFound': 'Found {count} phrases repeated across chapters',
+  'script.noRepetitions': 'No phrases repeated across chapters.',
+  'script.repetitionChapters': '— chapters {list}',
+  'script.writing': 'Writing chapters...',
+  'script.empty': 'No script yet. Click ‘Write full script’.',
+  'script.totalChars': 'Current total characters:',
+  'script.review': 'Review quality',
+  'review.summary': '{count} chapters reviewed, {flagged} need attention',
+  'review.onlyFlagged': 'Only chapters with issues',
+  'review.export': 'Export report (CSV)',
+  'review.allClear': 'No issues found.',
+  'review.ok': 'OK',
+  'review.issue.length': 'Length',
+  'review.issue.actions': 'Missing points',
+  'review.issue.markup': 'Markup',
+  'review.issue.quotation': 'Verbatim quote',
+  'review.issue.readability': 'Long sentences',
+  'review.length': '{chars} / {target} chars ({deviation})',
+  'review.markup.heading': 'Heading',
+  'review.markup.emphasis': 'Bold/italic',
+  'review.markup.list': 'List marker',
+  'review.markup.cue': 'Stage direction',
+  'review.markup.speaker': 'Speaker label',
+  'review.markup.separator': 'Separator',
+  'review.markup.html': 'HTML tag',
+  'review.line': 'line {line}',
+  'review.quoteSource': '{words} words matching {source}:',
+  'review.quoteMarked': '{words} words in quotation marks:',
+  'review.readability': '{sentences} sentences · {avg} words on average · longest {longest} · {long} very long',
+  'review.fix.length': 'Fit to target',
+  'review.fix.actions': 'Rewrite covering missing points',
+  'review.fix.markup': 'Clean markup',
+  'review.fix.quotation': 'Rewrite in own words',
+  'review.fix.readability': 'Shorten sentences',
+  'review.instruction.actions': 'make sure to cover: {list}',
+  'review.instruction.quotation': 'paraphrase instead of quoting the book verbatim; quote at most one short sentence',
+  'review.instruction.readability': 'use short, easy-to-follow sentences with one idea each',
+  'review.csv.chars': 'Chars',
+  'review.csv.target': 'Target',
+  'review.csv.deviation': 'Deviation',
+  'review.csv.issues': 'Issues',
+  'review.csv.covered': 'Covered points',
+  'review.csv.missing': 'Missing points',
+  'review.csv.markup': 'Markup',
+  'review.csv.quotations': 'Verbatim quotes',
+  'review.csv.sentences': 'Sentences',
+  'review.csv.avgWords': 'Avg. words per sentence',
+  'review.csv.longSentences': 'Very long sentences',
+
+  'export.label': 'Export',
+  'export.csvHint': 'Table of No. / Chapter / Script',
+  'export.srt': 'SRT subtitles',
+  'export.srtHint': 'Split by sentence, timed by speaking rate',
+  'export.vtt': 'WebVTT subtitles',
+  'export.vttHint': 'For web players',
+  'export.teleprompter': 'Teleprompter (Markdown)',
+  'export.teleprompterHint': 'Plain text with chapter headings',
+  'export.docxHint': 'For the voice artist, one chapter per page',
+  'export.rateNote': 'Subtitles are timed at {rate} {unit}/min (section 1).',
+  'export.unitChars': 'chars',
+  'export.unitWords': 'words',
+  'export.csvIndex': 'No.',
+  'export.csvChapter': 'Chapter',
+  'export.csvScript': 'Script',
+
+  'timeline.title': 'Estimated timeline',
+  'timeline.segment': '{index}. {chapter}\nStarts {start} · length {length}',
+  'timeline.target': 'Target {duration}',
+
+  'block.edit': 'Edit',
+  'block.resize': 'Expand / Condense',
+  'block.history': 'History ({count})',
+  'block.sources': 'Sources ({count})',
+  'block.instructionPlaceholder': 'Extra instruction (optional)…',
+  'block.quickShorter': 'More concise',
+  'block.quickStory': 'More storytelling',
+  'block.quickExample': 'Add a concrete example',
+  'block.streaming': 'Writing...',
+  'block.waiting': 'Waiting for the model to respond...',
+  'block.stopHere': 'Stop here',
+  'block.stopHint': 'Keep what has been written as the chapter text',
+  'block.newLength': 'New length',
+  'block.expand': 'Expand',
+  'block.condense': 'Condense',
+  'block.compare': 'Compare',
+  'block.restore': 'Restore',
+  'block.current': 'Current',
+  'block.diffFrom': 'Changes from v{version} to the current text',
+  'block.score': 'score {score}',
+  'block.sourceRemoved': 'The source document was removed from the project.',
+
+  'version.generated': 'Generated',
+  'version.regenerated': 'Regenerated',
+  'version.edited': 'Edited',
+  'version.expanded': 'Expanded',
+  'version.condensed': 'Condensed',
+  'version.restored': 'Restored',
+  'version.translated': 'Translated',
+  'version.cleaned': 'Markup cleaned',
+
+  'seo.title': '5) SEO (titles, description...)',
+  'seo.empty': 'No SEO yet. Click ‘Create SEO titles & description’.',
+  'seo.titles': 'Suggested titles',
+  'seo.description': 'Video description',
+  'seo.keywords': 'Keywords (tags)',
+  'seo.add': '+ Add',
+  'seo.chosen': 'Used for upload',
+  'seo.titlePlaceholder': 'Video title…',
+  'seo.keywordPlaceholder': 'Keyword…',
+  'seo.timestamps': 'Chapter timestamps',
+  'seo.insertTimestamps': 'Insert into description',
+  'seo.noTimestamps': 'No script yet to time the chapters.',
+  'seo.copyBundle': 'Copy upload bundle',
+  'seo.copied': 'Copied!',
+  'seo.bundleHint': 'First title, description with hashtags, and tags, ready to paste into YouTube Studio.',
+  'seo.bundleTitle': 'Title',
+  'seo.issue.titleTooLong': '{actual} characters; YouTube allows at most {limit}.',
+  'seo.issue.angleBrackets': 'YouTube does not accept < or >.',
+  'seo.issue.descriptionTooLong': 'The description is {actual} characters; YouTube allows at most {limit}.',
+  'seo.issue.tagsTooLong': 'Tags total {actual} characters (commas included); YouTube allows at most {limit}.',
+  'seo.issue.hashtagFormat': 'A hashtag must start with # and contain only letters, digits or _ (no spaces).',
+  'seo.issue.tooManyHashtags': '{actual} hashtags; with more than {limit} YouTube ignores all of them.',
+  'seo.issue.tooFewChapters': 'YouTube needs at least {limit} timestamps to show chapters.',
+  'seo.issue.chapterTooShort': 'This chapter is only {actual} seconds; each chapter needs at least {limit} seconds.',
+
+  'prompts.title': '6) Video & thumbnail prompts',
+  'prompts.frame': 'Frame:',
+  'prompts.downloadCsv': 'Download CSV',
+  'prompts.empty': 'No prompts yet. Click ‘Create video & thumbnail prompts’.',
+  'prompts.video': 'Video prompts (space/cosmos)',
+  'prompts.thumbs': 'Thumbnail text ideas',
+
+  'storyboard.title': '7) Chapter storyboard',
+  'storyboard.generate': 'Create storyboard',
+  'storyboard.density': 'Sec/scene',
+  'storyboard.densityHint': 'Target length of each scene; scenes always end at a sentence and never span two chapters',
+  'storyboard.empty': 'No storyboard yet. Write the script, then click ‘Create storyboard’.',
+  'storyboard.negative': 'Avoid:',
+  'storyboard.excerpt': 'Narration',
+  'storyboard.ratioMismatch': 'This storyboard was made for the {ratio} frame. Generate again to use the current frame.',
+  'storyboard.csvHint': 'Scene table with times, prompts and narration',
+  'storyboard.jsonHint': 'Full data for other tools',
+  'storyboard.edlHint': 'Timeline for Premiere/Resolve, {fps} fps',
+  'storyboard.csvStart': 'Start',
+  'storyboard.csvEnd': 'End',
+  'storyboard.csvClip': 'Clip name',
+  'storyboard.csvMotion': 'Motion',
+  'storyboard.csvNegative': 'Negative prompt',
+  'thumbnail.title': '8) Thumbnail',
+  'thumbnail.create': 'Create thumbnail',
+  'thumbnail.reset': 'Start over',
+  'thumbnail.resetConfirm': 'Discard the current layout and start again from the template?',
+  'thumbnail.empty': 'No thumbnail yet. Click ‘Create thumbnail’ to build one from the cover and text ideas.',
+  'thumbnail.dragHint': 'Drag the text or the cover to move it',
+  'thumbnail.ratio': 'Frame',
+  'thumbnail.template': 'Template',
+  'thumbnail.templateCover': 'Cover first',
+  'thumbnail.templateText': 'Text first',
+  'thumbnail.background': 'Background',
+  'thumbnail.bgSolid': 'Solid',
+  'thumbnail.bgGradient': 'Gradient',
+  'thumbnail.bgCoverBlur': 'Blurred cover',
+  'thumbnail.text': 'Text',
+  'thumbnail.pickIdea': 'Pick a generated idea…',
+  'thumbnail.font': 'Font',
+  'thumbnail.textColors': 'Text / outline colour',
+  'thumbnail.fill': 'Text colour',
+  'thumbnail.stroke': 'Outline colour',
+  'thumbnail.textSize': 'Text size',
+  'thumbnail.textWidth': 'Text block width',
+  'thumbnail.coverSize': 'Cover size',
+  'thumbnail.badge': 'Duration badge ({badge})',
+  'thumbnail.download': 'Download PNG',
+  'shorts.title': '9) Shorts/Reels from the script',
+  'shorts.generate': 'Find Shorts',
+  'shorts.empty': 'No Shorts yet. Write the script, then click ‘Find Shorts’ to pull out 30–60 second moments.',
+  'shorts.score': 'Score: how gripping and self-contained the moment is',
+  'shorts.lengthHint': 'Outside {min}–{max} seconds; edit before recording',
+  'shorts.source': 'From chapter {block}. {chapter}, sentences {from}–{to}',
+  'shorts.hook': 'Hook:',
+  'shorts.cta': 'CTA:',
+  'shorts.visual': 'Vertical 9:16 visual prompt',
+  'shorts.excerpt': 'Source passage',
+  'shorts.copy': 'Copy narration',
+  'shorts.copied': 'Copied',
+  'shorts.download': 'Download .md',
+  'shorts.mdHint': 'One section per short: narration, title, hashtags, prompt and source',
+  'shorts.jsonHint': 'Full data with the position in the long-form script',
+  'shorts.mdSource': 'Source',
+  'shorts.mdSentences': 'sentences',
+  'shorts.mdBody': 'Body',
+  'shorts.mdRationale': 'Why this moment',
+  'narration.title': '10) Voice-over',
+  'narration.generate': 'Narrate chapters',
+  'narration.empty': 'No script to narrate yet.',
+  'narration.provider': 'Voice provider',
+  'narration.provider.gemini': 'Gemini TTS',
+  'narration.provider.local': 'Stand-in (offline)',
+  'narration.voice': 'Voice',
+  'narration.speed': 'Speed ×{speed}',
+  'narration.pause': 'Pause between chapters (s)',
+  'narration.localHint': 'The stand-in voice only plays tones as long as each sentence, for trying the flow offline.',
+  'narration.reading': 'Reading...',
+  'narration.stale': 'Outdated',
+  'narration.missing': 'Not yet',
+  'narration.create': 'Create',
+  'narration.redo': 'Redo',
+  'narration.downloadWav': 'Download WAV',
+  'narration.zip': 'ZIP (WAV)',
+  'narration.zipHint': 'Per-chapter WAVs and one joined full track',
+  'narration.summary': '{done}/{total} chapters narrated. Chapter timestamps use the measured length of {done} chapters; the rest are estimated.',
+  'narration.exportPartial': '{count} chapters have no up-to-date voice-over and are left out of the export.',
+  'batch.addTitle': 'Add books to the queue',
+  'batch.inputHint': 'One title per line, or paste a CSV with a header row: title, duration, chapters, frameRatio. Empty cells use {duration} minutes, {chapters} chapters, {ratio} frame.',
+  'batch.inputPlaceholder': 'title,duration,chapters,frameRatio\nThe Alchemist,120,10,16:9\nAtomic Habits,,,',
+  'batch.loadCsv': 'Open CSV file…',
+  'batch.add': 'Add to queue',
+  'batch.inputError.title': 'Line {line}: the title is missing.',
+  'batch.inputError.duration': 'Line {line}: duration “{value}” must be 5 to 240 minutes.',
+  'batch.inputError.chapters': 'Line {line}: chapters “{value}” must be 6 to 24.',
+  'batch.inputError.ratio': 'Line {line}: frame ratio “{value}” is not supported.',
+  'batch.settingsTitle': 'Batch settings',
+  'batch.rate': 'Requests per minute',
+  'batch.rateHint': 'Shared by the whole queue, including chapters written in parallel',
+  'batch.settingsHint': 'Model, API keys, language, prompt preset and narrator are taken from the editor settings when each book starts.',
+  'batch.queueTitle': 'Queue',
+  'batch.start': 'Start',
+  'batch.resume': 'Resume',
+  'batch.pause': 'Pause',
+  'batch.downloadZip': 'Download ZIP of finished books',
+  'batch.clearDone': 'Remove finished books',
+  'batch.summary': '{queued} queued · {running} running · {done} done · {failed} failed',
+  'batch.empty': 'The queue is empty. Paste a list of books on the left.',
+  'batch.status.queued': 'Queued',
+  'batch.status.running': 'Running',
+  'batch.status.done': 'Done',
+  'batch.status.failed': 'Failed',
+  'batch.log': 'Log ({count})',
+  'batch.log.started': 'Started',
+  'batch.log.stage': 'Working on: {stage}',
+  'batch.log.paused': 'Paused {stage}',
+  'batch.log.done': 'Finished and saved as a project',
+  'batch.log.failed': 'Failed {stage}: {error}',
+  'batch.open': 'Open project',
+  'batch.retry': 'Retry',
+  'batch.projectBusy': 'This project is being generated by the batch queue. Pause the queue, then open it again.',
+  'batch.projectOpen': 'This book’s project is open in the editor. Open another project and retry.',
+  'batch.failed': 'The batch queue stopped. Error: {error}',
+};
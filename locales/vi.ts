@@ -0,0 +1,505 @@
+// Vietnamese UI messages. This catalog defines the message keys; other locales must translate every key.
+export const vi = {
+  'app.uiLanguage': 'Giao diện',
+  'app.viewEditor': 'Soạn từng sách',
+  'app.viewBatch': 'Hàng loạt',
+  'app.viewUsage': 'Chi phí & cache',
+
+  'common.generating': 'Đang tạo...',
+  'common.hide': 'Ẩn',
+  'common.delete': 'Xóa',
+  'common.regenerate': 'Tạo lại',
+  'common.save': 'Lưu',
+  'common.cancel': 'Hủy',
+  'common.stop': 'Dừng',
+  'common.chars': 'ký tự',
+  'common.charCount': '{count} ký tự',
+  'common.providerHandled': 'Đã xử lý bởi {provider} ({model})',
+  'common.copyFailed': 'Không sao chép được vào bộ nhớ tạm: {error}',
+
+  'task.outline': 'sườn',
+  'task.seo': 'SEO',
+  'task.script': 'kịch bản',
+  'task.prompts': 'prompt',
+  'task.cover': 'phân tích bìa',
+  'task.translate': 'bản dịch',
+  'task.pipeline': 'quy trình',
+  'task.storyboard': 'storyboard',
+  'task.shorts': 'Shorts',
+  'task.narration': 'lồng tiếng',
+  'task.profile': 'hồ sơ sách',
+
+  'job.pending': 'Chờ',
+  'job.running': 'Đang viết',
+  'job.done': 'Xong',
+  'job.failed': 'Lỗi',
+  'job.attempt': ' (lần {count})',
+
+  'error.titleRequired': 'Vui lòng nhập tên sách trước.',
+  'error.openaiKeyRequired': 'Vui lòng nhập OpenAI API Key để sử dụng các model ChatGPT.',
+  'error.generic': 'Đã xảy ra lỗi khi tạo {task}. Vui lòng thử lại. Lỗi: {error}',
+  'error.block': 'Đã xảy ra lỗi khi xử lý chương {index}. Lỗi: {error}',
+  'error.noCover': 'Chưa có ảnh bìa.',
+  'error.chaptersFailed': '{count} chương chưa tạo được. Nhấn ‘Tiếp tục’ để thử lại các chương lỗi.',
+  'error.stopBeforeRestructure': 'Đang viết kịch bản. Hãy dừng lại trước khi thêm, xóa hoặc sắp xếp chương.',
+  'error.chapterNotFound': 'Không tìm thấy chương tương ứng trong sườn.',
+  'error.sourcesFailed': 'Không đọc được tài liệu: {errors}',
+  'error.storyboardFailed': '{count} chương chưa tạo được cảnh storyboard. Nhấn tạo lại để thử lại.',
+  'error.narrationFailed': 'Chưa lồng tiếng được {count} chương. Nhấn tạo lại để thử tiếp.',
+  'error.shortsFailed': '{count} chương chưa tìm được Shorts. Nhấn tạo lại để thử lại.',
+  'error.translateFailed': '{count} chương chưa dịch được nên dự án được giữ nguyên. Vui lòng thử lại.',
+
+  'partial.count': 'Chỉ nhận được {received}/{expected} {what} dù đã yêu cầu lại. Phần đã có vẫn được giữ; bạn có thể thêm tay hoặc tạo lại.',
+  'partial.chapters': 'chương',
+  'partial.titles': 'tiêu đề SEO',
+
+  'project.untitled': 'Dự án chưa đặt tên',
+  'project.libraryUnavailable': 'Không mở được thư viện dự án trong trình duyệt này. Dữ liệu sẽ không được tự động lưu.',
+  'project.renamePrompt': 'Tên dự án mới:',
+  'project.deleteConfirm': 'Xóa dự án "{name}"? Thao tác này không thể hoàn tác.',
+  'project.importFailed': 'Không nhập được dự án: {error}',
+  'project.saveFailed': 'Không lưu được dự án: {error}',
+  'project.actionFailed': 'Thư viện dự án không thực hiện được thao tác này: {error}',
+
+  'library.title': 'Thư viện dự án',
+  'library.new': '+ Mới',
+  'library.import': 'Nhập .json',
+  'library.saving': 'Đang lưu...',
+  'library.autosave': 'Tự động lưu vào trình duyệt (IndexedDB).',
+  'library.updated': 'Cập nhật: {date}',
+  'library.rename': 'Đổi tên',
+  'library.duplicate': 'Nhân bản',
+  'library.export': 'Xuất .json',
+
+  'api.title': '0) Quản lý API & Model',
+  'api.model': 'Dịch vụ & Model đang dùng',
+  'api.keys': 'Cấu hình API Keys',
+  'api.storedLocally': 'Khoá được mã hoá AES-GCM bằng mật khẩu của bạn trước khi lưu vào trình duyệt.',
+  'api.hasGemini': 'Đã có Gemini Key',
+  'api.noGemini': 'Chưa có Gemini Key',
+  'api.hasOpenAI': 'Đã có OpenAI Key',
+  'api.noOpenAI': 'Chưa có OpenAI Key',
+  'api.manage': 'Quản lý',
+  'vault.createHint': 'Đặt mật khẩu cho kho khoá. Các API Key được mã hoá bằng mật khẩu này trước khi lưu.',
+  'vault.legacy': '{count} khoá đang lưu dạng văn bản thường sẽ được chuyển vào kho và xoá khỏi bộ nhớ trình duyệt.',
+  'vault.passphrase': 'Mật khẩu kho khoá',
+  'vault.confirm': 'Nhập lại mật khẩu',
+  'vault.tooShort': 'Cần ít nhất {min} ký tự.',
+  'vault.mismatch': 'Hai mật khẩu không khớp.',
+  'vault.create': 'Tạo kho khoá',
+  'vault.forgetWarning': 'Quên mật khẩu thì không khôi phục được khoá; khi đó chỉ có thể xoá kho và nhập lại.',
+  'vault.lockedHint': 'Kho khoá đang khoá. Nhập mật khẩu để dùng các API Key.',
+  'vault.unlock': 'Mở khoá',
+  'vault.unlocking': 'Đang mở...',
+  'vault.reset': 'Xoá kho',
+  'vault.resetConfirm': 'Xoá kho khoá cùng toàn bộ API Key đã lưu? Không thể hoàn tác.',
+  'vault.lock': 'Khoá lại',
+  'vault.locked': 'Kho khoá đang khoá',
+  'vault.noKeys': 'Chưa có khoá.',
+  'vault.label': 'Tên gợi nhớ (tuỳ chọn)',
+  'vault.key': 'API Key',
+  'vault.add': 'Thêm khoá',
+  'vault.rotationHint': 'Dùng theo thứ tự; hết hạn mức hoặc bị từ chối thì tự chuyển sang khoá kế tiếp.',
+  'vault.health.ok': 'Hoạt động',
+  'vault.health.quota': 'Hết hạn mức',
+  'vault.health.auth': 'Bị từ chối',
+  'vault.clearHealth': 'Thử lại',
+  'vault.clearHealthHint': 'Đưa khoá trở lại vòng xoay',
+  'usage.title': 'Token & chi phí',
+  'usage.empty': 'Chưa có yêu cầu nào được ghi lại.',
+  'usage.clear': 'Xoá lịch sử',
+  'usage.clearConfirm': 'Xoá toàn bộ lịch sử sử dụng?',
+  'usage.requests': 'Yêu cầu',
+  'usage.inputTokens': 'Token vào',
+  'usage.outputTokens': 'Token ra',
+  'usage.cost': 'Chi phí',
+  'usage.cachedCount': '{count} từ cache',
+  'usage.projectCost': 'Chi phí dự án này',
+  'usage.projectTokens': 'Token dự án này',
+  'usage.totalCost': 'Tổng chi phí',
+  'usage.avgLatency': 'Độ trễ trung bình',
+  'usage.byProject': 'Theo dự án',
+  'usage.byDay': 'Theo ngày',
+  'usage.byModel': 'Theo model',
+  'usage.deletedProject': '(dự án đã xoá)',
+  'usage.priceNote': 'Chi phí ước tính theo bảng giá công khai (USD / 1 triệu token); phản hồi từ cache tính 0.',
+  'usage.unpriced': '* Chưa có giá cho: {models}.',
+  'usage.cacheTitle': 'Cache phản hồi',
+  'usage.cache.off': 'Tắt',
+  'usage.cache.offHint': 'Mọi yêu cầu đều gửi tới nhà cung cấp.',
+  'usage.cache.cache': 'Bật cache',
+  'usage.cache.cacheHint': 'Yêu cầu giống hệt (model, prompt, schema) dùng lại phản hồi đã lưu, không tính phí.',
+  'usage.cache.record': 'Ghi lại',
+  'usage.cache.recordHint': 'Luôn gọi nhà cung cấp và lưu mọi phản hồi để phát lại sau.',
+  'usage.cache.replay': 'Phát lại (offline)',
+  'usage.cache.replayHint': 'Chỉ dùng phản hồi đã lưu, không gọi mạng; yêu cầu chưa có sẽ báo lỗi.',
+  'usage.forceRefresh': 'Làm mới: bỏ qua cache, gọi lại và ghi đè phản hồi',
+  'usage.cachedResponses': '{count} phản hồi đã lưu',
+  'usage.clearCache': 'Xoá cache',
+  'usage.clearCacheConfirm': 'Xoá mọi phản hồi đã lưu?',
+
+  'book.title': '1) Thông tin sách & Cài đặt',
+  'book.name': 'Tên sách',
+  'book.namePlaceholder': 'Nhập tên sách…',
+  'book.cover': 'Tải ảnh bìa (tùy chọn)',
+  'book.analyzeCover': 'Phân tích bìa',
+  'book.analyzingCover': 'Đang phân tích bìa...',
+  'book.useCoverTitle': 'Dùng tên sách đọc được từ bìa: "{title}"?',
+  'book.metaTitle': 'Tên sách:',
+  'book.metaAuthor': 'Tác giả:',
+  'book.metaEdition': 'Ấn bản:',
+  'book.outputLanguage': 'Ngôn ngữ nội dung',
+  'book.translate': 'Dịch dự án sang…',
+  'book.translating': 'Đang dịch...',
+  'book.translateConfirm': 'Dịch sườn, kịch bản, SEO và gợi ý thumbnail hiện có sang {language}? Bản cũ của từng chương vẫn còn trong lịch sử phiên bản.',
+  'book.duration': 'Thời lượng (phút)',
+  'book.chapters': 'Số chương',
+  'book.includeIntro': 'Phần mở đầu riêng (hook + giới thiệu kênh)',
+  'book.includeOutro': 'Phần kết riêng (tóm tắt + kêu gọi đăng ký)',
+  'book.narrator': 'Giọng đọc & tốc độ',
+  'book.customRate': 'Tùy chỉnh',
+  'book.charsPerMinute': 'ký tự/phút',
+  'book.wordsPerMinute': 'từ/phút',
+  'book.totalTarget': 'Tổng ký tự mục tiêu:',
+
+  'sources.title': 'Tài liệu nguồn',
+  'sources.reading': 'Đang đọc...',
+  'sources.upload': '+ Tải lên',
+  'sources.hint': 'TXT, Markdown, EPUB hoặc PDF. Văn bản được đọc và tìm kiếm ngay trong trình duyệt để sườn và kịch bản bám sát sách gốc.',
+  'sources.empty': 'Chưa có tài liệu. Mô hình sẽ viết chỉ dựa trên tên sách.',
+  'sources.stats': '{chars} ký tự · {chunks} đoạn',
+  'profile.title': 'Hồ sơ sách',
+  'profile.generate': 'Lập hồ sơ',
+  'profile.regenerate': 'Tra cứu lại',
+  'profile.regenerateConfirm': 'Thay hồ sơ sách hiện tại bằng bản tra cứu mới?',
+  'profile.researching': 'Đang tra cứu sách...',
+  'profile.hint': 'Dữ kiện mọi bước (dàn ý, kịch bản, SEO, hình ảnh) cùng dùng để không mâu thuẫn nhau về cuốn sách. Lưu theo tên sách và dùng lại cho các dự án khác về cùng cuốn sách.',
+  'profile.empty': 'Chưa có hồ sơ. Hãy lập hồ sơ để các bước không phải đoán tác giả và cấu trúc sách.',
+  'profile.author': 'Tác giả',
+  'profile.year': 'Năm',
+  'profile.genre': 'Thể loại',
+  'profile.audience': 'Độc giả mục tiêu',
+  'profile.chapters': 'Các chương của sách (mỗi dòng một chương)',
+  'profile.coreIdeas': 'Ý tưởng cốt lõi (mỗi dòng một ý)',
+  'profile.quotes': 'Trích dẫn đáng nhớ',
+  'profile.addQuote': '+ Thêm trích dẫn',
+  'profile.noQuotes': 'Chưa có trích dẫn đã kiểm chứng.',
+  'profile.quotesNeedSources': 'Tải lên văn bản sách để có trích dẫn kèm số trang.',
+  'profile.reference': 'Trang hoặc vị trí',
+
+  'templates.title': 'Mẫu prompt & phong cách kênh',
+  'templates.preset': 'Phong cách của dự án',
+  'templates.builtIn': 'Có sẵn',
+  'templates.custom': 'Tự tạo',
+  'templates.duplicate': 'Nhân bản',
+  'templates.import': 'Nhập gói',
+  'templates.export': 'Xuất gói',
+  'templates.edit': 'Sửa mẫu',
+  'templates.name': 'Tên mẫu',
+  'templates.readOnly': 'Mẫu có sẵn chỉ đọc. Nhân bản để chỉnh sửa.',
+  'templates.variables': 'Biến (bấm để chèn):',
+  'templates.preview': 'Xem trước prompt',
+  'templates.copyName': '{name} (bản sao)',
+  'templates.deleteConfirm': 'Xóa mẫu "{name}"? Các dự án đang dùng mẫu này sẽ quay về mẫu mặc định.',
+  'templates.invalid': 'Mẫu prompt "{name}" không hợp lệ: {issues}',
+  'templates.importFailed': 'Không nhập được gói mẫu: {error}',
+  'templates.tab.outline': 'Sườn',
+  'templates.tab.seo': 'SEO',
+  'templates.tab.script': 'Kịch bản',
+  'templates.tab.videoPrompts': 'Prompt video',
+  'templates.tab.thumbIdeas': 'Thumbnail',
+  'templates.preset.audiobook': 'Audiobook nhân văn hóa',
+  'templates.preset.summary10': 'Tóm tắt 10 phút',
+  'templates.preset.review': 'Phê bình sách',
+  'templates.preset.kids': 'Truyện thiếu nhi',
+
+  'pipeline.runAll': 'Chạy toàn bộ quy trình',
+  'pipeline.runStale': 'Cập nhật bước đã cũ ({count})',
+  'pipeline.runAllConfirm': 'Tạo lại toàn bộ dàn ý, kịch bản, SEO và hình ảnh? Nội dung hiện tại sẽ bị thay thế.',
+  'pipeline.hint': 'Mỗi bước dùng kết quả của bước trước. Sửa dàn ý hoặc kịch bản sẽ đánh dấu các bước sau là đã cũ.',
+  'pipeline.stage.outline': 'Dàn ý',
+  'pipeline.stage.script': 'Kịch bản',
+  'pipeline.stage.seo': 'SEO',
+  'pipeline.stage.visuals': 'Hình ảnh',
+  'pipeline.status.missing': 'chưa có',
+  'pipeline.status.stale': 'đã cũ',
+  'pipeline.status.fresh': 'mới nhất',
+  'pipeline.status.running': 'đang chạy',
+  'pipeline.status.failed': 'lỗi',
+
+  'generate.title': '2) Tạo Nội Dung',
+  'generate.outline': 'Phân tích & Tạo sườn',
+  'generate.script': 'Viết Kịch Bản Chi Tiết',
+  'generate.stop': 'Dừng viết kịch bản',
+  'generate.resume': 'Tiếp tục ({count} chương còn thiếu)',
+  'generate.concurrency': 'Luồng',
+  'generate.concurrencyHint': 'Số yêu cầu chạy song song. Chương nào cũng chờ chương liền trước nếu cả hai được viết trong cùng một lượt, nên chỉ những chương có chương trước đã viết xong (viết tiếp, chương cũ) mới được viết song song.',
+  'generate.seo': 'Tạo Tiêu đề & Mô tả SEO',
+  'generate.prompts': 'Tạo Prompt Video & Thumbnail',
+
+  'outline.title': '3) Sườn kịch bản (Humanized Audiobook)',
+  'outline.empty': 'Chưa có sườn. Nhấn ‘Phân tích & Tạo sườn’.',
+  'outline.newChapter': 'Chương mới',
+  'outline.deleteConfirm': 'Xóa chương "{title}"? Kịch bản của chương này cũng sẽ bị xóa.',
+  'outline.dragHint': 'Kéo để sắp xếp',
+  'outline.focusPlaceholder': 'Nội dung chính của chương…',
+  'outline.actionsPlaceholder': 'Mỗi dòng một ý cần nói…',
+  'outline.weight': 'Trọng số',
+  'outline.weightHint': 'Tỷ trọng độ dài so với các chương khác',
+  'outline.fixedChars': 'Ký tự cố định',
+  'outline.fixedCharsHint': 'Để trống để tính theo trọng số',
+  'outline.auto': 'tự động',
+  'outline.insertAfter': '+ Thêm sau',
+
+  'script.title': '4) Kịch bản chi tiết',
+  'script.autoFit': 'Khớp thời lượng',
+  'script.checkRepetitions': 'Kiểm tra lặp',
+  'script.repetitionsFound': 'Phát hiện {count} cụm từ lặp giữa các chương',
+  'script.noRepetitions': 'Không phát hiện cụm từ lặp giữa các chương.',
+  'script.repetitionChapters': '— chương {list}',
+  'script.writing': 'Đang viết các chương...',
+  'script.empty': 'Chưa có kịch bản. Nhấn ‘Viết Kịch Bản’.',
+  'script.totalChars': 'Tổng ký tự hiện tại:',
+  'script.review': 'Kiểm tra chất lượng',
+  'review.summary': 'Đã kiểm tra {count} chương, {flagged} chương cần xem lại',
+  'review.onlyFlagged': 'Chỉ chương có vấn đề',
+  'review.export': 'Xuất báo cáo (CSV)',
+  'review.allClear': 'Không phát hiện vấn đề nào.',
+  'review.ok': 'Ổn',
+  'review.issue.length': 'Độ dài',
+  'review.issue.actions': 'Thiếu ý',
+  'review.issue.markup': 'Ký hiệu định dạng',
+  'review.issue.quotation': 'Trích nguyên văn',
+  'review.issue.readability': 'Câu quá dài',
+  'review.length': '{chars} / {target} ký tự ({deviation})',
+  'review.markup.heading': 'Tiêu đề',
+  'review.markup.emphasis': 'In đậm/nghiêng',
+  'review.markup.list': 'Gạch đầu dòng',
+  'review.markup.cue': 'Chỉ dẫn sân khấu',
+  'review.markup.speaker': 'Nhãn người nói',
+  'review.markup.separator': 'Đường phân cách',
+  'review.markup.html': 'Thẻ HTML',
+  'review.line': 'dòng {line}',
+  'review.quoteSource': '{words} từ trùng với {source}:',
+  'review.quoteMarked': '{words} từ trong ngoặc kép:',
+  'review.readability': '{sentences} câu · trung bình {avg} từ · dài nhất {longest} · {long} câu quá dài',
+  'review.fix.length': 'Chỉnh về độ dài mục tiêu',
+  'review.fix.actions': 'Viết lại cho đủ ý',
+  'review.fix.markup': 'Xoá ký hiệu',
+  'review.fix.quotation': 'Viết lại bằng lời mình',
+  'review.fix.readability': 'Rút ngắn câu',
+  'review.instruction.actions': 'nhớ nói đủ các ý: {list}',
+  'review.instruction.quotation': 'diễn đạt lại bằng lời của mình thay vì trích nguyên văn sách; chỉ trích tối đa một câu ngắn',
+  'review.instruction.readability': 'dùng câu ngắn, dễ nghe, mỗi câu một ý',
+  'review.csv.chars': 'Ký tự',
+  'review.csv.target': 'Mục tiêu',
+  'review.csv.deviation': 'Chênh lệch',
+  'review.csv.issues': 'Vấn đề',
+  'review.csv.covered': 'Ý đã nói',
+  'review.csv.missing': 'Ý còn thiếu',
+  'review.csv.markup': 'Ký hiệu định dạng',
+  'review.csv.quotations': 'Trích nguyên văn',
+  'review.csv.sentences': 'Số câu',
+  'review.csv.avgWords': 'Số từ trung bình mỗi câu',
+  'review.csv.longSentences': 'Câu quá dài',
+
+  'export.label': 'Xuất',
+  'export.csvHint': 'Bảng STT / Chương / Kịch bản',
+  'export.srt': 'Phụ đề SRT',
+  'export.srtHint': 'Cắt theo câu, canh giờ theo tốc độ đọc',
+  'export.vtt': 'Phụ đề WebVTT',
+  'export.vttHint': 'Cho trình phát web',
+  'export.teleprompter': 'Teleprompter (Markdown)',
+  'export.teleprompterHint': 'Văn bản thuần có tiêu đề chương',
+  'export.docxHint': 'Cho người thu âm, mỗi chương một trang',
+  'export.rateNote': 'Phụ đề canh giờ theo tốc độ đọc {rate} {unit}/phút (mục 1).',
+  'export.unitChars': 'ký tự',
+  'export.unitWords': 'từ',
+  'export.csvIndex': 'STT',
+  'export.csvChapter': 'Chương',
+  'export.csvScript': 'Kịch bản',
+
+  'timeline.title': 'Dòng thời gian ước tính',
+  'timeline.segment': '{index}. {chapter}\nBắt đầu {start} · dài {length}',
+  'timeline.target': 'Mục tiêu {duration}',
+
+  'block.edit': 'Sửa',
+  'block.resize': 'Mở rộng / Rút gọn',
+  'block.history': 'Lịch sử ({count})',
+  'block.sources': 'Nguồn ({count})',
+  'block.instructionPlaceholder': 'Yêu cầu thêm (tùy chọn)…',
+  'block.quickShorter': 'Ngắn gọn hơn',
+  'block.quickStory': 'Kể chuyện nhiều hơn',
+  'block.quickExample': 'Thêm một ví dụ cụ thể',
+  'block.streaming': 'Đang viết...',
+  'block.waiting': 'Đang chờ phản hồi từ model...',
+  'block.stopHere': 'Dừng tại đây',
+  'block.stopHint': 'Giữ phần đã viết làm nội dung chương',
+  'block.newLength': 'Độ dài mới',
+  'block.expand': 'Mở rộng',
+  'block.condense': 'Rút gọn',
+  'block.compare': 'So sánh',
+  'block.restore': 'Khôi phục',
+  'block.current': 'Hiện tại',
+  'block.diffFrom': 'Thay đổi từ v{version} đến bản hiện tại',
+  'block.score': 'điểm {score}',
+  'block.sourceRemoved': 'Tài liệu nguồn đã bị xóa khỏi dự án.',
+
+  'version.generated': 'Tạo mới',
+  'version.regenerated': 'Tạo lại',
+  'version.edited': 'Sửa tay',
+  'version.expanded': 'Mở rộng',
+  'version.condensed': 'Rút gọn',
+  'version.restored': 'Khôi phục',
+  'version.translated': 'Bản dịch',
+  'version.cleaned': 'Đã xoá ký hiệu',
+
+  'seo.title': '5) Gợi ý SEO (Tiêu đề, Mô tả...)',
+  'seo.empty': 'Chưa có SEO. Nhấn ‘Tạo Tiêu đề & Mô tả SEO’.',
+  'seo.titles': 'Tiêu đề gợi ý',
+  'seo.description': 'Mô tả video',
+  'seo.keywords': 'Từ khóa (thẻ)',
+  'seo.add': '+ Thêm',
+  'seo.chosen': 'Dùng khi tải lên',
+  'seo.titlePlaceholder': 'Tiêu đề video…',
+  'seo.keywordPlaceholder': 'Từ khóa…',
+  'seo.timestamps': 'Mốc chương',
+  'seo.insertTimestamps': 'Chèn vào mô tả',
+  'seo.noTimestamps': 'Chưa có kịch bản để tính mốc thời gian.',
+  'seo.copyBundle': 'Sao chép gói tải lên',
+  'seo.copied': 'Đã sao chép!',
+  'seo.bundleHint': 'Tiêu đề đầu tiên, mô tả kèm hashtag và thẻ, sẵn để dán vào YouTube Studio.',
+  'seo.bundleTitle': 'Tiêu đề',
+  'seo.issue.titleTooLong': 'Dài {actual} ký tự, YouTube cho tối đa {limit}.',
+  'seo.issue.angleBrackets': 'YouTube không chấp nhận dấu < hoặc >.',
+  'seo.issue.descriptionTooLong': 'Mô tả dài {actual} ký tự, YouTube cho tối đa {limit}.',
+  'seo.issue.tagsTooLong': 'Tổng thẻ dài {actual} ký tự (tính cả dấu phẩy), YouTube cho tối đa {limit}.',
+  'seo.issue.hashtagFormat': 'Hashtag phải bắt đầu bằng # và chỉ gồm chữ, số hoặc dấu _ (không dấu cách).',
+  'seo.issue.tooManyHashtags': 'Có {actual} hashtag; nhiều hơn {limit} thì YouTube bỏ qua tất cả.',
+  'seo.issue.tooFewChapters': 'YouTube cần ít nhất {limit} mốc để hiện chương.',
+  'seo.issue.chapterTooShort': 'Chương này chỉ dài {actual} giây; mỗi chương cần ít nhất {limit} giây.',
+
+  'prompts.title': '6) Prompt Video & Thumbnail',
+  'prompts.frame': 'Khung hình:',
+  'prompts.downloadCsv': 'Tải CSV',
+  'prompts.empty': 'Chưa có prompt. Nhấn ‘Tạo prompt video & thumbnail’.',
+  'prompts.video': 'Prompt Video (Không gian/Vũ trụ)',
+  'prompts.thumbs': 'Gợi ý Text cho Thumbnail',
+
+  'storyboard.title': '7) Storyboard theo chương',
+  'storyboard.generate': 'Tạo storyboard',
+  'storyboard.density': 'Giây/cảnh',
+  'storyboard.densityHint': 'Độ dài mong muốn của mỗi cảnh; cảnh luôn kết thúc ở cuối câu và không vắt qua hai chương',
+  'storyboard.empty': 'Chưa có storyboard. Viết kịch bản rồi nhấn ‘Tạo storyboard’.',
+  'storyboard.negative': 'Tránh:',
+  'storyboard.excerpt': 'Lời dẫn',
+  'storyboard.ratioMismatch': 'Storyboard này được tạo cho khung hình {ratio}. Tạo lại để dùng khung hình hiện tại.',
+  'storyboard.csvHint': 'Bảng cảnh với thời gian, prompt và lời dẫn',
+  'storyboard.jsonHint': 'Dữ liệu đầy đủ cho công cụ khác',
+  'storyboard.edlHint': 'Dòng thời gian cho Premiere/Resolve, {fps} fps',
+  'storyboard.csvStart': 'Bắt đầu',
+  'storyboard.csvEnd': 'Kết thúc',
+  'storyboard.csvClip': 'Tên clip',
+  'storyboard.csvMotion': 'Chuyển động',
+  'storyboard.csvNegative': 'Negative prompt',
+  'thumbnail.title': '8) Thumbnail',
+  'thumbnail.create': 'Tạo thumbnail',
+  'thumbnail.reset': 'Làm lại từ đầu',
+  'thumbnail.resetConfirm': 'Bỏ bố cục hiện tại và tạo lại từ mẫu?',
+  'thumbnail.empty': 'Chưa có thumbnail. Nhấn ‘Tạo thumbnail’ để dựng từ ảnh bìa và ý tưởng chữ.',
+  'thumbnail.dragHint': 'Kéo chữ hoặc ảnh bìa để đổi vị trí',
+  'thumbnail.ratio': 'Khung hình',
+  'thumbnail.template': 'Mẫu',
+  'thumbnail.templateCover': 'Ảnh bìa nổi bật',
+  'thumbnail.templateText': 'Chữ nổi bật',
+  'thumbnail.background': 'Nền',
+  'thumbnail.bgSolid': 'Màu trơn',
+  'thumbnail.bgGradient': 'Chuyển màu',
+  'thumbnail.bgCoverBlur': 'Ảnh bìa làm mờ',
+  'thumbnail.text': 'Chữ trên ảnh',
+  'thumbnail.pickIdea': 'Chọn từ ý tưởng đã tạo…',
+  'thumbnail.font': 'Phông chữ',
+  'thumbnail.textColors': 'Màu chữ / viền',
+  'thumbnail.fill': 'Màu chữ',
+  'thumbnail.stroke': 'Màu viền',
+  'thumbnail.textSize': 'Cỡ chữ',
+  'thumbnail.textWidth': 'Độ rộng khối chữ',
+  'thumbnail.coverSize': 'Cỡ ảnh bìa',
+  'thumbnail.badge': 'Nhãn thời lượng ({badge})',
+  'thumbnail.download': 'Tải PNG',
+  'shorts.title': '9) Shorts/Reels từ kịch bản',
+  'shorts.generate': 'Tìm Shorts',
+  'shorts.empty': 'Chưa có Shorts. Viết kịch bản rồi nhấn ‘Tìm Shorts’ để lọc ra các khoảnh khắc 30–60 giây.',
+  'shorts.score': 'Điểm: mức độ cuốn hút và tự đứng được',
+  'shorts.lengthHint': 'Ngoài khoảng {min}–{max} giây; nên sửa lại trước khi thu',
+  'shorts.source': 'Từ chương {block}. {chapter}, câu {from}–{to}',
+  'shorts.hook': 'Hook:',
+  'shorts.cta': 'CTA:',
+  'shorts.visual': 'Prompt hình dọc 9:16',
+  'shorts.excerpt': 'Đoạn gốc',
+  'shorts.copy': 'Sao chép lời đọc',
+  'shorts.copied': 'Đã sao chép',
+  'shorts.download': 'Tải .md',
+  'shorts.mdHint': 'Mỗi short một mục: lời đọc, tiêu đề, hashtag, prompt và nguồn',
+  'shorts.jsonHint': 'Dữ liệu đầy đủ kèm vị trí trong kịch bản gốc',
+  'shorts.mdSource': 'Nguồn',
+  'shorts.mdSentences': 'câu',
+  'shorts.mdBody': 'Nội dung',
+  'shorts.mdRationale': 'Lý do chọn',
+  'narration.title': '10) Lồng tiếng',
+  'narration.generate': 'Lồng tiếng các chương',
+  'narration.empty': 'Chưa có kịch bản để lồng tiếng.',
+  'narration.provider': 'Nhà cung cấp giọng đọc',
+  'narration.provider.gemini': 'Gemini TTS',
+  'narration.provider.local': 'Giả lập (offline)',
+  'narration.voice': 'Giọng',
+  'narration.speed': 'Tốc độ ×{speed}',
+  'narration.pause': 'Nghỉ giữa chương (giây)',
+  'narration.localHint': 'Giọng giả lập chỉ phát âm báo theo độ dài câu, dùng để thử quy trình khi không có mạng.',
+  'narration.reading': 'Đang đọc...',
+  'narration.stale': 'Lỗi thời',
+  'narration.missing': 'Chưa có',
+  'narration.create': 'Tạo',
+  'narration.redo': 'Tạo lại',
+  'narration.downloadWav': 'Tải WAV',
+  'narration.zip': 'ZIP (WAV)',
+  'narration.zipHint': 'WAV từng chương và một track ghép đầy đủ',
+  'narration.summary': '{done}/{total} chương đã lồng tiếng. Mốc thời gian chương dùng độ dài đo được của {done} chương, phần còn lại là ước tính.',
+  'narration.exportPartial': '{count} chương chưa có bản lồng tiếng mới nhất nên không có trong tệp xuất.',
+  'batch.addTitle': 'Thêm sách vào hàng đợi',
+  'batch.inputHint': 'Mỗi dòng một tên sách, hoặc dán CSV có dòng tiêu đề: title, duration, chapters, frameRatio. Ô trống dùng {duration} phút, {chapters} chương, khung {ratio}.',
+  'batch.inputPlaceholder': 'title,duration,chapters,frameRatio\nNhà giả kim,120,10,16:9\nĐắc nhân tâm,,,',
+  'batch.loadCsv': 'Mở tệp CSV…',
+  'batch.add': 'Thêm vào hàng đợi',
+  'batch.inputError.title': 'Dòng {line}: thiếu tên sách.',
+  'batch.inputError.duration': 'Dòng {line}: thời lượng “{value}” phải là số phút từ 5 đến 240.',
+  'batch.inputError.chapters': 'Dòng {line}: số chương “{value}” phải từ 6 đến 24.',
+  'batch.inputError.ratio': 'Dòng {line}: khung hình “{value}” không được hỗ trợ.',
+  'batch.settingsTitle': 'Cài đặt chạy hàng loạt',
+  'batch.rate': 'Giới hạn yêu cầu/phút',
+  'batch.rateHint': 'Dùng chung cho cả hàng đợi, kể cả khi viết nhiều chương song song',
+  'batch.settingsHint': 'Mô hình, API key, ngôn ngữ, mẫu prompt và giọng đọc lấy theo cài đặt đang mở ở màn hình soạn khi mỗi sách bắt đầu.',
+  'batch.queueTitle': 'Hàng đợi',
+  'batch.start': 'Bắt đầu',
+  'batch.resume': 'Tiếp tục',
+  'batch.pause': 'Tạm dừng',
+  'batch.downloadZip': 'Tải ZIP sách đã xong',
+  'batch.clearDone': 'Xóa sách đã xong',
+  'batch.summary': '{queued} chờ · {running} đang chạy · {done} xong · {failed} lỗi',
+  'batch.empty': 'Hàng đợi trống. Dán danh sách sách ở bên trái.',
+  'batch.status.queued': 'Đang chờ',
+  'batch.status.running': 'Đang chạy',
+  'batch.status.done': 'Xong',
+  'batch.status.failed': 'Lỗi',
+  'batch.log': 'Nhật ký ({count})',
+  'batch.log.started': 'Bắt đầu',
+  'batch.log.stage': 'Đang làm: {stage}',
+  'batch.log.paused': 'Tạm dừng {stage}',
+  'batch.log.done': 'Hoàn tất, đã lưu thành dự án',
+  'batch.log.failed': 'Lỗi {stage}: {error}',
+  'batch.open': 'Mở dự án',
+  'batch.retry': 'Thử lại',
+  'batch.projectBusy': 'Dự án này đang được chạy hàng loạt. Tạm dừng hàng đợi rồi mở lại.',
+  'batch.projectOpen': 'Dự án của sách này đang mở ở màn hình soạn. Mở dự án khác rồi thử lại.',
+  'batch.failed': 'Hàng đợi đã dừng. Lỗi: {error}',
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { audioSeconds, base64ToPcm, concatAudio, decodeWav, encodeWav } from './audio';
+
+const audio = (values: number[], sampleRate = 8000) => ({ samples: Int16Array.from(values), sampleRate });
+
+describe('encodeWav / decodeWav', () => {
+    it('round-trips samples and sample rate', async () => {
+        const input = audio([0, 1, -1, 32767, -32768, 1234], 24000);
+        const wav = encodeWav(input);
+        expect(wav.type).toBe('audio/wav');
+        expect(wav.size).toBe(44 + input.samples.length * 2);
+        const output = await decodeWav(wav);
+        expect(output.sampleRate).toBe(24000);
+        expect([...output.samples]).toEqual([...input.samples]);
+    });
+
+    it('writes a RIFF/WAVE header', async () => {
+        const bytes = new Uint8Array(await encodeWav(audio([1, 2])).arrayBuffer());
+        const ascii = (from: number) => String.fromCharCode(...bytes.slice(from, from + 4));
+        expect([ascii(0), ascii(8), ascii(12), ascii(36)]).toEqual(['RIFF', 'WAVE', 'fmt ', 'data']);
+    });
+});
+
+describe('base64ToPcm', () => {
+    it('reads little-endian 16-bit samples', () => {
+        expect([...base64ToPcm(btoa(String.fromCharCode(0x01, 0x00, 0xff, 0xff)))]).toEqual([1, -1]);
+    });
+});
+
+describe('concatAudio', () => {
+    it('joins parts with a silent gap between them', () => {
+        const joined = concatAudio([audio([1, 2], 10), audio([3], 10), audio([4], 10)], 0.2);
+        expect([...joined.samples]).toEqual([1, 2, 0, 0, 3, 0, 0, 4]);
+        expect(audioSeconds(joined)).toBeCloseTo(0.8);
+    });
+
+    it('joins without a gap by default', () => {
+        expect([...concatAudio([audio([1]), audio([2, 3])]).samples]).toEqual([1, 2, 3]);
+    });
+
+    it('rejects empty input and mixed sample rates', () => {
+        expect(() => concatAudio([])).toThrow();
+        expect(() => concatAudio([audio([1], 8000), audio([2], 16000)])).toThrow();
+    });
+});
@@ -0,0 +1,59 @@
+import { TtsAudio } from './ttsProvider';
+
+// 16-bit mono PCM <-> WAV, plus the joins the narration export needs.
+
+const HEADER_BYTES = 44;
+
+export const audioSeconds = (audio: TtsAudio): number => audio.samples.length / audio.sampleRate;
+
+export const base64ToPcm = (base64: string): Int16Array => {
+    const bytes = Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+    const view = new DataView(bytes.buffer);
+    const samples = new Int16Array(bytes.length >> 1);
+    for (let i = 0; i < samples.length; i++) samples[i] = view.getInt16(i * 2, true);
+    return samples;
+};
+
+export const encodeWav = ({ samples, sampleRate }: TtsAudio): Blob => {
+    const view = new DataView(new ArrayBuffer(HEADER_BYTES + samples.length * 2));
+    const ascii = (offset: number, text: string) => [...text].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+    ascii(0, 'RIFF');
+    view.setUint32(4, 36 + samples.length * 2, true);
+    ascii(8, 'WAVE');
+    ascii(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true);
+    view.setUint16(32, 2, true);
+    view.setUint16(34, 16, true);
+    ascii(36, 'data');
+    view.setUint32(40, samples.length * 2, true);
+    samples.forEach((s, i) => view.setInt16(HEADER_BYTES + i * 2, s, true));
+    return new Blob([view.buffer], { type: 'audio/wav' });
+};
+
+// Only reads what encodeWav writes.
+export const decodeWav = async (wav: Blob): Promise<TtsAudio> => {
+    const view = new DataView(await wav.arrayBuffer());
+    const samples = new Int16Array((view.byteLength - HEADER_BYTES) >> 1);
+    for (let i = 0; i < samples.length; i++) samples[i] = view.getInt16(HEADER_BYTES + i * 2, true);
+    return { samples, sampleRate: view.getUint32(24, true) };
+};
+
+export const concatAudio = (parts: TtsAudio[], gapSeconds = 0): TtsAudio => {
+    if (!parts.length) throw new Error("Không có đoạn âm thanh nào để ghép.");
+    const { sampleRate } = parts[0];
+    if (parts.some(p => p.sampleRate !== sampleRate)) {
+        throw new Error("Các đoạn âm thanh có tần số lấy mẫu khác nhau; hãy tạo lại bằng cùng một giọng đọc.");
+    }
+    const gap = Math.round(gapSeconds * sampleRate);
+    const samples = new Int16Array(parts.reduce((sum, p) => sum + p.samples.length, 0) + gap * (parts.length - 1));
+    let offset = 0;
+    parts.forEach((p, i) => {
+        samples.set(p.samples, offset);
+        offset += p.samples.length + (i < parts.length - 1 ? gap : 0);
+    });
+    return { samples, sampleRate };
+};
@@ -0,0 +1,137 @@
+import { BatchItem, BatchLogEntry, ProjectData } from '../types';
+import { FRAME_RATIOS } from './thumbnail';
+import { currentText } from './scriptBlocks';
+import { toProjectFile } from './projectFile';
+import { slugify } from './geminiService';
+import { toCsv } from './scriptExport';
+
+// Batch queue helpers: parsing the pasted list, queue bookkeeping and the zip of finished books.
+
+export type BatchBook = Pick<BatchItem, 'bookTitle' | 'durationMin' | 'chaptersCount' | 'frameRatio'>;
+
+// Same ranges as the editor's inputs.
+export const BOOK_LIMITS = {
+    durationMin: { min: 5, max: 240 },
+    chaptersCount: { min: 6, max: 24 },
+};
+
+export type BatchInputErrorCode = 'title' | 'duration' | 'chapters' | 'ratio';
+
+export interface BatchInputError {
+    // 1-based line of the pasted text.
+    line: number;
+    code: BatchInputErrorCode;
+    value: string;
+}
+
+const HEADER_ALIASES: Record<keyof BatchBook, string[]> = {
+    bookTitle: ['title', 'booktitle', 'book', 'tên sách', 'ten sach', 'tiêu đề'],
+    durationMin: ['duration', 'durationmin', 'minutes', 'thời lượng', 'thoi luong', 'phút'],
+    chaptersCount: ['chapters', 'chapterscount', 'số chương', 'so chuong', 'chương'],
+    frameRatio: ['frameratio', 'ratio', 'frame', 'khung hình', 'khung hinh'],
+};
+
+const detectDelimiter = (line: string) => line.includes('\t') ? '\t' : line.includes(';') && !line.includes(',') ? ';' : ',';
+
+// One CSV record; quoted fields may contain the delimiter and doubled quotes.
+export const parseCsvLine = (line: string, delimiter = ','): string[] => {
+    const fields: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const ch = line[i];
+        if (quoted) {
+            if (ch === '"' && line[i + 1] === '"') { field += '"'; i++; }
+            else if (ch === '"') quoted = false;
+            else field += ch;
+        } else if (ch === '"' && !field.trim()) {
+            quoted = true;
+            field = '';
+        } else if (ch === delimiter) {
+            fields.push(field.trim());
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+    fields.push(field.trim());
+    return fields;
+};
+
+const headerColumns = (fields: string[]): Partial<Record<keyof BatchBook, number>> | null => {
+    const columns: Partial<Record<keyof BatchBook, number>> = {};
+    fields.forEach((field, i) => {
+        const name = field.toLowerCase().replace(/^\uFEFF/, '');
+        const key = (Object.keys(HEADER_ALIASES) as (keyof BatchBook)[]).find(k => HEADER_ALIASES[k].includes(name));
+        if (key && columns[key] === undefined) columns[key] = i;
+    });
+    return columns.bookTitle !== undefined ? columns : null;
+};
+
+// Accepts either one title per line, or a CSV whose header names the columns (title, duration, chapters, frameRatio).
+// Empty cells take the defaults; invalid ones are reported by line and the book is skipped.
+export const parseBatchInput = (text: string, defaults: Omit<BatchBook, 'bookTitle'>): { books: BatchBook[]; errors: BatchInputError[] } => {
+    const lines = text.split(/\r?\n/);
+    const first = lines.findIndex(l => l.trim());
+    if (first < 0) return { books: [], errors: [] };
+    const delimiter = detectDelimiter(lines[first]);
+    const columns = headerColumns(parseCsvLine(lines[first], delimiter));
+
+    const books: BatchBook[] = [];
+    const errors: BatchInputError[] = [];
+    lines.forEach((line, i) => {
+        if (!line.trim() || (columns && i === first)) return;
+        if (!columns) {
+            books.push({ ...defaults, bookTitle: line.trim() });
+            return;
+        }
+        const fields = parseCsvLine(line, delimiter);
+        const cell = (key: keyof BatchBook) => columns[key] === undefined ? '' : fields[columns[key]!] ?? '';
+        const fail = (code: BatchInputErrorCode, value: string) => errors.push({ line: i + 1, code, value });
+        const number = (value: string, fallback: number, limits: { min: number; max: number }) => {
+            if (!value) return fallback;
+            const n = Number(value);
+            return Number.isInteger(n) && n >= limits.min && n <= limits.max ? n : null;
+        };
+
+        const bookTitle = cell('bookTitle');
+        const durationMin = number(cell('durationMin'), defaults.durationMin, BOOK_LIMITS.durationMin);
+        const chaptersCount = number(cell('chaptersCount'), defaults.chaptersCount, BOOK_LIMITS.chaptersCount);
+        const frameRatio = cell('frameRatio') || defaults.frameRatio;
+        if (!bookTitle) return fail('title', line);
+        if (durationMin === null) return fail('duration', cell('durationMin'));
+        if (chaptersCount === null) return fail('chapters', cell('chaptersCount'));
+        if (!FRAME_RATIOS.includes(frameRatio)) return fail('ratio', frameRatio);
+        books.push({ bookTitle, durationMin, chaptersCount, frameRatio });
+    });
+    return { books, errors };
+};
+
+export const newBatchItem = (book: BatchBook): BatchItem => ({ ...book, id: crypto.randomUUID(), status: 'queued', log: [] });
+
+export const logEvent = (item: BatchItem, entry: Omit<BatchLogEntry, 'at'>): BatchItem => ({ ...item, log: [...item.log, { at: Date.now(), ...entry }] });
+
+// A book that was running when the page closed goes back to the queue; its project keeps what was finished.
+export const restoreQueue = (items: BatchItem[]): BatchItem[] =>
+    items.map(item => item.status === 'running' ? logEvent({ ...item, status: 'queued' }, { event: 'paused', stage: item.stage }) : item);
+
+export interface BatchExportHeadings {
+    index: string;
+    chapter: string;
+    script: string;
+    prompt: string;
+}
+
+// One folder per book with the project file, the script and prompts as CSV, and SEO as JSON.
+export const buildBatchZip = async (books: { name: string; data: ProjectData }[], headings: BatchExportHeadings): Promise<Blob> => {
+    const { default: JSZip } = await import('jszip');
+    const zip = new JSZip();
+    books.forEach(({ name, data }, i) => {
+        const folder = zip.folder(`${String(i + 1).padStart(2, '0')}_${slugify(name)}`)!;
+        folder.file('duan.json', JSON.stringify(toProjectFile(name, data), null, 2));
+        folder.file('kichban.csv', toCsv([[headings.index, headings.chapter, headings.script], ...data.scriptBlocks.map(b => [String(b.index), b.chapter, currentText(b)])]));
+        folder.file('prompts.csv', toCsv([[headings.index, headings.prompt], ...data.videoPrompts.map((p, n) => [String(n + 1), p])]));
+        if (data.seo) folder.file('seo.json', JSON.stringify(data.seo, null, 2));
+    });
+    return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+};
@@ -0,0 +1,151 @@
+import { BookProfile, OutlineItem, PipelineStage, ProjectData, ScriptBlock } from '../types';
+import { GenerateOptions, dataUrlToImage, generateBookProfile, generateOutline, generateScriptBlock, generateSEO, generateThumbIdeas, generateVideoPrompts, summarizeScriptBlock } from './geminiService';
+import { applyStructure, buildScriptContext, createContinuityGate } from './continuity';
+import { RetrievedPassage, buildSourceIndex, passagesForOutlineItem, sourceOverview, spreadPassages } from './retrieval';
+import { allocateChars } from './outlineUtils';
+import { charsForMinutes } from './duration';
+import { addVersion, createBlock, currentText } from './scriptBlocks';
+import { runJobs } from './jobRunner';
+import { isProfileFor } from './projectFile';
+import { PIPELINE_STAGES, PipelineArtifacts, pipelineStatus, stampStage, staleInputs } from './pipeline';
+
+// Generation steps on plain project data, shared by the editor and batch mode.
+
+export type BookSettings = Pick<ProjectData, 'bookTitle' | 'bookImage' | 'durationMin' | 'chaptersCount' | 'frameRatio' | 'outputLanguage' | 'includeIntro' | 'includeOutro' | 'sources'>;
+
+export const toArtifacts = (data: ProjectData): PipelineArtifacts => ({
+    outline: data.outline,
+    scriptBlocks: data.scriptBlocks,
+    seo: data.seo,
+    videoPrompts: data.videoPrompts,
+    thumbTextIdeas: data.thumbTextIdeas,
+});
+
+export const generateProjectProfile = async (book: BookSettings & Pick<ProjectData, 'bookMetadata'>, opts: GenerateOptions): Promise<BookProfile> =>
+    generateBookProfile(book.bookTitle, opts, {
+        metadata: book.bookMetadata,
+        cover: dataUrlToImage(book.bookImage),
+        sourceOverview: sourceOverview(book.sources) || undefined,
+        passages: book.sources.length ? spreadPassages(buildSourceIndex(book.sources)) : [],
+    });
+
+export const generateProjectOutline = async (book: BookSettings, opts: GenerateOptions): Promise<OutlineItem[]> => {
+    const result = await generateOutline(book.bookTitle, book.chaptersCount, book.durationMin, opts, {
+        dedicatedIntroOutro: book.includeIntro || book.includeOutro,
+        cover: dataUrlToImage(book.bookImage),
+        sourceOverview: sourceOverview(book.sources) || undefined,
+    });
+    const body = result.map(item => ({ ...item, kind: 'chapter' as const, index: -1 }));
+    return applyStructure(body, book.includeIntro, book.includeOutro, book.outputLanguage).map((item, index) => ({ ...item, index }));
+};
+
+// Writes one block with the continuity context of its neighbours, then summarises it for the blocks after it.
+export const writeScriptBlock = async (bookTitle: string, outline: OutlineItem[], position: number, targetChars: number, written: Map<number, ScriptBlock>, opts: GenerateOptions, passages: RetrievedPassage[] = [], instruction?: string): Promise<ScriptBlock> => {
+    const item = outline[position];
+    const context = buildScriptContext(outline, position, written);
+    const text = await generateScriptBlock(item, bookTitle, targetChars, opts, { instruction, context, passages });
+    const summary = await summarizeScriptBlock(text, item.title, opts).catch((err) => {
+        console.warn(`Summary failed for block ${item.index + 1}:`, err);
+        return undefined;
+    });
+    const refs = passages.map(({ text: _, ...ref }) => ref);
+    return { ...createBlock(item.index + 1, item.title, text, instruction ? 'regenerated' : 'generated', instruction), summary, sources: refs };
+};
+
+// A chapter that already had a block keeps its history; the rewrite becomes a new version.
+export const mergeRewrite = (previous: ScriptBlock | undefined, fresh: ScriptBlock): ScriptBlock =>
+    previous ? { ...addVersion(previous, currentText(fresh), 'regenerated'), chapter: fresh.chapter, summary: fresh.summary, sources: fresh.sources } : fresh;
+
+export const generateVisuals = async (book: BookSettings, a: PipelineArtifacts, opts: GenerateOptions) => {
+    const cover = dataUrlToImage(book.bookImage);
+    const [prompts, thumbs] = await Promise.all([
+        generateVideoPrompts(book.bookTitle, book.frameRatio, opts, cover, a),
+        generateThumbIdeas(book.bookTitle, book.durationMin, opts, cover, a),
+    ]);
+    return { videoPrompts: prompts, thumbTextIdeas: thumbs };
+};
+
+export interface BookRunOptions {
+    generate: GenerateOptions;
+    concurrency: number;
+    signal: AbortSignal;
+    onStage: (stage: PipelineStage) => void;
+    // Finds or creates the book's fact sheet when the project has none yet.
+    resolveProfile: (data: ProjectData, opts: GenerateOptions) => Promise<BookProfile>;
+    // Called after every chapter and stage, so a paused or interrupted book resumes where it stopped.
+    onProgress: (data: ProjectData) => void | Promise<void>;
+}
+
+const writeScript = async (data: ProjectData, run: BookRunOptions): Promise<ProjectData> => {
+    const { outline } = data;
+    const chars = allocateChars(outline, charsForMinutes(data.durationMin, data.speakingRate, data.outputLanguage));
+    const sourceIndex = data.sources.length ? buildSourceIndex(data.sources) : null;
+    const redo = staleInputs('script', toArtifacts(data), data.pipelineStamps);
+    const written = new Map<number, ScriptBlock>(data.scriptBlocks.map(b => [b.index, b]));
+    const todo = outline.filter(item => !written.has(item.index + 1) || redo.includes(item.index));
+
+    let current = data;
+    // Saves run one after another in chapter-finish order; the first failure stops the stage.
+    let saving = Promise.resolve();
+    const errors: string[] = [];
+    const gate = createContinuityGate(todo.map(item => item.index));
+    await runJobs<OutlineItem, ScriptBlock>(todo.map(item => ({
+        key: item,
+        waitFor: (signal) => gate.wait(item.index, signal),
+        run: (signal) => writeScriptBlock(data.bookTitle, outline, item.index, chars[item.index], written, { ...run.generate, signal, profile: data.bookProfile ?? undefined }, sourceIndex ? passagesForOutlineItem(sourceIndex, item) : []),
+    })), {
+        concurrency: run.concurrency,
+        signal: run.signal,
+        onState: (item, state) => {
+            if (state.status !== 'failed') return;
+            errors.push(`${item.index + 1}. ${item.title}: ${state.error}`);
+            gate.release(item.index);
+        },
+        onResult: (item, fresh) => {
+            const block = mergeRewrite(written.get(fresh.index), fresh);
+            written.set(block.index, block);
+            gate.release(item.index);
+            const scriptBlocks = [...written.values()].sort((a, b) => a.index - b.index);
+            const next = { ...current, scriptBlocks, pipelineStamps: stampStage(current.pipelineStamps, 'script', toArtifacts({ ...current, scriptBlocks }), [item.index]) };
+            current = next;
+            saving = saving.then(() => run.onProgress(next));
+        },
+    });
+    await saving;
+    run.signal.throwIfAborted();
+    if (errors.length) throw new Error(`${errors.length} chương chưa viết được. ${errors.join(' ')}`);
+    return current;
+};
+
+const runStage = async (stage: PipelineStage, data: ProjectData, run: BookRunOptions): Promise<ProjectData> => {
+    const opts = { ...run.generate, signal: run.signal, profile: data.bookProfile ?? undefined };
+    switch (stage) {
+        case 'outline':
+            return { ...data, outline: await generateProjectOutline(data, opts) };
+        case 'script':
+            return writeScript(data, run);
+        case 'seo':
+            return { ...data, seo: await generateSEO(data.bookTitle, data.durationMin, opts, toArtifacts(data)) };
+        case 'visuals':
+            return { ...data, ...await generateVisuals(data, toArtifacts(data), opts) };
+    }
+};
+
+// Makes sure the book has a fact sheet for its current title, then brings every stage up to date in order: missing stages are generated,
+// stale chapters rewritten and fresh stages skipped. Throws on the first stage that fails; everything finished before it is kept.
+export const runBookPipeline = async (initial: ProjectData, run: BookRunOptions): Promise<ProjectData> => {
+    let data = initial;
+    if (!data.bookProfile || !isProfileFor(data.bookProfile, data.bookTitle)) {
+        data = { ...data, bookProfile: await run.resolveProfile(data, { ...run.generate, signal: run.signal }) };
+        await run.onProgress(data);
+    }
+    for (const stage of PIPELINE_STAGES) {
+        if (pipelineStatus(toArtifacts(data), data.pipelineStamps)[stage] === 'fresh') continue;
+        run.signal.throwIfAborted();
+        run.onStage(stage);
+        data = await runStage(stage, data, run);
+        data = { ...data, pipelineStamps: stampStage(data.pipelineStamps, stage, toArtifacts(data)) };
+        await run.onProgress(data);
+    }
+    return data;
+};
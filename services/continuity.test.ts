@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { createContinuityGate } from './continuity';
+
+describe('createContinuityGate', () => {
+    it('holds a chapter until the one before it is released', async () => {
+        const gate = createContinuityGate([1, 2, 5]);
+        const order: number[] = [];
+        const signal = new AbortController().signal;
+        const second = gate.wait(2, signal).then(() => order.push(2));
+        await gate.wait(1, signal).then(() => order.push(1));
+        await gate.wait(5, signal).then(() => order.push(5));
+        expect(order).toEqual([1, 5]);
+        gate.release(1);
+        await second;
+        expect(order).toEqual([1, 5, 2]);
+    });
+
+    it('rejects a waiting chapter when the run is aborted', async () => {
+        const gate = createContinuityGate([0, 1]);
+        const controller = new AbortController();
+        const waiting = gate.wait(1, controller.signal);
+        controller.abort();
+        await expect(waiting).rejects.toMatchObject({ name: 'AbortError' });
+    });
+});
@@ -0,0 +1,161 @@
+import { OutlineItem, OutputLanguage, RepetitionFinding, ScriptBlock } from '../types';
+import { currentText } from './scriptBlocks';
+
+export interface ScriptContext {
+    // What earlier blocks covered, in order; chapters not written yet fall back to their outline focus.
+    summarySoFar: string;
+    previousEnding?: string;
+    nextTitle?: string;
+}
+
+const ENDING_CHARS = 400;
+
+// Default intro/outro items, in each output language since their titles end up in the script and exports.
+export const STRUCTURE_ITEMS: Record<OutputLanguage, { intro: Omit<OutlineItem, 'index'>; outro: Omit<OutlineItem, 'index'> }> = {
+    vi: {
+        intro: {
+            kind: 'intro',
+            title: "Mở đầu: Hook & giới thiệu",
+            focus: "Mở bằng một câu hook gây tò mò, giới thiệu cuốn sách và tác giả một lần duy nhất, cho người nghe biết họ sẽ nhận được gì và mời đăng ký kênh.",
+            actions: ["Câu hook mở đầu", "Giới thiệu sách và tác giả", "Lý do nên nghe đến cuối", "Mời đăng ký kênh"],
+        },
+        outro: {
+            kind: 'outro',
+            title: "Kết: Tóm tắt & lời nhắn",
+            focus: "Tóm tắt những bài học chính của cả video, để lại một lời nhắn cá nhân và kêu gọi đăng ký, bình luận.",
+            actions: ["Tóm tắt các ý chính", "Lời nhắn cá nhân", "Kêu gọi đăng ký và bình luận"],
+        },
+    },
+    en: {
+        intro: {
+            kind: 'intro',
+            title: "Intro: Hook & introduction",
+            focus: "Open with an intriguing hook, introduce the book and its author exactly once, tell listeners what they will get and invite them to subscribe.",
+            actions: ["Opening hook", "Introduce the book and author", "Why to listen until the end", "Invite to subscribe"],
+        },
+        outro: {
+            kind: 'outro',
+            title: "Outro: Recap & final message",
+            focus: "Recap the key lessons of the whole video, leave a personal message and ask viewers to subscribe and comment.",
+            actions: ["Recap the key points", "Personal message", "Ask to subscribe and comment"],
+        },
+    },
+    id: {
+        intro: {
+            kind: 'intro',
+            title: "Pembuka: Hook & perkenalan",
+            focus: "Buka dengan hook yang membuat penasaran, perkenalkan buku dan penulisnya satu kali saja, jelaskan apa yang akan didapat pendengar dan ajak mereka berlangganan.",
+            actions: ["Hook pembuka", "Perkenalan buku dan penulis", "Alasan mendengarkan sampai akhir", "Ajakan berlangganan"],
+        },
+        outro: {
+            kind: 'outro',
+            title: "Penutup: Ringkasan & pesan",
+            focus: "Ringkas pelajaran utama dari seluruh video, sampaikan pesan pribadi dan ajak penonton berlangganan serta berkomentar.",
+            actions: ["Ringkasan poin utama", "Pesan pribadi", "Ajakan berlangganan dan berkomentar"],
+        },
+    },
+};
+
+// Adds or removes the dedicated intro/outro items. Returned items keep their previous index (-1 if new),
+// ready for syncOutline.
+export const applyStructure = (outline: OutlineItem[], includeIntro: boolean, includeOutro: boolean, language: OutputLanguage = 'vi'): OutlineItem[] => {
+    const body = outline.filter(o => o.kind !== 'intro' && o.kind !== 'outro');
+    const intro = outline.find(o => o.kind === 'intro') ?? { ...STRUCTURE_ITEMS[language].intro, index: -1 };
+    const outro = outline.find(o => o.kind === 'outro') ?? { ...STRUCTURE_ITEMS[language].outro, index: -1 };
+    return [...(includeIntro ? [intro] : []), ...body, ...(includeOutro ? [outro] : [])];
+};
+
+export const buildScriptContext = (outline: OutlineItem[], position: number, written: Map<number, ScriptBlock>): ScriptContext => {
+    const summarySoFar = outline.slice(0, position).map((o, i) => {
+        const block = written.get(o.index + 1);
+        return `${i + 1}. ${o.title}: ${block?.summary || o.focus}`;
+    }).join('\n');
+    const previous = position > 0 ? written.get(outline[position - 1].index + 1) : undefined;
+    const previousText = previous ? currentText(previous) : '';
+    return {
+        summarySoFar,
+        previousEnding: previousText ? previousText.slice(-ENDING_CHARS) : undefined,
+        nextTitle: outline[position + 1]?.title,
+    };
+};
+
+export interface ContinuityGate {
+    // Resolves once the chapter before `position` is settled; rejects with an AbortError if the run stops first.
+    wait: (position: number, signal: AbortSignal) => Promise<void>;
+    // Marks a chapter as written (or failed), letting the chapter after it start.
+    release: (position: number) => void;
+}
+
+// Chapters rewritten in the same run go in outline order, so each one sees the block and summary of the one before it.
+// Chapters whose predecessor is not part of the run start right away.
+export const createContinuityGate = (positions: number[]): ContinuityGate => {
+    const settled = new Map<number, { promise: Promise<void>; resolve: () => void }>();
+    for (const position of positions) {
+        let resolve = () => {};
+        const promise = new Promise<void>(r => { resolve = r; });
+        settled.set(position, { promise, resolve });
+    }
+    return {
+        wait: (position, signal) => {
+            const previous = settled.get(position - 1);
+            if (!previous) return Promise.resolve();
+            return new Promise<void>((resolve, reject) => {
+                const onAbort = () => reject(new DOMException("Aborted", "AbortError"));
+                if (signal.aborted) return onAbort();
+                signal.addEventListener('abort', onAbort, { once: true });
+                previous.promise.then(() => {
+                    signal.removeEventListener('abort', onAbort);
+                    resolve();
+                });
+            });
+        },
+        release: (position) => settled.get(position)?.resolve(),
+    };
+};
+
+const PHRASE_WORDS = 5;
+const MAX_FINDINGS = 50;
+
+const normalizeWords = (text: string): string[] =>
+    text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean);
+
+// Flags word sequences that occur in more than one block: repeated greetings, re-introductions and restated facts.
+// Overlapping hits are merged so a repeated sentence is reported once rather than as every 5-word window.
+export const findRepetitions = (blocks: ScriptBlock[], phraseWords = PHRASE_WORDS): RepetitionFinding[] => {
+    const seen = new Map<string, Set<number>>();
+    const perBlock = blocks.map(b => normalizeWords(currentText(b)));
+    perBlock.forEach((words, i) => {
+        for (let j = 0; j + phraseWords <= words.length; j++) {
+            const key = words.slice(j, j + phraseWords).join(' ');
+            if (!seen.has(key)) seen.set(key, new Set());
+            seen.get(key)!.add(blocks[i].index);
+        }
+    });
+
+    const findings: RepetitionFinding[] = [];
+    const reported = new Set<string>();
+    perBlock.forEach(words => {
+        let j = 0;
+        while (j + phraseWords <= words.length) {
+            const key = words.slice(j, j + phraseWords).join(' ');
+            const where = seen.get(key)!;
+            if (where.size < 2 || reported.has(key)) {
+                j++;
+                continue;
+            }
+            // Extend the run while the following windows repeat in the same blocks.
+            let end = j + phraseWords;
+            while (end < words.length) {
+                const nextKey = words.slice(end - phraseWords + 1, end + 1).join(' ');
+                const nextWhere = seen.get(nextKey)!;
+                if (nextWhere.size < 2 || [...where].some(b => !nextWhere.has(b))) break;
+                reported.add(nextKey);
+                end++;
+            }
+            reported.add(key);
+            findings.push({ phrase: words.slice(j, end).join(' '), blocks: [...where].sort((a, b) => a - b) });
+            j = end;
+        }
+    });
+    return findings.sort((a, b) => b.phrase.length - a.phrase.length).slice(0, MAX_FINDINGS);
+};
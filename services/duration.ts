@@ -0,0 +1,78 @@
+import { OutputLanguage, ScriptBlock, SpeakingRate } from '../types';
+import { currentText } from './scriptBlocks';
+
+export interface NarratorPreset {
+    id: string;
+    label: string;
+    // Language the rate was measured for.
+    language: OutputLanguage;
+    rate: SpeakingRate;
+}
+
+// Vietnamese is measured in characters (syllables are short and uniform); English/Indonesian in words.
+export const NARRATOR_PRESETS: NarratorPreset[] = [
+    { id: 'vi-slow', label: 'Tiếng Việt · chậm, trầm (audiobook)', language: 'vi', rate: { unit: 'chars', perMinute: 850 } },
+    { id: 'vi-normal', label: 'Tiếng Việt · vừa', language: 'vi', rate: { unit: 'chars', perMinute: 1000 } },
+    { id: 'vi-fast', label: 'Tiếng Việt · nhanh (tóm tắt)', language: 'vi', rate: { unit: 'chars', perMinute: 1150 } },
+    { id: 'en-slow', label: 'English · slow narration', language: 'en', rate: { unit: 'words', perMinute: 130 } },
+    { id: 'en-normal', label: 'English · conversational', language: 'en', rate: { unit: 'words', perMinute: 150 } },
+    { id: 'en-fast', label: 'English · fast summary', language: 'en', rate: { unit: 'words', perMinute: 175 } },
+    { id: 'id-normal', label: 'Bahasa Indonesia · normal', language: 'id', rate: { unit: 'words', perMinute: 140 } },
+];
+
+export const DEFAULT_PRESET_ID = 'vi-normal';
+
+export const findPreset = (id: string): NarratorPreset | undefined => NARRATOR_PRESETS.find(p => p.id === id);
+
+// Average characters per word including the trailing space, used to turn word rates into character budgets.
+const CHARS_PER_WORD: Record<OutputLanguage, number> = { vi: 4.5, en: 5.8, id: 7 };
+
+const charsPerWord = (language: OutputLanguage) => CHARS_PER_WORD[language] ?? 5.8;
+
+export const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+export const estimateMinutes = (text: string, rate: SpeakingRate): number => {
+    const amount = rate.unit === 'chars' ? text.length : countWords(text);
+    return amount / Math.max(1, rate.perMinute);
+};
+
+export const blockMinutes = (block: ScriptBlock, rate: SpeakingRate): number => estimateMinutes(currentText(block), rate);
+
+// Characters per minute for the rate; word rates are converted with the language's average word length.
+export const charsPerMinute = (rate: SpeakingRate, language: OutputLanguage = 'vi'): number =>
+    rate.unit === 'chars' ? rate.perMinute : Math.round(rate.perMinute * charsPerWord(language));
+
+export const charsForMinutes = (minutes: number, rate: SpeakingRate, language: OutputLanguage = 'vi'): number =>
+    Math.round(minutes * charsPerMinute(rate, language));
+
+export const fmtDuration = (minutes: number): string => {
+    const totalSec = Math.round(minutes * 60);
+    const h = Math.floor(totalSec / 3600);
+    const m = Math.floor(totalSec / 60) % 60;
+    const s = totalSec % 60;
+    return h ? `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}` : `${m}:${String(s).padStart(2, '0')}`;
+};
+
+// "4H00M", the duration format used on thumbnails.
+export const durationBadge = (minutes: number): string =>
+    `${Math.floor(minutes / 60)}H${(Math.round(minutes) % 60).toString().padStart(2, "0")}M`;
+
+export interface FitAdjustment {
+    index: number;
+    targetChars: number;
+}
+
+// One auto-fit pass: scales every block that is off by more than the tolerance towards its share of the target.
+// Returns nothing when the total is already within tolerance.
+export const planAutoFit = (blocks: ScriptBlock[], targetMinutes: number, rate: SpeakingRate, tolerance: number): FitAdjustment[] => {
+    const minutes = blocks.map(b => blockMinutes(b, rate));
+    const total = minutes.reduce((a, b) => a + b, 0);
+    if (!total || Math.abs(total - targetMinutes) <= targetMinutes * tolerance) return [];
+    const ratio = targetMinutes / total;
+    return blocks
+        .map(b => ({ index: b.index, targetChars: Math.round(b.chars * ratio) }))
+        .filter(a => {
+            const block = blocks.find(b => b.index === a.index)!;
+            return Math.abs(a.targetChars - block.chars) > block.chars * tolerance;
+        });
+};
@@ -0,0 +1,75 @@
+import { GenerateContentResponseUsageMetadata, GoogleGenAI, Schema, Type } from "@google/genai";
+import { LLMProvider, LLMRequest, LLMResponse, ProviderOptions, SchemaNode, TokenUsage } from './llmProvider';
+
+const toGeminiSchema = (node: SchemaNode): Schema => {
+    switch (node.type) {
+        case 'string':
+            return { type: Type.STRING };
+        case 'integer':
+            return { type: Type.INTEGER };
+        case 'array':
+            return { type: Type.ARRAY, items: toGeminiSchema(node.items) };
+        case 'object':
+            return {
+                type: Type.OBJECT,
+                properties: Object.fromEntries(Object.entries(node.properties).map(([k, v]) => [k, toGeminiSchema(v)])),
+                required: node.required,
+            };
+    }
+};
+
+// Helper to create AI client on demand with dynamic key
+export const getAiClient = (apiKey?: string, baseUrl?: string) => {
+    // Priority: User Key -> Env Key -> Error
+    const key = apiKey || process.env.API_KEY;
+    if (!key) {
+        throw new Error("Chưa có API Key. Vui lòng nhập API Key trong phần Quản lý API & Model.");
+    }
+    return new GoogleGenAI({ apiKey: key, httpOptions: baseUrl ? { baseUrl } : undefined });
+};
+
+// Runs `call` with a client per vault key in turn until one succeeds; without vault keys, the single key or env key.
+export const withAiClient = <T>(options: ProviderOptions, call: (ai: GoogleGenAI) => Promise<T>): Promise<T> =>
+    options.keys?.has('gemini')
+        ? options.keys.use('gemini', key => call(getAiClient(key, options.baseUrl)))
+        : call(getAiClient(options.apiKey, options.baseUrl));
+
+const toUsage = (meta?: GenerateContentResponseUsageMetadata): TokenUsage | undefined => meta && {
+    inputTokens: meta.promptTokenCount ?? 0,
+    outputTokens: (meta.candidatesTokenCount ?? 0) + (meta.thoughtsTokenCount ?? 0),
+};
+
+const toGeminiRequest = (req: LLMRequest) => ({
+    model: req.model,
+    contents: [{ parts: [{ text: req.prompt }, ...(req.images ?? []).map(inlineData => ({ inlineData }))] }],
+    config: {
+        abortSignal: req.signal,
+        ...(req.schema && {
+            responseMimeType: "application/json",
+            responseSchema: toGeminiSchema(req.schema),
+        }),
+    },
+});
+
+export const createGeminiProvider = (options: ProviderOptions = {}): LLMProvider => ({
+    id: 'gemini',
+    label: 'Google Gemini',
+    async generate(req: LLMRequest): Promise<LLMResponse> {
+        const response = await withAiClient(options, ai => ai.models.generateContent(toGeminiRequest(req)));
+        return { provider: 'gemini', model: req.model, text: response.text ?? "", usage: toUsage(response.usageMetadata) };
+    },
+    async stream(req: LLMRequest, onText: (text: string) => void): Promise<LLMResponse> {
+        let text = "";
+        let usage: TokenUsage | undefined;
+        // Only opening the stream rotates keys; a failure halfway through is not retried with another key.
+        const stream = await withAiClient(options, ai => ai.models.generateContentStream(toGeminiRequest(req)));
+        for await (const chunk of stream) {
+            // Running totals; the last chunk carries the final counts.
+            usage = toUsage(chunk.usageMetadata) ?? usage;
+            if (!chunk.text) continue;
+            text += chunk.text;
+            onText(text);
+        }
+        return { provider: 'gemini', model: req.model, text, usage };
+    },
+});
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { LLMResponse } from './llmProvider';
+import { KeyRing } from './keyRing';
+import { ResponseCache } from './responseCache';
+import { GenerateOptions, translateStrings } from './geminiService';
+
+// Answers handed out by the stand-in provider, one per request.
+const answers: string[] = [];
+const prompts: string[] = [];
+
+vi.mock('./openaiProvider', () => ({
+    createOpenAIProvider: () => ({
+        id: 'openai',
+        label: 'OpenAI',
+        generate: async ({ prompt }: { prompt: string }): Promise<LLMResponse> => {
+            prompts.push(prompt);
+            return { provider: 'openai', model: 'gpt-5.2', text: answers.shift() ?? '' };
+        },
+    }),
+}));
+
+const memoryCache = (mode: ResponseCache['mode']) => {
+    const entries = new Map<string, LLMResponse>();
+    const cache: ResponseCache = {
+        mode,
+        lookup: async (key) => mode === 'record' ? undefined : entries.get(key),
+        store: async (key, response) => { entries.set(key, response); },
+    };
+    return { cache, entries };
+};
+
+const options = (cache: ResponseCache): GenerateOptions => ({ model: 'gpt-5.2-auto', keys: {} as KeyRing, cache });
+
+beforeEach(() => {
+    answers.length = 0;
+    prompts.length = 0;
+});
+
+describe('response cache with structured output', () => {
+    it('does not cache an answer that needed a re-ask', async () => {
+        const { cache, entries } = memoryCache('cache');
+        answers.push('["một"]', '["một", "hai"]');
+        expect(await translateStrings(['one', 'two'], options(cache))).toEqual(['một', 'hai']);
+        expect(prompts).toHaveLength(2);
+        expect([...entries.values()].map(e => e.text)).toEqual(['["một", "hai"]']);
+
+        // The first request is asked again rather than served the bad answer.
+        answers.push('["một", "hai"]');
+        expect(await translateStrings(['one', 'two'], options(cache))).toEqual(['một', 'hai']);
+        expect(prompts).toHaveLength(3);
+    });
+
+    it('serves a validated answer from the cache', async () => {
+        const { cache } = memoryCache('cache');
+        answers.push('{"items":["một","hai"]}');
+        await translateStrings(['one', 'two'], options(cache));
+        expect(await translateStrings(['one', 'two'], options(cache))).toEqual(['một', 'hai']);
+        expect(prompts).toHaveLength(1);
+    });
+
+    it('records every answer for replay, re-asks included', async () => {
+        const { cache, entries } = memoryCache('record');
+        answers.push('not json', '["một", "hai"]');
+        await translateStrings(['one', 'two'], options(cache));
+        expect(entries.size).toBe(2);
+    });
+});
@@ -1,15 +1,204 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { OutlineItem, SEOResult } from '../types';
-
-// Helper to create AI client on demand with dynamic key
-const getAiClient = (apiKey?: string) => {
-    // Priority: User Key -> Env Key -> Error
-    const key = apiKey || process.env.API_KEY;
-    if (!key) {
-        throw new Error("Chưa có API Key. Vui lòng nhập API Key trong phần Quản lý API & Model.");
+import { BookMetadata, BookProfile, CountShortfall, OutlineItem, OutlineKind, ScriptBlock, StoryboardScene, OutputLanguage, PromptTemplateId, PromptTemplates, ProviderInfo, SEOResult, ShortClip } from '../types';
+import { InlineImage, LLMProvider, LLMRequest, LLMResponse, SchemaNode, providerIdForModel } from './llmProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAIProvider } from './openaiProvider';
+import { ScriptContext } from './continuity';
+import { RetrievedPassage } from './retrieval';
+import { languageInfo } from './language';
+import { durationBadge } from './duration';
+import { DEFAULT_PRESET, TemplateVariables, renderTemplate, templateVariablesUsed } from './promptTemplates';
+import { StructuredOutputError, parseStructured } from './structuredOutput';
+import { currentText } from './scriptBlocks';
+import { ShortBudget, shortText } from './shorts';
+import { RateLimiter } from './rateLimiter';
+import { KeyRing } from './keyRing';
+import { UsageEvent } from './usage';
+import { ResponseCache, requestKey } from './responseCache';
+
+export interface GenerateOptions {
+    model: string;
+    keys: KeyRing;
+    // Reports which provider and model actually handled the request.
+    onProvider?: (info: ProviderInfo) => void;
+    signal?: AbortSignal;
+    // Language of the generated text; defaults to Vietnamese.
+    language?: OutputLanguage;
+    // Channel preset templates; defaults to the built-in audiobook preset.
+    templates?: PromptTemplates;
+    // Project-wide template variables (chaptersCount, frameRatio...) for generators that don't take them as arguments.
+    variables?: Partial<TemplateVariables>;
+    // Called when a count (chapters, titles) could not be met even after re-asking.
+    onPartial?: (shortfall: CountShortfall) => void;
+    // Shared by every request of a batch run so the whole queue respects one rate limit.
+    limiter?: RateLimiter;
+    // Streamed generators (script blocks) report the text received so far.
+    onText?: (text: string) => void;
+    // Aborting it ends a streamed answer early and keeps what has arrived; `signal` still discards it.
+    stop?: AbortSignal;
+    // Called after every request with its tokens and latency, cache hits included.
+    onUsage?: (event: UsageEvent) => void;
+    cache?: ResponseCache;
+    // The book's fact sheet, given to every generator as shared context.
+    profile?: BookProfile;
+}
+
+export const getProvider = (model: string, keys: KeyRing): LLMProvider => {
+    return providerIdForModel(model) === 'openai'
+        ? createOpenAIProvider({ keys })
+        : createGeminiProvider({ keys });
+};
+
+// Serves the request from the cache when allowed; otherwise sends it, records usage and latency, and caches the answer.
+// Answers `usable` rejects are only kept while recording, where a replay has to see the same exchange, re-asks included.
+const sendRequest = async (opts: GenerateOptions, req: LLMRequest, send: () => Promise<LLMResponse>, usable?: (response: LLMResponse) => boolean): Promise<LLMResponse> => {
+    const key = opts.cache && await requestKey(req);
+    const hit = key ? await opts.cache!.lookup(key) : undefined;
+    if (hit) {
+        opts.onUsage?.({ provider: hit.provider, model: hit.model, usage: hit.usage, latencyMs: 0, cached: true });
+        opts.onProvider?.({ provider: hit.provider, model: hit.model });
+        return hit;
+    }
+    if (opts.cache?.mode === 'replay') {
+        throw new Error("Chế độ phát lại: chưa có phản hồi đã lưu cho yêu cầu này.");
+    }
+    await opts.limiter?.acquire(opts.signal);
+    const started = performance.now();
+    const response = await send();
+    opts.onUsage?.({ provider: response.provider, model: response.model, usage: response.usage, latencyMs: performance.now() - started, cached: false });
+    opts.onProvider?.({ provider: response.provider, model: response.model });
+    if (key && (opts.cache!.mode === 'record' || !usable || usable(response))) {
+        await opts.cache!.store(key, response).catch(err => console.warn("Cannot cache response:", err));
+    }
+    return response;
+};
+
+const callModel = async (opts: GenerateOptions, prompt: string, schema?: SchemaNode, schemaName?: string, images?: InlineImage[], usable?: (text: string) => boolean): Promise<string> => {
+    const provider = getProvider(opts.model, opts.keys);
+    const req: LLMRequest = { model: opts.model, prompt, schema, schemaName, images, signal: opts.signal };
+    return (await sendRequest(opts, req, () => provider.generate(req), usable && (response => usable(response.text)))).text;
+};
+
+// Streams when the provider can, otherwise reports the whole answer once it arrives (cache hits included).
+// A stream stopped early keeps its text but is neither cached nor counted: usage only arrives at the end.
+const streamModel = async (opts: GenerateOptions, prompt: string): Promise<string> => {
+    const provider = getProvider(opts.model, opts.keys);
+    const signals = [opts.signal, opts.stop].filter((s): s is AbortSignal => !!s);
+    const req: LLMRequest = { model: opts.model, prompt, signal: signals.length > 1 ? AbortSignal.any(signals) : signals[0] };
+    let received = "";
+    try {
+        const response = await sendRequest(opts, req, () => provider.stream
+            ? provider.stream(req, (text) => { received = text; opts.onText?.(text); })
+            : provider.generate(req));
+        if (!received) opts.onText?.(response.text);
+        return response.text;
+    } catch (err) {
+        if (!opts.stop?.aborted || opts.signal?.aborted) throw err;
+        if (!received.trim()) throw new Error("Đã dừng trước khi nhận được nội dung.");
+        opts.onProvider?.({ provider: provider.id, model: opts.model });
+        return received.trim();
     }
-    return new GoogleGenAI({ apiKey: key });
+};
+
+const answerIn = (opts: GenerateOptions) => `Trả lời bằng ${languageInfo(opts.language).promptName}.`;
+
+const MAX_REASKS = 1;
+
+// Parses, repairs and validates a structured answer. Invalid answers, and ones failing `check`, are sent back
+// to the model with the problem; when only `check` still fails, the last valid answer is returned.
+const callStructured = async <T>(opts: GenerateOptions, prompt: string, schema: SchemaNode, schemaName: string, images?: InlineImage[], check?: (value: T) => string | undefined): Promise<T> => {
+    let request = prompt;
+    let lastValid: { value: T } | undefined;
+    // Only answers that need no re-ask are cached, so a bad one is asked for again next time.
+    const usable = (text: string) => {
+        try {
+            return !check?.(parseStructured<T>(text, schema));
+        } catch {
+            return false;
+        }
+    };
+    for (let attempt = 0; ; attempt++) {
+        const text = await callModel(opts, request, schema, schemaName, images, usable);
+        let problem: string | undefined;
+        try {
+            const value = parseStructured<T>(text, schema);
+            problem = check?.(value);
+            if (!problem) return value;
+            lastValid = { value };
+        } catch (err) {
+            if (!(err instanceof StructuredOutputError)) throw err;
+            if (attempt >= MAX_REASKS) {
+                if (lastValid) return lastValid.value;
+                throw err;
+            }
+            problem = err.message;
+        }
+        if (attempt >= MAX_REASKS && lastValid) return lastValid.value;
+        console.warn(`Re-asking for ${schemaName}:`, problem);
+        request = `${prompt}\n\nCâu trả lời trước không dùng được: ${problem} Hãy trả lời lại, chỉ gồm JSON đúng định dạng yêu cầu.`;
+    }
+};
+
+const countProblem = (received: number, expected: number, what: string) =>
+    received === expected ? undefined : `Cần đúng ${expected} ${what} nhưng nhận được ${received}.`;
+
+// Extra items are dropped; missing ones are reported through onPartial.
+const takeExactly = <T>(items: T[], expected: number, field: CountShortfall['field'], opts: GenerateOptions): T[] => {
+    if (items.length < expected) opts.onPartial?.({ field, expected, received: items.length });
+    return items.slice(0, expected);
+};
+
+const SEO_TITLE_COUNT = 8;
+
+const describeProfile = (profile?: BookProfile): string => {
+    if (!profile) return '';
+    const quotes = profile.quotes.filter(q => q.text.trim());
+    const lines = [
+        profile.author && `- Tác giả: ${profile.author}`,
+        profile.year && `- Năm xuất bản: ${profile.year}`,
+        profile.genre && `- Thể loại: ${profile.genre}`,
+        profile.audience && `- Độc giả mục tiêu: ${profile.audience}`,
+        profile.chapters.length && `- Các chương của sách: ${profile.chapters.map((c, i) => `${i + 1}. ${c}`).join('; ')}`,
+        profile.coreIdeas.length && `- Ý tưởng cốt lõi:\n${profile.coreIdeas.map(idea => `  • ${idea}`).join('\n')}`,
+        quotes.length && `- Trích dẫn nguyên văn (chỉ dùng đúng các câu này khi trích):\n${quotes.map(q => `  • "${q.text}"${q.reference ? ` (${q.reference})` : ''}`).join('\n')}`,
+    ].filter(Boolean);
+    return lines.length ? `\n\nHồ sơ sách (dữ kiện đã được kiểm tra; dùng thống nhất, không mâu thuẫn với chúng):\n${lines.join('\n')}\n` : '';
+};
+
+const renderPrompt = (opts: GenerateOptions, id: PromptTemplateId, vars: Partial<TemplateVariables>): string => {
+    const template = opts.templates?.[id] ?? DEFAULT_PRESET.templates[id];
+    const bookProfile = describeProfile(opts.profile);
+    const text = renderTemplate(id, template, {
+        language: languageInfo(opts.language).promptName,
+        ...opts.variables,
+        bookProfile,
+        ...vars,
+    });
+    // Templates that don't place the fact sheet themselves still get it, at the end.
+    return bookProfile && !templateVariablesUsed(template).includes('bookProfile') ? `${text}${bookProfile}` : text;
+};
+
+const STRING_ARRAY: SchemaNode = { type: 'array', items: { type: 'string' } };
+
+const OUTLINE_ITEM_SCHEMA: SchemaNode = {
+    type: 'object',
+    properties: {
+        title: { type: 'string' },
+        focus: { type: 'string' },
+        actions: STRING_ARRAY,
+    },
+    required: ["title", "focus", "actions"]
+};
+
+const SEO_SCHEMA: SchemaNode = {
+    type: 'object',
+    properties: {
+        titles: STRING_ARRAY,
+        hashtags: STRING_ARRAY,
+        keywords: STRING_ARRAY,
+        description: { type: 'string' }
+    },
+    required: ["titles", "hashtags", "keywords", "description"]
 };
 
 export const slugify = (s: string): string => {
@@ -25,112 +214,349 @@ export const fileToBase64 = (file: File): Promise<string> => {
     });
 };
 
-export const generateOutline = async (bookTitle: string, chaptersCount: number, durationMin: number, model: string = 'gemini-3-pro-preview', apiKey?: string): Promise<Omit<OutlineItem, 'index'>[]> => {
-    const ai = getAiClient(apiKey);
-    const prompt = `Dựa trên tên sách "${bookTitle}", hãy tạo dàn ý kịch bản cho một video YouTube theo phong cách audiobook "nhân văn hóa" dài ${durationMin} phút. Dàn ý cần có khoảng ${chaptersCount} chương nội dung chính. Cấu trúc phải bao gồm: 1. Hook (Móc nối), 2. Intro + POV của người dẫn chuyện, 3. Các chương chính (đặt tiêu đề theo chủ đề có thể có của sách), 4. Kế hoạch hành động 7 ngày, 5. Tóm tắt 3 điểm chính, và 6. Kêu gọi hành động (CTA). Với mỗi mục trong dàn ý, hãy cung cấp 'title' (tiêu đề), 'focus' (nội dung chính của phần đó), và một danh sách 3-4 'actions' (các điểm chính cần nói). Trả lời bằng tiếng Việt.`;
-
-    const response = await ai.models.generateContent({
-        model: model.includes('gpt') ? 'gemini-3-pro-preview' : model, // Fallback to gemini if gpt selected (since we use gemini client here)
-        contents: [{ parts: [{ text: prompt }] }],
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        title: { type: Type.STRING },
-                        focus: { type: Type.STRING },
-                        actions: {
-                            type: Type.ARRAY,
-                            items: { type: Type.STRING }
-                        }
-                    },
-                    required: ["title", "focus", "actions"]
-                }
-            }
-        }
+// bookImage is kept as a data: URL; providers want the bare base64 payload.
+export const dataUrlToImage = (dataUrl: string | null): InlineImage | undefined => {
+    const match = dataUrl?.match(/^data:([^;,]+);base64,(.*)$/);
+    return match ? { mimeType: match[1], data: match[2] } : undefined;
+};
+
+const COVER_HINT = `Ảnh đính kèm là bìa của cuốn sách. Hãy dựa vào bìa để xác định đúng tác giả và ấn bản, tránh nhầm với sách khác cùng tên.`;
+
+export interface OutlineExtras {
+    // With dedicated intro/outro blocks the model only plans the body; otherwise it plans hook and CTA itself.
+    dedicatedIntroOutro?: boolean;
+    cover?: InlineImage;
+    // Opening of each section of the uploaded source text.
+    sourceOverview?: string;
+}
+
+export const generateOutline = async (bookTitle: string, chaptersCount: number, durationMin: number, opts: GenerateOptions, extras: OutlineExtras = {}): Promise<Omit<OutlineItem, 'index'>[]> => {
+    const structure = extras.dedicatedIntroOutro
+        ? `Chỉ liệt kê các chương nội dung chính (đặt tiêu đề theo chủ đề có thể có của sách) và có thể thêm Kế hoạch hành động 7 ngày; KHÔNG tạo phần Hook, Intro, Tóm tắt hay CTA vì chúng được viết riêng.`
+        : `Cấu trúc phải bao gồm: 1. Hook (Móc nối), 2. Intro + POV của người dẫn chuyện, 3. Các chương chính (đặt tiêu đề theo chủ đề có thể có của sách), 4. Kế hoạch hành động 7 ngày, 5. Tóm tắt 3 điểm chính, và 6. Kêu gọi hành động (CTA).`;
+    const prompt = renderPrompt(opts, 'outline', {
+        bookTitle,
+        chaptersCount,
+        durationMin,
+        structure,
+        coverHint: extras.cover ? ` ${COVER_HINT}` : '',
+        sourceOverview: extras.sourceOverview ? `\n\nDưới đây là phần đầu của từng chương/mục trong văn bản gốc. Hãy bám theo cấu trúc và nội dung thật của sách, không bịa thêm chương:\n${extras.sourceOverview}\n` : '',
     });
 
-    const jsonText = response.text.trim();
-    return JSON.parse(jsonText);
-};
-
-export const generateSEO = async (bookTitle: string, durationMin: number, model: string = 'gemini-3-pro-preview', apiKey?: string): Promise<SEOResult> => {
-    const ai = getAiClient(apiKey);
-    const prompt = `Tạo nội dung SEO cho một video YouTube về cuốn sách "${bookTitle}". Video này là một bài phân tích theo phong cách audiobook dài ${durationMin} phút. Hãy cung cấp: 8 tiêu đề hấp dẫn, một danh sách các hashtag liên quan, một danh sách từ khóa, và một phần mô tả video hấp dẫn. Trả lời bằng tiếng Việt.`;
-
-    const response = await ai.models.generateContent({
-        model: model.includes('gpt') ? 'gemini-3-pro-preview' : model,
-        contents: [{ parts: [{ text: prompt }] }],
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    titles: { type: Type.ARRAY, items: { type: Type.STRING } },
-                    hashtags: { type: Type.ARRAY, items: { type: Type.STRING } },
-                    keywords: { type: Type.ARRAY, items: { type: Type.STRING } },
-                    description: { type: Type.STRING }
-                },
-                required: ["titles", "hashtags", "keywords", "description"]
-            }
-        }
+    // Without dedicated intro/outro the model adds its own hook, plan and CTA sections, so only the body count is known.
+    const check = extras.dedicatedIntroOutro ? (items: unknown[]) => countProblem(items.length, chaptersCount, 'mục') : undefined;
+    const items = await callStructured<Omit<OutlineItem, 'index'>[]>(opts, prompt, { type: 'array', items: OUTLINE_ITEM_SCHEMA }, 'outline', extras.cover && [extras.cover], check);
+    return extras.dedicatedIntroOutro ? takeExactly(items, chaptersCount, 'chapters', opts) : items;
+};
+
+export const generateOutlineItem = async (bookTitle: string, outline: OutlineItem[], position: number, durationMin: number, opts: GenerateOptions): Promise<Omit<OutlineItem, 'index'>> => {
+    const others = outline.map((o, i) => `${i + 1}. ${i === position ? '[CẦN VIẾT LẠI]' : o.title}`).join('\n');
+    const current = outline[position];
+    const prompt = `Đây là dàn ý kịch bản video YouTube dài ${durationMin} phút theo phong cách audiobook "nhân văn hóa" về cuốn sách "${bookTitle}":\n${others}\n\nHãy viết lại mục số ${position + 1}${current?.title ? ` (hiện là "${current.title}")` : ''} sao cho khớp mạch với các mục trước và sau, không trùng nội dung với chúng. Cung cấp 'title' (tiêu đề), 'focus' (nội dung chính của phần đó), và một danh sách 3-4 'actions' (các điểm chính cần nói). ${answerIn(opts)}${describeProfile(opts.profile)}`;
+
+    return callStructured(opts, prompt, OUTLINE_ITEM_SCHEMA, 'outline_item');
+};
+
+// Longest script excerpt per chapter when a block has no summary yet.
+const EXCERPT_CHARS = 300;
+
+// The finished content SEO and visuals should describe; without it they only know the book title.
+export interface ProjectContent {
+    outline: OutlineItem[];
+    scriptBlocks?: ScriptBlock[];
+}
+
+const describeContent = (content?: ProjectContent): string => {
+    if (!content?.outline.length) return '';
+    const list = content.outline.map((item, i) => {
+        const block = content.scriptBlocks?.find(b => b.index === item.index + 1);
+        const gist = block ? block.summary || currentText(block).slice(0, EXCERPT_CHARS) : item.focus;
+        return `${i + 1}. ${item.title}: ${gist}`;
+    }).join('\n');
+    return `\n\nĐây là các phần của video và nội dung đã viết cho từng phần:\n${list}\nTiêu đề và mô tả phải bám theo đúng nội dung này; trong mô tả hãy liệt kê các phần chính theo thứ tự.\n`;
+};
+
+const describeThemes = (content: ProjectContent | undefined, intro: string): string => {
+    if (!content?.outline.length) return '';
+    const list = content.outline.filter(o => (o.kind ?? 'chapter') === 'chapter').map(o => `- ${o.title}: ${o.focus}`).join('\n');
+    return `\n\n${intro}\n${list}\n`;
+};
+
+export const generateSEO = async (bookTitle: string, durationMin: number, opts: GenerateOptions, content?: ProjectContent): Promise<SEOResult> => {
+    const prompt = renderPrompt(opts, 'seo', { bookTitle, durationMin, contentOverview: describeContent(content) });
+
+    // More titles than asked is harmless; fewer is worth one re-ask.
+    const check = (seo: SEOResult) => seo.titles.length < SEO_TITLE_COUNT ? countProblem(seo.titles.length, SEO_TITLE_COUNT, 'tiêu đề') : undefined;
+    const seo = await callStructured<SEOResult>(opts, prompt, SEO_SCHEMA, 'seo', undefined, check);
+    return { ...seo, titles: takeExactly(seo.titles, SEO_TITLE_COUNT, 'titles', opts) };
+};
+
+export interface ScriptBlockExtras {
+    // One-off instruction such as "shorter" or "add an example".
+    instruction?: string;
+    context?: ScriptContext;
+    passages?: RetrievedPassage[];
+}
+
+const KIND_RULES: Record<OutlineKind, string> = {
+    intro: 'Đây là phần MỞ ĐẦU của video: bắt đầu bằng một câu hook mạnh, giới thiệu cuốn sách và tác giả, rồi mời người nghe đăng ký kênh.',
+    chapter: 'Đây là một phần GIỮA video: KHÔNG chào hỏi, KHÔNG giới thiệu lại cuốn sách hay kênh, KHÔNG kêu gọi đăng ký; mở đầu bằng một câu chuyển tiếp tự nhiên từ phần trước.',
+    outro: 'Đây là phần KẾT của video: tóm tắt lại những ý chính đã nói ở các phần trước, để lại lời nhắn cá nhân và kêu gọi đăng ký, bình luận. Không giới thiệu lại cuốn sách.',
+};
+
+const describeContext = (context?: ScriptContext): string => {
+    if (!context) return '';
+    const parts = [];
+    if (context.summarySoFar) parts.push(`Những gì đã nói ở các phần trước:\n${context.summarySoFar}\nKhông lặp lại các ý, ví dụ hay câu chữ trên.`);
+    if (context.previousEnding) parts.push(`Phần trước kết thúc bằng đoạn:\n"…${context.previousEnding}"\nHãy nối tiếp mạch kể từ đó.`);
+    if (context.nextTitle) parts.push(`Phần tiếp theo là "${context.nextTitle}"; kết thúc bằng một câu dẫn sang phần đó nhưng không nói trước nội dung của nó.`);
+    return parts.length ? `\n\n${parts.join('\n\n')}\n\n` : '';
+};
+
+const describePassages = (passages?: RetrievedPassage[]): string => {
+    if (!passages?.length) return '';
+    const list = passages.map((p, i) => `[${i + 1}] (${p.docName} · ${p.label}) ${p.text}`).join('\n\n');
+    return `\n\nCác trích đoạn từ văn bản gốc liên quan đến phần này:\n${list}\nChỉ dùng dữ kiện, ví dụ và trích dẫn có trong các trích đoạn trên; nếu trích nguyên văn thì chỉ trích ngắn. Không bịa thêm trích dẫn.\n\n`;
+};
+
+export const generateScriptBlock = async (item: OutlineItem, bookTitle: string, targetChars: number, opts: GenerateOptions, extras: ScriptBlockExtras = {}): Promise<string> => {
+    const prompt = renderPrompt(opts, 'script', {
+        bookTitle,
+        chapterTitle: item.title,
+        chapterFocus: item.focus,
+        chapterActions: item.actions,
+        chapterKind: item.kind ?? 'chapter',
+        kindRule: KIND_RULES[item.kind ?? 'chapter'],
+        targetChars,
+        passages: describePassages(extras.passages),
+        context: describeContext(extras.context),
+        instruction: extras.instruction ? ` Yêu cầu thêm cho lần viết này: ${extras.instruction}.` : '',
     });
-    
-    const jsonText = response.text.trim();
-    return JSON.parse(jsonText);
-};
-
-export const generateScriptBlock = async (item: OutlineItem, bookTitle: string, targetChars: number, model: string = 'gemini-3-flash-preview', apiKey?: string): Promise<string> => {
-    const ai = getAiClient(apiKey);
-    const prompt = `Bạn là một người viết kịch bản cho kênh YouTube nổi tiếng. Phong cách của bạn là một người dẫn chuyện tự nhiên, đàm thoại cho audiobook, kết hợp với góc nhìn cá nhân. Hãy viết kịch bản cho phần có tiêu đề "${item.title}" trong một video về cuốn sách "${bookTitle}". Mục tiêu của phần này là: "${item.focus}". Các điểm chính cần nói là: ${item.actions.join(', ')}. Kịch bản nên dài khoảng ${targetChars} ký tự. Viết bằng giọng văn tự nhiên, hấp dẫn, phù hợp để thu âm. Trả lời bằng tiếng Việt.`;
-    
-    const response = await ai.models.generateContent({
-        model: model.includes('gpt') ? 'gemini-3-flash-preview' : model,
-        contents: [{ parts: [{ text: prompt }] }],
+
+    return streamModel(opts, prompt);
+};
+
+export const summarizeScriptBlock = async (text: string, chapter: string, opts: GenerateOptions): Promise<string> => {
+    const prompt = `Tóm tắt phần "${chapter}" của kịch bản dưới đây trong 2-3 câu, nêu các ý chính, ví dụ và dữ kiện đã được nhắc tới để phần sau không lặp lại. Chỉ trả về bản tóm tắt. ${answerIn(opts)}\n\n---\n${text}`;
+
+    return callModel(opts, prompt);
+};
+
+// Expands or condenses an existing block to roughly targetChars while keeping its content and voice.
+export const resizeScriptBlock = async (text: string, chapter: string, targetChars: number, opts: GenerateOptions): Promise<string> => {
+    const action = targetChars >= text.length
+        ? 'Mở rộng đoạn kịch bản dưới đây bằng cách thêm ví dụ, giải thích và chuyển ý tự nhiên, không lặp lại ý đã có'
+        : 'Rút gọn đoạn kịch bản dưới đây, giữ lại các ý chính và giọng kể, bỏ những chỗ lặp hoặc dài dòng';
+    const prompt = `${action}. Đây là phần "${chapter}" của một kịch bản audiobook YouTube. Độ dài mới khoảng ${targetChars} ký tự (hiện tại ${text.length} ký tự). Chỉ trả về kịch bản đã sửa, không kèm giải thích. ${answerIn(opts)}\n\n---\n${text}`;
+
+    return callModel(opts, prompt);
+};
+
+export const generateVideoPrompts = async (bookTitle: string, frameRatio: string, opts: GenerateOptions, cover?: InlineImage, content?: ProjectContent): Promise<string[]> => {
+    const prompt = renderPrompt(opts, 'videoPrompts', {
+        bookTitle,
+        frameRatio,
+        chapterThemes: describeThemes(content, `The video's chapters and their themes; spread the prompts across them so each part of the video has fitting visuals:`),
+        coverHint: cover ? ` The attached image is the book's cover: identify the author and edition from it, and match the prompts' colour palette, lighting and mood to the cover.` : '',
     });
 
-    return response.text;
-};
-
-export const generateVideoPrompts = async (bookTitle: string, frameRatio: string, model: string = 'gemini-3-flash-preview', apiKey?: string): Promise<string[]> => {
-    const ai = getAiClient(apiKey);
-    const prompt = `Generate 5 cinematic, photorealistic video prompts for background visuals in a YouTube video about the book "${bookTitle}". The prompts should be inspired by the book's main themes (e.g., if about stoicism, think calm nature, ancient architecture; if sci-fi, think cosmic visuals). Each prompt MUST be for the aspect ratio ${frameRatio}. The style should be beautiful, subtle, and non-distracting. Do not include any text or logos. Respond with a JSON array of strings.`;
-    
-    const response = await ai.models.generateContent({
-        model: model.includes('gpt') ? 'gemini-3-flash-preview' : model,
-        contents: [{ parts: [{ text: prompt }] }],
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: { type: Type.STRING }
-            }
-        }
+    return callStructured(opts, prompt, STRING_ARRAY, 'video_prompts', cover && [cover]);
+};
+
+export const generateThumbIdeas = async (bookTitle: string, durationMin: number, opts: GenerateOptions, cover?: InlineImage, content?: ProjectContent): Promise<string[]> => {
+    const prompt = renderPrompt(opts, 'thumbIdeas', {
+        bookTitle,
+        durationMin,
+        chapterThemes: describeThemes(content, `Các chủ đề chính của video (dùng để chọn điểm nhấn hấp dẫn nhất cho thumbnail):`),
+        durationLabel: durationBadge(durationMin),
+        coverHint: cover ? ` ${COVER_HINT} Văn bản nên hợp với tông màu và cảm xúc của bìa để đặt cạnh ảnh bìa trên thumbnail.` : '',
     });
 
-    const jsonText = response.text.trim();
-    return JSON.parse(jsonText);
-};
-
-export const generateThumbIdeas = async (bookTitle: string, durationMin: number, model: string = 'gemini-3-flash-preview', apiKey?: string): Promise<string[]> => {
-    const ai = getAiClient(apiKey);
-    const durationStr = `${Math.floor(durationMin / 60)}H${(durationMin % 60).toString().padStart(2, "0")}M`;
-    const prompt = `Cho một video YouTube về cuốn sách "${bookTitle}", hãy đề xuất 5 ý tưởng văn bản ngắn gọn, có tác động mạnh cho thumbnail. Văn bản phải hấp dẫn và bằng tiếng Việt. Một ý tưởng phải bao gồm thời lượng: ${durationStr}.`;
-    
-    const response = await ai.models.generateContent({
-        model: model.includes('gpt') ? 'gemini-3-flash-preview' : model,
-        contents: [{ parts: [{ text: prompt }] }],
-         config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: { type: Type.STRING }
+    return callStructured(opts, prompt, STRING_ARRAY, 'thumb_ideas', cover && [cover]);
+};
+
+const SCENE_SCHEMA: SchemaNode = {
+    type: 'object',
+    properties: {
+        prompt: { type: 'string' },
+        motion: { type: 'string' },
+        negativePrompt: { type: 'string' },
+    },
+    required: ["prompt", "motion", "negativePrompt"]
+};
+
+// Longest narration excerpt sent per scene; the gist is enough to pick a visual.
+const SCENE_EXCERPT_CHARS = 500;
+
+export type SceneVisual = Pick<StoryboardScene, 'prompt' | 'motion' | 'negativePrompt'>;
+
+// Describes consecutive scenes of one chapter in a single request so the visuals follow each other.
+export const generateStoryboardScenes = async (bookTitle: string, chapter: string, excerpts: string[], frameRatio: string, opts: GenerateOptions): Promise<SceneVisual[]> => {
+    const list = excerpts.map((e, i) => `[${i + 1}] ${e.length > SCENE_EXCERPT_CHARS ? `${e.slice(0, SCENE_EXCERPT_CHARS)}…` : e}`).join('\n\n');
+    const prompt = `You are storyboarding background visuals for a narrated YouTube video about the book "${bookTitle}". Below are ${excerpts.length} consecutive narration excerpts from the part "${chapter}", one per scene. For each scene, in order, return: 'prompt' — a cinematic, photorealistic text-to-video prompt for the aspect ratio ${frameRatio} that illustrates what is being narrated, in a style consistent with the neighbouring scenes (no text, logos or recognisable real people); 'motion' — a short camera/motion hint such as "slow push-in" or "static wide, drifting fog"; 'negativePrompt' — what the video generator must avoid. Write everything in English. Return exactly ${excerpts.length} items.\n\n${list}`;
+
+    const check = (items: unknown[]) => countProblem(items.length, excerpts.length, 'cảnh');
+    const scenes = await callStructured<SceneVisual[]>(opts, prompt, { type: 'array', items: SCENE_SCHEMA }, 'storyboard', undefined, check);
+    const problem = check(scenes);
+    if (problem) throw new StructuredOutputError(`Storyboard phần "${chapter}" không khớp: ${problem}`, [], JSON.stringify(scenes));
+    return scenes;
+};
+
+const SHORT_SCHEMA: SchemaNode = {
+    type: 'object',
+    properties: {
+        sentenceStart: { type: 'integer' },
+        sentenceEnd: { type: 'integer' },
+        score: { type: 'integer' },
+        rationale: { type: 'string' },
+        hook: { type: 'string' },
+        body: { type: 'string' },
+        cta: { type: 'string' },
+        title: { type: 'string' },
+        hashtags: STRING_ARRAY,
+        visualPrompt: { type: 'string' },
+    },
+    required: ["sentenceStart", "sentenceEnd", "score", "rationale", "hook", "body", "cta", "title", "hashtags", "visualPrompt"]
+};
+
+export type ShortCandidate = Omit<ShortClip, 'id' | 'block' | 'chapter' | 'sourceExcerpt'>;
+
+// Finds up to `count` self-contained moments in one chapter and rewrites each as a vertical short.
+// Sentences are numbered so every clip can point back to where it came from in the long video.
+export const generateShortCandidates = async (bookTitle: string, chapter: string, sentences: string[], count: number, budget: ShortBudget, opts: GenerateOptions): Promise<ShortCandidate[]> => {
+    const list = sentences.map((s, i) => `[${i + 1}] ${s}`).join('\n');
+    const prompt = `Bạn là biên tập viên YouTube Shorts/Reels cho kênh sách nói. Dưới đây là phần "${chapter}" trong kịch bản video dài về cuốn sách "${bookTitle}", mỗi câu được đánh số. Hãy tìm tối đa ${count} khoảnh khắc tự đứng được một mình (một ý, một câu chuyện hoặc một bài học trọn vẹn, người xem không cần biết phần trước vẫn hiểu) và viết lại mỗi khoảnh khắc thành một video dọc 30–60 giây. Với mỗi khoảnh khắc trả về: 'sentenceStart' và 'sentenceEnd' (số thứ tự câu đầu và câu cuối của đoạn gốc); 'score' (1-10, mức độ cuốn hút và tự đứng được); 'rationale' (một câu giải thích vì sao đoạn này hợp làm short); 'hook' (câu mở đầu đọc trong 3 giây đầu, khoảng ${budget.hookChars} ký tự, gây tò mò ngay lập tức); 'body' (phần kể chính); 'cta' (một câu ngắn mời xem video đầy đủ trên kênh); 'title' (tiêu đề short dưới 60 ký tự); 'hashtags' (3-5 hashtag, có #shorts); 'visualPrompt' (prompt tiếng Anh cho video dọc 9:16 minh họa khoảnh khắc, không có chữ, logo hay người thật nhận ra được). Tổng hook + body + cta dài từ ${budget.minChars} đến ${budget.maxChars} ký tự. Nếu phần này không có khoảnh khắc nào đủ hay, trả về mảng rỗng. ${answerIn(opts)}\n\n${list}`;
+
+    const check = (items: ShortCandidate[]) => {
+        if (items.length > count) return countProblem(items.length, count, 'khoảnh khắc');
+        for (const [i, item] of items.entries()) {
+            if (item.sentenceStart < 1 || item.sentenceEnd > sentences.length || item.sentenceStart > item.sentenceEnd) {
+                return `Khoảnh khắc ${i + 1} có khoảng câu ${item.sentenceStart}-${item.sentenceEnd} không hợp lệ (chỉ có ${sentences.length} câu).`;
+            }
+            const length = shortText(item).length;
+            if (length < budget.minChars * 0.8 || length > budget.maxChars * 1.15) {
+                return `Khoảnh khắc ${i + 1} dài ${length} ký tự, cần từ ${budget.minChars} đến ${budget.maxChars}.`;
             }
         }
-    });
+        return undefined;
+    };
+    const items = await callStructured<ShortCandidate[]>(opts, prompt, { type: 'array', items: SHORT_SCHEMA }, 'shorts', undefined, check);
+    // A clip that cannot be traced back to the script is dropped; one that is only too long or too short is kept for editing.
+    return items
+        .filter(item => item.sentenceStart >= 1 && item.sentenceStart <= item.sentenceEnd && item.sentenceEnd <= sentences.length)
+        .slice(0, count)
+        .map(item => ({ ...item, score: Math.min(10, Math.max(1, item.score)) }));
+};
+
+export const analyzeCover = async (cover: InlineImage, opts: GenerateOptions): Promise<BookMetadata> => {
+    const prompt = `Phân tích ảnh bìa sách đính kèm. Trả về 'title' (tên sách đúng như in trên bìa, nếu là bản dịch thì dùng tên bằng ${languageInfo(opts.language).promptName}), 'author' (tác giả, kèm dịch giả nếu có), 'edition' (nhà xuất bản, ấn bản hoặc năm nếu đọc được; để trống nếu không rõ) và 'dominantColors' (3-5 màu chủ đạo của bìa dưới dạng mã hex như #1a2b3c, màu nổi bật nhất trước). Không đoán nếu không đọc được.`;
+
+    return callStructured(opts, prompt, {
+        type: 'object',
+        properties: {
+            title: { type: 'string' },
+            author: { type: 'string' },
+            edition: { type: 'string' },
+            dominantColors: STRING_ARRAY,
+        },
+        required: ["title", "author", "edition", "dominantColors"]
+    }, 'book_metadata', [cover]);
+};
+
+const PROFILE_SCHEMA: SchemaNode = {
+    type: 'object',
+    properties: {
+        author: { type: 'string' },
+        year: { type: 'string' },
+        genre: { type: 'string' },
+        chapters: STRING_ARRAY,
+        coreIdeas: STRING_ARRAY,
+        quotes: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: { text: { type: 'string' }, passage: { type: 'integer' } },
+                required: ["text", "passage"]
+            }
+        },
+        audience: { type: 'string' },
+    },
+    required: ["author", "year", "genre", "chapters", "coreIdeas", "quotes", "audience"]
+};
+
+type ProfileAnswer = Omit<BookProfile, 'bookTitle' | 'quotes'> & { quotes: { text: string; passage: number }[] };
+
+export interface BookProfileExtras {
+    metadata?: BookMetadata | null;
+    cover?: InlineImage;
+    sourceOverview?: string;
+    // Passages quotes may be taken from; without them the profile has no quotes.
+    passages?: RetrievedPassage[];
+}
+
+const normalizeQuote = (text: string) => text.normalize('NFC').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// A quote counts only if its text really is in the passage it cites.
+const quoteProblem = (quote: { text: string; passage: number }, passages: RetrievedPassage[]): string | undefined => {
+    const passage = passages[quote.passage - 1];
+    if (!passage) return `Trích dẫn "${quote.text}" ghi đoạn số ${quote.passage} nhưng chỉ có ${passages.length} đoạn.`;
+    if (!normalizeQuote(passage.text).includes(normalizeQuote(quote.text))) return `Trích dẫn "${quote.text}" không có nguyên văn trong đoạn [${quote.passage}].`;
+    return undefined;
+};
+
+export const generateBookProfile = async (bookTitle: string, opts: GenerateOptions, extras: BookProfileExtras = {}): Promise<BookProfile> => {
+    const passages = extras.passages ?? [];
+    const known = extras.metadata?.author ? ` Bìa sách ghi tác giả "${extras.metadata.author}"${extras.metadata.edition ? `, ấn bản "${extras.metadata.edition}"` : ''}.` : '';
+    const overview = extras.sourceOverview ? `\n\nPhần đầu của từng chương/mục trong văn bản gốc (dùng để lập danh sách chương thật của sách):\n${extras.sourceOverview}` : '';
+    const quoteRule = passages.length
+        ? `'quotes' (3-6 câu đáng nhớ chép NGUYÊN VĂN từ các đoạn đánh số dưới đây, kèm 'passage' là số của đoạn chứa câu đó).\n\n${passages.map((p, i) => `[${i + 1}] (${p.label}) ${p.text}`).join('\n\n')}`
+        : `'quotes' (để mảng rỗng vì không có văn bản gốc để đối chiếu).`;
+    const prompt = `Lập hồ sơ dữ kiện cho cuốn sách "${bookTitle}" để dùng chung khi viết dàn ý, kịch bản, SEO và hình ảnh cho video YouTube về cuốn sách.${extras.cover ? ` ${COVER_HINT}` : ''}${known} Chỉ ghi những gì chắc chắn; trường nào không rõ thì để trống hoặc mảng rỗng, không bịa. ${answerIn(opts)} Trả về: 'author' (tác giả, kèm dịch giả nếu có), 'year' (năm xuất bản lần đầu), 'genre' (thể loại), 'chapters' (danh sách chương thật của sách theo thứ tự, chỉ tên chương), 'coreIdeas' (5-8 ý tưởng cốt lõi, mỗi ý một câu), 'audience' (độc giả mục tiêu, một câu) và ${quoteRule}${overview}`;
+
+    const check = (answer: ProfileAnswer) => answer.quotes.map(q => quoteProblem(q, passages)).find(Boolean);
+    const answer = await callStructured<ProfileAnswer>(opts, prompt, PROFILE_SCHEMA, 'book_profile', extras.cover && [extras.cover], check);
+    return {
+        ...answer,
+        bookTitle: bookTitle.trim(),
+        // Quotes still failing the check after the re-ask are dropped rather than shown as real.
+        quotes: answer.quotes.filter(q => !quoteProblem(q, passages)).map(q => ({ text: q.text.trim(), reference: passages[q.passage - 1].label })),
+    };
+};
+
+// Translation keeps structure and length; used to move an already generated project to another output language.
+const translateRule = (opts: GenerateOptions) =>
+    `Dịch sang ${languageInfo(opts.language).promptName}. Giữ nguyên ý, giọng kể và độ dài tương đương; tên riêng, tên sách và trích dẫn dịch theo cách quen dùng trong ngôn ngữ đích. Chỉ trả về bản dịch.`;
+
+export const translateOutline = async (outline: OutlineItem[], opts: GenerateOptions): Promise<Pick<OutlineItem, 'title' | 'focus' | 'actions'>[]> => {
+    const source = JSON.stringify(outline.map(({ title, focus, actions }) => ({ title, focus, actions })));
+    const prompt = `Dưới đây là dàn ý kịch bản video YouTube dạng JSON. ${translateRule(opts)} Trả về đúng ${outline.length} mục theo đúng thứ tự, mỗi mục có 'title', 'focus' và 'actions'.\n\n${source}`;
+
+    // A translation must map one-to-one onto the existing chapters, so a wrong count is an error, not a partial result.
+    const check = (items: unknown[]) => countProblem(items.length, outline.length, 'mục');
+    const result = await callStructured<Pick<OutlineItem, 'title' | 'focus' | 'actions'>[]>(opts, prompt, { type: 'array', items: OUTLINE_ITEM_SCHEMA }, 'outline', undefined, check);
+    const problem = check(result);
+    if (problem) throw new StructuredOutputError(`Bản dịch dàn ý không khớp: ${problem}`, [], JSON.stringify(result));
+    return result;
+};
+
+export const translateText = async (text: string, opts: GenerateOptions): Promise<string> => {
+    const prompt = `Đây là một phần kịch bản audiobook YouTube, dùng để thu âm. ${translateRule(opts)}\n\n---\n${text}`;
+
+    return callModel(opts, prompt);
+};
+
+export const translateSEO = async (seo: SEOResult, opts: GenerateOptions): Promise<SEOResult> => {
+    const prompt = `Dưới đây là nội dung SEO của một video YouTube dạng JSON. ${translateRule(opts)} Hashtag và từ khóa hãy chuyển thành những từ mà người xem nói ngôn ngữ đích thực sự tìm kiếm, không dịch từng chữ.\n\n${JSON.stringify(seo)}`;
+
+    return callStructured(opts, prompt, SEO_SCHEMA, 'seo');
+};
+
+export const translateStrings = async (items: string[], opts: GenerateOptions): Promise<string[]> => {
+    const prompt = `${translateRule(opts)} Trả về một mảng JSON gồm đúng ${items.length} chuỗi theo đúng thứ tự.\n\n${JSON.stringify(items)}`;
 
-    const jsonText = response.text.trim();
-    return JSON.parse(jsonText);
+    const check = (result: string[]) => countProblem(result.length, items.length, 'chuỗi');
+    const result = await callStructured<string[]>(opts, prompt, STRING_ARRAY, 'translations', undefined, check);
+    const problem = check(result);
+    if (problem) throw new StructuredOutputError(`Bản dịch không khớp: ${problem}`, [], JSON.stringify(result));
+    return result;
 };
@@ -0,0 +1,34 @@
+import { Modality } from "@google/genai";
+import { ProviderOptions } from './llmProvider';
+import { withAiClient } from './geminiProvider';
+import { TtsProvider, TtsRequest, TtsAudio } from './ttsProvider';
+import { base64ToPcm } from './audio';
+
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+// The TTS models answer with raw 24 kHz 16-bit mono PCM.
+const SAMPLE_RATE = 24000;
+
+// The API has no rate parameter; pace is asked for in the prompt, which the TTS models follow as a style direction.
+const paceDirection = (speed: number) =>
+    speed === 1 ? '' : `Đọc ${speed < 1 ? 'chậm' : 'nhanh'} hơn bình thường, khoảng ${speed} lần tốc độ tự nhiên:\n`;
+
+export const createGeminiTtsProvider = (options: ProviderOptions = {}): TtsProvider => ({
+    id: 'gemini',
+    label: 'Gemini TTS',
+    voices: ['Kore', 'Charon', 'Puck', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr', 'Sulafat', 'Gacrux'],
+    maxChars: 3000,
+    async synthesize(req: TtsRequest): Promise<TtsAudio> {
+        const response = await withAiClient(options, ai => ai.models.generateContent({
+            model: TTS_MODEL,
+            contents: [{ parts: [{ text: paceDirection(req.speed) + req.text }] }],
+            config: {
+                abortSignal: req.signal,
+                responseModalities: [Modality.AUDIO],
+                speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: req.voice } } },
+            },
+        }));
+        const data = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData?.data)?.inlineData?.data;
+        if (!data) throw new Error("Gemini TTS không trả về âm thanh.");
+        return { samples: base64ToPcm(data), sampleRate: SAMPLE_RATE };
+    },
+});
@@ -0,0 +1,32 @@
+import { UiLocale } from '../types';
+import { vi } from '../locales/vi';
+import { en } from '../locales/en';
+
+export type MessageKey = keyof typeof vi;
+export type MessageVars = Record<string, string | number>;
+
+export interface Translate {
+    (key: MessageKey, vars?: MessageVars): string;
+    locale: UiLocale;
+}
+
+export const CATALOGS: Record<UiLocale, Record<MessageKey, string>> = { vi, en };
+
+export const UI_LOCALES: { id: UiLocale; label: string }[] = [
+    { id: 'vi', label: 'Tiếng Việt' },
+    { id: 'en', label: 'English' },
+];
+
+export const DEFAULT_UI_LOCALE: UiLocale = 'vi';
+
+// Replaces {name} placeholders; unknown placeholders are left as-is so a missing variable is visible.
+export const interpolate = (template: string, vars?: MessageVars): string =>
+    vars ? template.replace(/\{(\w+)\}/g, (match, name) => name in vars ? String(vars[name]) : match) : template;
+
+export const createTranslator = (locale: UiLocale): Translate => {
+    const messages = CATALOGS[locale] ?? CATALOGS[DEFAULT_UI_LOCALE];
+    const t = (key: MessageKey, vars?: MessageVars) => interpolate(messages[key] ?? CATALOGS[DEFAULT_UI_LOCALE][key] ?? key, vars);
+    return Object.assign(t, { locale });
+};
+
+export const isUiLocale = (value: unknown): value is UiLocale => typeof value === 'string' && value in CATALOGS;
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { JobState } from '../types';
+import { runJobs } from './jobRunner';
+
+describe('runJobs', () => {
+    it('keeps a job pending until it may start', async () => {
+        let release = () => {};
+        const gate = new Promise<void>(r => { release = r; });
+        const states: [string, JobState['status']][] = [];
+        const done = runJobs<string, string>([
+            { key: 'a', run: async () => 'A' },
+            { key: 'b', waitFor: () => gate, run: async () => 'B' },
+        ], {
+            concurrency: 2,
+            signal: new AbortController().signal,
+            onState: (key, state) => states.push([key, state.status]),
+            onResult: () => {},
+        });
+        await new Promise(r => setTimeout(r, 10));
+        expect(states.filter(([key]) => key === 'b')).toEqual([['b', 'pending']]);
+        release();
+        await done;
+        expect(states.filter(([key]) => key === 'b')).toEqual([['b', 'pending'], ['b', 'running'], ['b', 'done']]);
+    });
+
+    it('returns a waiting job to pending when the run is aborted', async () => {
+        const controller = new AbortController();
+        const states: JobState['status'][] = [];
+        const done = runJobs<string, string>([
+            { key: 'a', waitFor: (signal) => new Promise((_, reject) => signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))), run: async () => 'A' },
+        ], {
+            concurrency: 1,
+            signal: controller.signal,
+            onState: (_, state) => states.push(state.status),
+            onResult: () => {},
+        });
+        controller.abort();
+        await done;
+        expect(states).toEqual(['pending', 'pending']);
+    });
+});
@@ -0,0 +1,107 @@
+import { JobState } from '../types';
+
+export interface RetryPolicy {
+    retries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY: RetryPolicy = { retries: 4, baseDelayMs: 1500, maxDelayMs: 30000 };
+
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+export const isAbortError = (err: unknown): boolean => err instanceof DOMException && err.name === 'AbortError';
+
+// Rate limits, overloaded backends and dropped connections are worth another try; bad keys or prompts are not.
+export const isRetryableError = (err: unknown): boolean => {
+    if (isAbortError(err)) return false;
+    const status = (err as { status?: unknown })?.status;
+    if (typeof status === 'number') return RETRYABLE_STATUS.has(status);
+    if (err instanceof TypeError) return true; // fetch network failure
+    const message = err instanceof Error ? err.message : String(err);
+    return /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded/i.test(message);
+};
+
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException("Aborted", "AbortError"));
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException("Aborted", "AbortError"));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export const backoffDelay = (attempt: number, policy: RetryPolicy): number => {
+    const exp = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+    return Math.round(exp / 2 + Math.random() * exp / 2);
+};
+
+export const withRetry = async <T>(
+    fn: (attempt: number) => Promise<T>,
+    policy: RetryPolicy = DEFAULT_RETRY,
+    signal?: AbortSignal,
+    onRetry?: (attempt: number, err: unknown) => void,
+): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        signal?.throwIfAborted();
+        try {
+            return await fn(attempt);
+        } catch (err) {
+            if (attempt >= policy.retries || !isRetryableError(err)) throw err;
+            onRetry?.(attempt + 1, err);
+            await sleep(backoffDelay(attempt, policy), signal);
+        }
+    }
+};
+
+export interface Job<K, T> {
+    key: K;
+    // Resolves when the job may start; until then it stays 'pending'.
+    waitFor?: (signal: AbortSignal) => Promise<void>;
+    run: (signal: AbortSignal) => Promise<T>;
+}
+
+export interface RunJobsOptions<K, T> {
+    concurrency: number;
+    signal: AbortSignal;
+    retry?: RetryPolicy;
+    onState: (key: K, state: JobState) => void;
+    onResult: (key: K, result: T) => void;
+}
+
+// Runs jobs with at most `concurrency` in flight. Individual failures are reported through onState and
+// never reject the whole run; an abort stops picking up new jobs and returns jobs in flight to 'pending'.
+export const runJobs = async <K, T>(jobs: Job<K, T>[], opts: RunJobsOptions<K, T>): Promise<void> => {
+    const queue = [...jobs];
+    jobs.forEach(job => opts.onState(job.key, { status: 'pending', attempts: 0 }));
+
+    const worker = async () => {
+        while (queue.length && !opts.signal.aborted) {
+            const job = queue.shift()!;
+            let attempts = 1;
+            try {
+                await job.waitFor?.(opts.signal);
+                opts.onState(job.key, { status: 'running', attempts });
+                const result = await withRetry(() => job.run(opts.signal), opts.retry, opts.signal, (attempt, err) => {
+                    attempts = attempt + 1;
+                    opts.onState(job.key, { status: 'running', attempts, error: err instanceof Error ? err.message : String(err) });
+                });
+                opts.onResult(job.key, result);
+                opts.onState(job.key, { status: 'done', attempts });
+            } catch (err) {
+                if (isAbortError(err) || opts.signal.aborted) {
+                    opts.onState(job.key, { status: 'pending', attempts });
+                } else {
+                    opts.onState(job.key, { status: 'failed', attempts, error: err instanceof Error ? err.message : String(err) });
+                }
+            }
+        }
+    };
+
+    const workers = Math.max(1, Math.min(opts.concurrency, jobs.length));
+    await Promise.all(Array.from({ length: workers }, worker));
+};
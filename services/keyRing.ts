@@ -0,0 +1,68 @@
+import { ApiKeyEntry, KeyHealth, ProviderId } from '../types';
+import { isAbortError } from './jobRunner';
+
+export interface KeyRing {
+    has: (provider: ProviderId) => boolean;
+    // Runs `call` with the provider's keys in turn, moving to the next key when one is out of quota or rejected.
+    use: <T>(provider: ProviderId, call: (apiKey: string) => Promise<T>) => Promise<T>;
+}
+
+const errorStatus = (err: unknown): number | undefined => {
+    const status = (err as { status?: unknown })?.status;
+    return typeof status === 'number' ? status : undefined;
+};
+
+// Only failures that another key could fix; anything else (bad prompt, network) is passed through unchanged.
+export const keyFailure = (err: unknown): KeyHealth['status'] | null => {
+    if (isAbortError(err)) return null;
+    const status = errorStatus(err);
+    const message = err instanceof Error ? err.message : String(err);
+    if (status === 429 || /RESOURCE_EXHAUSTED|quota|insufficient_quota/i.test(message)) return 'quota';
+    if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID|PERMISSION_DENIED|UNAUTHENTICATED|invalid_api_key|Incorrect API key/i.test(message)) return 'auth';
+    return null;
+};
+
+// Healthy and untried keys first, then keys that ran out of quota (oldest first, as they are the likeliest to
+// have recovered). Rejected keys are left out until they are replaced or the health is cleared.
+const rotationOrder = (keys: ApiKeyEntry[], health: Record<string, KeyHealth>): ApiKeyEntry[] => {
+    const rank = (k: ApiKeyEntry) => health[k.id]?.status === 'quota' ? 1 : 0;
+    return keys
+        .filter(k => health[k.id]?.status !== 'auth')
+        .sort((a, b) => rank(a) - rank(b) || (rank(a) ? health[a.id].at - health[b.id].at : 0));
+};
+
+export const createKeyRing = (entries: ApiKeyEntry[], initialHealth: Record<string, KeyHealth>, onHealth?: (id: string, health: KeyHealth) => void): KeyRing => {
+    const health = { ...initialHealth };
+    const record = (id: string, next: KeyHealth) => {
+        health[id] = next;
+        onHealth?.(id, next);
+    };
+    const keysFor = (provider: ProviderId) => entries.filter(e => e.provider === provider && e.key);
+
+    return {
+        has: (provider) => keysFor(provider).length > 0,
+        use: async (provider, call) => {
+            const keys = keysFor(provider);
+            const order = rotationOrder(keys, health);
+            if (!order.length) {
+                throw new Error(keys.length
+                    ? `Tất cả API Key ${provider} đều bị từ chối. Kiểm tra lại trong kho khoá.`
+                    : `Chưa có API Key ${provider}. Vui lòng mở khoá hoặc thêm khoá trong phần Quản lý API & Model.`);
+            }
+            let lastError: unknown;
+            for (const entry of order) {
+                try {
+                    const result = await call(entry.key);
+                    if (health[entry.id]?.status !== 'ok') record(entry.id, { status: 'ok', at: Date.now() });
+                    return result;
+                } catch (err) {
+                    const failure = keyFailure(err);
+                    if (!failure) throw err;
+                    record(entry.id, { status: failure, at: Date.now(), message: err instanceof Error ? err.message : String(err) });
+                    lastError = err;
+                }
+            }
+            throw lastError;
+        },
+    };
+};
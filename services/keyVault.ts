@@ -0,0 +1,77 @@
+import { ApiKeyEntry } from '../types';
+
+// API keys at rest: AES-GCM with a key derived from the user's passphrase (PBKDF2-SHA256).
+// Only the sealed vault is stored; the passphrase and decrypted keys live in memory while unlocked.
+
+export interface SealedVault {
+    version: 1;
+    iterations: number;
+    // Base64.
+    salt: string;
+    iv: string;
+    data: string;
+}
+
+// Kept in memory while unlocked so changes can be sealed again without asking for the passphrase.
+export interface VaultSession {
+    key: CryptoKey;
+    salt: Uint8Array;
+    iterations: number;
+}
+
+const ITERATIONS = 310000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt: salt as BufferSource, iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+    );
+};
+
+export const createVaultSession = async (passphrase: string): Promise<VaultSession> => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        throw new Error(`Mật khẩu kho khoá cần ít nhất ${MIN_PASSPHRASE_LENGTH} ký tự.`);
+    }
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    return { key: await deriveKey(passphrase, salt, ITERATIONS), salt, iterations: ITERATIONS };
+};
+
+// A fresh IV for every seal; reusing one with the same key would break GCM.
+export const sealVault = async (entries: ApiKeyEntry[], session: VaultSession): Promise<SealedVault> => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, session.key, new TextEncoder().encode(JSON.stringify(entries)));
+    return { version: 1, iterations: session.iterations, salt: toBase64(session.salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+export const unlockVault = async (sealed: SealedVault, passphrase: string): Promise<{ entries: ApiKeyEntry[]; session: VaultSession }> => {
+    const salt = fromBase64(sealed.salt);
+    const key = await deriveKey(passphrase, salt, sealed.iterations);
+    let plain: ArrayBuffer;
+    try {
+        plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(sealed.iv) as BufferSource }, key, fromBase64(sealed.data) as BufferSource);
+    } catch {
+        // GCM authentication fails for a wrong passphrase and for tampered data alike.
+        throw new Error("Sai mật khẩu hoặc kho khoá đã bị hỏng.");
+    }
+    return { entries: JSON.parse(new TextDecoder().decode(plain)), session: { key, salt, iterations: sealed.iterations } };
+};
+
+export const parseSealedVault = (text: string | null): SealedVault | null => {
+    if (!text) return null;
+    try {
+        const raw = JSON.parse(text);
+        return raw?.version === 1 && raw.salt && raw.iv && raw.data ? raw : null;
+    } catch {
+        return null;
+    }
+};
+
+export const maskKey = (key: string): string => key.length <= 8 ? '••••' : `${key.slice(0, 4)}••••${key.slice(-4)}`;
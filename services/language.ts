@@ -0,0 +1,24 @@
+import { OutputLanguage } from '../types';
+
+export interface OutputLanguageInfo {
+    label: string;
+    // BCP 47 locale for number and date formatting.
+    locale: string;
+    // How prompts (written in Vietnamese) name the language.
+    promptName: string;
+    // NARRATOR_PRESETS id picked when a project switches to this language.
+    defaultPreset: string;
+}
+
+export const OUTPUT_LANGUAGES: Record<OutputLanguage, OutputLanguageInfo> = {
+    vi: { label: 'Tiếng Việt', locale: 'vi-VN', promptName: 'tiếng Việt', defaultPreset: 'vi-normal' },
+    en: { label: 'English', locale: 'en-US', promptName: 'tiếng Anh (English)', defaultPreset: 'en-normal' },
+    id: { label: 'Bahasa Indonesia', locale: 'id-ID', promptName: 'tiếng Indonesia (Bahasa Indonesia)', defaultPreset: 'id-normal' },
+};
+
+export const DEFAULT_OUTPUT_LANGUAGE: OutputLanguage = 'vi';
+
+export const languageInfo = (language?: OutputLanguage): OutputLanguageInfo =>
+    OUTPUT_LANGUAGES[language ?? DEFAULT_OUTPUT_LANGUAGE] ?? OUTPUT_LANGUAGES[DEFAULT_OUTPUT_LANGUAGE];
+
+export const formatNumber = (n: number, language?: OutputLanguage): string => n.toLocaleString(languageInfo(language).locale);
@@ -0,0 +1,73 @@
+import { ProviderId, ProviderInfo } from '../types';
+import { KeyRing } from './keyRing';
+
+// Provider-neutral subset of JSON schema used by the generators.
+// Each adapter translates it to its own structured-output format.
+export type SchemaNode =
+    | { type: 'string' }
+    | { type: 'integer' }
+    | { type: 'array'; items: SchemaNode }
+    | { type: 'object'; properties: Record<string, SchemaNode>; required: string[] };
+
+export interface InlineImage {
+    mimeType: string;
+    // Base64 payload without the data: URL prefix.
+    data: string;
+}
+
+export interface LLMRequest {
+    model: string;
+    prompt: string;
+    images?: InlineImage[];
+    // When set, the provider must answer with JSON matching this schema.
+    schema?: SchemaNode;
+    schemaName?: string;
+    signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+    inputTokens: number;
+    // Includes reasoning tokens, which are billed as output.
+    outputTokens: number;
+}
+
+export interface LLMResponse extends ProviderInfo {
+    text: string;
+    // Missing when the provider did not report it.
+    usage?: TokenUsage;
+}
+
+export interface LLMProvider {
+    id: ProviderId;
+    label: string;
+    generate(req: LLMRequest): Promise<LLMResponse>;
+    // Optional streaming variant for plain-text answers; `onText` receives the text received so far.
+    stream?(req: LLMRequest, onText: (text: string) => void): Promise<LLMResponse>;
+}
+
+export interface ProviderOptions {
+    apiKey?: string;
+    // Vault keys with rotation; takes precedence over `apiKey` when it holds keys for the provider.
+    keys?: KeyRing;
+    // Overrides the API endpoint, e.g. to point an adapter at a local HTTP stand-in.
+    baseUrl?: string;
+}
+
+export class ProviderError extends Error {
+    provider: ProviderId;
+    status?: number;
+
+    constructor(provider: ProviderId, message: string, status?: number) {
+        super(message);
+        this.name = 'ProviderError';
+        this.provider = provider;
+        this.status = status;
+    }
+}
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+    gemini: 'Google Gemini',
+    openai: 'OpenAI',
+};
+
+export const providerIdForModel = (model: string): ProviderId => model.startsWith('gpt') ? 'openai' : 'gemini';
@@ -0,0 +1,35 @@
+import { TtsAudio, TtsProvider, TtsRequest } from './ttsProvider';
+import { splitSentences } from './subtitles';
+
+// Offline stand-in: a soft tone per sentence, as long as a narrator would take to read it.
+// Lets the narration flow, player, export and timestamps be tried without an API key or network.
+
+const SAMPLE_RATE = 16000;
+const CHARS_PER_SECOND = 15;
+const SENTENCE_GAP_SECONDS = 0.35;
+
+const VOICE_PITCH: Record<string, number> = { 'tone-low': 160, 'tone-mid': 220, 'tone-high': 300 };
+
+export const createLocalTtsProvider = (): TtsProvider => ({
+    id: 'local',
+    label: 'Offline stand-in',
+    voices: Object.keys(VOICE_PITCH),
+    maxChars: Infinity,
+    async synthesize(req: TtsRequest): Promise<TtsAudio> {
+        req.signal?.throwIfAborted();
+        const pitch = VOICE_PITCH[req.voice] ?? VOICE_PITCH['tone-mid'];
+        const gap = Math.round(SENTENCE_GAP_SECONDS * SAMPLE_RATE);
+        const lengths = splitSentences(req.text).map(s => Math.round(s.length / (CHARS_PER_SECOND * req.speed) * SAMPLE_RATE));
+        const samples = new Int16Array(lengths.reduce((sum, n) => sum + n + gap, 0));
+        let offset = 0;
+        for (const n of lengths) {
+            for (let i = 0; i < n; i++) {
+                // Short fades keep the tone from clicking.
+                const envelope = Math.min(1, i / 400, (n - i) / 400);
+                samples[offset + i] = Math.round(Math.sin(2 * Math.PI * pitch * i / SAMPLE_RATE) * 3000 * envelope);
+            }
+            offset += n + gap;
+        }
+        return { samples, sampleRate: SAMPLE_RATE };
+    },
+});
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { splitForTts } from './narration';
+
+describe('splitForTts', () => {
+    it('packs whole sentences up to the limit', () => {
+        expect(splitForTts('Câu một. Câu hai. Câu ba.', 18)).toEqual(['Câu một. Câu hai.', 'Câu ba.']);
+    });
+
+    it('never breaks numbers apart', () => {
+        const text = 'Giá tăng 3.5 lần. Doanh thu đạt 1.000.000 đồng. Hết.';
+        const parts = splitForTts(text, 30);
+        expect(parts).toEqual(['Giá tăng 3.5 lần.', 'Doanh thu đạt 1.000.000 đồng.', 'Hết.']);
+        expect(parts.join(' ')).toBe(text);
+    });
+
+    it('keeps an over-long sentence whole', () => {
+        expect(splitForTts('Một câu dài hơn giới hạn. Ngắn.', 10)).toEqual(['Một câu dài hơn giới hạn.', 'Ngắn.']);
+    });
+
+    it('returns nothing for blank text', () => {
+        expect(splitForTts(' \n ', 100)).toEqual([]);
+    });
+});
@@ -0,0 +1,85 @@
+import { NarrationAudio, NarrationSettings, ScriptBlock, SpeakingRate, TtsProviderId } from '../types';
+import { TtsProvider } from './ttsProvider';
+import { KeyRing } from './keyRing';
+import { createGeminiTtsProvider } from './geminiTtsProvider';
+import { createLocalTtsProvider } from './localTtsProvider';
+import { concatAudio, decodeWav, encodeWav } from './audio';
+import { splitSentences } from './subtitles';
+import { currentText } from './scriptBlocks';
+import { blockMinutes } from './duration';
+import { fingerprint } from './pipeline';
+import { TimedChapter } from './youtubeSeo';
+import { slugify } from './geminiService';
+
+export const TTS_PROVIDER_IDS: TtsProviderId[] = ['gemini', 'local'];
+
+export const DEFAULT_NARRATION: NarrationSettings = { provider: 'gemini', voice: 'Kore', speed: 1, pauseSeconds: 1.5 };
+
+export const SPEED_LIMITS = { min: 0.5, max: 2 };
+
+export const getTtsProvider = (id: TtsProviderId, keys?: KeyRing): TtsProvider =>
+    id === 'local' ? createLocalTtsProvider() : createGeminiTtsProvider({ keys });
+
+// Switching provider keeps the voice only if the new one has it.
+export const withProvider = (settings: NarrationSettings, provider: TtsProviderId): NarrationSettings => {
+    const voices = getTtsProvider(provider).voices;
+    return { ...settings, provider, voice: voices.includes(settings.voice) ? settings.voice : voices[0] };
+};
+
+// The pause only matters when chapters are joined, so changing it keeps every chapter's audio.
+export const narrationStamp = (text: string, settings: NarrationSettings): string =>
+    fingerprint([text, settings.provider, settings.voice, settings.speed]);
+
+export const isNarrationFresh = (block: ScriptBlock, audio: NarrationAudio | undefined, settings: NarrationSettings): boolean =>
+    !!audio && audio.stamp === narrationStamp(currentText(block), settings);
+
+// Whole sentences per request, each request at most `maxChars` unless one sentence alone is longer.
+export const splitForTts = (text: string, maxChars: number): string[] => {
+    const parts: string[] = [];
+    let current = '';
+    for (const sentence of splitSentences(text)) {
+        if (current && current.length + 1 + sentence.length > maxChars) {
+            parts.push(current);
+            current = sentence;
+        } else {
+            current = current ? `${current} ${sentence}` : sentence;
+        }
+    }
+    if (current) parts.push(current);
+    return parts;
+};
+
+// Reads one chapter, part by part, into a single WAV.
+export const narrateText = async (text: string, settings: NarrationSettings, keys: KeyRing, signal?: AbortSignal): Promise<{ wav: Blob; seconds: number }> => {
+    const provider = getTtsProvider(settings.provider, keys);
+    const parts = splitForTts(text, provider.maxChars);
+    if (!parts.length) throw new Error("Chương không có nội dung để đọc.");
+    const audio = [];
+    for (const part of parts) {
+        audio.push(await provider.synthesize({ text: part, voice: settings.voice, speed: settings.speed, signal }));
+    }
+    const joined = concatAudio(audio);
+    return { wav: encodeWav(joined), seconds: joined.samples.length / joined.sampleRate };
+};
+
+// Chapter lengths for the timestamps: measured where the chapter's audio is current, estimated elsewhere.
+// Every chapter but the last is followed by the pause of the full track.
+export const narrationChapters = (blocks: ScriptBlock[], audio: Map<number, NarrationAudio>, settings: NarrationSettings, rate: SpeakingRate): (TimedChapter & { measured: boolean })[] =>
+    blocks.map((b, i) => {
+        const track = audio.get(b.index);
+        const measured = isNarrationFresh(b, track, settings);
+        const seconds = measured ? track!.seconds : blockMinutes(b, rate) * 60;
+        return { title: b.chapter, seconds: seconds + (measured && i < blocks.length - 1 ? settings.pauseSeconds : 0), measured };
+    });
+
+// Per-chapter WAVs plus the full track, in chapter order, with the pause between chapters.
+export const buildNarrationZip = async (bookTitle: string, blocks: ScriptBlock[], audio: Map<number, NarrationAudio>, pauseSeconds: number): Promise<Blob> => {
+    const tracks = blocks.map(b => ({ block: b, track: audio.get(b.index) })).filter((t): t is { block: ScriptBlock; track: NarrationAudio } => !!t.track);
+    if (!tracks.length) throw new Error("Chưa có chương nào được lồng tiếng.");
+    const { default: JSZip } = await import('jszip');
+    const zip = new JSZip();
+    tracks.forEach(({ block, track }) => zip.file(`${String(block.index).padStart(2, '0')}_${slugify(block.chapter)}.wav`, track.wav));
+    const full = concatAudio(await Promise.all(tracks.map(({ track }) => decodeWav(track.wav))), pauseSeconds);
+    zip.file(`${slugify(bookTitle) || 'narration'}_full.wav`, encodeWav(full));
+    return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+};
@@ -0,0 +1,162 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { ProviderError, SchemaNode } from './llmProvider';
+import { createOpenAIProvider } from './openaiProvider';
+import { parseStructured } from './structuredOutput';
+
+// A local stand-in for the Chat Completions endpoint; each test sets how it answers.
+type Handler = (body: Record<string, any>, res: ServerResponse) => void;
+
+let server: Server;
+let baseUrl = '';
+let handler: Handler;
+let received: { body: Record<string, any>; headers: IncomingMessage['headers']; url?: string }[] = [];
+
+const json = (res: ServerResponse, status: number, data: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(data));
+};
+
+const completion = (message: Record<string, unknown>) => ({
+    choices: [{ message }],
+    usage: { prompt_tokens: 12, completion_tokens: 34 },
+});
+
+beforeAll(async () => {
+    server = createServer((req, res) => {
+        let raw = '';
+        req.on('data', chunk => { raw += chunk; });
+        req.on('end', () => {
+            const body = JSON.parse(raw);
+            received.push({ body, headers: req.headers, url: req.url });
+            handler(body, res);
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+    received = [];
+    handler = (_, res) => json(res, 200, completion({ content: 'Xin chào' }));
+});
+
+const provider = () => createOpenAIProvider({ apiKey: 'sk-test', baseUrl });
+
+const OUTLINE: SchemaNode = {
+    type: 'array',
+    items: { type: 'object', properties: { title: { type: 'string' }, minutes: { type: 'integer' } }, required: ['title'] },
+};
+
+describe('createOpenAIProvider', () => {
+    it('posts the prompt with the mapped model and key', async () => {
+        const res = await provider().generate({ model: 'gpt-5.2-thinking', prompt: 'Viết đi' });
+        expect(res).toEqual({ provider: 'openai', model: 'gpt-5.2', text: 'Xin chào', usage: { inputTokens: 12, outputTokens: 34 } });
+        const [{ body, headers, url }] = received;
+        expect(url).toBe('/v1/chat/completions');
+        expect(headers.authorization).toBe('Bearer sk-test');
+        expect(body).toEqual({ model: 'gpt-5.2', reasoning_effort: 'high', messages: [{ role: 'user', content: 'Viết đi' }] });
+    });
+
+    it('sends images as data URLs next to the prompt', async () => {
+        await provider().generate({ model: 'gpt-5.2-auto', prompt: 'Bìa sách', images: [{ mimeType: 'image/png', data: 'AAAA' }] });
+        expect(received[0].body.messages[0].content).toEqual([
+            { type: 'text', text: 'Bìa sách' },
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+        ]);
+    });
+
+    it('wraps a root array schema in a strict { items } object', async () => {
+        handler = (_, res) => json(res, 200, completion({ content: '{"items":[{"title":"Mở đầu","minutes":2}]}' }));
+        const res = await provider().generate({ model: 'gpt-5.2-auto', prompt: 'Dàn ý', schema: OUTLINE, schemaName: 'outline' });
+        expect(received[0].body.response_format).toEqual({
+            type: 'json_schema',
+            json_schema: {
+                name: 'outline',
+                strict: true,
+                schema: {
+                    type: 'object',
+                    properties: {
+                        items: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: { title: { type: 'string' }, minutes: { type: 'integer' } },
+                                required: ['title', 'minutes'],
+                                additionalProperties: false,
+                            },
+                        },
+                    },
+                    required: ['items'],
+                    additionalProperties: false,
+                },
+            },
+        });
+        expect(parseStructured(res.text, OUTLINE)).toEqual([{ title: 'Mở đầu', minutes: 2 }]);
+    });
+
+    it('leaves malformed structured answers for the repair step', async () => {
+        handler = (_, res) => json(res, 200, completion({ content: '{"items":[{"title":"A","minutes":1},' }));
+        const res = await provider().generate({ model: 'gpt-5.2-auto', prompt: 'Dàn ý', schema: OUTLINE });
+        expect(parseStructured(res.text, OUTLINE)).toEqual([{ title: 'A', minutes: 1 }]);
+    });
+
+    it('throws on a refusal', async () => {
+        handler = (_, res) => json(res, 200, completion({ content: null, refusal: 'Không thể giúp.' }));
+        await expect(provider().generate({ model: 'gpt-5.2-auto', prompt: 'x' })).rejects.toThrow('OpenAI từ chối yêu cầu: Không thể giúp.');
+    });
+
+    it.each([401, 429, 500])('maps HTTP %i to a ProviderError with that status', async (status) => {
+        handler = (_, res) => json(res, status, { error: { message: `lỗi ${status}` } });
+        const err = await provider().generate({ model: 'gpt-5.2-auto', prompt: 'x' }).catch(e => e);
+        expect(err).toBeInstanceOf(ProviderError);
+        expect(err).toMatchObject({ provider: 'openai', status, message: `OpenAI lỗi ${status}: lỗi ${status}` });
+    });
+
+    it('requires a key before calling the API', async () => {
+        await expect(createOpenAIProvider({ baseUrl }).generate({ model: 'gpt-5.2-auto', prompt: 'x' })).rejects.toThrow(ProviderError);
+        expect(received).toHaveLength(0);
+    });
+
+    describe('stream', () => {
+        const sse = (res: ServerResponse, events: string[]) => {
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            // Split mid-line so the reader has to buffer partial events.
+            const payload = events.map(e => `data: ${e}\n\n`).join('');
+            const cut = Math.floor(payload.length / 2);
+            res.write(payload.slice(0, cut));
+            setTimeout(() => res.end(payload.slice(cut)), 5);
+        };
+
+        it('reports the text as it grows and returns the usage', async () => {
+            handler = (_, res) => sse(res, [
+                JSON.stringify({ choices: [{ delta: { content: 'Xin ' } }] }),
+                JSON.stringify({ choices: [{ delta: { content: 'chào' } }] }),
+                JSON.stringify({ choices: [], usage: { prompt_tokens: 5, completion_tokens: 2 } }),
+                '[DONE]',
+            ]);
+            const seen: string[] = [];
+            const res = await provider().stream({ model: 'gpt-5.2-auto', prompt: 'x' }, text => seen.push(text));
+            expect(received[0].body).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+            expect(seen).toEqual(['Xin ', 'Xin chào']);
+            expect(res).toEqual({ provider: 'openai', model: 'gpt-5.2', text: 'Xin chào', usage: { inputTokens: 5, outputTokens: 2 } });
+        });
+
+        it('throws on an error or refusal event', async () => {
+            handler = (_, res) => sse(res, [JSON.stringify({ error: { message: 'quá tải' } })]);
+            await expect(provider().stream({ model: 'gpt-5.2-auto', prompt: 'x' }, () => {})).rejects.toThrow('OpenAI lỗi: quá tải');
+            handler = (_, res) => sse(res, [JSON.stringify({ choices: [{ delta: { refusal: 'Không.' } }] })]);
+            await expect(provider().stream({ model: 'gpt-5.2-auto', prompt: 'x' }, () => {})).rejects.toThrow('OpenAI từ chối yêu cầu: Không.');
+        });
+
+        it('falls back to a single request for structured output', async () => {
+            handler = (_, res) => json(res, 200, completion({ content: '{"items":[]}' }));
+            const res = await provider().stream({ model: 'gpt-5.2-auto', prompt: 'x', schema: OUTLINE }, () => {});
+            expect(received[0].body.stream).toBeUndefined();
+            expect(res.text).toBe('{"items":[]}');
+        });
+    });
+});
@@ -0,0 +1,142 @@
+import { LLMProvider, LLMRequest, LLMResponse, ProviderError, ProviderOptions, SchemaNode, TokenUsage } from './llmProvider';
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+
+// UI model ids -> Chat Completions model + reasoning effort.
+const OPENAI_MODELS: Record<string, { apiModel: string; reasoningEffort?: 'low' | 'medium' | 'high' }> = {
+    'gpt-5.2-auto': { apiModel: 'gpt-5.2' },
+    'gpt-5.2-instant': { apiModel: 'gpt-5.2-chat-latest' },
+    'gpt-5.2-thinking': { apiModel: 'gpt-5.2', reasoningEffort: 'high' },
+    'gpt-5.2-pro': { apiModel: 'gpt-5.2-pro' },
+};
+
+// Strict structured outputs require every property to be listed and no extras.
+const toJsonSchema = (node: SchemaNode): Record<string, unknown> => {
+    switch (node.type) {
+        case 'string':
+            return { type: 'string' };
+        case 'integer':
+            return { type: 'integer' };
+        case 'array':
+            return { type: 'array', items: toJsonSchema(node.items) };
+        case 'object':
+            return {
+                type: 'object',
+                properties: Object.fromEntries(Object.entries(node.properties).map(([k, v]) => [k, toJsonSchema(v)])),
+                required: Object.keys(node.properties),
+                additionalProperties: false,
+            };
+    }
+};
+
+// The response_format root must be an object, so top-level arrays are wrapped in { items }.
+const WRAP_KEY = 'items';
+
+const requestBody = (req: LLMRequest, apiModel: string, reasoningEffort?: string): Record<string, unknown> => {
+    const wrapped = req.schema?.type === 'array';
+    const schema = req.schema && (wrapped
+        ? { type: 'object', properties: { [WRAP_KEY]: toJsonSchema(req.schema) }, required: [WRAP_KEY], additionalProperties: false }
+        : toJsonSchema(req.schema));
+
+    const body: Record<string, unknown> = {
+        model: apiModel,
+        messages: [{
+            role: 'user',
+            content: req.images?.length
+                ? [{ type: 'text', text: req.prompt }, ...req.images.map(img => ({ type: 'image_url', image_url: { url: `data:${img.mimeType};base64,${img.data}` } }))]
+                : req.prompt,
+        }],
+    };
+    if (reasoningEffort) body.reasoning_effort = reasoningEffort;
+    if (schema) {
+        body.response_format = {
+            type: 'json_schema',
+            json_schema: { name: req.schemaName || 'result', strict: true, schema },
+        };
+    }
+    return body;
+};
+
+const postWithKey = async (options: ProviderOptions, apiKey: string | undefined, body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> => {
+    if (!apiKey) {
+        throw new ProviderError('openai', "Chưa có OpenAI API Key. Vui lòng nhập API Key trong phần Quản lý API & Model.");
+    }
+    const res = await fetch(`${options.baseUrl || DEFAULT_BASE_URL}/chat/completions`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify(body),
+        signal,
+    });
+    if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new ProviderError('openai', `OpenAI lỗi ${res.status}: ${data?.error?.message || res.statusText}`, res.status);
+    }
+    return res;
+};
+
+// Vault keys rotate on quota and auth errors; without them the single configured key is used.
+const postCompletion = (options: ProviderOptions, body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> =>
+    options.keys?.has('openai')
+        ? options.keys.use('openai', key => postWithKey(options, key, body, signal))
+        : postWithKey(options, options.apiKey, body, signal);
+
+const toUsage = (usage?: { prompt_tokens?: number; completion_tokens?: number } | null): TokenUsage | undefined =>
+    usage ? { inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 } : undefined;
+
+// Server-sent events: one `data: {json}` line per delta, ending with `data: [DONE]`.
+// With include_usage the last event before [DONE] has no choices, only the usage.
+const readDeltas = async (res: Response, onDelta: (delta: string) => void, onUsage: (usage: TokenUsage) => void) => {
+    const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = "";
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+            const payload = line.trim().replace(/^data:\s*/, '');
+            if (!line.trim().startsWith('data:') || payload === '[DONE]') continue;
+            const event = JSON.parse(payload);
+            if (event?.error) throw new ProviderError('openai', `OpenAI lỗi: ${event.error.message}`);
+            const delta = event?.choices?.[0]?.delta;
+            if (delta?.refusal) throw new ProviderError('openai', `OpenAI từ chối yêu cầu: ${delta.refusal}`);
+            if (delta?.content) onDelta(delta.content);
+            const usage = toUsage(event?.usage);
+            if (usage) onUsage(usage);
+        }
+    }
+};
+
+export const createOpenAIProvider = (options: ProviderOptions = {}): LLMProvider => ({
+    id: 'openai',
+    label: 'OpenAI',
+    async generate(req: LLMRequest): Promise<LLMResponse> {
+        const mapped = OPENAI_MODELS[req.model] ?? { apiModel: req.model };
+        const res = await postCompletion(options, requestBody(req, mapped.apiModel, mapped.reasoningEffort), req.signal);
+        const data = await res.json().catch(() => null);
+
+        const message = data?.choices?.[0]?.message;
+        if (message?.refusal) {
+            throw new ProviderError('openai', `OpenAI từ chối yêu cầu: ${message.refusal}`);
+        }
+        // A wrapped array comes back as { items: [...] }; parseStructured unwraps it, and repairs it if it is malformed.
+        const text: string = message?.content ?? "";
+        return { provider: 'openai', model: mapped.apiModel, text, usage: toUsage(data?.usage) };
+    },
+    async stream(req: LLMRequest, onText: (text: string) => void): Promise<LLMResponse> {
+        if (req.schema) return this.generate(req);
+        const mapped = OPENAI_MODELS[req.model] ?? { apiModel: req.model };
+        const res = await postCompletion(options, { ...requestBody(req, mapped.apiModel, mapped.reasoningEffort), stream: true, stream_options: { include_usage: true } }, req.signal);
+        let text = "";
+        let usage: TokenUsage | undefined;
+        await readDeltas(res, (delta) => {
+            text += delta;
+            onText(text);
+        }, (u) => { usage = u; });
+        return { provider: 'openai', model: mapped.apiModel, text, usage };
+    },
+});
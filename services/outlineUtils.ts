@@ -0,0 +1,34 @@
+import { OutlineItem, ScriptBlock } from '../types';
+
+export const DEFAULT_WEIGHT = 1;
+
+// Splits totalChars across chapters: explicit budgets are honoured first, the rest is shared by weight.
+export const allocateChars = (outline: OutlineItem[], totalChars: number): number[] => {
+    const fixed = outline.reduce((sum, o) => sum + (o.targetChars ?? 0), 0);
+    const remaining = Math.max(0, totalChars - fixed);
+    const totalWeight = outline.reduce((sum, o) => sum + (o.targetChars ? 0 : Math.max(0, o.weight ?? DEFAULT_WEIGHT)), 0);
+    return outline.map(o => {
+        if (o.targetChars) return o.targetChars;
+        if (totalWeight === 0) return 0;
+        return Math.round(remaining * Math.max(0, o.weight ?? DEFAULT_WEIGHT) / totalWeight);
+    });
+};
+
+// Takes an edited outline whose items still carry their previous `index` (-1 for new items),
+// renumbers it 0..n-1 and moves each script block along with its chapter. Blocks of removed chapters are dropped.
+export const syncOutline = (edited: OutlineItem[], blocks: ScriptBlock[]): { outline: OutlineItem[]; blocks: ScriptBlock[] } => {
+    const byOldIndex = new Map(blocks.map(b => [b.index - 1, b]));
+    const outline = edited.map((item, index) => ({ ...item, index }));
+    const nextBlocks = edited.flatMap((item, index) => {
+        const block = item.index >= 0 ? byOldIndex.get(item.index) : undefined;
+        return block ? [{ ...block, index: index + 1, chapter: item.title }] : [];
+    });
+    return { outline, blocks: nextBlocks };
+};
+
+export const moveItem = <T>(list: T[], from: number, to: number): T[] => {
+    const next = [...list];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    return next;
+};
@@ -0,0 +1,96 @@
+import { OutlineItem, PipelineStage, PipelineStamps, ScriptBlock, SEOResult } from '../types';
+import { currentText } from './scriptBlocks';
+
+export const PIPELINE_STAGES: PipelineStage[] = ['outline', 'script', 'seo', 'visuals'];
+
+// SEO reads the chapter titles and the script; visuals only need the chapter themes.
+export const STAGE_DEPENDENCIES: Record<PipelineStage, PipelineStage[]> = {
+    outline: [],
+    script: ['outline'],
+    seo: ['outline', 'script'],
+    visuals: ['outline'],
+};
+
+export interface PipelineArtifacts {
+    outline: OutlineItem[];
+    scriptBlocks: ScriptBlock[];
+    seo: SEOResult | null;
+    videoPrompts: string[];
+    thumbTextIdeas: string[];
+}
+
+export type StageStatus = 'missing' | 'stale' | 'fresh';
+
+// FNV-1a; only used to notice changes, not for security.
+export const fingerprint = (value: unknown): string => {
+    const text = JSON.stringify(value);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const chapterFingerprint = (item: OutlineItem) => fingerprint([item.kind, item.title, item.focus, item.actions]);
+
+// The script has one fingerprint per chapter so editing one chapter only makes that chapter stale.
+export const stageInputs = (stage: PipelineStage, a: PipelineArtifacts): string[] => {
+    switch (stage) {
+        case 'outline':
+            return [];
+        case 'script':
+            return a.outline.map(chapterFingerprint);
+        case 'seo':
+            return [fingerprint([a.outline.map(o => o.title), a.scriptBlocks.map(currentText)])];
+        case 'visuals':
+            return [fingerprint(a.outline.map(o => [o.title, o.focus]))];
+    }
+};
+
+const hasOutput = (stage: PipelineStage, a: PipelineArtifacts): boolean => {
+    switch (stage) {
+        case 'outline':
+            return a.outline.length > 0;
+        case 'script':
+            return a.outline.length > 0 && a.outline.every(o => a.scriptBlocks.some(b => b.index === o.index + 1));
+        case 'seo':
+            return a.seo !== null;
+        case 'visuals':
+            return a.videoPrompts.length > 0 || a.thumbTextIdeas.length > 0;
+    }
+};
+
+// Positions in stageInputs() whose fingerprint was not recorded when the stage last ran.
+export const staleInputs = (stage: PipelineStage, a: PipelineArtifacts, stamps: PipelineStamps): number[] => {
+    const recorded = new Set(stamps[stage] ?? []);
+    return stageInputs(stage, a).flatMap((input, i) => recorded.has(input) ? [] : [i]);
+};
+
+// A stage is stale when its own inputs changed or anything it depends on is not fresh.
+export const pipelineStatus = (a: PipelineArtifacts, stamps: PipelineStamps): Record<PipelineStage, StageStatus> => {
+    const status = {} as Record<PipelineStage, StageStatus>;
+    for (const stage of PIPELINE_STAGES) {
+        if (!hasOutput(stage, a)) status[stage] = 'missing';
+        else if (STAGE_DEPENDENCIES[stage].some(dep => status[dep] !== 'fresh') || staleInputs(stage, a, stamps).length) status[stage] = 'stale';
+        else status[stage] = 'fresh';
+    }
+    return status;
+};
+
+// Records the inputs a stage was just generated from. With `positions`, only those inputs are added,
+// e.g. the chapters written so far; fingerprints no longer among the current inputs are dropped.
+export const stampStage = (stamps: PipelineStamps, stage: PipelineStage, a: PipelineArtifacts, positions?: number[]): PipelineStamps => {
+    const inputs = stageInputs(stage, a);
+    if (!positions) return { ...stamps, [stage]: inputs };
+    const kept = (stamps[stage] ?? []).filter(s => inputs.includes(s));
+    const added = positions.map(i => inputs[i]).filter(s => s !== undefined);
+    return { ...stamps, [stage]: [...new Set([...kept, ...added])] };
+};
+
+// Treats whatever a project already has as up to date; used for projects saved before stamps existed.
+export const stampExisting = (a: PipelineArtifacts): PipelineStamps => {
+    const written = a.outline.flatMap((o, i) => a.scriptBlocks.some(b => b.index === o.index + 1) ? [i] : []);
+    const stamps = stampStage({}, 'script', a, written);
+    return (['seo', 'visuals'] as const).reduce((acc, stage) => hasOutput(stage, a) ? stampStage(acc, stage, a) : acc, stamps);
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { PROJECT_FILE_FORMAT, PROJECT_SCHEMA_VERSION, emptyProjectData, parseProjectFile, toProjectFile } from './projectFile';
+
+const file = (data: unknown, version = PROJECT_SCHEMA_VERSION) => JSON.stringify({ format: PROJECT_FILE_FORMAT, version, name: 'Dự án', data });
+
+describe('parseProjectFile', () => {
+    it('round-trips an exported project', () => {
+        const data = { ...emptyProjectData(), bookTitle: 'Sapiens', videoPrompts: ['a'] };
+        expect(parseProjectFile(JSON.stringify(toProjectFile('Sapiens', data)))).toEqual({ name: 'Sapiens', data });
+    });
+
+    it('fills fields missing from a current-version file with defaults', () => {
+        const { data } = parseProjectFile(file({ bookTitle: 'x' }));
+        expect(data).toEqual({ ...emptyProjectData(), bookTitle: 'x' });
+    });
+
+    it('migrates a partial old file to the current shape', () => {
+        const { data } = parseProjectFile(file({ bookTitle: 'x', scriptBlocks: [{ index: 1, chapter: 'A', text: 'Nội dung' }] }, 1));
+        expect(data.outline).toEqual([]);
+        expect(data.bookProfile).toBeNull();
+        expect(data.scriptBlocks[0].versions.map(v => v.text)).toEqual(['Nội dung']);
+    });
+
+    it('rejects fields of the wrong type', () => {
+        expect(() => parseProjectFile(file({ bookTitle: 'x', outline: null, seo: 'SEO', durationMin: '60' })))
+            .toThrow('sai kiểu ở durationMin, outline, seo');
+        expect(() => parseProjectFile(file({ scriptBlocks: [{ index: 1 }] }))).toThrow('scriptBlocks');
+        expect(() => parseProjectFile(file({ videoPrompts: [1] }))).toThrow('videoPrompts');
+    });
+
+    it('rejects data that is not an object', () => {
+        expect(() => parseProjectFile(file([]))).toThrow('Dữ liệu dự án không hợp lệ');
+        expect(() => parseProjectFile(file({}, PROJECT_SCHEMA_VERSION + 1))).toThrow('phiên bản mới hơn');
+    });
+});
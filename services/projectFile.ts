@@ -0,0 +1,160 @@
+import { BookProfile, ProjectData, ProjectFile } from '../types';
+import { PipelineArtifacts, stampExisting } from './pipeline';
+import { DEFAULT_NARRATION } from './narration';
+
+export const PROJECT_FILE_FORMAT = 'ai-content-creator-project';
+export const PROJECT_SCHEMA_VERSION = 15;
+
+export const emptyProjectData = (): ProjectData => ({
+    bookTitle: "",
+    bookImage: null,
+    bookMetadata: null,
+    bookProfile: null,
+    durationMin: 240,
+    chaptersCount: 12,
+    frameRatio: "9:16",
+    outputLanguage: 'vi',
+    promptPreset: 'audiobook',
+    narratorPreset: 'vi-normal',
+    speakingRate: { unit: 'chars', perMinute: 1000 },
+    includeIntro: true,
+    includeOutro: true,
+    outline: [],
+    scriptBlocks: [],
+    seo: null,
+    videoPrompts: [],
+    thumbTextIdeas: [],
+    sources: [],
+    pipelineStamps: {},
+    storyboard: null,
+    sceneSeconds: 60,
+    thumbnail: null,
+    shorts: [],
+    narration: DEFAULT_NARRATION,
+});
+
+// Project data at an older schema version; migrations only rely on the fields they touch.
+type StoredData = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is StoredData => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// migrations[n] upgrades data stored at schema version n to version n + 1.
+const migrations: Record<number, (data: StoredData) => StoredData> = {
+    // v0: bare state dumps saved before the file format was versioned.
+    0: (data) => ({ ...emptyProjectData(), ...data }),
+    // v1 -> v2: ScriptBlock.text became a version history.
+    1: (data) => ({
+        ...data,
+        scriptBlocks: (Array.isArray(data.scriptBlocks) ? data.scriptBlocks : []).filter(isRecord).map(({ text, ...block }) => ({
+            ...block,
+            versions: [{ text: typeof text === 'string' ? text : "", source: 'generated', createdAt: Date.now() }],
+        })),
+    }),
+    // v2 -> v3: dedicated intro/outro blocks. Older outlines already carry their own hook and CTA.
+    2: (data) => ({ ...data, includeIntro: false, includeOutro: false }),
+    // v3 -> v4: cover analysis.
+    3: (data) => ({ ...data, bookMetadata: null }),
+    // v4 -> v5: uploaded source documents.
+    4: (data) => ({ ...data, sources: [] }),
+    // v5 -> v6: speaking-rate duration model; 1000 chars/min was the old hard-coded rate.
+    5: (data) => ({ ...data, narratorPreset: 'vi-normal', speakingRate: { unit: 'chars', perMinute: 1000 } }),
+    // v6 -> v7: per-project output language; everything before was generated in Vietnamese.
+    6: (data) => ({ ...data, outputLanguage: 'vi' }),
+    // v7 -> v8: prompt template presets; the old hard-coded prompts are the 'audiobook' preset.
+    7: (data) => ({ ...data, promptPreset: 'audiobook' }),
+    // v8 -> v9: pipeline staleness; content that already exists is taken as up to date.
+    // Hand-made files may lack artifact fields; the defaults stand in for them.
+    8: (data) => ({ ...data, pipelineStamps: stampExisting({ ...emptyProjectData(), ...data } as unknown as PipelineArtifacts) }),
+    // v9 -> v10: chapter-aligned storyboard.
+    9: (data) => ({ ...data, storyboard: null, sceneSeconds: 60 }),
+    // v10 -> v11: thumbnail composer layout.
+    10: (data) => ({ ...data, thumbnail: null }),
+    // v11 -> v12: Shorts clips.
+    11: (data) => ({ ...data, shorts: [] }),
+    // v12 -> v13: voice-over settings; the audio itself lives in the project store.
+    12: (data) => ({ ...data, narration: DEFAULT_NARRATION }),
+    // v13 -> v14: book fact sheet.
+    13: (data) => ({ ...data, bookProfile: null }),
+    // v14 -> v15: the fact sheet records the title it was made for.
+    14: (data) => ({ ...data, bookProfile: isRecord(data.bookProfile) ? { ...data.bookProfile, bookTitle: data.bookTitle } : null }),
+};
+
+// Fields that hold a list of objects, or of strings; the app maps over every one of them on open.
+const RECORD_LISTS = ['outline', 'scriptBlocks', 'sources', 'shorts'];
+const TEXT_LISTS = ['videoPrompts', 'thumbTextIdeas'];
+
+// Names of fields whose value does not have the type of its default. Nullable fields default to null,
+// and all of them but the cover image hold an object.
+const malformedFields = (data: StoredData, defaults: StoredData): string[] => Object.keys(defaults).filter(field => {
+    const value = data[field];
+    const fallback = defaults[field];
+    if (RECORD_LISTS.includes(field)) return !Array.isArray(value) || !value.every(isRecord);
+    if (TEXT_LISTS.includes(field)) return !Array.isArray(value) || !value.every(v => typeof v === 'string');
+    if (fallback === null) return value !== null && !(field === 'bookImage' ? typeof value === 'string' : isRecord(value));
+    if (isRecord(fallback)) return !isRecord(value);
+    if (typeof fallback === 'number') return typeof value !== 'number' || !Number.isFinite(value);
+    return typeof value !== typeof fallback;
+});
+
+// Missing fields take their defaults; fields of the wrong type reject the data rather than break the editor.
+const completeProjectData = (data: StoredData): ProjectData => {
+    const defaults = emptyProjectData() as unknown as StoredData;
+    const complete = { ...defaults, ...data };
+    const malformed = malformedFields(complete, defaults);
+    const blocks = complete.scriptBlocks;
+    if (!malformed.includes('scriptBlocks') && Array.isArray(blocks) && blocks.some(b => !Array.isArray(b.versions))) {
+        malformed.push('scriptBlocks');
+    }
+    if (malformed.length) throw new Error(`Dữ liệu dự án không hợp lệ: sai kiểu ở ${malformed.join(', ')}.`);
+    return complete as unknown as ProjectData;
+};
+
+export const migrateProjectData = (data: unknown, fromVersion: number): ProjectData => {
+    if (fromVersion > PROJECT_SCHEMA_VERSION) {
+        throw new Error(`Tệp dự án được tạo bởi phiên bản mới hơn (v${fromVersion}). Vui lòng cập nhật ứng dụng.`);
+    }
+    if (!isRecord(data)) throw new Error("Dữ liệu dự án không hợp lệ.");
+    let current = data;
+    for (let v = fromVersion; v < PROJECT_SCHEMA_VERSION; v++) {
+        const migrate = migrations[v];
+        if (!migrate) throw new Error(`Không có bước chuyển đổi dữ liệu dự án từ v${v}.`);
+        current = migrate(current);
+    }
+    return completeProjectData(current);
+};
+
+// Case, spacing and Unicode form differences in the title still name the same book.
+export const bookKey = (bookTitle: string): string => bookTitle.normalize('NFC').trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const isProfileFor = (profile: BookProfile, bookTitle: string): boolean => bookKey(profile.bookTitle) === bookKey(bookTitle);
+
+export const toProjectFile = (name: string, data: ProjectData): ProjectFile => ({
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    name,
+    data,
+});
+
+export const parseProjectFile = (text: string): { name: string; data: ProjectData } => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new Error("Tệp dự án không phải JSON hợp lệ.");
+    }
+    if (!isRecord(raw)) {
+        throw new Error("Tệp dự án không hợp lệ.");
+    }
+    if (raw.format !== PROJECT_FILE_FORMAT) {
+        // Unversioned export: the object is the project data itself.
+        if (typeof raw.bookTitle !== 'string') throw new Error("Tệp không phải là dự án của AI Content Creator Tool.");
+        return { name: raw.bookTitle || "Dự án nhập", data: migrateProjectData(raw, 0) };
+    }
+    const version = Number(raw.version);
+    if (!Number.isInteger(version) || version < 0) {
+        throw new Error("Tệp dự án thiếu số phiên bản hợp lệ.");
+    }
+    const bookTitle = isRecord(raw.data) ? raw.data.bookTitle : undefined;
+    return { name: String(raw.name || bookTitle || "Dự án nhập"), data: migrateProjectData(raw.data, version) };
+};
@@ -0,0 +1,157 @@
+import { BookProfile, NarrationAudio, Project, ProjectData, UsageRecord } from '../types';
+import { PROJECT_SCHEMA_VERSION, bookKey, migrateProjectData } from './projectFile';
+import { CachedResponse } from './responseCache';
+
+const DB_NAME = "nd_content_creator";
+const DB_VERSION = 4;
+const STORE = "projects";
+// Chapter audio is kept out of the project record so that listing and exporting projects stays light.
+const AUDIO_STORE = "narration";
+const USAGE_STORE = "usage";
+const RESPONSE_STORE = "responses";
+// Book fact sheets, shared by every project about the same book.
+const PROFILE_STORE = "profiles";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(STORE)) {
+                    db.createObjectStore(STORE, { keyPath: "id" });
+                }
+                if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+                    db.createObjectStore(AUDIO_STORE, { keyPath: ["projectId", "block"] }).createIndex("projectId", "projectId");
+                }
+                if (!db.objectStoreNames.contains(USAGE_STORE)) {
+                    db.createObjectStore(USAGE_STORE, { keyPath: "id" });
+                }
+                if (!db.objectStoreNames.contains(RESPONSE_STORE)) {
+                    db.createObjectStore(RESPONSE_STORE, { keyPath: "key" });
+                }
+                if (!db.objectStoreNames.contains(PROFILE_STORE)) {
+                    db.createObjectStore(PROFILE_STORE, { keyPath: "key" });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>, storeName = STORE): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const request = op(db.transaction(storeName, mode).objectStore(storeName));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+// Records written by older builds are upgraded on read so the UI only ever sees the current shape.
+const upgrade = (project: Project): Project => {
+    if (project.schemaVersion === PROJECT_SCHEMA_VERSION) return project;
+    return { ...project, schemaVersion: PROJECT_SCHEMA_VERSION, data: migrateProjectData(project.data, project.schemaVersion ?? 0) };
+};
+
+const newId = () => crypto.randomUUID();
+
+export const listProjects = async (): Promise<Project[]> => {
+    const all = await run<Project[]>("readonly", store => store.getAll());
+    return all.map(upgrade).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = async (id: string): Promise<Project | null> => {
+    const project = await run<Project | undefined>("readonly", store => store.get(id));
+    return project ? upgrade(project) : null;
+};
+
+export const saveProject = async (project: Project): Promise<Project> => {
+    await run("readwrite", store => store.put(project));
+    return project;
+};
+
+export const createProject = (name: string, data: ProjectData): Promise<Project> => {
+    const now = Date.now();
+    return saveProject({ id: newId(), name, createdAt: now, updatedAt: now, schemaVersion: PROJECT_SCHEMA_VERSION, data });
+};
+
+export const updateProjectData = async (project: Project, data: ProjectData): Promise<Project> => {
+    return saveProject({ ...project, data, updatedAt: Date.now() });
+};
+
+export const renameProject = async (id: string, name: string): Promise<Project | null> => {
+    const project = await getProject(id);
+    if (!project) return null;
+    return saveProject({ ...project, name, updatedAt: Date.now() });
+};
+
+export const duplicateProject = async (id: string): Promise<Project | null> => {
+    const project = await getProject(id);
+    if (!project) return null;
+    return createProject(`${project.name} (bản sao)`, structuredClone(project.data));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+    await run("readwrite", store => store.delete(id));
+    await run("readwrite", store => store.delete(IDBKeyRange.bound([id], [id, []])), AUDIO_STORE);
+};
+
+export const listNarration = (projectId: string): Promise<NarrationAudio[]> =>
+    run<NarrationAudio[]>("readonly", store => store.index("projectId").getAll(projectId), AUDIO_STORE);
+
+export const saveNarration = async (audio: NarrationAudio): Promise<void> => {
+    await run("readwrite", store => store.put(audio), AUDIO_STORE);
+};
+
+// Usage outlives its project: deleting a project does not undo what it cost.
+export const addUsage = async (record: UsageRecord): Promise<void> => {
+    await run("readwrite", store => store.add(record), USAGE_STORE);
+};
+
+export const listUsage = (): Promise<UsageRecord[]> => run<UsageRecord[]>("readonly", store => store.getAll(), USAGE_STORE);
+
+export const clearUsage = async (): Promise<void> => {
+    await run("readwrite", store => store.clear(), USAGE_STORE);
+};
+
+export const getCachedResponse = (key: string): Promise<CachedResponse | undefined> =>
+    run<CachedResponse | undefined>("readonly", store => store.get(key), RESPONSE_STORE);
+
+export const putCachedResponse = async (response: CachedResponse): Promise<void> => {
+    await run("readwrite", store => store.put(response), RESPONSE_STORE);
+};
+
+export const countCachedResponses = (): Promise<number> => run<number>("readonly", store => store.count(), RESPONSE_STORE);
+
+export const clearResponseCache = async (): Promise<void> => {
+    await run("readwrite", store => store.clear(), RESPONSE_STORE);
+};
+
+interface StoredProfile {
+    key: string;
+    bookTitle: string;
+    profile: BookProfile;
+    updatedAt: number;
+}
+
+export const getBookProfile = async (bookTitle: string): Promise<BookProfile | null> => {
+    if (!bookKey(bookTitle)) return null;
+    const stored = await run<StoredProfile | undefined>("readonly", store => store.get(bookKey(bookTitle)), PROFILE_STORE);
+    // Sheets saved before they recorded their title belong to the title they were stored under.
+    return stored ? { ...stored.profile, bookTitle: stored.bookTitle } : null;
+};
+
+// Stored under the title the sheet was made for, whatever the project is called by now.
+export const saveBookProfile = async (profile: BookProfile): Promise<void> => {
+    if (!bookKey(profile.bookTitle)) return;
+    const stored: StoredProfile = { key: bookKey(profile.bookTitle), bookTitle: profile.bookTitle.trim(), profile, updatedAt: Date.now() };
+    await run("readwrite", store => store.put(stored), PROFILE_STORE);
+};
@@ -0,0 +1,219 @@
+import { PromptPreset, PromptTemplateId, PromptTemplates, TemplatePack } from '../types';
+
+// Values a template can reference as {{name}}. Generators fill the ones that apply to them.
+export interface TemplateVariables {
+    bookTitle: string;
+    durationMin: number;
+    chaptersCount: number;
+    frameRatio: string;
+    // Output language as prompts name it, e.g. "tiếng Việt".
+    language: string;
+    // The book's fact sheet; added after the template when the template does not place it itself.
+    bookProfile?: string;
+    // Outline: structure rule for dedicated intro/outro, cover hint and source overview (empty when not used).
+    structure?: string;
+    coverHint?: string;
+    sourceOverview?: string;
+    // Script: the chapter being written plus the generated rule, grounding and continuity sections.
+    chapterTitle?: string;
+    chapterFocus?: string;
+    chapterActions?: string[];
+    chapterKind?: string;
+    kindRule?: string;
+    targetChars?: number;
+    passages?: string;
+    context?: string;
+    instruction?: string;
+    // Thumbnails: duration as "4H00M".
+    durationLabel?: string;
+    // SEO: chapter titles with a summary of each written chapter. Visuals: chapter titles and focus.
+    // Both are empty when there is no outline yet.
+    contentOverview?: string;
+    chapterThemes?: string;
+}
+
+export type VariableName = keyof TemplateVariables;
+export type VariableType = 'string' | 'number' | 'list';
+
+export const VARIABLE_TYPES: Record<VariableName, VariableType> = {
+    bookTitle: 'string',
+    durationMin: 'number',
+    chaptersCount: 'number',
+    frameRatio: 'string',
+    language: 'string',
+    bookProfile: 'string',
+    structure: 'string',
+    coverHint: 'string',
+    sourceOverview: 'string',
+    chapterTitle: 'string',
+    chapterFocus: 'string',
+    chapterActions: 'list',
+    chapterKind: 'string',
+    kindRule: 'string',
+    targetChars: 'number',
+    passages: 'string',
+    context: 'string',
+    instruction: 'string',
+    durationLabel: 'string',
+    contentOverview: 'string',
+    chapterThemes: 'string',
+};
+
+const COMMON_VARIABLES: VariableName[] = ['bookTitle', 'durationMin', 'chaptersCount', 'frameRatio', 'language', 'bookProfile'];
+
+export const TEMPLATE_VARIABLES: Record<PromptTemplateId, VariableName[]> = {
+    outline: [...COMMON_VARIABLES, 'structure', 'coverHint', 'sourceOverview'],
+    seo: [...COMMON_VARIABLES, 'contentOverview'],
+    script: [...COMMON_VARIABLES, 'chapterTitle', 'chapterFocus', 'chapterActions', 'chapterKind', 'kindRule', 'targetChars', 'passages', 'context', 'instruction'],
+    videoPrompts: [...COMMON_VARIABLES, 'coverHint', 'chapterThemes'],
+    thumbIdeas: [...COMMON_VARIABLES, 'durationLabel', 'coverHint', 'chapterThemes'],
+};
+
+export const TEMPLATE_IDS = Object.keys(TEMPLATE_VARIABLES) as PromptTemplateId[];
+
+const PLACEHOLDER = /\{\{\s*([^{}]*?)\s*\}\}/g;
+
+export interface TemplateIssue {
+    template: PromptTemplateId;
+    message: string;
+}
+
+export class TemplateError extends Error {
+    issues: TemplateIssue[];
+
+    constructor(issues: TemplateIssue[]) {
+        super(issues.map(i => `[${i.template}] ${i.message}`).join(' '));
+        this.name = 'TemplateError';
+        this.issues = issues;
+    }
+}
+
+export const templateVariablesUsed = (text: string): string[] =>
+    [...new Set([...text.matchAll(PLACEHOLDER)].map(m => m[1]))];
+
+export const validateTemplate = (id: PromptTemplateId, text: string): TemplateIssue[] => {
+    const issues: TemplateIssue[] = [];
+    if (!text.trim()) issues.push({ template: id, message: 'Mẫu đang để trống.' });
+    const allowed = TEMPLATE_VARIABLES[id];
+    for (const name of templateVariablesUsed(text)) {
+        if (!allowed.includes(name as VariableName)) {
+            issues.push({ template: id, message: `Biến không hợp lệ {{${name}}}. Các biến dùng được: ${allowed.join(', ')}.` });
+        }
+    }
+    // Leftover braces usually mean a typo such as {bookTitle} or {{bookTitle}.
+    const stripped = text.replace(PLACEHOLDER, '');
+    if (/\{\{|\}\}/.test(stripped)) issues.push({ template: id, message: 'Có dấu {{ hoặc }} không khớp.' });
+    return issues;
+};
+
+export const validateTemplates = (templates: PromptTemplates): TemplateIssue[] =>
+    TEMPLATE_IDS.flatMap(id => validateTemplate(id, templates[id] ?? ''));
+
+const formatValue = (value: TemplateVariables[VariableName]): string =>
+    value === undefined ? '' : Array.isArray(value) ? value.join(', ') : String(value);
+
+// Throws TemplateError instead of sending a prompt with unresolved placeholders.
+export const renderTemplate = (id: PromptTemplateId, text: string, vars: Partial<TemplateVariables>): string => {
+    const issues = validateTemplate(id, text);
+    if (issues.length) throw new TemplateError(issues);
+    return text.replace(PLACEHOLDER, (_, name: VariableName) => formatValue(vars[name]));
+};
+
+// Fills variables a preview has no real value for with a visible marker.
+export const previewVariables = (id: PromptTemplateId, vars: Partial<TemplateVariables>): Partial<TemplateVariables> =>
+    Object.fromEntries(TEMPLATE_VARIABLES[id].map(name => [name, vars[name] ?? `‹${name}›`]));
+
+const AUDIOBOOK: PromptTemplates = {
+    outline: `Dựa trên tên sách "{{bookTitle}}", hãy tạo dàn ý kịch bản cho một video YouTube theo phong cách audiobook "nhân văn hóa" dài {{durationMin}} phút. Dàn ý cần có đúng {{chaptersCount}} chương nội dung chính. {{structure}} Với mỗi mục trong dàn ý, hãy cung cấp 'title' (tiêu đề), 'focus' (nội dung chính của phần đó), và một danh sách 3-4 'actions' (các điểm chính cần nói).{{coverHint}}{{sourceOverview}} Trả lời bằng {{language}}.`,
+    seo: `Tạo nội dung SEO cho một video YouTube về cuốn sách "{{bookTitle}}". Video này là một bài phân tích theo phong cách audiobook dài {{durationMin}} phút. Hãy cung cấp: 8 tiêu đề hấp dẫn, một danh sách các hashtag liên quan, một danh sách từ khóa, và một phần mô tả video hấp dẫn.{{contentOverview}} Trả lời bằng {{language}}.`,
+    script: `Bạn là một người viết kịch bản cho kênh YouTube nổi tiếng. Phong cách của bạn là một người dẫn chuyện tự nhiên, đàm thoại cho audiobook, kết hợp với góc nhìn cá nhân. Hãy viết kịch bản cho phần có tiêu đề "{{chapterTitle}}" trong một video về cuốn sách "{{bookTitle}}". {{kindRule}} Mục tiêu của phần này là: "{{chapterFocus}}". Các điểm chính cần nói là: {{chapterActions}}.{{passages}}{{context}}Kịch bản nên dài khoảng {{targetChars}} ký tự.{{instruction}} Viết bằng giọng văn tự nhiên, hấp dẫn, phù hợp để thu âm. Trả lời bằng {{language}}.`,
+    videoPrompts: `Generate 5 cinematic, photorealistic video prompts for background visuals in a YouTube video about the book "{{bookTitle}}". The prompts should be inspired by the book's main themes (e.g., if about stoicism, think calm nature, ancient architecture; if sci-fi, think cosmic visuals).{{coverHint}}{{chapterThemes}} Each prompt MUST be for the aspect ratio {{frameRatio}}. The style should be beautiful, subtle, and non-distracting. Do not include any text or logos. Respond with a JSON array of strings.`,
+    thumbIdeas: `Cho một video YouTube về cuốn sách "{{bookTitle}}", hãy đề xuất 5 ý tưởng văn bản ngắn gọn, có tác động mạnh cho thumbnail. Văn bản phải hấp dẫn và viết bằng {{language}}. Một ý tưởng phải bao gồm thời lượng: {{durationLabel}}.{{coverHint}}{{chapterThemes}}`,
+};
+
+export const BUILT_IN_PRESETS: PromptPreset[] = [
+    { id: 'audiobook', name: 'Audiobook nhân văn hóa', builtIn: true, templates: AUDIOBOOK },
+    {
+        id: 'summary10',
+        name: 'Tóm tắt 10 phút',
+        builtIn: true,
+        templates: {
+            outline: `Lập dàn ý cho một video YouTube tóm tắt nhanh cuốn sách "{{bookTitle}}" trong {{durationMin}} phút, gồm đúng {{chaptersCount}} ý lớn, mỗi ý là một bài học có thể áp dụng ngay. {{structure}} Với mỗi mục, cung cấp 'title' (tiêu đề ngắn, rõ ràng), 'focus' (bài học cốt lõi) và 3 'actions' (ý cần nói, kèm một ví dụ).{{coverHint}}{{sourceOverview}} Trả lời bằng {{language}}.`,
+            seo: `Tạo nội dung SEO cho video YouTube "tóm tắt sách trong {{durationMin}} phút" về cuốn "{{bookTitle}}". Cung cấp: 8 tiêu đề ngắn gọn nhấn mạnh việc tiết kiệm thời gian, danh sách hashtag, danh sách từ khóa và một phần mô tả có các bài học chính.{{contentOverview}} Trả lời bằng {{language}}.`,
+            script: `Bạn viết kịch bản cho một kênh YouTube tóm tắt sách nhịp nhanh. Viết phần "{{chapterTitle}}" của video tóm tắt cuốn "{{bookTitle}}". {{kindRule}} Bài học cốt lõi: "{{chapterFocus}}". Ý cần nói: {{chapterActions}}.{{passages}}{{context}}Câu ngắn, đi thẳng vào ý, không kể lể; dài khoảng {{targetChars}} ký tự.{{instruction}} Trả lời bằng {{language}}.`,
+            videoPrompts: AUDIOBOOK.videoPrompts,
+            thumbIdeas: `Đề xuất 5 câu chữ ngắn (tối đa 5 từ) cho thumbnail video tóm tắt cuốn sách "{{bookTitle}}" trong {{durationMin}} phút, nhấn mạnh lợi ích nhận được. Viết bằng {{language}}.{{coverHint}}{{chapterThemes}}`,
+        },
+    },
+    {
+        id: 'review',
+        name: 'Phê bình sách',
+        builtIn: true,
+        templates: {
+            outline: `Lập dàn ý cho một video YouTube phê bình cuốn sách "{{bookTitle}}" dài {{durationMin}} phút, đúng {{chaptersCount}} phần. Dàn ý phải đi qua: luận điểm chính của tác giả, điểm mạnh, điểm yếu hoặc chỗ gây tranh cãi, so sánh với sách cùng chủ đề và đánh giá cuối cùng. {{structure}} Với mỗi mục, cung cấp 'title', 'focus' và 3-4 'actions'.{{coverHint}}{{sourceOverview}} Trả lời bằng {{language}}.`,
+            seo: `Tạo nội dung SEO cho video phê bình sách "{{bookTitle}}" dài {{durationMin}} phút. Cung cấp: 8 tiêu đề thể hiện quan điểm rõ ràng (không giật tít sai sự thật), danh sách hashtag, danh sách từ khóa và phần mô tả nêu các luận điểm sẽ được đánh giá.{{contentOverview}} Trả lời bằng {{language}}.`,
+            script: `Bạn là một nhà phê bình sách có lập luận chặt chẽ và công bằng. Viết phần "{{chapterTitle}}" trong video phê bình cuốn "{{bookTitle}}". {{kindRule}} Nội dung phần này: "{{chapterFocus}}". Các ý cần phân tích: {{chapterActions}}.{{passages}}{{context}}Nêu rõ đâu là ý của tác giả, đâu là nhận định của người nói; có dẫn chứng cho mỗi nhận định. Dài khoảng {{targetChars}} ký tự.{{instruction}} Trả lời bằng {{language}}.`,
+            videoPrompts: AUDIOBOOK.videoPrompts,
+            thumbIdeas: `Đề xuất 5 câu chữ ngắn cho thumbnail video phê bình cuốn sách "{{bookTitle}}", thể hiện một nhận định rõ ràng hoặc một câu hỏi gây tò mò. Viết bằng {{language}}. Một ý tưởng phải bao gồm thời lượng: {{durationLabel}}.{{coverHint}}{{chapterThemes}}`,
+        },
+    },
+    {
+        id: 'kids',
+        name: 'Truyện thiếu nhi',
+        builtIn: true,
+        templates: {
+            outline: `Lập dàn ý để kể lại cuốn "{{bookTitle}}" cho trẻ em 6-10 tuổi nghe trong một video YouTube dài {{durationMin}} phút, đúng {{chaptersCount}} đoạn truyện. {{structure}} Mỗi đoạn có 'title' (tên đoạn truyện), 'focus' (chuyện gì xảy ra) và 3 'actions' (tình tiết chính, kèm một bài học nhẹ nhàng). Tránh nội dung đáng sợ hoặc không phù hợp với trẻ.{{coverHint}}{{sourceOverview}} Trả lời bằng {{language}}.`,
+            seo: `Tạo nội dung SEO cho video kể chuyện thiếu nhi "{{bookTitle}}" dài {{durationMin}} phút, hướng tới phụ huynh. Cung cấp: 8 tiêu đề ấm áp, danh sách hashtag, danh sách từ khóa và phần mô tả nêu độ tuổi phù hợp và bài học của truyện.{{contentOverview}} Trả lời bằng {{language}}.`,
+            script: `Bạn là người kể chuyện cho trẻ em với giọng ấm áp, vui tươi. Kể đoạn "{{chapterTitle}}" trong truyện "{{bookTitle}}". {{kindRule}} Chuyện xảy ra: "{{chapterFocus}}". Tình tiết cần kể: {{chapterActions}}.{{passages}}{{context}}Dùng câu ngắn, từ ngữ đơn giản, có lời thoại và âm thanh gợi tả; dài khoảng {{targetChars}} ký tự.{{instruction}} Trả lời bằng {{language}}.`,
+            videoPrompts: `Generate 5 soft, colourful storybook-style illustration prompts for background visuals in a children's story video about "{{bookTitle}}".{{coverHint}}{{chapterThemes}} Each prompt MUST be for the aspect ratio {{frameRatio}}. Friendly, warm, nothing scary. Do not include any text or logos. Respond with a JSON array of strings.`,
+            thumbIdeas: `Đề xuất 5 câu chữ ngắn, vui tươi cho thumbnail video kể truyện thiếu nhi "{{bookTitle}}". Viết bằng {{language}}.{{coverHint}}{{chapterThemes}}`,
+        },
+    },
+];
+
+export const DEFAULT_PRESET = BUILT_IN_PRESETS[0];
+
+export const findPromptPreset = (presets: PromptPreset[], id: string): PromptPreset =>
+    presets.find(p => p.id === id) ?? DEFAULT_PRESET;
+
+export const TEMPLATE_PACK_FORMAT = 'ai-content-creator-templates';
+const TEMPLATE_PACK_VERSION = 1;
+
+export const toTemplatePack = (presets: PromptPreset[]): TemplatePack => ({
+    format: TEMPLATE_PACK_FORMAT,
+    version: TEMPLATE_PACK_VERSION,
+    exportedAt: new Date().toISOString(),
+    presets: presets.map(({ builtIn: _, ...p }) => p),
+});
+
+// Imported presets become editable custom presets; every template must validate.
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+export const parseTemplatePack = (text: string): PromptPreset[] => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new Error("Tệp mẫu prompt không phải JSON hợp lệ.");
+    }
+    if (!isRecord(raw) || raw.format !== TEMPLATE_PACK_FORMAT || !Array.isArray(raw.presets)) {
+        throw new Error("Tệp không phải là gói mẫu prompt của AI Content Creator Tool.");
+    }
+    if (Number(raw.version) > TEMPLATE_PACK_VERSION) {
+        throw new Error(`Gói mẫu prompt được tạo bởi phiên bản mới hơn (v${raw.version}). Vui lòng cập nhật ứng dụng.`);
+    }
+    return raw.presets.map((p: unknown, position): PromptPreset => {
+        if (!isRecord(p) || (p.name !== undefined && typeof p.name !== 'string') || (p.templates !== undefined && !isRecord(p.templates))) {
+            throw new Error(`Mẫu thứ ${position + 1} trong gói không hợp lệ.`);
+        }
+        const name = (typeof p.name === 'string' && p.name.trim()) || 'Mẫu nhập';
+        const given = p.templates ?? {};
+        // Missing templates fall back to the audiobook preset; ones that are present must be text.
+        const malformed = TEMPLATE_IDS.filter(id => given[id] !== undefined && typeof given[id] !== 'string');
+        if (malformed.length) throw new Error(`Mẫu "${name}" có nội dung không phải văn bản: ${malformed.join(', ')}.`);
+        const templates = Object.fromEntries(TEMPLATE_IDS.map(id => [id, typeof given[id] === 'string' ? given[id] : AUDIOBOOK[id]])) as PromptTemplates;
+        const issues = validateTemplates(templates);
+        if (issues.length) throw new TemplateError(issues);
+        return { id: crypto.randomUUID(), name, templates };
+    });
+};
@@ -0,0 +1,20 @@
+import { sleep } from './jobRunner';
+
+export interface RateLimiter {
+    // Resolves when the caller may send its next request.
+    acquire: (signal?: AbortSignal) => Promise<void>;
+}
+
+// Spaces request starts evenly so that everything sharing the limiter stays under `perMinute`.
+export const createRateLimiter = (perMinute: number): RateLimiter => {
+    const interval = 60000 / Math.max(1, perMinute);
+    let next = 0;
+    return {
+        acquire: async (signal) => {
+            const now = Date.now();
+            const at = Math.max(now, next);
+            next = at + interval;
+            if (at > now) await sleep(at - now, signal);
+        },
+    };
+};
@@ -0,0 +1,39 @@
+import { CacheMode } from '../types';
+import { LLMRequest, LLMResponse } from './llmProvider';
+import { getCachedResponse, putCachedResponse } from './projectStore';
+
+export interface CachedResponse extends LLMResponse {
+    key: string;
+    createdAt: number;
+}
+
+export interface ResponseCache {
+    mode: Exclude<CacheMode, 'off'>;
+    // Undefined on a miss, and always in 'record' mode or while forcing a refresh.
+    lookup: (key: string) => Promise<LLMResponse | undefined>;
+    store: (key: string, response: LLMResponse) => Promise<void>;
+}
+
+const toHex = (buffer: ArrayBuffer) => [...new Uint8Array(buffer)].map(b => b.toString(16).padStart(2, '0')).join('');
+
+// SHA-256 of everything that shapes the answer: model, prompt, images and schema.
+export const requestKey = async (req: Pick<LLMRequest, 'model' | 'prompt' | 'images' | 'schema'>): Promise<string> => {
+    const text = JSON.stringify([req.model, req.prompt, req.images ?? [], req.schema ?? null]);
+    return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+};
+
+export const createResponseCache = (mode: CacheMode, forceRefresh: boolean): ResponseCache | undefined => {
+    if (mode === 'off') return undefined;
+    const skipReads = mode === 'record' || (mode === 'cache' && forceRefresh);
+    return {
+        mode,
+        lookup: async (key) => {
+            if (skipReads) return undefined;
+            const hit = await getCachedResponse(key);
+            return hit && { provider: hit.provider, model: hit.model, text: hit.text, usage: hit.usage };
+        },
+        store: async (key, response) => {
+            if (mode !== 'replay') await putCachedResponse({ ...response, key, createdAt: Date.now() });
+        },
+    };
+};
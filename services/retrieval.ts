@@ -0,0 +1,101 @@
+import { OutlineItem, SourceChunk, SourceDocument, SourceRef } from '../types';
+
+// Okapi BM25 over source chunks, computed entirely in the browser.
+const K1 = 1.5;
+const B = 0.75;
+
+export interface SourceIndex {
+    chunks: SourceChunk[];
+    docNames: Map<string, string>;
+    termFreqs: Map<string, number>[];
+    lengths: number[];
+    avgLength: number;
+    docFreq: Map<string, number>;
+}
+
+export interface RetrievedPassage extends SourceRef {
+    text: string;
+}
+
+export const tokenize = (text: string): string[] =>
+    text.normalize('NFC').toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(t => t.length > 1);
+
+export const buildSourceIndex = (docs: SourceDocument[]): SourceIndex => {
+    const chunks = docs.flatMap(d => d.chunks);
+    const termFreqs = chunks.map(chunk => {
+        const tf = new Map<string, number>();
+        for (const term of tokenize(chunk.text)) tf.set(term, (tf.get(term) ?? 0) + 1);
+        return tf;
+    });
+    const lengths = termFreqs.map(tf => [...tf.values()].reduce((a, b) => a + b, 0));
+    const docFreq = new Map<string, number>();
+    termFreqs.forEach(tf => tf.forEach((_, term) => docFreq.set(term, (docFreq.get(term) ?? 0) + 1)));
+    return {
+        chunks,
+        docNames: new Map(docs.map(d => [d.id, d.name])),
+        termFreqs,
+        lengths,
+        avgLength: lengths.reduce((a, b) => a + b, 0) / Math.max(1, lengths.length),
+        docFreq,
+    };
+};
+
+export const searchSources = (index: SourceIndex, query: string, limit = 4): RetrievedPassage[] => {
+    const n = index.chunks.length;
+    const terms = [...new Set(tokenize(query))];
+    if (!n || !terms.length) return [];
+
+    const scored = index.termFreqs.map((tf, i) => {
+        let score = 0;
+        for (const term of terms) {
+            const f = tf.get(term);
+            if (!f) continue;
+            const df = index.docFreq.get(term) ?? 0;
+            const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+            score += idf * (f * (K1 + 1)) / (f + K1 * (1 - B + B * index.lengths[i] / index.avgLength));
+        }
+        return { i, score };
+    });
+
+    return scored.filter(s => s.score > 0).sort((a, b) => b.score - a.score).slice(0, limit).map(({ i, score }) => {
+        const chunk = index.chunks[i];
+        return {
+            chunkId: chunk.id,
+            docName: index.docNames.get(chunk.docId) ?? '',
+            label: chunk.label,
+            score: Math.round(score * 100) / 100,
+            text: chunk.text,
+        };
+    });
+};
+
+export const passagesForOutlineItem = (index: SourceIndex, item: OutlineItem, limit = 4): RetrievedPassage[] =>
+    searchSources(index, [item.title, item.focus, ...item.actions].join(' '), limit);
+
+// Evenly spaced chunks across all sources, for steps that need the whole book rather than one topic.
+export const spreadPassages = (index: SourceIndex, limit = 8): RetrievedPassage[] => {
+    const n = index.chunks.length;
+    const picks = [...new Set(Array.from({ length: Math.min(limit, n) }, (_, i) => Math.floor(i * n / Math.min(limit, n))))];
+    return picks.map(i => {
+        const chunk = index.chunks[i];
+        return { chunkId: chunk.id, docName: index.docNames.get(chunk.docId) ?? '', label: chunk.label, score: 0, text: chunk.text };
+    });
+};
+
+// Before an outline exists there is nothing to query with, so the model gets the start of every section instead.
+export const sourceOverview = (docs: SourceDocument[], maxChars = 8000): string => {
+    const sections = docs.flatMap(d => {
+        const firsts = new Map<string, SourceChunk>();
+        d.chunks.forEach(c => { if (!firsts.has(c.label)) firsts.set(c.label, c); });
+        return [...firsts.values()].map(c => ({ doc: d.name, chunk: c }));
+    });
+    if (!sections.length) return '';
+    const perSection = Math.max(120, Math.floor(maxChars / sections.length));
+    let out = '';
+    for (const { doc, chunk } of sections) {
+        const line = `[${doc} · ${chunk.label}] ${chunk.text.slice(0, perSection)}\n`;
+        if (out.length + line.length > maxChars) break;
+        out += line;
+    }
+    return out;
+};
@@ -0,0 +1,99 @@
+import { ScriptBlock, ScriptVersion, ScriptVersionSource } from '../types';
+
+export const currentText = (block: ScriptBlock): string => block.versions[block.versions.length - 1]?.text ?? "";
+
+export const createBlock = (index: number, chapter: string, text: string, source: ScriptVersionSource = 'generated', instruction?: string): ScriptBlock => ({
+    index,
+    chapter,
+    versions: [{ text, source, createdAt: Date.now(), instruction }],
+    chars: text.length,
+});
+
+// Appends a version; unchanged text is not recorded twice.
+export const addVersion = (block: ScriptBlock, text: string, source: ScriptVersionSource, instruction?: string): ScriptBlock => {
+    if (text === currentText(block)) return block;
+    const version: ScriptVersion = { text, source, createdAt: Date.now(), instruction };
+    return { ...block, versions: [...block.versions, version], chars: text.length };
+};
+
+export const restoreVersion = (block: ScriptBlock, position: number): ScriptBlock => {
+    const version = block.versions[position];
+    return version ? addVersion(block, version.text, 'restored') : block;
+};
+
+export type DiffOp = { type: 'equal' | 'insert' | 'delete'; text: string };
+
+// Words and the whitespace after them stay together so the joined diff reproduces the text exactly.
+const tokenize = (text: string): string[] => text.match(/\S+\s*|\s+/g) ?? [];
+
+// Beyond this many edits the versions are effectively rewrites; showing them as a whole avoids a quadratic trace.
+const MAX_EDITS = 2000;
+
+// Word-level diff (Myers, O((N+M)·D)) from `before` to `after`.
+export const wordDiff = (before: string, after: string): DiffOp[] => {
+    const a = tokenize(before);
+    const b = tokenize(after);
+    const n = a.length;
+    const m = b.length;
+    const max = n + m;
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 2);
+    // trace[d] keeps only the diagonals -d-1..d+1 that the backtrack for round d can read.
+    const trace: Int32Array[] = [];
+    const at = (d: number, k: number) => trace[d][k + d + 1];
+
+    let found = n === 0 && m === 0;
+    for (let d = 0; d <= max && !found; d++) {
+        if (d > MAX_EDITS) {
+            return [
+                ...(before ? [{ type: 'delete' as const, text: before }] : []),
+                ...(after ? [{ type: 'insert' as const, text: after }] : []),
+            ];
+        }
+        trace.push(v.slice(offset - d - 1, offset + d + 2));
+        for (let k = -d; k <= d; k += 2) {
+            let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+                ? v[offset + k + 1]
+                : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                found = true;
+                break;
+            }
+        }
+    }
+
+    // Walk the trace backwards to recover the edit script.
+    const ops: DiffOp[] = [];
+    const push = (type: DiffOp['type'], text: string) => {
+        const last = ops[ops.length - 1];
+        if (last && last.type === type) last.text = text + last.text;
+        else ops.push({ type, text });
+    };
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+        const k = x - y;
+        const prevK = (k === -d || (k !== d && at(d, k - 1) < at(d, k + 1))) ? k + 1 : k - 1;
+        const prevX = d === 0 ? 0 : at(d, prevK);
+        const prevY = prevX - prevK;
+        while (x > prevX && y > prevY) {
+            push('equal', a[--x]);
+            y--;
+        }
+        if (d > 0) {
+            if (x === prevX) push('insert', b[--y]);
+            else push('delete', a[--x]);
+        }
+    }
+    while (x > 0 && y > 0) {
+        push('equal', a[--x]);
+        y--;
+    }
+    return ops.reverse();
+};
@@ -0,0 +1,56 @@
+import { ScriptBlock } from '../types';
+import { currentText } from './scriptBlocks';
+
+// Quoted, comma-separated, CRLF line ends and a BOM so Excel opens Vietnamese text correctly.
+export const toCsv = (rows: string[][]): string =>
+    "\uFEFF" + rows.map(row => row.map(v => `"${(v ?? "").replace(/"/g, '""')}"`).join(",")).join("\r\n");
+
+export const toTeleprompterMarkdown = (bookTitle: string, blocks: ScriptBlock[]): string => {
+    const body = blocks.map(b => `## ${b.index}. ${b.chapter}\n\n${currentText(b).trim()}\n`).join('\n');
+    return `# ${bookTitle || 'Kịch bản'}\n\n${body}`;
+};
+
+const escapeXml = (s: string) => s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Half-points: 36 = 18pt, 28 = 14pt, 24 = 12pt.
+const paragraph = (text: string, opts: { bold?: boolean; size?: number; pageBreakBefore?: boolean } = {}) => {
+    const pPr = opts.pageBreakBefore ? '<w:pPr><w:pageBreakBefore/><w:spacing w:after="240"/></w:pPr>' : '<w:pPr><w:spacing w:after="200" w:line="360" w:lineRule="auto"/></w:pPr>';
+    const rPr = `<w:rPr><w:rFonts w:ascii="Arial" w:hAnsi="Arial" w:cs="Arial"/>${opts.bold ? '<w:b/>' : ''}<w:sz w:val="${opts.size ?? 28}"/></w:rPr>`;
+    return `<w:p>${pPr}<w:r>${rPr}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r></w:p>`;
+};
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+// Minimal WordprocessingML package: one chapter per page, large type for voice-over reading.
+export const buildScriptDocx = async (bookTitle: string, blocks: ScriptBlock[]): Promise<Blob> => {
+    const { default: JSZip } = await import('jszip');
+    const body = [
+        paragraph(bookTitle || 'Kịch bản', { bold: true, size: 40 }),
+        ...blocks.flatMap(b => [
+            paragraph(`${b.index}. ${b.chapter}`, { bold: true, size: 34, pageBreakBefore: true }),
+            ...currentText(b).split(/\n\s*\n|\n/).map(p => p.trim()).filter(Boolean).map(p => paragraph(p)),
+        ]),
+    ].join('');
+    const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+    const zip = new JSZip();
+    zip.file('[Content_Types].xml', CONTENT_TYPES);
+    zip.file('_rels/.rels', ROOT_RELS);
+    zip.file('word/document.xml', document);
+    return zip.generateAsync({ type: 'blob', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+};
@@ -0,0 +1,189 @@
+import { BlockReview, MarkupFinding, MarkupKind, OutlineItem, QuotationFinding, ReadabilityStats, ReviewIssue, ScriptBlock, SourceChunk } from '../types';
+import { currentText } from './scriptBlocks';
+import { tokenize } from './retrieval';
+
+// Heuristic checks over finished blocks. Nothing here calls a model, so a review can be re-run after every fix.
+
+const LENGTH_TOLERANCE = 0.15;
+// Share of an action's words that must appear in the block for it to count as covered.
+const ACTION_COVERAGE = 0.6;
+// Verbatim matching works on word shingles; a run of overlapping hits at least QUOTE_MIN_WORDS long is reported.
+const SHINGLE_WORDS = 8;
+const QUOTE_MIN_WORDS = 30;
+const QUOTED_MIN_WORDS = 40;
+const LONG_SENTENCE_WORDS = 40;
+const MAX_AVG_SENTENCE_WORDS = 28;
+const MAX_LONG_SENTENCE_SHARE = 0.2;
+const SAMPLE_CHARS = 80;
+
+const HEADING = /^\s*#{1,6}\s/;
+const SEPARATOR = /^\s*(?:-{3,}|\*{3,}|_{3,}|={3,})\s*$/;
+const LIST = /^\s*(?:[-*•+]|\d+[.)])\s+/;
+const SPEAKER = /^\s*(?:\*\*)?(?:người dẫn(?: chuyện)?|người kể(?: chuyện)?|giọng đọc|dẫn chuyện|narrator|host|mc|voice[- ]?over)(?:\*\*)?\s*:\s*/i;
+const EMPHASIS = /\*\*|__|(?<![\p{L}\p{N}*])\*(?=\S)|(?<=\S)\*(?![\p{L}\p{N}*])/gu;
+const CUE = /\[[^\]\n]*\]|\((?=[^)\n]*(?:nhạc|music|pause|ngừng|dừng|sfx|âm thanh|sound|cười|laugh|chuyển cảnh|hiệu ứng|b-roll|cut))[^)\n]*\)/gi;
+const HTML = /<\/?[a-z][^>\n]*>/gi;
+
+const LINE_CHECKS: [MarkupKind, RegExp][] = [
+    ['heading', HEADING],
+    ['separator', SEPARATOR],
+    ['list', LIST],
+    ['speaker', SPEAKER],
+    ['emphasis', EMPHASIS],
+    ['cue', CUE],
+    ['html', HTML],
+];
+
+const sample = (line: string) => {
+    const trimmed = line.trim();
+    return trimmed.length > SAMPLE_CHARS ? `${trimmed.slice(0, SAMPLE_CHARS)}…` : trimmed;
+};
+
+export const findMarkup = (text: string): MarkupFinding[] =>
+    text.split('\n').flatMap((line, i) => LINE_CHECKS
+        // Global patterns keep lastIndex between test() calls; match() does not.
+        .filter(([, pattern]) => pattern.global ? !!line.match(pattern) : pattern.test(line))
+        .map(([kind]) => ({ kind, line: i + 1, sample: sample(line) })));
+
+// Removes what the narrator should not read: heading and separator lines go entirely, the rest keep their words.
+export const cleanScriptMarkup = (text: string): string => text
+    .split('\n')
+    .filter(line => !HEADING.test(line) && !SEPARATOR.test(line))
+    .map(line => line
+        .replace(HTML, '')
+        .replace(CUE, '')
+        .replace(SPEAKER, '')
+        .replace(LIST, '')
+        .replace(EMPHASIS, '')
+        .replace(/[ \t]{2,}/g, ' ')
+        .replace(/[ \t]+([.,!?;:…])/g, '$1')
+        .trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+export const actionCoverage = (actions: string[], text: string): { covered: string[]; missing: string[] } => {
+    const words = new Set(tokenize(text));
+    const covered: string[] = [];
+    const missing: string[] = [];
+    for (const action of actions) {
+        const terms = tokenize(action);
+        const found = terms.filter(term => words.has(term)).length;
+        (!terms.length || found / terms.length >= ACTION_COVERAGE ? covered : missing).push(action);
+    }
+    return { covered, missing };
+};
+
+export const readabilityStats = (text: string): ReadabilityStats => {
+    const counts = text.split(/(?<=[.!?…])\s+|\n+/)
+        .map(s => s.trim().split(/\s+/).filter(w => /[\p{L}\p{N}]/u.test(w)).length)
+        .filter(n => n > 0);
+    const words = counts.reduce((a, b) => a + b, 0);
+    return {
+        sentences: counts.length,
+        words,
+        avgSentenceWords: counts.length ? words / counts.length : 0,
+        longestSentenceWords: Math.max(0, ...counts),
+        longSentences: counts.filter(n => n > LONG_SENTENCE_WORDS).length,
+    };
+};
+
+interface Word {
+    term: string;
+    start: number;
+    end: number;
+}
+
+const words = (text: string): Word[] =>
+    [...text.normalize('NFC').matchAll(/[\p{L}\p{N}]+/gu)].map(m => ({ term: m[0].toLowerCase(), start: m.index!, end: m.index! + m[0].length }));
+
+// Shingle → position of the first chunk it appears in.
+export type QuoteIndex = { shingles: Map<string, number>; chunks: SourceChunk[]; docNames: Map<string, string> };
+
+export const buildQuoteIndex = (chunks: SourceChunk[], docNames: Map<string, string>): QuoteIndex => {
+    const shingles = new Map<string, number>();
+    chunks.forEach((chunk, position) => {
+        const terms = words(chunk.text).map(w => w.term);
+        for (let i = 0; i + SHINGLE_WORDS <= terms.length; i++) {
+            const key = terms.slice(i, i + SHINGLE_WORDS).join(' ');
+            if (!shingles.has(key)) shingles.set(key, position);
+        }
+    });
+    return { shingles, chunks, docNames };
+};
+
+export const findQuotations = (text: string, index?: QuoteIndex): QuotationFinding[] => {
+    const normalized = text.normalize('NFC');
+    const list = words(normalized);
+    const spans: { start: number; end: number; finding: QuotationFinding }[] = [];
+
+    if (index?.shingles.size) {
+        const key = (at: number) => list.slice(at, at + SHINGLE_WORDS).map(w => w.term).join(' ');
+        let i = 0;
+        while (i + SHINGLE_WORDS <= list.length) {
+            const chunk = index.shingles.get(key(i));
+            if (chunk === undefined) {
+                i++;
+                continue;
+            }
+            let end = i + 1;
+            while (end + SHINGLE_WORDS <= list.length && index.shingles.has(key(end))) end++;
+            const count = end - i + SHINGLE_WORDS - 1;
+            if (count >= QUOTE_MIN_WORDS) {
+                const start = list[i].start;
+                const stop = list[end + SHINGLE_WORDS - 2].end;
+                const source = index.chunks[chunk];
+                spans.push({ start, end: stop, finding: {
+                    text: normalized.slice(start, stop),
+                    words: count,
+                    source: { docName: index.docNames.get(source.docId) ?? '', label: source.label },
+                } });
+            }
+            i = end;
+        }
+    }
+
+    // Without a source to compare against, long passages in quotation marks are the best signal we have.
+    for (const m of normalized.matchAll(/[“"«„]([^”"»“\n]+)[”"»]/g)) {
+        const start = m.index!;
+        const stop = start + m[0].length;
+        const count = words(m[1]).length;
+        if (count < QUOTED_MIN_WORDS || spans.some(s => s.start < stop && start < s.end)) continue;
+        spans.push({ start, end: stop, finding: { text: m[1].trim(), words: count } });
+    }
+    return spans.sort((a, b) => a.start - b.start).map(s => s.finding);
+};
+
+export const reviewBlock = (block: ScriptBlock, item: OutlineItem | undefined, targetChars: number, index?: QuoteIndex): BlockReview => {
+    const text = currentText(block);
+    const lengthDeviation = targetChars > 0 ? (text.length - targetChars) / targetChars : 0;
+    const { covered, missing } = actionCoverage(item?.actions ?? [], text);
+    const markup = findMarkup(text);
+    const quotations = findQuotations(text, index);
+    const readability = readabilityStats(text);
+
+    const issues: ReviewIssue[] = [];
+    if (Math.abs(lengthDeviation) > LENGTH_TOLERANCE) issues.push('length');
+    if (missing.length) issues.push('actions');
+    if (markup.length) issues.push('markup');
+    if (quotations.length) issues.push('quotation');
+    if (readability.avgSentenceWords > MAX_AVG_SENTENCE_WORDS || readability.longSentences > readability.sentences * MAX_LONG_SENTENCE_SHARE) issues.push('readability');
+
+    return {
+        index: block.index,
+        chapter: block.chapter,
+        chars: text.length,
+        targetChars,
+        lengthDeviation,
+        coveredActions: covered,
+        missingActions: missing,
+        markup,
+        quotations,
+        readability,
+        issues,
+    };
+};
+
+// chapterChars and outline are positional: block N belongs to outline[N - 1].
+export const reviewScript = (blocks: ScriptBlock[], outline: OutlineItem[], chapterChars: number[], index?: QuoteIndex): BlockReview[] =>
+    blocks.map(b => reviewBlock(b, outline[b.index - 1], chapterChars[b.index - 1] ?? 0, index));
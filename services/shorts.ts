@@ -0,0 +1,71 @@
+import { ShortClip } from '../types';
+import { normalizeHashtag } from './youtubeSeo';
+
+// Shorts/Reels mined from the finished script: each clip is a rewritten, self-contained moment of one chapter.
+
+export const SHORT_MIN_SECONDS = 30;
+export const SHORT_MAX_SECONDS = 60;
+export const HOOK_SECONDS = 3;
+// Moments asked for per chapter; clips from all chapters are then ranked together.
+export const SHORTS_PER_CHAPTER = 2;
+
+export interface ShortBudget {
+    minChars: number;
+    maxChars: number;
+    hookChars: number;
+}
+
+export const shortBudget = (charsPerMinute: number): ShortBudget => ({
+    minChars: Math.round(charsPerMinute * SHORT_MIN_SECONDS / 60),
+    maxChars: Math.round(charsPerMinute * SHORT_MAX_SECONDS / 60),
+    hookChars: Math.round(charsPerMinute * HOOK_SECONDS / 60),
+});
+
+// What the narrator reads, in order.
+export const shortText = (clip: Pick<ShortClip, 'hook' | 'body' | 'cta'>): string =>
+    [clip.hook, clip.body, clip.cta].map(s => s.trim()).filter(Boolean).join(' ');
+
+export const shortSeconds = (clip: Pick<ShortClip, 'hook' | 'body' | 'cta'>, charsPerMinute: number): number =>
+    shortText(clip).length / Math.max(1, charsPerMinute) * 60;
+
+// Best first; ties keep script order.
+export const rankShorts = (clips: ShortClip[]): ShortClip[] =>
+    [...clips].sort((a, b) => b.score - a.score || a.block - b.block || a.sentenceStart - b.sentenceStart);
+
+// `start` and `end` are 1-based and inclusive, as numbered in the prompt.
+export const sentenceRange = (sentences: string[], start: number, end: number): string =>
+    sentences.slice(Math.max(0, start - 1), Math.max(0, end)).join(' ');
+
+export interface ShortHeadings {
+    source: string;
+    sentences: string;
+    hook: string;
+    body: string;
+    cta: string;
+    hashtags: string;
+    visual: string;
+    rationale: string;
+}
+
+// One clip as a self-contained brief: the script to record, metadata to upload and where in the long video it came from.
+export const toShortMarkdown = (clip: ShortClip, headings: ShortHeadings): string => [
+    `# ${clip.title}`,
+    `${headings.source}: ${clip.block}. ${clip.chapter} (${headings.sentences} ${clip.sentenceStart}–${clip.sentenceEnd})`,
+    `## ${headings.hook}\n\n${clip.hook.trim()}`,
+    `## ${headings.body}\n\n${clip.body.trim()}`,
+    `## ${headings.cta}\n\n${clip.cta.trim()}`,
+    `## ${headings.hashtags}\n\n${clip.hashtags.map(normalizeHashtag).filter(Boolean).join(' ')}`,
+    `## ${headings.visual}\n\n${clip.visualPrompt.trim()}`,
+    `## ${headings.rationale}\n\n${clip.score}/10 — ${clip.rationale.trim()}`,
+    `> ${clip.sourceExcerpt.trim()}`,
+].join('\n\n') + '\n';
+
+export const SHORTS_FILE_FORMAT = 'ai-content-creator-shorts';
+
+export const toShortsJson = (bookTitle: string, clips: ShortClip[], charsPerMinute: number): string =>
+    JSON.stringify({
+        format: SHORTS_FILE_FORMAT,
+        version: 1,
+        bookTitle,
+        clips: clips.map(clip => ({ ...clip, script: shortText(clip), seconds: Math.round(shortSeconds(clip, charsPerMinute)) })),
+    }, null, 2);
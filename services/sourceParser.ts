@@ -0,0 +1,132 @@
+import { SourceChunk, SourceDocument, SourceKind } from '../types';
+
+interface Section {
+    label: string;
+    text: string;
+}
+
+const CHUNK_CHARS = 1200;
+
+const kindOf = (file: File): SourceKind | null => {
+    const ext = file.name.toLowerCase().split('.').pop();
+    if (ext === 'txt') return 'txt';
+    if (ext === 'md' || ext === 'markdown') return 'md';
+    if (ext === 'epub') return 'epub';
+    if (ext === 'pdf') return 'pdf';
+    return null;
+};
+
+const HEADING_LINE = /^\s*(chương|chapter|phần|part)\s+[\divxlc]+\b.*$/i;
+
+const splitByHeadings = (text: string, isHeading: (line: string) => string | null, fallbackLabel: string): Section[] => {
+    const sections: Section[] = [];
+    let current: Section = { label: fallbackLabel, text: '' };
+    for (const line of text.split(/\r?\n/)) {
+        const heading = isHeading(line);
+        if (heading) {
+            if (current.text.trim()) sections.push(current);
+            current = { label: heading, text: '' };
+        } else {
+            current.text += line + '\n';
+        }
+    }
+    if (current.text.trim()) sections.push(current);
+    return sections;
+};
+
+const parseMarkdown = (text: string): Section[] =>
+    splitByHeadings(text, line => line.match(/^#{1,3}\s+(.+)$/)?.[1].trim() ?? null, 'Mở đầu');
+
+const parsePlainText = (text: string): Section[] =>
+    splitByHeadings(text, line => HEADING_LINE.test(line) ? line.trim() : null, 'Mở đầu');
+
+const BLOCK_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, li, blockquote, pre';
+
+const xhtmlToSection = (markup: string, fallbackLabel: string): Section => {
+    const doc = new DOMParser().parseFromString(markup, 'text/html');
+    const heading = doc.querySelector('h1, h2, h3')?.textContent?.trim() || doc.querySelector('title')?.textContent?.trim();
+    const blocks = Array.from(doc.body?.querySelectorAll(BLOCK_SELECTOR) ?? []).map(el => el.textContent?.trim() ?? '').filter(Boolean);
+    const text = blocks.length ? blocks.join('\n\n') : (doc.body?.textContent ?? '');
+    return { label: heading || fallbackLabel, text };
+};
+
+const parseEpub = async (file: File): Promise<Section[]> => {
+    const { default: JSZip } = await import('jszip');
+    const zip = await JSZip.loadAsync(await file.arrayBuffer());
+    const readText = async (path: string) => {
+        const entry = zip.file(path);
+        if (!entry) throw new Error(`EPUB thiếu tệp ${path}.`);
+        return entry.async('string');
+    };
+
+    const container = new DOMParser().parseFromString(await readText('META-INF/container.xml'), 'application/xml');
+    const opfPath = container.querySelector('rootfile')?.getAttribute('full-path');
+    if (!opfPath) throw new Error("EPUB không có rootfile.");
+    const baseDir = opfPath.includes('/') ? opfPath.slice(0, opfPath.lastIndexOf('/') + 1) : '';
+
+    const opf = new DOMParser().parseFromString(await readText(opfPath), 'application/xml');
+    const manifest = new Map(Array.from(opf.querySelectorAll('manifest > item')).map(item => [item.getAttribute('id'), item.getAttribute('href')]));
+    const spine = Array.from(opf.querySelectorAll('spine > itemref')).map(ref => manifest.get(ref.getAttribute('idref')));
+
+    const sections: Section[] = [];
+    for (const [i, href] of spine.entries()) {
+        if (!href) continue;
+        const section = xhtmlToSection(await readText(decodeURIComponent(baseDir + href)), `Phần ${i + 1}`);
+        if (section.text.trim()) sections.push(section);
+    }
+    return sections;
+};
+
+const parsePdf = async (file: File): Promise<Section[]> => {
+    const pdfjs = await import('pdfjs-dist');
+    const { default: workerSrc } = await import('pdfjs-dist/build/pdf.worker.min.mjs?url');
+    pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+    const sections: Section[] = [];
+    for (let pageNo = 1; pageNo <= pdf.numPages; pageNo++) {
+        const page = await pdf.getPage(pageNo);
+        const content = await page.getTextContent();
+        const text = content.items.map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : '') : '').join('');
+        if (text.trim()) sections.push({ label: `trang ${pageNo}`, text });
+    }
+    await pdf.destroy();
+    return sections;
+};
+
+// Splits on paragraph boundaries, falling back to sentences for paragraphs longer than a chunk.
+const chunkSection = (section: Section): string[] => {
+    const pieces = section.text.split(/\n\s*\n/).map(p => p.replace(/\s+/g, ' ').trim()).filter(Boolean)
+        .flatMap(p => p.length <= CHUNK_CHARS ? [p] : p.match(/[^.!?…]+[.!?…]+["”’)]*\s*|[^.!?…]+$/g) ?? [p]);
+    const chunks: string[] = [];
+    let current = '';
+    for (const piece of pieces) {
+        if (current && current.length + piece.length > CHUNK_CHARS) {
+            chunks.push(current.trim());
+            current = '';
+        }
+        current += (current ? ' ' : '') + piece;
+    }
+    if (current.trim()) chunks.push(current.trim());
+    return chunks;
+};
+
+export const SUPPORTED_SOURCE_TYPES = '.txt,.md,.markdown,.epub,.pdf';
+
+export const parseSourceFile = async (file: File): Promise<SourceDocument> => {
+    const kind = kindOf(file);
+    if (!kind) throw new Error(`Không hỗ trợ định dạng tệp "${file.name}". Hãy dùng TXT, Markdown, EPUB hoặc PDF.`);
+
+    const sections = kind === 'epub' ? await parseEpub(file)
+        : kind === 'pdf' ? await parsePdf(file)
+        : kind === 'md' ? parseMarkdown(await file.text())
+        : parsePlainText(await file.text());
+
+    const id = crypto.randomUUID();
+    const chunks: SourceChunk[] = sections.flatMap(section => chunkSection(section).map(text => ({ label: section.label, text })))
+        .map((chunk, n) => ({ ...chunk, id: `${id}:${n}`, docId: id }));
+    if (!chunks.length) {
+        throw new Error(`Không đọc được nội dung văn bản từ "${file.name}". PDF dạng ảnh quét cần được OCR trước.`);
+    }
+    return { id, name: file.name, kind, chars: chunks.reduce((sum, c) => sum + c.text.length, 0), chunks };
+};
@@ -0,0 +1,94 @@
+import { Storyboard, StoryboardScene } from '../types';
+import { splitSentences } from './subtitles';
+
+// Pure scene planning and exports. Scene times follow the same per-chapter durations as the chapter timestamps.
+
+export const DEFAULT_SCENE_SECONDS = 60;
+export const MIN_SCENE_SECONDS = 10;
+export const MAX_SCENE_SECONDS = 300;
+
+export interface TimedBlock {
+    // ScriptBlock.index
+    index: number;
+    chapter: string;
+    text: string;
+    seconds: number;
+}
+
+// A scene before the model has described it.
+export type ScenePlan = Pick<StoryboardScene, 'block' | 'chapter' | 'start' | 'end' | 'excerpt'>;
+
+// Splits each chapter into runs of whole sentences lasting about `sceneSeconds`; scenes never cross chapters.
+// Time inside a chapter is spread by character count.
+export const planScenes = (blocks: TimedBlock[], sceneSeconds: number): ScenePlan[] => {
+    const scenes: ScenePlan[] = [];
+    let clock = 0;
+    for (const block of blocks) {
+        const sentences = splitSentences(block.text);
+        const chars = sentences.reduce((sum, s) => sum + s.length, 0);
+        const secondsPerChar = chars ? block.seconds / chars : 0;
+        const own: ScenePlan[] = [];
+        let current: string[] = [];
+        let start = clock;
+        let length = 0;
+        const close = () => {
+            own.push({ block: block.index, chapter: block.chapter, start, end: start + length, excerpt: current.join(' ') });
+            start += length;
+            current = [];
+            length = 0;
+        };
+        for (const sentence of sentences) {
+            current.push(sentence);
+            length += sentence.length * secondsPerChar;
+            if (length >= sceneSeconds) close();
+        }
+        if (current.length) {
+            // A short remainder is folded into the chapter's previous scene.
+            const last = own[own.length - 1];
+            if (last && length < sceneSeconds / 2) {
+                last.end += length;
+                last.excerpt = `${last.excerpt} ${current.join(' ')}`;
+            } else {
+                close();
+            }
+        }
+        scenes.push(...own);
+        clock += block.seconds;
+    }
+    return scenes;
+};
+
+// HH:MM:SS:FF at a whole frame rate (non-drop frame).
+export const toTimecode = (seconds: number, fps: number): string => {
+    const frames = Math.max(0, Math.round(seconds * fps));
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const totalSeconds = Math.floor(frames / fps);
+    return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}:${pad(frames % fps)}`;
+};
+
+export const STORYBOARD_FILE_FORMAT = 'ai-content-creator-storyboard';
+
+export const toStoryboardJson = (bookTitle: string, storyboard: Storyboard): string =>
+    JSON.stringify({ format: STORYBOARD_FILE_FORMAT, version: 1, bookTitle, ...storyboard }, null, 2);
+
+export const sceneClipName = (position: number) => `scene_${String(position + 1).padStart(3, '0')}`;
+
+const oneLine = (text: string, max: number) => {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+};
+
+// CMX 3600 edit decision list: one video event per scene on a continuous timeline, with the clip name
+// and prompt as comments so editors can relink generated clips by name.
+export const toEdl = (title: string, storyboard: Storyboard, fps = 30): string => {
+    const events = storyboard.scenes.map((scene, i) => {
+        const duration = scene.end - scene.start;
+        const number = String(i + 1).padStart(3, '0');
+        return [
+            `${number}  AX       V     C        ${toTimecode(0, fps)} ${toTimecode(duration, fps)} ${toTimecode(scene.start, fps)} ${toTimecode(scene.end, fps)}`,
+            `* FROM CLIP NAME: ${sceneClipName(i)}.mp4`,
+            `* COMMENT: ${oneLine(`${scene.chapter} | ${scene.prompt}`, 200)}`,
+        ].join('\n');
+    });
+    return `TITLE: ${oneLine(title, 70)}\nFCM: NON-DROP FRAME\n\n${events.join('\n\n')}\n`;
+};
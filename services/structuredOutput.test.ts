@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { SchemaNode } from './llmProvider';
+import { StructuredOutputError, closeTruncated, parseStructured, repairJson } from './structuredOutput';
+
+const ITEMS: SchemaNode = {
+    type: 'array',
+    items: { type: 'object', properties: { title: { type: 'string' }, minutes: { type: 'integer' } }, required: ['title', 'minutes'] },
+};
+
+describe('closeTruncated', () => {
+    it('leaves complete documents alone', () => {
+        expect(closeTruncated('{"a":[1,2]}')).toBe('{"a":[1,2]}');
+    });
+
+    it('cuts back to the last complete element and closes brackets', () => {
+        expect(closeTruncated('[{"a":1},{"a":2},{"a":')).toBe('[{"a":1},{"a":2}]');
+        expect(closeTruncated('{"list":[1,2,3')).toBe('{"list":[1,2]}');
+    });
+
+    it('ignores brackets and commas inside strings', () => {
+        expect(closeTruncated('[{"a":"x, ]}"},{"a":"y')).toBe('[{"a":"x, ]}"}]');
+        expect(closeTruncated('[{"a":"say \\"hi\\", ok"},{"a":"')).toBe('[{"a":"say \\"hi\\", ok"}]');
+    });
+});
+
+describe('repairJson', () => {
+    it('strips code fences and surrounding prose', () => {
+        expect(repairJson('Đây là kết quả:\n```json\n[1, 2]\n```\nHết.')).toEqual({ text: '[1, 2]', truncated: false });
+        expect(repairJson('Kết quả: {"a": 1} — xong')).toEqual({ text: '{"a": 1}', truncated: false });
+    });
+
+    it('removes trailing commas', () => {
+        expect(JSON.parse(repairJson('{"a": [1, 2,], "b": 3,}').text)).toEqual({ a: [1, 2], b: 3 });
+    });
+
+    it('keeps commas before brackets inside strings', () => {
+        expect(JSON.parse(repairJson('{"a": "x,]", "b": "y, }",}').text)).toEqual({ a: 'x,]', b: 'y, }' });
+    });
+
+    it('closes truncated output', () => {
+        const repaired = repairJson('```json\n[{"a": 1}, {"a": 2}, {"a"');
+        expect(repaired.truncated).toBe(true);
+        expect(JSON.parse(repaired.text)).toEqual([{ a: 1 }, { a: 2 }]);
+    });
+});
+
+describe('parseStructured', () => {
+    it('returns valid answers unchanged', () => {
+        expect(parseStructured('[{"title":"A","minutes":3}]', ITEMS)).toEqual([{ title: 'A', minutes: 3 }]);
+    });
+
+    it('unwraps a root array wrapped in an object', () => {
+        expect(parseStructured('{"items":[{"title":"A","minutes":3}]}', ITEMS)).toEqual([{ title: 'A', minutes: 3 }]);
+    });
+
+    it('wraps a bare array answered for a one-field object', () => {
+        const schema: SchemaNode = { type: 'object', properties: { ideas: { type: 'array', items: { type: 'string' } } }, required: ['ideas'] };
+        expect(parseStructured('["a","b"]', schema)).toEqual({ ideas: ['a', 'b'] });
+        const twoFields: SchemaNode = { type: 'object', properties: { ideas: schema.properties.ideas, note: { type: 'string' } }, required: ['ideas'] };
+        expect(() => parseStructured('["a"]', twoFields)).toThrow(StructuredOutputError);
+    });
+
+    it('repairs a malformed wrapped array', () => {
+        expect(parseStructured('{"items":[{"title":"A, B]","minutes":3},]}', ITEMS)).toEqual([{ title: 'A, B]', minutes: 3 }]);
+    });
+
+    it('drops the element cut off by truncation', () => {
+        expect(parseStructured('[{"title":"A","minutes":3},{"title":"B","minutes":4},{"title":"C"', ITEMS))
+            .toEqual([{ title: 'A', minutes: 3 }, { title: 'B', minutes: 4 }]);
+    });
+
+    it('reports schema issues with their path', () => {
+        try {
+            parseStructured('[{"title":"A","minutes":"3"},{"minutes":1}]', ITEMS);
+            expect.unreachable();
+        } catch (err) {
+            expect(err).toBeInstanceOf(StructuredOutputError);
+            expect((err as StructuredOutputError).issues.map(i => i.path)).toEqual(['$[0].minutes', '$[1].title']);
+        }
+    });
+
+    it('rejects text that is not JSON', () => {
+        expect(() => parseStructured('Xin lỗi, tôi không thể.', ITEMS)).toThrow(StructuredOutputError);
+    });
+});
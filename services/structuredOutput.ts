@@ -0,0 +1,166 @@
+import { SchemaNode } from './llmProvider';
+
+// Runtime checks for structured model answers, using the same SchemaNode the providers send as response format.
+
+export interface SchemaIssue {
+    // JSONPath-like location, e.g. "$[3].actions".
+    path: string;
+    message: string;
+}
+
+export class StructuredOutputError extends Error {
+    issues: SchemaIssue[];
+    raw: string;
+
+    constructor(message: string, issues: SchemaIssue[], raw: string) {
+        super(message);
+        this.name = 'StructuredOutputError';
+        this.issues = issues;
+        this.raw = raw;
+    }
+}
+
+const describeType = (value: unknown) => value === null ? 'null' : Array.isArray(value) ? 'mảng' : typeof value;
+
+export const validateSchema = (value: unknown, schema: SchemaNode, path = '$'): SchemaIssue[] => {
+    switch (schema.type) {
+        case 'string':
+            return typeof value === 'string' ? [] : [{ path, message: `cần chuỗi, nhận ${describeType(value)}` }];
+        case 'integer':
+            return Number.isInteger(value) ? [] : [{ path, message: `cần số nguyên, nhận ${describeType(value)}` }];
+        case 'array':
+            if (!Array.isArray(value)) return [{ path, message: `cần mảng, nhận ${describeType(value)}` }];
+            return value.flatMap((item, i) => validateSchema(item, schema.items, `${path}[${i}]`));
+        case 'object': {
+            if (!value || typeof value !== 'object' || Array.isArray(value)) return [{ path, message: `cần đối tượng, nhận ${describeType(value)}` }];
+            const record = value as Record<string, unknown>;
+            return Object.entries(schema.properties).flatMap(([key, child]) =>
+                record[key] === undefined
+                    ? (schema.required.includes(key) ? [{ path: `${path}.${key}`, message: 'thiếu trường bắt buộc' }] : [])
+                    : validateSchema(record[key], child, `${path}.${key}`));
+        }
+    }
+};
+
+export const formatIssues = (issues: SchemaIssue[], max = 5): string =>
+    issues.slice(0, max).map(i => `${i.path}: ${i.message}`).join('; ') + (issues.length > max ? `; … (+${issues.length - max})` : '');
+
+const stripFences = (text: string): string => {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)(?:```|$)/i);
+    return (fenced ? fenced[1] : text).trim();
+};
+
+// Drops prose before the first bracket and after the last one.
+const extractJson = (text: string): string => {
+    const start = text.search(/[[{]/);
+    if (start < 0) return text;
+    const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+    return end > start ? text.slice(start, end + 1) : text.slice(start);
+};
+
+const CLOSING_BRACKET = /\s*[}\]]/y;
+
+// Drops commas directly before a closing bracket, leaving string contents alone.
+const removeTrailingCommas = (text: string): string => {
+    let out = '';
+    let inString = false;
+    let escaped = false;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+        } else if (ch === '"') {
+            inString = true;
+        } else if (ch === ',') {
+            CLOSING_BRACKET.lastIndex = i + 1;
+            if (CLOSING_BRACKET.test(text)) continue;
+        }
+        out += ch;
+    }
+    return out;
+};
+
+// Cuts a truncated document back to the last complete element and closes the open brackets.
+export const closeTruncated = (text: string): string => {
+    const stack: string[] = [];
+    let inString = false;
+    let escaped = false;
+    let safeEnd = 0;
+    let safeStack: string[] = [];
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (ch === '"') inString = true;
+        else if (ch === '{' || ch === '[') stack.push(ch === '{' ? '}' : ']');
+        else if (ch === '}' || ch === ']') {
+            stack.pop();
+            safeEnd = i + 1;
+            safeStack = [...stack];
+        } else if (ch === ',') {
+            safeEnd = i;
+            safeStack = [...stack];
+        }
+    }
+    if (!stack.length && !inString) return text;
+    return text.slice(0, safeEnd) + [...safeStack].reverse().join('');
+};
+
+export interface RepairResult {
+    text: string;
+    truncated: boolean;
+}
+
+export const repairJson = (text: string): RepairResult => {
+    const cleaned = removeTrailingCommas(extractJson(stripFences(text)));
+    try {
+        JSON.parse(cleaned);
+        return { text: cleaned, truncated: false };
+    } catch {
+        return { text: removeTrailingCommas(closeTruncated(cleaned)), truncated: true };
+    }
+};
+
+// Models sometimes wrap a root array in an object ({"items": [...]}) or return a bare array for a one-field object.
+const unwrap = (value: unknown, schema: SchemaNode): unknown => {
+    if (schema.type === 'array' && value && typeof value === 'object' && !Array.isArray(value)) {
+        const arrays = Object.values(value).filter(Array.isArray);
+        if (arrays.length === 1) return arrays[0];
+    }
+    if (schema.type === 'object' && Array.isArray(value)) {
+        const fields = Object.entries(schema.properties);
+        if (fields.length === 1 && fields[0][1].type === 'array') return { [fields[0][0]]: value };
+    }
+    return value;
+};
+
+export const parseStructured = <T>(raw: string, schema: SchemaNode): T => {
+    let value: unknown;
+    let truncated = false;
+    try {
+        value = JSON.parse(raw.trim());
+    } catch {
+        const repaired = repairJson(raw);
+        truncated = repaired.truncated;
+        try {
+            value = JSON.parse(repaired.text);
+        } catch (err) {
+            throw new StructuredOutputError(`Phản hồi không phải JSON hợp lệ (${err instanceof Error ? err.message : String(err)}).`, [], raw);
+        }
+    }
+    value = unwrap(value, schema);
+    // The element cut off by truncation is usually incomplete; drop it rather than failing the whole answer.
+    if (truncated && schema.type === 'array' && Array.isArray(value) && value.length > 1
+        && validateSchema(value[value.length - 1], schema.items).length) {
+        value = value.slice(0, -1);
+    }
+    const issues = validateSchema(value, schema);
+    if (issues.length) throw new StructuredOutputError(`Phản hồi sai cấu trúc: ${formatIssues(issues)}.`, issues, raw);
+    return value as T;
+};
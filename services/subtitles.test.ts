@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { buildCues, splitSentences, toSrt, toVtt } from './subtitles';
+
+describe('splitSentences', () => {
+    it('splits on terminal punctuation followed by a space', () => {
+        expect(splitSentences('Một câu. Câu hai! Câu ba? Hết…')).toEqual(['Một câu.', 'Câu hai!', 'Câu ba?', 'Hết…']);
+    });
+
+    it('keeps decimals and thousands separators inside one sentence', () => {
+        expect(splitSentences('Lãi suất 3.5%, tức 1.000.000 đồng. Rất cao.')).toEqual(['Lãi suất 3.5%, tức 1.000.000 đồng.', 'Rất cao.']);
+    });
+
+    it('keeps a leading ellipsis', () => {
+        expect(splitSentences('...Và rồi mọi thứ thay đổi. Thật vậy.')).toEqual(['...Và rồi mọi thứ thay đổi.', 'Thật vậy.']);
+    });
+
+    it('does not end a sentence after an abbreviation or initial', () => {
+        expect(splitSentences('Dr. Smith gặp J. K. Rowling. Sau đó TS. Lan đến.')).toEqual(['Dr. Smith gặp J. K. Rowling.', 'Sau đó TS. Lan đến.']);
+    });
+
+    it('keeps closing quotes with their sentence and collapses whitespace', () => {
+        expect(splitSentences('Ông nói: “Đi thôi.”\n\n  Chúng tôi đi.')).toEqual(['Ông nói: “Đi thôi.”', 'Chúng tôi đi.']);
+    });
+
+    it('returns nothing for empty or blank text', () => {
+        expect(splitSentences('')).toEqual([]);
+        expect(splitSentences('  \n ')).toEqual([]);
+    });
+
+    it('keeps text without final punctuation', () => {
+        expect(splitSentences('Câu cuối không có dấu chấm')).toEqual(['Câu cuối không có dấu chấm']);
+    });
+});
+
+describe('buildCues', () => {
+    it('times cues from the speaking rate and pauses between blocks', () => {
+        // 600 chars per minute = 100 ms per char.
+        const cues = buildCues([{ text: 'Một câu khá dài ở đây.' }, { text: 'Câu hai nằm ở đây.' }], { charsPerMinute: 600, minCueMs: 0, blockPauseMs: 500 });
+        expect(cues).toHaveLength(2);
+        expect(cues[0]).toMatchObject({ index: 1, startMs: 0, endMs: 2200 });
+        expect(cues[1]).toMatchObject({ index: 2, startMs: 2700, endMs: 4500 });
+    });
+
+    it('applies the minimum cue length', () => {
+        const [cue] = buildCues([{ text: 'Ngắn.' }], { charsPerMinute: 6000, minCueMs: 1000 });
+        expect(cue.endMs - cue.startMs).toBe(1000);
+    });
+
+    it('splits long sentences and wraps lines', () => {
+        const sentence = 'Đây là một câu rất dài, có nhiều mệnh đề, để kiểm tra việc chia nhỏ phụ đề cho dễ đọc trên màn hình.';
+        const cues = buildCues([{ text: sentence }], { charsPerMinute: 900, maxCueChars: 40, lineChars: 20 });
+        expect(cues.length).toBeGreaterThan(1);
+        for (const cue of cues) {
+            expect(cue.lines.join(' ').length).toBeLessThanOrEqual(40);
+            expect(cue.lines.length).toBeLessThanOrEqual(2);
+        }
+        expect(cues.map(c => c.lines.join(' ')).join(' ')).toBe(sentence);
+    });
+
+    it('keeps a decimal in one cue', () => {
+        const cues = buildCues([{ text: 'Tăng 3.5 lần.' }], { charsPerMinute: 900 });
+        expect(cues.map(c => c.lines.join(' '))).toEqual(['Tăng 3.5 lần.']);
+    });
+
+    it('skips empty blocks but still pauses for them', () => {
+        const cues = buildCues([{ text: 'A.' }, { text: '' }, { text: 'B.' }], { charsPerMinute: 600, minCueMs: 0, blockPauseMs: 1000 });
+        expect(cues.map(c => c.lines[0])).toEqual(['A.', 'B.']);
+        expect(cues[1].startMs).toBe(200 + 2000);
+    });
+
+    it('returns no cues for no text', () => {
+        expect(buildCues([], { charsPerMinute: 900 })).toEqual([]);
+        expect(buildCues([{ text: '' }], { charsPerMinute: 900 })).toEqual([]);
+    });
+});
+
+describe('toSrt / toVtt', () => {
+    const cues = [
+        { index: 1, startMs: 0, endMs: 1500, lines: ['Dòng một', 'dòng hai'] },
+        { index: 2, startMs: 3_600_000 + 61_001, endMs: 3_600_000 + 62_000, lines: ['Sau một giờ'] },
+    ];
+
+    it('formats SRT with comma milliseconds', () => {
+        expect(toSrt(cues)).toBe('1\n00:00:00,000 --> 00:00:01,500\nDòng một\ndòng hai\n\n2\n01:01:01,001 --> 01:01:02,000\nSau một giờ\n');
+    });
+
+    it('formats WebVTT with a header and dot milliseconds', () => {
+        expect(toVtt(cues)).toBe('WEBVTT\n\n1\n00:00:00.000 --> 00:00:01.500\nDòng một\ndòng hai\n\n2\n01:01:01.001 --> 01:01:02.000\nSau một giờ\n');
+    });
+
+    it('handles no cues', () => {
+        expect(toSrt([])).toBe('');
+        expect(toVtt([])).toBe('WEBVTT\n\n');
+    });
+});
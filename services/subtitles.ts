@@ -0,0 +1,135 @@
+// Pure cue builder for SRT/WebVTT exports. Timing is derived from a speaking rate, not from audio.
+
+export interface CueSource {
+    text: string;
+}
+
+export interface CueOptions {
+    // Narration speed in characters per minute.
+    charsPerMinute: number;
+    // Longest text allowed in one cue; longer sentences are split at commas, then at word boundaries.
+    maxCueChars?: number;
+    lineChars?: number;
+    minCueMs?: number;
+    // Silence inserted between blocks (chapters).
+    blockPauseMs?: number;
+}
+
+export interface Cue {
+    index: number;
+    startMs: number;
+    endMs: number;
+    lines: string[];
+}
+
+const DEFAULTS = { maxCueChars: 84, lineChars: 42, minCueMs: 1000, blockPauseMs: 1000 };
+
+// Titles and initials whose dot does not end the sentence ("Dr. Smith", "J. K. Rowling", "TS. Nguyễn").
+const ABBREVIATIONS = new Set(['mr', 'mrs', 'ms', 'dr', 'prof', 'st', 'jr', 'sr', 'vs', 'e.g', 'i.e', 'ts', 'ths', 'gs', 'pgs', 'bs', 'tp']);
+
+const endsWithAbbreviation = (sentence: string): boolean => {
+    const last = sentence.slice(sentence.lastIndexOf(' ') + 1);
+    if (!last.endsWith('.')) return false;
+    const word = last.slice(0, -1);
+    return ABBREVIATIONS.has(word.toLowerCase()) || /^\p{Lu}$/u.test(word);
+};
+
+// A sentence ends at terminal punctuation (plus closing quotes) followed by a space, so the dots in
+// "3.5" or "1.000.000" never split and a leading "..." stays with its sentence.
+export const splitSentences = (text: string): string[] => {
+    const sentences: string[] = [];
+    for (const part of text.replace(/\s+/g, ' ').trim().split(/(?<=[.!?…]["”’)\]]*) /)) {
+        if (!part) continue;
+        if (sentences.length && endsWithAbbreviation(sentences[sentences.length - 1])) sentences[sentences.length - 1] += ` ${part}`;
+        else sentences.push(part);
+    }
+    return sentences;
+};
+
+const splitAtWords = (text: string, max: number): string[] => {
+    const parts: string[] = [];
+    let current = '';
+    for (const word of text.split(' ')) {
+        if (current && current.length + 1 + word.length > max) {
+            parts.push(current);
+            current = word;
+        } else {
+            current = current ? `${current} ${word}` : word;
+        }
+    }
+    if (current) parts.push(current);
+    return parts;
+};
+
+// Keeps each cue under `max` characters, preferring clause boundaries over arbitrary word breaks.
+export const splitLongSentence = (sentence: string, max: number): string[] => {
+    if (sentence.length <= max) return [sentence];
+    const clauses = sentence.split(/(?<=[,;:])\s+/);
+    const parts: string[] = [];
+    let current = '';
+    for (const clause of clauses) {
+        if (clause.length > max) {
+            if (current) parts.push(current);
+            current = '';
+            parts.push(...splitAtWords(clause, max));
+        } else if (current && current.length + 1 + clause.length > max) {
+            parts.push(current);
+            current = clause;
+        } else {
+            current = current ? `${current} ${clause}` : clause;
+        }
+    }
+    if (current) parts.push(current);
+    return parts;
+};
+
+export const wrapLines = (text: string, lineChars: number): string[] => {
+    if (text.length <= lineChars) return [text];
+    // Break near the middle so the two lines are balanced.
+    const words = text.split(' ');
+    let best = 1;
+    let bestDiff = Infinity;
+    for (let i = 1; i < words.length; i++) {
+        const first = words.slice(0, i).join(' ').length;
+        const diff = Math.abs(first - (text.length - first - 1));
+        if (diff < bestDiff) {
+            bestDiff = diff;
+            best = i;
+        }
+    }
+    return [words.slice(0, best).join(' '), words.slice(best).join(' ')];
+};
+
+export const buildCues = (blocks: CueSource[], options: CueOptions): Cue[] => {
+    const { maxCueChars, lineChars, minCueMs, blockPauseMs } = { ...DEFAULTS, ...options };
+    const msPerChar = 60000 / Math.max(1, options.charsPerMinute);
+    const cues: Cue[] = [];
+    let clock = 0;
+    blocks.forEach((block, b) => {
+        if (b > 0) clock += blockPauseMs;
+        for (const sentence of splitSentences(block.text)) {
+            for (const part of splitLongSentence(sentence, maxCueChars)) {
+                const duration = Math.max(minCueMs, Math.round(part.length * msPerChar));
+                cues.push({ index: cues.length + 1, startMs: clock, endMs: clock + duration, lines: wrapLines(part, lineChars) });
+                clock += duration;
+            }
+        }
+    });
+    return cues;
+};
+
+export const formatTimestamp = (ms: number, separator: ',' | '.'): string => {
+    const total = Math.max(0, Math.round(ms));
+    const h = Math.floor(total / 3600000);
+    const m = Math.floor(total / 60000) % 60;
+    const s = Math.floor(total / 1000) % 60;
+    const millis = total % 1000;
+    const pad = (n: number, len = 2) => String(n).padStart(len, '0');
+    return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(millis, 3)}`;
+};
+
+export const toSrt = (cues: Cue[]): string =>
+    cues.map(c => `${c.index}\n${formatTimestamp(c.startMs, ',')} --> ${formatTimestamp(c.endMs, ',')}\n${c.lines.join('\n')}\n`).join('\n');
+
+export const toVtt = (cues: Cue[]): string =>
+    `WEBVTT\n\n${cues.map(c => `${c.index}\n${formatTimestamp(c.startMs, '.')} --> ${formatTimestamp(c.endMs, '.')}\n${c.lines.join('\n')}\n`).join('\n')}`;
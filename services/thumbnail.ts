@@ -0,0 +1,231 @@
+import { ThumbnailLayout } from '../types';
+
+// Canvas drawing for the thumbnail composer. Everything is laid out in fractions of the canvas size.
+
+export const FRAME_RATIOS = ['9:16', '16:9', '1:1', '4:5', '21:9'];
+
+export const parseRatio = (ratio: string): number => {
+    const [w, h] = ratio.split(':').map(Number);
+    return w > 0 && h > 0 ? w / h : 16 / 9;
+};
+
+export interface Size {
+    width: number;
+    height: number;
+}
+
+// YouTube's recommended sizes; the first one is the default export.
+export const EXPORT_SIZES: Record<string, Size[]> = {
+    '16:9': [{ width: 1280, height: 720 }, { width: 1920, height: 1080 }],
+    '9:16': [{ width: 1080, height: 1920 }, { width: 720, height: 1280 }],
+    '1:1': [{ width: 1080, height: 1080 }],
+    '4:5': [{ width: 1080, height: 1350 }],
+    '21:9': [{ width: 2560, height: 1080 }],
+};
+
+export const exportSizes = (ratio: string): Size[] => EXPORT_SIZES[ratio] ?? EXPORT_SIZES['16:9'];
+
+// Web fonts loaded in index.html with their Vietnamese subsets.
+export const THUMBNAIL_FONTS: Record<string, number> = {
+    'Be Vietnam Pro': 800,
+    'Montserrat': 800,
+    'Oswald': 700,
+    'Roboto Slab': 800,
+};
+
+export const fontSpec = (font: string, px: number) => `${THUMBNAIL_FONTS[font] ?? 800} ${Math.round(px)}px "${font}", sans-serif`;
+
+type Placement = Pick<ThumbnailLayout, 'textX' | 'textY' | 'textWidth' | 'fontScale' | 'coverX' | 'coverY' | 'coverScale'>;
+
+export type ThumbnailTemplateId = 'cover' | 'text';
+
+export const THUMBNAIL_TEMPLATE_IDS: ThumbnailTemplateId[] = ['cover', 'text'];
+
+// 'cover' makes the book the hero with the text beside or below it; 'text' makes the text the hero with a small cover.
+export const THUMBNAIL_TEMPLATES: Record<string, Record<ThumbnailTemplateId, Placement>> = {
+    '16:9': {
+        cover: { coverX: 0.28, coverY: 0.5, coverScale: 0.88, textX: 0.69, textY: 0.5, textWidth: 0.56, fontScale: 0.12 },
+        text: { coverX: 0.85, coverY: 0.68, coverScale: 0.52, textX: 0.4, textY: 0.45, textWidth: 0.74, fontScale: 0.16 },
+    },
+    '21:9': {
+        cover: { coverX: 0.2, coverY: 0.5, coverScale: 0.88, textX: 0.62, textY: 0.5, textWidth: 0.66, fontScale: 0.13 },
+        text: { coverX: 0.88, coverY: 0.66, coverScale: 0.56, textX: 0.42, textY: 0.45, textWidth: 0.76, fontScale: 0.17 },
+    },
+    '1:1': {
+        cover: { coverX: 0.5, coverY: 0.4, coverScale: 0.62, textX: 0.5, textY: 0.84, textWidth: 0.92, fontScale: 0.09 },
+        text: { coverX: 0.8, coverY: 0.77, coverScale: 0.38, textX: 0.44, textY: 0.36, textWidth: 0.84, fontScale: 0.13 },
+    },
+    '4:5': {
+        cover: { coverX: 0.5, coverY: 0.38, coverScale: 0.56, textX: 0.5, textY: 0.83, textWidth: 0.92, fontScale: 0.075 },
+        text: { coverX: 0.78, coverY: 0.8, coverScale: 0.3, textX: 0.46, textY: 0.36, textWidth: 0.86, fontScale: 0.11 },
+    },
+    '9:16': {
+        cover: { coverX: 0.5, coverY: 0.36, coverScale: 0.45, textX: 0.5, textY: 0.75, textWidth: 0.9, fontScale: 0.055 },
+        text: { coverX: 0.5, coverY: 0.75, coverScale: 0.3, textX: 0.5, textY: 0.3, textWidth: 0.9, fontScale: 0.08 },
+    },
+};
+
+export const applyTemplate = (layout: ThumbnailLayout, ratio: string, template: ThumbnailTemplateId): ThumbnailLayout => ({
+    ...layout,
+    ratio,
+    template,
+    ...(THUMBNAIL_TEMPLATES[ratio] ?? THUMBNAIL_TEMPLATES['16:9'])[template],
+});
+
+// Starts from the cover's own colours when the cover was analysed.
+export const defaultLayout = (ratio: string, text: string, coverColors: string[] = []): ThumbnailLayout => applyTemplate({
+    ratio,
+    template: 'cover',
+    background: coverColors.length ? 'gradient' : 'solid',
+    colors: [coverColors[0] ?? '#0f172a', coverColors[1] ?? '#1e3a8a'],
+    text,
+    font: 'Be Vietnam Pro',
+    fontScale: 0.12,
+    textColor: '#facc15',
+    strokeColor: '#000000',
+    textX: 0.5,
+    textY: 0.5,
+    textWidth: 0.8,
+    coverX: 0.5,
+    coverY: 0.5,
+    coverScale: 0.8,
+    showBadge: true,
+}, ratio, 'cover');
+
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface ThumbnailAssets {
+    cover?: HTMLImageElement;
+    // Duration badge text, e.g. "4H00M".
+    badge?: string;
+}
+
+// Where the movable parts ended up, in canvas pixels, for hit-testing drags.
+export interface DrawResult {
+    cover?: Rect;
+    text?: Rect;
+}
+
+export const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] =>
+    text.split('\n').flatMap(paragraph => {
+        const lines: string[] = [];
+        let current = '';
+        for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+            const candidate = current ? `${current} ${word}` : word;
+            if (current && ctx.measureText(candidate).width > maxWidth) {
+                lines.push(current);
+                current = word;
+            } else {
+                current = candidate;
+            }
+        }
+        return current ? [...lines, current] : lines;
+    });
+
+const drawBackground = (ctx: CanvasRenderingContext2D, width: number, height: number, layout: ThumbnailLayout, cover?: HTMLImageElement) => {
+    ctx.fillStyle = layout.colors[0];
+    ctx.fillRect(0, 0, width, height);
+    if (layout.background === 'gradient') {
+        const gradient = ctx.createLinearGradient(0, 0, width, height);
+        gradient.addColorStop(0, layout.colors[0]);
+        gradient.addColorStop(1, layout.colors[1]);
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, width, height);
+    } else if (layout.background === 'coverBlur' && cover) {
+        // The cover scaled to fill the frame, blurred and darkened so the text stays readable.
+        const scale = Math.max(width / cover.width, height / cover.height) * 1.1;
+        ctx.save();
+        ctx.filter = `blur(${Math.round(Math.min(width, height) * 0.03)}px) brightness(0.55)`;
+        ctx.drawImage(cover, (width - cover.width * scale) / 2, (height - cover.height * scale) / 2, cover.width * scale, cover.height * scale);
+        ctx.restore();
+    }
+};
+
+const drawBadge = (ctx: CanvasRenderingContext2D, width: number, height: number, layout: ThumbnailLayout, badge: string) => {
+    const size = Math.min(width, height) * 0.08;
+    ctx.font = fontSpec(layout.font, size);
+    const padX = size * 0.45;
+    const boxWidth = ctx.measureText(badge).width + padX * 2;
+    const boxHeight = size * 1.4;
+    const x = width - boxWidth - size * 0.5;
+    const y = size * 0.5;
+    ctx.fillStyle = '#dc2626';
+    ctx.beginPath();
+    ctx.roundRect(x, y, boxWidth, boxHeight, size * 0.25);
+    ctx.fill();
+    ctx.fillStyle = '#ffffff';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(badge, x + padX, y + boxHeight / 2);
+};
+
+export const drawThumbnail = (ctx: CanvasRenderingContext2D, width: number, height: number, layout: ThumbnailLayout, assets: ThumbnailAssets): DrawResult => {
+    const result: DrawResult = {};
+    ctx.clearRect(0, 0, width, height);
+    drawBackground(ctx, width, height, layout, assets.cover);
+
+    if (assets.cover) {
+        const h = layout.coverScale * height;
+        const w = h * (assets.cover.width / assets.cover.height);
+        const rect = { x: layout.coverX * width - w / 2, y: layout.coverY * height - h / 2, width: w, height: h };
+        ctx.save();
+        ctx.shadowColor = 'rgba(0,0,0,0.6)';
+        ctx.shadowBlur = h * 0.06;
+        ctx.shadowOffsetY = h * 0.02;
+        ctx.drawImage(assets.cover, rect.x, rect.y, rect.width, rect.height);
+        ctx.restore();
+        result.cover = rect;
+    }
+
+    // NFC so diacritics typed or generated in decomposed form render as single glyphs.
+    const text = layout.text.normalize('NFC').trim();
+    if (text) {
+        const size = layout.fontScale * height;
+        ctx.font = fontSpec(layout.font, size);
+        const lines = wrapText(ctx, text, layout.textWidth * width);
+        const lineHeight = size * 1.12;
+        const blockHeight = lineHeight * lines.length;
+        const top = layout.textY * height - blockHeight / 2;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.lineJoin = 'round';
+        ctx.lineWidth = size * 0.14;
+        ctx.strokeStyle = layout.strokeColor;
+        ctx.fillStyle = layout.textColor;
+        lines.forEach((line, i) => {
+            const y = top + lineHeight * (i + 0.5);
+            // The shadow goes on the stroke only; on the fill it would darken the letters.
+            ctx.save();
+            ctx.shadowColor = 'rgba(0,0,0,0.7)';
+            ctx.shadowBlur = size * 0.25;
+            ctx.shadowOffsetY = size * 0.06;
+            ctx.strokeText(line, layout.textX * width, y);
+            ctx.restore();
+            ctx.fillText(line, layout.textX * width, y);
+        });
+        const widest = Math.max(...lines.map(line => ctx.measureText(line).width));
+        result.text = { x: layout.textX * width - widest / 2, y: top, width: widest, height: blockHeight };
+    }
+
+    if (layout.showBadge && assets.badge) drawBadge(ctx, width, height, layout, assets.badge);
+    return result;
+};
+
+// Waits for the layout's font so the first draw does not fall back to a font without the diacritics.
+export const loadThumbnailFont = async (layout: ThumbnailLayout): Promise<void> => {
+    await document.fonts?.load(fontSpec(layout.font, 64), layout.text.normalize('NFC') || 'Ắ');
+};
+
+export const renderThumbnailPng = async (layout: ThumbnailLayout, assets: ThumbnailAssets, size: Size): Promise<Blob> => {
+    await loadThumbnailFont(layout);
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    drawThumbnail(canvas.getContext('2d')!, size.width, size.height, layout, assets);
+    return new Promise((resolve, reject) => canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Không xuất được ảnh PNG.")), 'image/png'));
+};
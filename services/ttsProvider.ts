@@ -0,0 +1,23 @@
+import { TtsProviderId } from '../types';
+
+export interface TtsRequest {
+    text: string;
+    voice: string;
+    speed: number;
+    signal?: AbortSignal;
+}
+
+// Mono 16-bit PCM.
+export interface TtsAudio {
+    samples: Int16Array;
+    sampleRate: number;
+}
+
+export interface TtsProvider {
+    id: TtsProviderId;
+    label: string;
+    voices: string[];
+    // Longest text sent in one request; longer chapters are read in parts and joined.
+    maxChars: number;
+    synthesize(req: TtsRequest): Promise<TtsAudio>;
+}
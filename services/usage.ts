@@ -0,0 +1,87 @@
+import { ProviderId, UsageRecord } from '../types';
+import { TokenUsage } from './llmProvider';
+
+// USD per million tokens from the providers' public price lists (standard tier, prompts under 200k tokens).
+// Keyed by the model id the provider reports; models missing here are counted at 0 and flagged in the dashboard.
+export const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+    'gemini-3-pro-preview': { input: 2, output: 12 },
+    'gemini-3-flash-preview': { input: 0.5, output: 3 },
+    'gpt-5.2': { input: 1.75, output: 14 },
+    'gpt-5.2-chat-latest': { input: 1.75, output: 14 },
+    'gpt-5.2-pro': { input: 21, output: 168 },
+};
+
+export const hasPrice = (model: string): boolean => model in MODEL_PRICES;
+
+export const estimateCost = (model: string, usage: TokenUsage): number => {
+    const price = MODEL_PRICES[model];
+    return price ? (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1e6 : 0;
+};
+
+// What geminiService reports after each request.
+export interface UsageEvent {
+    provider: ProviderId;
+    model: string;
+    usage?: TokenUsage;
+    latencyMs: number;
+    cached: boolean;
+}
+
+export const newUsageRecord = (projectId: string, task: string, event: UsageEvent): UsageRecord => {
+    const usage = event.usage ?? { inputTokens: 0, outputTokens: 0 };
+    return {
+        id: crypto.randomUUID(),
+        projectId,
+        at: Date.now(),
+        task,
+        provider: event.provider,
+        model: event.model,
+        ...usage,
+        latencyMs: Math.round(event.latencyMs),
+        cost: event.cached ? 0 : estimateCost(event.model, usage),
+        cached: event.cached,
+    };
+};
+
+export interface UsageTotals {
+    requests: number;
+    cached: number;
+    inputTokens: number;
+    outputTokens: number;
+    cost: number;
+    // Average over requests that reached a provider.
+    avgLatencyMs: number;
+    // Models without a price, so the cost is a lower bound.
+    unpriced: string[];
+}
+
+export const sumUsage = (records: UsageRecord[]): UsageTotals => {
+    const live = records.filter(r => !r.cached);
+    return {
+        requests: records.length,
+        cached: records.length - live.length,
+        inputTokens: records.reduce((s, r) => s + r.inputTokens, 0),
+        outputTokens: records.reduce((s, r) => s + r.outputTokens, 0),
+        cost: records.reduce((s, r) => s + r.cost, 0),
+        avgLatencyMs: live.length ? live.reduce((s, r) => s + r.latencyMs, 0) / live.length : 0,
+        unpriced: [...new Set(live.filter(r => !hasPrice(r.model)).map(r => r.model))],
+    };
+};
+
+// Local calendar day, so "today" matches the user's clock.
+export const usageDay = (at: number): string => {
+    const d = new Date(at);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export const groupUsage = (records: UsageRecord[], keyOf: (r: UsageRecord) => string): { key: string; totals: UsageTotals }[] => {
+    const groups = new Map<string, UsageRecord[]>();
+    for (const r of records) {
+        const key = keyOf(r);
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(r);
+    }
+    return [...groups].map(([key, list]) => ({ key, totals: sumUsage(list) }));
+};
+
+export const formatUsd = (usd: number): string => usd === 0 ? '$0' : usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`;
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { SEOResult } from '../types';
+import { buildTimestamps, formatTimestamp, insertTimestamps, tagsLength, timestampsToText, validateSeo } from './youtubeSeo';
+
+const SEO: SEOResult = { titles: ['Tóm tắt sách'], description: 'Mô tả.', hashtags: ['#sach'], keywords: ['sách', 'tóm tắt'] };
+
+describe('buildTimestamps', () => {
+    it('starts each chapter where the previous ones end', () => {
+        expect(buildTimestamps([
+            { title: ' Mở đầu ', seconds: 65.4 },
+            { title: 'Chương 1', seconds: 120.2 },
+            { title: 'Kết', seconds: 30 },
+        ])).toEqual([
+            { seconds: 0, title: 'Mở đầu', duration: 65 },
+            { seconds: 65, title: 'Chương 1', duration: 120 },
+            { seconds: 186, title: 'Kết', duration: 30 },
+        ]);
+    });
+
+    it('treats negative lengths as zero', () => {
+        expect(buildTimestamps([{ title: 'A', seconds: -5 }, { title: 'B', seconds: 10 }]).map(s => s.seconds)).toEqual([0, 0]);
+    });
+});
+
+describe('formatTimestamp', () => {
+    it('uses minutes and seconds below an hour', () => {
+        expect(formatTimestamp(0)).toBe('00:00');
+        expect(formatTimestamp(245)).toBe('04:05');
+        expect(formatTimestamp(3599)).toBe('59:59');
+        expect(formatTimestamp(3599.6)).toBe('1:00:00');
+    });
+
+    it('adds hours from an hour on', () => {
+        expect(formatTimestamp(3600)).toBe('1:00:00');
+        expect(formatTimestamp(3723)).toBe('1:02:03');
+    });
+
+    it('keeps a list in one format once any entry passes an hour', () => {
+        expect(formatTimestamp(65, true)).toBe('0:01:05');
+        expect(timestampsToText([
+            { seconds: 0, title: 'A', duration: 3600 },
+            { seconds: 3600, title: 'B', duration: 60 },
+        ])).toBe('0:00:00 A\n1:00:00 B');
+    });
+});
+
+describe('insertTimestamps', () => {
+    const list = '00:00 Mở đầu\n01:05 Chương 1';
+
+    it('replaces an existing run of timestamp lines', () => {
+        const description = 'Giới thiệu.\n\n0:00 Cũ\n1:00 Cũ hơn\n1:02:03 Rất cũ\n\nLời kết.';
+        expect(insertTimestamps(description, list)).toBe(`Giới thiệu.\n\n${list}\n\nLời kết.`);
+    });
+
+    it('appends after a blank line when there are none', () => {
+        expect(insertTimestamps('Giới thiệu.\n\n', list)).toBe(`Giới thiệu.\n\n${list}`);
+        expect(insertTimestamps('   ', list)).toBe(list);
+    });
+});
+
+describe('tagsLength', () => {
+    it('counts commas between tags and quotes around tags with spaces', () => {
+        expect(tagsLength(['sach', 'tom tat'])).toBe(4 + 7 + 2 + 1);
+        expect(tagsLength([' a ', '', 'b'])).toBe(3);
+        expect(tagsLength([])).toBe(0);
+    });
+});
+
+describe('validateSeo', () => {
+    const stamps = (...lengths: number[]) => buildTimestamps(lengths.map((seconds, i) => ({ title: `C${i}`, seconds })));
+
+    it('accepts a clean result', () => {
+        expect(validateSeo(SEO, stamps(60, 60, 60))).toEqual([]);
+    });
+
+    it('flags fields over YouTube limits', () => {
+        const issues = validateSeo({
+            titles: ['x'.repeat(101), 'a <b>'],
+            description: 'y'.repeat(5001),
+            hashtags: ['#ok', 'no space', ...Array.from({ length: 14 }, (_, i) => `#t${i}`)],
+            keywords: ['z'.repeat(501)],
+        });
+        expect(issues.map(i => [i.field, i.index, i.code])).toEqual([
+            ['titles', 0, 'titleTooLong'],
+            ['titles', 1, 'angleBrackets'],
+            ['description', undefined, 'descriptionTooLong'],
+            ['hashtags', 1, 'hashtagFormat'],
+            ['hashtags', undefined, 'tooManyHashtags'],
+            ['keywords', undefined, 'tagsTooLong'],
+        ]);
+    });
+
+    it('needs at least three chapters', () => {
+        expect(validateSeo(SEO, stamps(60, 60))).toEqual([{ field: 'timestamps', code: 'tooFewChapters', limit: 3, actual: 2 }]);
+    });
+
+    it('flags chapters shorter than ten seconds, including the last', () => {
+        expect(validateSeo(SEO, stamps(60, 5, 60, 9))).toEqual([
+            { field: 'timestamps', index: 1, code: 'chapterTooShort', limit: 10, actual: 5 },
+            { field: 'timestamps', index: 3, code: 'chapterTooShort', limit: 10, actual: 9 },
+        ]);
+    });
+});
@@ -0,0 +1,148 @@
+import { SEOResult } from '../types';
+
+// Limits enforced by YouTube Studio at upload time.
+export const YOUTUBE_LIMITS = {
+    titleChars: 100,
+    descriptionChars: 5000,
+    tagsChars: 500,
+    // With more hashtags than this YouTube ignores all of them.
+    hashtags: 15,
+    // Chapters need at least three timestamps, the first at 0:00, each at least 10 seconds long.
+    minChapters: 3,
+    minChapterSeconds: 10,
+};
+
+export interface ChapterTimestamp {
+    seconds: number;
+    title: string;
+    // Length of the chapter, which for the last one no later timestamp gives.
+    duration: number;
+}
+
+export interface TimedChapter {
+    title: string;
+    seconds: number;
+}
+
+// Start time of each chapter from the lengths of the ones before it; the first always starts at 0:00.
+export const buildTimestamps = (chapters: TimedChapter[]): ChapterTimestamp[] => {
+    let start = 0;
+    return chapters.map(chapter => {
+        const stamp = { seconds: Math.round(start), title: chapter.title.trim(), duration: Math.round(Math.max(0, chapter.seconds)) };
+        start += Math.max(0, chapter.seconds);
+        return stamp;
+    });
+};
+
+// "04:05" below an hour, "1:02:03" from an hour on; `withHours` keeps a whole list in the same format.
+export const formatTimestamp = (seconds: number, withHours?: boolean): string => {
+    // Rounded first, so 3599.6 s becomes "1:00:00" rather than "00:00".
+    const total = Math.max(0, Math.round(seconds));
+    const h = Math.floor(total / 3600);
+    const m = Math.floor(total / 60) % 60;
+    const s = total % 60;
+    const mmss = `${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+    return (withHours ?? h > 0) ? `${h}:${mmss}` : mmss;
+};
+
+export const timestampsToText = (stamps: ChapterTimestamp[]): string => {
+    const withHours = stamps.some(s => s.seconds >= 3600);
+    return stamps.map(s => `${formatTimestamp(s.seconds, withHours)} ${s.title}`).join('\n');
+};
+
+const TIMESTAMP_LINE = /^\s*(\d{1,2}:)?\d{1,2}:\d{2}\s+\S/;
+
+// Replaces the first run of timestamp lines in the description, or appends the list after a blank line.
+export const insertTimestamps = (description: string, timestamps: string): string => {
+    const lines = description.split('\n');
+    const start = lines.findIndex(line => TIMESTAMP_LINE.test(line));
+    if (start < 0) return description.trim() ? `${description.trimEnd()}\n\n${timestamps}` : timestamps;
+    let end = start;
+    while (end < lines.length && TIMESTAMP_LINE.test(lines[end])) end++;
+    return [...lines.slice(0, start), timestamps, ...lines.slice(end)].join('\n');
+};
+
+// YouTube counts the commas between tags, and quotes around tags that contain spaces.
+export const tagsLength = (keywords: string[]): number => {
+    const tags = keywords.map(k => k.trim()).filter(Boolean);
+    return tags.reduce((sum, tag) => sum + tag.length + (/\s/.test(tag) ? 2 : 0), 0) + Math.max(0, tags.length - 1);
+};
+
+export const normalizeHashtag = (tag: string): string => {
+    const bare = tag.trim().replace(/^#+/, '').replace(/\s+/g, '');
+    return bare ? `#${bare}` : '';
+};
+
+export type SeoIssueCode =
+    | 'titleTooLong'
+    | 'angleBrackets'
+    | 'descriptionTooLong'
+    | 'tagsTooLong'
+    | 'hashtagFormat'
+    | 'tooManyHashtags'
+    | 'tooFewChapters'
+    | 'chapterTooShort';
+
+export interface SeoIssue {
+    field: 'titles' | 'description' | 'hashtags' | 'keywords' | 'timestamps';
+    // Position in the field's list, when the issue is about one item.
+    index?: number;
+    code: SeoIssueCode;
+    limit?: number;
+    actual?: number;
+}
+
+// One hashtag: '#', then letters, digits or underscores only.
+const HASHTAG = /^#[\p{L}\p{N}_]+$/u;
+
+export const validateSeo = (seo: SEOResult, stamps: ChapterTimestamp[] = []): SeoIssue[] => {
+    const issues: SeoIssue[] = [];
+    seo.titles.forEach((title, index) => {
+        if (title.length > YOUTUBE_LIMITS.titleChars) issues.push({ field: 'titles', index, code: 'titleTooLong', limit: YOUTUBE_LIMITS.titleChars, actual: title.length });
+        if (/[<>]/.test(title)) issues.push({ field: 'titles', index, code: 'angleBrackets' });
+    });
+    if (seo.description.length > YOUTUBE_LIMITS.descriptionChars) {
+        issues.push({ field: 'description', code: 'descriptionTooLong', limit: YOUTUBE_LIMITS.descriptionChars, actual: seo.description.length });
+    }
+    if (/[<>]/.test(seo.description)) issues.push({ field: 'description', code: 'angleBrackets' });
+    seo.hashtags.forEach((tag, index) => {
+        if (!HASHTAG.test(tag.trim())) issues.push({ field: 'hashtags', index, code: 'hashtagFormat' });
+    });
+    if (seo.hashtags.length > YOUTUBE_LIMITS.hashtags) {
+        issues.push({ field: 'hashtags', code: 'tooManyHashtags', limit: YOUTUBE_LIMITS.hashtags, actual: seo.hashtags.length });
+    }
+    const tags = tagsLength(seo.keywords);
+    if (tags > YOUTUBE_LIMITS.tagsChars) issues.push({ field: 'keywords', code: 'tagsTooLong', limit: YOUTUBE_LIMITS.tagsChars, actual: tags });
+    if (stamps.length) {
+        if (stamps.length < YOUTUBE_LIMITS.minChapters) {
+            issues.push({ field: 'timestamps', code: 'tooFewChapters', limit: YOUTUBE_LIMITS.minChapters, actual: stamps.length });
+        }
+        stamps.forEach((stamp, index) => {
+            const next = stamps[index + 1];
+            const length = next ? next.seconds - stamp.seconds : stamp.duration;
+            if (length < YOUTUBE_LIMITS.minChapterSeconds) {
+                issues.push({ field: 'timestamps', index, code: 'chapterTooShort', limit: YOUTUBE_LIMITS.minChapterSeconds, actual: length });
+            }
+        });
+    }
+    return issues;
+};
+
+export interface BundleHeadings {
+    title: string;
+    description: string;
+    tags: string;
+}
+
+// Title, description and tags ready to paste into YouTube Studio. The first title is the chosen one;
+// hashtags go at the end of the description, where YouTube picks them up.
+export const buildUploadBundle = (seo: SEOResult, headings: BundleHeadings): string => {
+    const hashtags = seo.hashtags.map(normalizeHashtag).filter(Boolean);
+    const missing = hashtags.filter(tag => !seo.description.includes(tag));
+    const description = missing.length ? `${seo.description.trimEnd()}\n\n${missing.join(' ')}` : seo.description;
+    return [
+        `${headings.title}\n${seo.titles[0] ?? ''}`,
+        `${headings.description}\n${description}`,
+        `${headings.tags}\n${seo.keywords.map(k => k.trim()).filter(Boolean).join(', ')}`,
+    ].join('\n\n');
+};
@@ -1,16 +1,116 @@
 
+export type OutlineKind = 'intro' | 'chapter' | 'outro';
+
 export interface OutlineItem {
   index: number;
+  // Dedicated intro/outro blocks get their own prompts; missing means 'chapter'.
+  kind?: OutlineKind;
   title: string;
   focus: string;
   actions: string[];
+  // Relative share of the total character target (default 1).
+  weight?: number;
+  // Explicit character budget; takes precedence over weight.
+  targetChars?: number;
+}
+
+export type ScriptVersionSource = 'generated' | 'regenerated' | 'edited' | 'expanded' | 'condensed' | 'restored' | 'translated' | 'cleaned';
+
+export interface ScriptVersion {
+  text: string;
+  source: ScriptVersionSource;
+  createdAt: number;
+  // Extra instruction given when the version was produced by the model.
+  instruction?: string;
 }
 
 export interface ScriptBlock {
   index: number;
   chapter: string;
+  // Oldest first; the last entry is the current text.
+  versions: ScriptVersion[];
+  chars: number;
+  // Short recap of the current text, fed to later blocks for continuity.
+  summary?: string;
+  // Source passages the current text was grounded in.
+  sources?: SourceRef[];
+}
+
+export type SourceKind = 'txt' | 'md' | 'epub' | 'pdf';
+
+export interface SourceChunk {
+  id: string;
+  docId: string;
+  // Human-readable location, e.g. "Chương 3" or "trang 12-13".
+  label: string;
   text: string;
+}
+
+export interface SourceDocument {
+  id: string;
+  name: string;
+  kind: SourceKind;
   chars: number;
+  chunks: SourceChunk[];
+}
+
+export interface SourceRef {
+  chunkId: string;
+  docName: string;
+  label: string;
+  score: number;
+}
+
+export interface SpeakingRate {
+  unit: 'chars' | 'words';
+  perMinute: number;
+}
+
+export interface RepetitionFinding {
+  phrase: string;
+  // ScriptBlock.index values the phrase appears in.
+  blocks: number[];
+}
+
+export type ReviewIssue = 'length' | 'actions' | 'markup' | 'quotation' | 'readability';
+
+export type MarkupKind = 'heading' | 'emphasis' | 'list' | 'cue' | 'speaker' | 'separator' | 'html';
+
+export interface MarkupFinding {
+  kind: MarkupKind;
+  // 1-based line in the block text.
+  line: number;
+  sample: string;
+}
+
+export interface QuotationFinding {
+  text: string;
+  words: number;
+  // Set when the passage matches an uploaded source; a long passage in quotation marks is flagged without one.
+  source?: { docName: string; label: string };
+}
+
+export interface ReadabilityStats {
+  sentences: number;
+  words: number;
+  avgSentenceWords: number;
+  longestSentenceWords: number;
+  longSentences: number;
+}
+
+export interface BlockReview {
+  index: number;
+  chapter: string;
+  chars: number;
+  targetChars: number;
+  // (chars - targetChars) / targetChars; 0 when there is no target.
+  lengthDeviation: number;
+  coveredActions: string[];
+  missingActions: string[];
+  markup: MarkupFinding[];
+  quotations: QuotationFinding[];
+  readability: ReadabilityStats;
+  issues: ReviewIssue[];
 }
 
 export interface SEOResult {
@@ -25,4 +125,297 @@ export interface LoadingStates {
   seo: boolean;
   script: boolean;
   prompts: boolean;
+  cover: boolean;
+  translate: boolean;
+  pipeline: boolean;
+  storyboard: boolean;
+  shorts: boolean;
+  narration: boolean;
+  profile: boolean;
+}
+
+// What the model could read off the uploaded cover.
+export interface BookMetadata {
+  title: string;
+  author: string;
+  edition: string;
+  // Hex colours, most dominant first.
+  dominantColors: string[];
+}
+
+export interface BookQuote {
+  text: string;
+  // Location in the uploaded source, e.g. "trang 12-13".
+  reference: string;
+}
+
+// Fact sheet every generator gets as shared context, so the steps agree on who wrote the book and what it says.
+// Saved per book title and reused by every project about the same book.
+export interface BookProfile {
+  // The title the sheet was made for; it is stored under this title and only used while the project's title matches.
+  bookTitle: string;
+  author: string;
+  year: string;
+  genre: string;
+  // The book's own chapters in order, not the video outline.
+  chapters: string[];
+  coreIdeas: string[];
+  // Only taken from uploaded sources; empty without them.
+  quotes: BookQuote[];
+  audience: string;
+}
+
+// Language the generated outline, script and SEO are written in.
+export type OutputLanguage = 'vi' | 'en' | 'id';
+
+// Language of the app's own interface, independent of the project's output language.
+export type UiLocale = 'vi' | 'en';
+
+// A structured answer that still had the wrong number of items after re-asking; the items received are kept.
+export interface CountShortfall {
+  field: 'chapters' | 'titles';
+  expected: number;
+  received: number;
+}
+
+// A timed shot covering part of one chapter's narration. Times are seconds from the start of the video.
+export interface StoryboardScene {
+  // ScriptBlock.index of the chapter.
+  block: number;
+  chapter: string;
+  start: number;
+  end: number;
+  excerpt: string;
+  prompt: string;
+  motion: string;
+  negativePrompt: string;
+}
+
+export interface Storyboard {
+  // Settings the scenes were generated with.
+  frameRatio: string;
+  sceneSeconds: number;
+  scenes: StoryboardScene[];
+}
+
+export type ThumbnailBackground = 'solid' | 'gradient' | 'coverBlur';
+
+// Thumbnail composer state. Positions and sizes are fractions of the canvas so any export size looks the same.
+export interface ThumbnailLayout {
+  ratio: string;
+  // THUMBNAIL_TEMPLATES id the positions started from.
+  template: string;
+  background: ThumbnailBackground;
+  // Solid uses the first colour; gradient blends both.
+  colors: [string, string];
+  text: string;
+  font: string;
+  // Text line height as a fraction of the canvas height.
+  fontScale: number;
+  textColor: string;
+  strokeColor: string;
+  // Centre of the text box, and its width for wrapping.
+  textX: number;
+  textY: number;
+  textWidth: number;
+  // Centre of the cover and its height.
+  coverX: number;
+  coverY: number;
+  coverScale: number;
+  showBadge: boolean;
+}
+
+// A 30-60 second vertical clip mined from one chapter of the long-form script.
+export interface ShortClip {
+  id: string;
+  // ScriptBlock.index of the source chapter.
+  block: number;
+  chapter: string;
+  // 1-based, inclusive sentence range of the chapter text the clip was cut from.
+  sentenceStart: number;
+  sentenceEnd: number;
+  sourceExcerpt: string;
+  // Spoken in the first 3 seconds.
+  hook: string;
+  body: string;
+  // Points viewers to the full video.
+  cta: string;
+  title: string;
+  hashtags: string[];
+  visualPrompt: string;
+  // 1-10, how well the moment stands on its own and stops the scroll.
+  score: number;
+  rationale: string;
+}
+
+export type TtsProviderId = 'gemini' | 'local';
+
+export interface NarrationSettings {
+  provider: TtsProviderId;
+  voice: string;
+  // 1 = the voice's natural pace.
+  speed: number;
+  // Silence between chapters in the full track.
+  pauseSeconds: number;
+}
+
+// Narration of one chapter, kept in the project store next to (not inside) the project data.
+export interface NarrationAudio {
+  projectId: string;
+  // ScriptBlock.index of the chapter.
+  block: number;
+  // Fingerprint of the text and settings it was made from; a changed chapter no longer matches.
+  stamp: string;
+  // Measured from the audio, not estimated.
+  seconds: number;
+  wav: Blob;
+}
+
+// Steps of the full pipeline, in dependency order.
+export type PipelineStage = 'outline' | 'script' | 'seo' | 'visuals';
+
+export type BatchStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface BatchLogEntry {
+  at: number;
+  event: 'started' | 'stage' | 'paused' | 'done' | 'failed';
+  stage?: PipelineStage;
+  error?: string;
+}
+
+// One book in the batch queue. Everything not listed here (language, preset, narrator) comes from the editor
+// settings at the moment the book starts.
+export interface BatchItem {
+  id: string;
+  bookTitle: string;
+  durationMin: number;
+  chaptersCount: number;
+  frameRatio: string;
+  status: BatchStatus;
+  // Stage in progress, or the one that failed.
+  stage?: PipelineStage;
+  // Project the book is saved to; created when it first starts.
+  projectId?: string;
+  log: BatchLogEntry[];
+}
+
+// Fingerprints of the inputs each stage was last generated from; a stage is stale when its current inputs differ.
+export type PipelineStamps = Partial<Record<PipelineStage, string[]>>;
+
+export type ProviderId = 'gemini' | 'openai';
+
+// One model request, recorded against the project it was made for.
+export interface UsageRecord {
+  id: string;
+  projectId: string;
+  at: number;
+  // LoadingStates key of the action that made the request, or 'batch'.
+  task: string;
+  provider: ProviderId;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  // Estimated USD at the prices when it was made; 0 for answers served from the cache.
+  cost: number;
+  cached: boolean;
+}
+
+// 'cache' reads and writes, 'record' only writes, 'replay' only reads and never calls a provider.
+export type CacheMode = 'off' | 'cache' | 'record' | 'replay';
+
+// One key in the encrypted key vault; a provider can have several, used in list order.
+export interface ApiKeyEntry {
+  id: string;
+  provider: ProviderId;
+  label: string;
+  key: string;
+}
+
+// Outcome of the last request made with a key. 'quota' keys are tried again after the others; 'auth' keys are skipped.
+export interface KeyHealth {
+  status: 'ok' | 'quota' | 'auth';
+  at: number;
+  message?: string;
+}
+
+export interface ProviderInfo {
+  provider: ProviderId;
+  model: string;
+}
+
+export type PromptTemplateId = 'outline' | 'seo' | 'script' | 'videoPrompts' | 'thumbIdeas';
+
+export type PromptTemplates = Record<PromptTemplateId, string>;
+
+// A channel style: one template per generator. Built-in presets are read-only.
+export interface PromptPreset {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  templates: PromptTemplates;
+}
+
+export interface TemplatePack {
+  format: 'ai-content-creator-templates';
+  version: number;
+  exportedAt: string;
+  presets: PromptPreset[];
+}
+
+// Everything a project persists; bump PROJECT_SCHEMA_VERSION and add a migration when this changes.
+export interface ProjectData {
+  bookTitle: string;
+  bookImage: string | null;
+  bookMetadata: BookMetadata | null;
+  bookProfile: BookProfile | null;
+  durationMin: number;
+  chaptersCount: number;
+  frameRatio: string;
+  outputLanguage: OutputLanguage;
+  // PromptPreset id; unknown ids fall back to the default preset.
+  promptPreset: string;
+  // NARRATOR_PRESETS id, or 'custom' when speakingRate was edited by hand.
+  narratorPreset: string;
+  speakingRate: SpeakingRate;
+  includeIntro: boolean;
+  includeOutro: boolean;
+  outline: OutlineItem[];
+  scriptBlocks: ScriptBlock[];
+  seo: SEOResult | null;
+  videoPrompts: string[];
+  thumbTextIdeas: string[];
+  sources: SourceDocument[];
+  pipelineStamps: PipelineStamps;
+  storyboard: Storyboard | null;
+  // Target scene length for the next storyboard.
+  sceneSeconds: number;
+  thumbnail: ThumbnailLayout | null;
+  shorts: ShortClip[];
+  narration: NarrationSettings;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  schemaVersion: number;
+  data: ProjectData;
+}
+
+export interface ProjectFile {
+  format: 'ai-content-creator-project';
+  version: number;
+  exportedAt: string;
+  name: string;
+  data: ProjectData;
+}
+
+export type JobStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface JobState {
+  status: JobStatus;
+  attempts: number;
+  error?: string;
 }